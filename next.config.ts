@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // pdf-parse dan tesseract.js memuat worker dari node_modules saat runtime, jadi jangan di-bundle
+  serverExternalPackages: ['pdf-parse', 'tesseract.js'],
 };
 
 export default nextConfig;
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  EXPORT_FORMATS,
+  exportQuestionSet,
+  isExportFormat,
+  validateQuestionSet
+} from '@/lib/export/lms';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Nama file aman dari judul ujian
+ */
+function toFilename(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .slice(0, 60);
+  return `${slug || 'examcraft'}${extension}`;
+}
+
+/**
+ * Main handler untuk POST request. Body: { format, title?, sections? | questionType?, questions }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const format: unknown = body?.format;
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Format export tidak valid. Gunakan salah satu dari: ${Object.keys(EXPORT_FORMATS).map(name => `"${name}"`).join(', ')}.`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+
+    const { set, errors } = validateQuestionSet(body);
+    if (!set) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    const info = EXPORT_FORMATS[format];
+    const content = await exportQuestionSet(set, format);
+    console.log(`✅ EXPORT - ${set.questions.length} question(s) as ${info.label}`);
+
+    return new Response(typeof content === 'string' ? content : new Uint8Array(content), {
+      headers: {
+        'Content-Type': info.contentType,
+        'Content-Disposition': `attachment; filename="${toFilename(set.title, info.extension)}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error in export-questions API:', error);
+    return NextResponse.json(
+      {
+        error: 'Gagal membuat file export',
+        reason: 'server-error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handler untuk GET request (daftar format)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Question Export API',
+    formats: Object.entries(EXPORT_FORMATS).map(([format, info]) => ({ format, label: info.label, extension: info.extension }))
+  });
+}
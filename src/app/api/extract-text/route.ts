@@ -1,34 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
-
-// Import libraries untuk text extraction
-let pdfParse: any;
-let mammoth: any;
-
-// Dynamic imports untuk menghindari error saat build
-async function loadLibraries() {
-  if (!pdfParse) {
-    try {
-      const pdfModule = await import('pdf-parse');
-      // @ts-ignore - pdf-parse module has different export structure
-      pdfParse = pdfModule.default || pdfModule;
-    } catch (error) {
-      console.error('Failed to load pdf-parse:', error);
-      pdfParse = null;
-    }
-  }
-  if (!mammoth) {
-    try {
-      const mammothModule = await import('mammoth');
-      mammoth = mammothModule.default || mammothModule;
-    } catch (error) {
-      console.error('Failed to load mammoth:', error);
-      mammoth = null;
-    }
-  }
-}
+import { ApiErrorReason } from '@/lib/api/errors';
+import {
+  detectFileFormat,
+  extractText,
+  FILE_FORMATS,
+  OutlineEntry,
+  PositionedBlock,
+  SUPPORTED_FORMAT_LABELS
+} from '@/lib/extraction';
+import { enforceBodySize, enforceRateLimit } from '@/lib/rate-limit';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024; // boundary dan header form data
 
 /**
  * Interface untuk response
@@ -38,47 +21,13 @@ interface ExtractTextResponse {
   text?: string;
   filename?: string;
   fileType?: string;
+  pageCount?: number; // hanya untuk format berhalaman (PDF, PPTX)
+  outline?: OutlineEntry[]; // daftar heading untuk memilih bab
+  blocks?: PositionedBlock[]; // heading dan paragraf beserta halaman dan posisinya di `text`
+  ocr?: boolean; // true jika teks (sebagian) dibaca dengan OCR
   error?: string;
-}
-
-/**
- * Fungsi untuk ekstrak teks dari PDF
- */
-async function extractFromPDF(buffer: Buffer): Promise<string> {
-  await loadLibraries();
-  const data = await pdfParse(buffer);
-  return data.text;
-}
-
-/**
- * Fungsi untuk ekstrak teks dari DOCX
- */
-async function extractFromDOCX(buffer: Buffer): Promise<string> {
-  await loadLibraries();
-  const result = await mammoth.extractRawText({ buffer });
-  return result.value;
-}
-
-/**
- * Fungsi untuk ekstrak teks dari file text biasa
- */
-function extractFromText(buffer: Buffer): string {
-  return buffer.toString('utf-8');
-}
-
-/**
- * Validasi file type
- */
-function isValidFileType(filename: string, mimeType: string): boolean {
-  const validExtensions = ['.pdf', '.docx', '.txt'];
-  const validMimeTypes = [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'text/plain'
-  ];
-  
-  const extension = filename.toLowerCase().substring(filename.lastIndexOf('.'));
-  return validExtensions.includes(extension) && validMimeTypes.includes(mimeType);
+  reason?: ApiErrorReason;
+  limit?: number; // batas untuk `reason` "file-too-large"
 }
 
 /**
@@ -86,6 +35,10 @@ function isValidFileType(filename: string, mimeType: string): boolean {
  */
 export async function POST(request: NextRequest) {
   try {
+    // Upload berlebih ditolak sebelum form data dibaca
+    const limited = enforceBodySize(request.headers, MAX_FILE_SIZE + MULTIPART_OVERHEAD_BYTES) ?? await enforceRateLimit(request.headers, 'extract');
+    if (limited) return limited;
+
     // Parse form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -94,23 +47,28 @@ export async function POST(request: NextRequest) {
     if (!file) {
       return NextResponse.json<ExtractTextResponse>({
         success: false,
-        error: 'Tidak ada file yang diupload'
+        error: 'Tidak ada file yang diupload',
+        reason: 'file-missing'
       }, { status: 400 });
     }
 
     // Validasi file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_FILE_SIZE) {
       return NextResponse.json<ExtractTextResponse>({
         success: false,
-        error: 'Ukuran file maksimal 10MB'
+        error: 'Ukuran file maksimal 10MB',
+        reason: 'file-too-large',
+        limit: MAX_FILE_SIZE / (1024 * 1024)
       }, { status: 400 });
     }
 
     // Validasi file type
-    if (!isValidFileType(file.name, file.type)) {
+    const format = detectFileFormat(file.name, file.type);
+    if (!format) {
       return NextResponse.json<ExtractTextResponse>({
         success: false,
-        error: 'Tipe file tidak didukung. Gunakan PDF, DOCX, atau TXT'
+        error: `Tipe file tidak didukung. Gunakan ${SUPPORTED_FORMAT_LABELS.join(', ')}`,
+        reason: 'unsupported-file'
       }, { status: 400 });
     }
 
@@ -119,52 +77,38 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(bytes);
 
     // Ekstrak teks berdasarkan tipe file
-    let extractedText = '';
-    const fileType = file.name.toLowerCase().substring(file.name.lastIndexOf('.') + 1);
+    const fileType = FILE_FORMATS[format].label;
 
     try {
-      switch (fileType) {
-        case 'pdf':
-          extractedText = await extractFromPDF(buffer);
-          break;
-        case 'docx':
-          extractedText = await extractFromDOCX(buffer);
-          break;
-        case 'txt':
-          extractedText = extractFromText(buffer);
-          break;
-        default:
-          throw new Error('Tipe file tidak didukung');
-      }
+      const extracted = await extractText(buffer, format);
 
       // Validasi hasil ekstraksi
-      if (!extractedText || extractedText.trim().length < 10) {
+      if (!extracted.text || extracted.text.trim().length < 10) {
         return NextResponse.json<ExtractTextResponse>({
           success: false,
-          error: 'Tidak dapat mengekstrak teks dari file. Pastikan file mengandung teks yang dapat dibaca.'
+          error: 'Tidak dapat mengekstrak teks dari file. Pastikan file mengandung teks yang dapat dibaca.',
+          reason: 'text-not-found'
         }, { status: 400 });
       }
 
-      // Optional: Save file ke disk (untuk debugging)
-      // const uploadsDir = join(process.cwd(), 'uploads');
-      // if (!existsSync(uploadsDir)) {
-      //   await mkdir(uploadsDir, { recursive: true });
-      // }
-      // await writeFile(join(uploadsDir, file.name), buffer);
-
       // Return success response
       return NextResponse.json<ExtractTextResponse>({
         success: true,
-        text: extractedText,
+        text: extracted.text,
         filename: file.name,
-        fileType: fileType.toUpperCase()
+        fileType,
+        pageCount: extracted.pageCount,
+        outline: extracted.outline,
+        blocks: extracted.blocks,
+        ocr: extracted.ocr
       });
 
     } catch (extractError) {
       console.error('Error extracting text:', extractError);
       return NextResponse.json<ExtractTextResponse>({
         success: false,
-        error: `Gagal mengekstrak teks dari ${fileType.toUpperCase()}: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`
+        error: `Gagal mengekstrak teks dari ${fileType}: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`,
+        reason: 'extraction-failed'
       }, { status: 500 });
     }
 
@@ -172,7 +116,8 @@ export async function POST(request: NextRequest) {
     console.error('Error in extract-text API:', error);
     return NextResponse.json<ExtractTextResponse>({
       success: false,
-      error: 'Terjadi kesalahan saat memproses file. Silakan coba lagi.'
+      error: 'Terjadi kesalahan saat memproses file. Silakan coba lagi.',
+      reason: 'server-error'
     }, { status: 500 });
   }
 }
@@ -187,7 +132,7 @@ export async function GET() {
     endpoints: {
       'POST /api/extract-text': 'Extract text from uploaded file',
     },
-    supportedFormats: ['PDF', 'DOCX', 'TXT'],
+    supportedFormats: SUPPORTED_FORMAT_LABELS,
     maxFileSize: '10MB'
   });
 }
@@ -1,94 +1,266 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  configErrorResponse,
+  FallbackTarget,
+  getFallbackChainFromEnv,
+  getRetryPolicyFromEnv,
+  internalErrorResponse,
+  PROVIDER_NAMES,
+  providerErrorResponse
+} from '@/lib/llm';
+import { generateQuestionEvents, generateQuestions, GenerationResult } from '@/lib/questions/generator';
+import { getChunkMaxCharsFromEnv } from '@/lib/questions/chunking';
+import {
+  ExamResult,
+  generateExam,
+  generateExamEvents,
+  NormalizedSection,
+  validateBlueprint
+} from '@/lib/questions/blueprint';
+import { countByBloomLevel, parseBloomLevels, parseObjectives } from '@/lib/questions/bloom';
+import { OUTPUT_LANGUAGES, parseOutputLanguage } from '@/lib/questions/language';
+import {
+  enforceBodySize,
+  enforceQuestionQuota,
+  enforceRateLimit,
+  getMaxMaterialLength,
+  MAX_JSON_BODY_BYTES,
+  releaseQuestionQuota
+} from '@/lib/rate-limit';
+import { Blueprint, GenerateRequest, QUESTION_TYPES } from '@/lib/questions/types';
 
-// Interface untuk tipe data request
-interface GenerateRequest {
-  material: string;
-  questionType: 'multiple-choice' | 'essay';
-  questionCount: number;
-  difficulty?: 'easy' | 'medium' | 'hard';
+// Body request bisa meminta streaming NDJSON dengan `stream: true`.
+// Jika `blueprint` diisi, questionType/questionCount/difficulty diabaikan.
+// `avoidQuestions` berisi teks soal yang sudah ada, mis. saat membuat ulang satu soal.
+// `language` menentukan bahasa soal; di blueprint berlaku untuk semua bagian.
+interface GenerateRequestBody extends GenerateRequest {
+  stream?: boolean;
+  blueprint?: Blueprint;
+  avoidQuestions?: string[];
 }
 
-// Interface untuk tipe data response
-interface QuestionResponse {
-  questions: Array<{
-    question: string;
-    options?: string[]; // untuk pilihan ganda
-    correctAnswer?: string; // untuk pilihan ganda, isian, benar/salah
-    explanation?: string; // opsional
-  }>;
+const MAX_AVOID_QUESTIONS = 200;
+
+/**
+ * Metadata response untuk mode biasa maupun streaming
+ */
+function buildMetadata(body: GenerateRequest, result: GenerationResult) {
+  const { completion } = result;
+  return {
+    model: completion.model,
+    questionType: body.questionType,
+    questionCount: body.questionCount,
+    language: body.language,
+    returnedCount: result.questions.length,
+    bloomDistribution: countByBloomLevel(result.questions),
+    materialLength: body.material.length,
+    aiPowered: completion.provider !== 'mock',
+    apiProvider: completion.providerLabel,
+    attempts: result.attempts,
+    fallbackUsed: completion.fallbackUsed,
+    repairRounds: result.repairRounds,
+    discardedInvalid: result.discarded,
+    discardedDuplicates: result.duplicates,
+    chunks: result.chunks,
+    note: `Generated using ${completion.providerLabel} with ${completion.model} model`
+  };
 }
 
 /**
- * Fungsi untuk membuat prompt berdasarkan jenis soal
+ * Response streaming NDJSON: satu baris JSON per event. `run` mengirim event
+ * lewat `send`; error yang tidak tertangani dikirim sebagai event "error".
  */
-function createPrompt(request: GenerateRequest): string {
-  const { material, questionType, questionCount, difficulty = 'medium' } = request;
-  
-  let prompt = `Berdasarkan materi pembelajaran berikut, buat ${questionCount} soal ${getQuestionTypeLabel(questionType)} dengan tingkat kesulitan ${difficulty}.\n\n`;
-  prompt += `Materi:\n${material}\n\n`;
-  prompt += `Buat soal dalam format JSON yang valid dengan struktur berikut:\n`;
-  
-  switch (questionType) {
-    case 'multiple-choice':
-      prompt += `{
-  "questions": [
-    {
-      "question": "pertanyaan",
-      "options": ["opsi A", "opsi B", "opsi C", "opsi D"],
-      "correctAnswer": "opsi yang benar",
-      "explanation": "penjelasan singkat"
+function createNdjsonResponse(
+  requestSignal: AbortSignal,
+  run: (send: (event: object) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  requestSignal.addEventListener('abort', () => controller.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send = (event: object) => streamController.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+      try {
+        await run(send, controller.signal);
+      } catch (streamError) {
+        if (controller.signal.aborted) {
+          console.log('⏹️ Streaming dibatalkan oleh client');
+        } else {
+          console.error('❌ LLM Stream Error Details:', streamError);
+          send({ type: 'error', error: 'Silahkan Coba Lagi', reason: 'generation-failed' });
+        }
+      }
+
+      try {
+        streamController.close();
+      } catch {
+        // Stream sudah ditutup karena client membatalkan
+      }
+    },
+    cancel() {
+      controller.abort();
     }
-  ]
-}`;
-      break;
-    case 'essay':
-      prompt += `{
-  "questions": [
-    {
-      "question": "pertanyaan esai yang memerlukan jawaban panjang",
-      "explanation": "petunjuk atau kriteria penilaian"
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform'
     }
-  ]
-}`;
-      break;
-  }
-  
-  prompt += `\n\nPastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
-  
-  return prompt;
+  });
 }
 
-// Note: generator fallback removed — only OpenRouter is used to generate questions.
-function getQuestionTypeLabel(type: string): string {
-  switch (type) {
-    case 'multiple-choice':
-      return 'pilihan ganda';
-    case 'essay':
-      return 'esai';
-    default:
-      return 'umum';
-  }
+/**
+ * Streaming satu jenis soal:
+ * - {"type":"start","total":N}
+ * - {"type":"question","index":i,"question":{...}} untuk setiap soal valid
+ * - {"type":"done","metadata":{...}} atau {"type":"error","error":"...","reason":"..."}
+ *
+ * Kuota soal yang tidak terkirim (gagal atau dibatalkan) dikembalikan.
+ */
+function streamQuestions(body: GenerateRequestBody, chain: FallbackTarget[], request: NextRequest): Response {
+  return createNdjsonResponse(request.signal, async (send, signal) => {
+    send({ type: 'start', total: body.questionCount });
+    let delivered = 0;
+    try {
+      for await (const event of generateQuestionEvents(body, {
+        chain,
+        policy: getRetryPolicyFromEnv(),
+        signal,
+        stream: true,
+        chunkMaxChars: getChunkMaxCharsFromEnv(),
+        avoidQuestions: body.avoidQuestions
+      })) {
+        if (event.type === 'question') {
+          delivered++;
+          send({ type: 'question', index: event.index, question: event.question });
+        } else {
+          console.log(`✅ STREAM DONE - ${event.result.questions.length} valid question(s) from ${event.result.completion.providerLabel}`);
+          send({ type: 'done', metadata: buildMetadata(body, event.result) });
+        }
+      }
+    } finally {
+      await releaseQuestionQuota(request.headers, Number(body.questionCount) - delivered);
+    }
+  });
 }
 
 /**
- * Fungsi untuk membersihkan dan mem-parsing JSON response dari AI
+ * Streaming ujian blueprint. Event "start" menyertakan daftar bagian dan
+ * setiap event "question" menyertakan `sectionIndex`.
  */
-function parseAIResponse(response: string): QuestionResponse {
-  try {
-    // Coba parse langsung
-    return JSON.parse(response);
-  } catch (error) {
-    // Jika gagal, coba ekstrak JSON dari string
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]);
-      } catch (e) {
-        throw new Error('Gagal mem-parsing response dari AI');
+function streamExam(
+  material: string,
+  sections: NormalizedSection[],
+  chain: FallbackTarget[],
+  request: NextRequest
+): Response {
+  return createNdjsonResponse(request.signal, async (send, signal) => {
+    const total = countSectionQuestions(sections);
+    send({ type: 'start', total, sections });
+    let delivered = 0;
+    try {
+      for await (const event of generateExamEvents(material, sections, {
+        chain,
+        policy: getRetryPolicyFromEnv(),
+        signal,
+        stream: true,
+        chunkMaxChars: getChunkMaxCharsFromEnv()
+      })) {
+        if (event.type === 'question') {
+          delivered++;
+          send({ type: 'question', sectionIndex: event.sectionIndex, index: event.index, question: event.question });
+        } else {
+          console.log(`✅ STREAM DONE - ${event.result.totalQuestions} valid question(s) in ${sections.length} section(s)`);
+          send({ type: 'done', metadata: buildExamMetadata(material, event.result) });
+        }
       }
+    } finally {
+      await releaseQuestionQuota(request.headers, total - delivered);
     }
-    throw new Error('Response dari AI tidak mengandung JSON yang valid');
+  });
+}
+
+function countSectionQuestions(sections: NormalizedSection[]): number {
+  return sections.reduce((sum, section) => sum + section.questionCount, 0);
+}
+
+/**
+ * Ringkasan ujian tanpa daftar soal, untuk metadata
+ */
+function buildExamMetadata(material: string, result: ExamResult) {
+  const { completion } = result;
+  return {
+    model: completion.model,
+    sections: result.sections.map(({ questions, ...section }) => ({ ...section, returnedCount: questions.length })),
+    totalQuestions: result.totalQuestions,
+    bloomDistribution: countByBloomLevel(result.sections.flatMap(section => section.questions)),
+    totalPoints: result.totalPoints,
+    materialLength: material.length,
+    aiPowered: completion.provider !== 'mock',
+    apiProvider: completion.providerLabel,
+    attempts: result.attempts,
+    fallbackUsed: completion.fallbackUsed,
+    repairRounds: result.repairRounds,
+    discardedInvalid: result.discarded,
+    discardedDuplicates: result.duplicates,
+    note: `Generated using ${completion.providerLabel} with ${completion.model} model`
+  };
+}
+
+/**
+ * Handler ujian blueprint (body berisi `blueprint`)
+ */
+async function handleBlueprint(body: GenerateRequestBody, chain: FallbackTarget[], request: NextRequest): Promise<Response> {
+  const { sections, errors } = validateBlueprint(body.blueprint, { language: body.language });
+  if (!sections) {
+    return NextResponse.json(
+      { error: `Blueprint tidak valid: ${errors.join('; ')}`, reason: 'invalid-blueprint' },
+      { status: 400 }
+    );
+  }
+
+  const requestedCount = countSectionQuestions(sections);
+  const quotaExceeded = await enforceQuestionQuota(request.headers, requestedCount);
+  if (quotaExceeded) return quotaExceeded;
+
+  console.log('Generating exam:', { sections: sections.length, materialLength: body.material.length, stream: !!body.stream });
+
+  if (body.stream) {
+    return streamExam(body.material, sections, chain, request);
   }
+
+  let result: ExamResult;
+  try {
+    result = await generateExam(body.material, sections, {
+      chain,
+      policy: getRetryPolicyFromEnv(),
+      signal: request.signal,
+      chunkMaxChars: getChunkMaxCharsFromEnv()
+    });
+  } catch (providerError) {
+    await releaseQuestionQuota(request.headers, requestedCount);
+    throw providerError;
+  }
+  // Soal dari bagian yang gagal tidak dihitung ke kuota
+  await releaseQuestionQuota(request.headers, requestedCount - result.totalQuestions);
+  console.log(`✅ SUCCESS - ${result.totalQuestions} valid question(s) in ${sections.length} section(s)`);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      exam: {
+        sections: result.sections.map(({ title, questionType, difficulty, points, language, questions, error }) => ({
+          title, questionType, difficulty, points, language, questions, error
+        })),
+        totalQuestions: result.totalQuestions,
+        totalPoints: result.totalPoints
+      }
+    },
+    metadata: buildExamMetadata(body.material, result)
+  });
 }
 
 /**
@@ -96,120 +268,130 @@ function parseAIResponse(response: string): QuestionResponse {
  */
 export async function POST(request: NextRequest) {
   try {
-    // Validasi API key - hanya OpenRouter diperbolehkan
-    if (!process.env.OPENROUTER_API_KEY) {
-      return NextResponse.json(
-        { error: 'Silahkan Coba Lagi' },
-        { status: 500 }
-      );
+    // Tolak request berlebih sebelum body dibaca dan sebelum provider dipanggil
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'generate');
+    if (limited) return limited;
+
+    // Susun rantai provider/model dari environment (LLM_FALLBACK_CHAIN atau LLM_PROVIDER + LLM_MODEL)
+    let chain: FallbackTarget[];
+    try {
+      chain = getFallbackChainFromEnv();
+    } catch (configError) {
+      return configErrorResponse(configError);
     }
 
     // Parse request body
-    const body: GenerateRequest = await request.json();
+    const body: GenerateRequestBody = await request.json();
     const { material, questionType, questionCount } = body;
 
     // Validasi input
     if (!material || material.trim().length < 50) {
       return NextResponse.json(
-        { error: 'materi terlalu singkat' },
+        { error: 'materi terlalu singkat', reason: 'material-too-short' },
         { status: 400 }
       );
     }
 
-    if (!questionType || !['multiple-choice', 'essay'].includes(questionType)) {
+    const maxMaterialLength = getMaxMaterialLength();
+    if (material.length > maxMaterialLength) {
       return NextResponse.json(
-        { error: 'Jenis soal tidak valid. Hanya "multiple-choice" dan "essay" yang didukung.' },
+        { error: `materi terlalu panjang, maksimal ${maxMaterialLength} karakter`, reason: 'material-too-long', limit: maxMaterialLength },
+        { status: 413 }
+      );
+    }
+
+    const { language, error: languageError } = parseOutputLanguage(body.language);
+    if (languageError) {
+      return NextResponse.json(
+        { error: languageError, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+    body.language = language;
+
+    if (body.blueprint !== undefined) {
+      try {
+        return await handleBlueprint(body, chain, request);
+      } catch (providerError) {
+        return providerErrorResponse(providerError);
+      }
+    }
+
+    if (!questionType || !QUESTION_TYPES.includes(questionType)) {
+      return NextResponse.json(
+        { error: `Jenis soal tidak valid. Gunakan salah satu dari: ${QUESTION_TYPES.map(type => `"${type}"`).join(', ')}.`, reason: 'invalid-request' },
         { status: 400 }
       );
     }
 
     if (!questionCount || questionCount < 1 || questionCount > 10) {
       return NextResponse.json(
-        { error: 'Jumlah soal harus antara 1-10' },
+        { error: 'Jumlah soal harus antara 1-10', reason: 'invalid-request' },
         { status: 400 }
       );
     }
 
-    // Buat prompt untuk AI
-    const prompt = createPrompt(body);
+    const { levels, error: bloomError } = parseBloomLevels(body.bloomLevels);
+    const { objectives, error: objectiveError } = parseObjectives(body.objectives);
+    if (bloomError || objectiveError) {
+      return NextResponse.json(
+        { error: bloomError ?? objectiveError, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+    body.bloomLevels = levels;
+    body.objectives = objectives;
 
-    console.log('Sending prompt to AI:', prompt.substring(0, 100) + '...');
+    const { avoidQuestions } = body;
+    if (avoidQuestions !== undefined && (
+      !Array.isArray(avoidQuestions) ||
+      avoidQuestions.length > MAX_AVOID_QUESTIONS ||
+      !avoidQuestions.every(question => typeof question === 'string')
+    )) {
+      return NextResponse.json(
+        { error: `"avoidQuestions" harus berupa array teks soal (maksimal ${MAX_AVOID_QUESTIONS})`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
 
-    // Coba OpenRouter API - satu-satunya provider
-    if (process.env.OPENROUTER_API_KEY) {
-      try {
-        console.log('🚀 Attempting OpenRouter API with model meta-llama/llama-3.2-3b-instruct:free...');
-        
-        // OpenRouter API call
-        const openrouterResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-            'HTTP-Referer': 'http://localhost:3000',
-            'X-Title': 'ExamCraft AI',
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'meta-llama/llama-3.2-3b-instruct:free',
-            messages: [
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            max_tokens: 1000,
-            temperature: 0.7
-          })
-        });
-
-        if (!openrouterResponse.ok) {
-          const errorData = await openrouterResponse.json();
-          throw new Error(`OpenRouter API Error: ${JSON.stringify(errorData)}`);
-        }
+    const requestedCount = Number(questionCount);
+    const quotaExceeded = await enforceQuestionQuota(request.headers, requestedCount);
+    if (quotaExceeded) return quotaExceeded;
 
-        const openrouterData = await openrouterResponse.json();
-        const response = openrouterData.choices[0].message.content;
-        const modelUsed = 'meta-llama/llama-3.2-3b-instruct:free';
-        console.log('✅ SUCCESS - Received response from OpenRouter:', response.substring(0, 200) + '...');
-        
-        // Parse response dari AI
-        const parsedResponse = parseAIResponse(response);
-
-        // Return success response dengan AI
-        return NextResponse.json({
-          success: true,
-          data: parsedResponse,
-          metadata: {
-            model: modelUsed,
-            questionType,
-            questionCount,
-            materialLength: material.length,
-            aiPowered: true,
-            apiProvider: 'OpenRouter',
-            note: 'Generated using OpenRouter API with meta-llama/llama-3.2-3b-instruct:free model'
-          }
-        });
-        
-      } catch (openrouterError) {
-        console.error('❌ OpenRouter API Error Details:', openrouterError);
-        return NextResponse.json(
-          { error: 'Silahkan Coba Lagi' },
-          { status: 500 }
-        );
-      }
+    console.log('Generating questions:', { questionType, questionCount, language, materialLength: material.length, avoid: avoidQuestions?.length ?? 0, stream: !!body.stream });
+
+    if (body.stream) {
+      return streamQuestions(body, chain, request);
+    }
+
+    try {
+      // Generate + validasi skema, dengan ronde perbaikan jika ada soal yang tidak valid
+      const result = await generateQuestions(body, {
+        chain,
+        policy: getRetryPolicyFromEnv(),
+        signal: request.signal,
+        chunkMaxChars: getChunkMaxCharsFromEnv(),
+        avoidQuestions
+      });
+
+      console.log(`✅ SUCCESS - ${result.questions.length} valid question(s) from ${result.completion.providerLabel} after ${result.attempts} attempt(s)`);
+      // Soal yang tidak lolos validasi tidak dihitung ke kuota
+      await releaseQuestionQuota(request.headers, requestedCount - result.questions.length);
+
+      // Return success response dengan AI
+      return NextResponse.json({
+        success: true,
+        data: { questions: result.questions },
+        metadata: buildMetadata(body, result)
+      });
+
+    } catch (providerError) {
+      await releaseQuestionQuota(request.headers, requestedCount);
+      return providerErrorResponse(providerError);
     }
 
   } catch (error) {
-    console.error('Error in generate-questions API:', error);
-    
-    // Return error response
-    return NextResponse.json(
-      { 
-        error: 'Silahkan Coba Lagi',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    return internalErrorResponse('generate-questions', error);
   }
 }
 
@@ -222,10 +404,14 @@ export async function GET() {
     version: '1.0.0',
     endpoints: {
       'POST /api/generate-questions': 'Generate questions from learning material',
+      'POST /api/generate-questions (stream: true)': 'Stream questions as NDJSON events',
+      'POST /api/generate-questions (blueprint)': 'Generate a mixed-type exam grouped by section',
+      'POST /api/generate-questions (avoidQuestions)': 'Generate questions that do not repeat the given ones, e.g. to replace a single question',
+      'POST /api/generate-questions (language)': 'Write the questions in the given language regardless of the material language',
     },
-    supportedQuestionTypes: [
-      'multiple-choice',
-      'essay'
-    ]
+    supportedQuestionTypes: QUESTION_TYPES,
+    supportedLanguages: OUTPUT_LANGUAGES,
+    providers: PROVIDER_NAMES,
+    fallbackChain: process.env.LLM_FALLBACK_CHAIN || process.env.LLM_PROVIDER || 'openrouter'
   });
 }
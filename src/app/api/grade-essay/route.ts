@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  configErrorResponse,
+  FallbackTarget,
+  getFallbackChainFromEnv,
+  getRetryPolicyFromEnv,
+  internalErrorResponse,
+  providerErrorResponse
+} from '@/lib/llm';
+import { gradeEssay } from '@/lib/questions/essay-grading';
+import { validateGradeRequest } from '@/lib/questions/essay-scoring';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Main handler untuk POST request. Body: { question, rubric, answer }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'ai');
+    if (limited) return limited;
+
+    let chain: FallbackTarget[];
+    try {
+      chain = getFallbackChainFromEnv();
+    } catch (configError) {
+      return configErrorResponse(configError);
+    }
+
+    const body = await request.json();
+    const { request: gradeRequest, errors } = validateGradeRequest(body ?? {});
+    if (!gradeRequest) {
+      return NextResponse.json(
+        { error: `Request penilaian tidak valid: ${errors.join('; ')}`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+
+    console.log('Grading essay:', { criteria: gradeRequest.rubric.criteria.length, answerLength: gradeRequest.answer.length });
+
+    try {
+      const result = await gradeEssay(gradeRequest, {
+        chain,
+        policy: getRetryPolicyFromEnv(),
+        signal: request.signal
+      });
+      const { completion } = result;
+      console.log(`✅ GRADED - ${result.grade.score}/${result.grade.maxScore} from ${completion.providerLabel}`);
+
+      return NextResponse.json({
+        success: true,
+        data: { grade: result.grade },
+        metadata: {
+          model: completion.model,
+          aiPowered: completion.provider !== 'mock',
+          apiProvider: completion.providerLabel,
+          attempts: result.attempts,
+          fallbackUsed: completion.fallbackUsed,
+          repairRounds: result.repairRounds
+        }
+      });
+    } catch (providerError) {
+      return providerErrorResponse(providerError);
+    }
+  } catch (error) {
+    return internalErrorResponse('grade-essay', error);
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Essay Grading API',
+    endpoints: {
+      'POST /api/grade-essay': 'Grade an essay answer against its rubric, with a score and justification per criterion'
+    }
+  });
+}
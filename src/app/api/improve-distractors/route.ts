@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateQuestionSet } from '@/lib/export/lms';
+import {
+  configErrorResponse,
+  FallbackTarget,
+  getFallbackChainFromEnv,
+  getRetryPolicyFromEnv,
+  internalErrorResponse,
+  providerErrorResponse
+} from '@/lib/llm';
+import { improveDistractors } from '@/lib/questions/distractors';
+import { MAX_GROUNDING_MATERIAL_LENGTH } from '@/lib/questions/grounding';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Main handler untuk POST request.
+ * Body: { questions (pilihan ganda), material? }. Hanya pengecoh yang lemah
+ * menurut analisis yang dibuat ulang; pokok soal dan kunci jawaban tetap.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'ai');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const material: unknown = body?.material;
+    if (material !== undefined && (typeof material !== 'string' || material.length > MAX_GROUNDING_MATERIAL_LENGTH)) {
+      return NextResponse.json(
+        { error: `"material" harus berupa teks maksimal ${MAX_GROUNDING_MATERIAL_LENGTH} karakter`, reason: 'material-too-long', limit: MAX_GROUNDING_MATERIAL_LENGTH },
+        { status: 400 }
+      );
+    }
+
+    const { set, errors } = validateQuestionSet({ questionType: 'multiple-choice', questions: body?.questions });
+    if (!set) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    let chain: FallbackTarget[];
+    try {
+      chain = getFallbackChainFromEnv();
+    } catch (configError) {
+      return configErrorResponse(configError);
+    }
+
+    let report;
+    try {
+      report = await improveDistractors(
+        set.questions.map(question => ({ id: question.id, question })),
+        material?.trim() || undefined,
+        { chain, policy: getRetryPolicyFromEnv(), signal: request.signal }
+      );
+    } catch (providerError) {
+      return providerErrorResponse(providerError);
+    }
+
+    const improvedCount = report.results.filter(result => result.improved).length;
+    const { completion } = report;
+    console.log(`✅ DISTRACTORS - ${improvedCount}/${report.results.length} question(s) improved${completion ? ` with ${completion.providerLabel}` : ''}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { results: report.results, improvedCount },
+      metadata: {
+        model: completion?.model,
+        apiProvider: completion?.providerLabel,
+        attempts: report.attempts
+      }
+    });
+  } catch (error) {
+    return internalErrorResponse('improve-distractors', error);
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Distractor Improvement API',
+    endpoints: {
+      'POST /api/improve-distractors': 'Score multiple-choice option sets against item-writing rules and regenerate only the weak distractors'
+    }
+  });
+}
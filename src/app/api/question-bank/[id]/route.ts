@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteBankQuestion,
+  DuplicateQuestionError,
+  getBankQuestion,
+  updateBankQuestion,
+  validateBankUpdate
+} from '@/lib/bank';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * ID soal dari URL; null jika bukan bilangan bulat positif
+ */
+async function readId(context: RouteParams): Promise<number | null> {
+  const { id } = await context.params;
+  const value = Number(id);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function notFound() {
+  return NextResponse.json(
+    { error: 'Soal tidak ditemukan di bank', reason: 'not-found' },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown, message: string) {
+  console.error('Error in question-bank API:', error);
+  return NextResponse.json(
+    {
+      error: message,
+      reason: 'server-error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
+
+/**
+ * Handler untuk GET request: satu soal beserta materi sumbernya
+ */
+export async function GET(_request: NextRequest, context: RouteParams) {
+  try {
+    const id = await readId(context);
+    const question = id === null ? undefined : getBankQuestion(id);
+    if (!question) return notFound();
+    return NextResponse.json({ success: true, data: { question } });
+  } catch (error) {
+    return serverError(error, 'Gagal membaca bank soal');
+  }
+}
+
+/**
+ * Handler untuk PATCH request. Body: { question?, difficulty?, subject?, tags? }
+ */
+export async function PATCH(request: NextRequest, context: RouteParams) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const id = await readId(context);
+    const existing = id === null ? undefined : getBankQuestion(id, undefined, false);
+    if (id === null || !existing) return notFound();
+
+    const body = await request.json();
+    const { update, errors } = validateBankUpdate(body ?? {}, existing.questionType);
+    if (!update) {
+      return NextResponse.json(
+        { error: `Perubahan tidak valid: ${errors.join('; ')}`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const question = updateBankQuestion(id, update);
+      if (!question) return notFound();
+      return NextResponse.json({ success: true, data: { question } });
+    } catch (updateError) {
+      if (updateError instanceof DuplicateQuestionError) {
+        return NextResponse.json(
+          { error: updateError.message, reason: 'duplicate-question', existingId: updateError.existingId },
+          { status: 409 }
+        );
+      }
+      throw updateError;
+    }
+  } catch (error) {
+    return serverError(error, 'Gagal mengubah soal di bank');
+  }
+}
+
+/**
+ * Handler untuk DELETE request
+ */
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    const limited = await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const id = await readId(context);
+    if (id === null || !deleteBankQuestion(id)) return notFound();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return serverError(error, 'Gagal menghapus soal dari bank');
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assembleExamFromBank, normalizeTags } from '@/lib/bank';
+import { validateBlueprint } from '@/lib/questions/blueprint';
+import { parseOutputLanguage } from '@/lib/questions/language';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Handler untuk POST request: susun ujian dari bank soal.
+ * Body: { blueprint: { sections }, subject?, tags?, language? }. Bagian tanpa
+ * `difficulty` mengambil soal dari semua tingkat kesulitan; `language` hanya
+ * menentukan bahasa judul bawaan bagian. Response sama dengan
+ * mode blueprint di /api/generate-questions, jadi hasilnya bisa langsung dipakai.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const { language, error: languageError } = parseOutputLanguage(body?.language);
+    const { sections, errors } = validateBlueprint(body?.blueprint, { language, optionalDifficulty: true });
+    if (languageError) errors.push(languageError);
+    const tags = normalizeTags(body?.tags, errors);
+    const subject = typeof body?.subject === 'string' && body.subject.trim() ? body.subject.trim() : undefined;
+    if (!sections || errors.length > 0) {
+      return NextResponse.json(
+        { error: `Blueprint tidak valid: ${errors.join('; ')}`, reason: 'invalid-blueprint' },
+        { status: 400 }
+      );
+    }
+
+    const exam = assembleExamFromBank(sections, { subject, tags });
+    if (exam.totalQuestions === 0) {
+      return NextResponse.json(
+        { error: 'Tidak ada soal di bank yang cocok dengan blueprint', reason: 'bank-no-match' },
+        { status: 404 }
+      );
+    }
+    console.log(`✅ BANK EXAM - ${exam.totalQuestions} question(s) in ${sections.length} section(s)`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        exam: {
+          sections: exam.sections.map(({ title, questionType, questionCount, difficulty, points, questions, error }) => ({
+            title, questionType, questionCount, difficulty, points, questions, error
+          })),
+          totalQuestions: exam.totalQuestions,
+          totalPoints: exam.totalPoints
+        }
+      },
+      metadata: { source: 'question-bank', subject, tags }
+    });
+  } catch (error) {
+    console.error('Error in question-bank assemble API:', error);
+    return NextResponse.json(
+      {
+        error: 'Gagal menyusun ujian dari bank soal',
+        reason: 'server-error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Question Bank Assembly API',
+    endpoints: {
+      'POST /api/question-bank/assemble': 'Assemble an exam from banked questions following a blueprint, optionally filtered by subject and tags'
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findBankDuplicates } from '@/lib/bank';
+import { validateQuestionSet } from '@/lib/export/lms';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Handler untuk POST request: cari soal bank yang mirip dengan soal yang dikirim.
+ * Body sama seperti export: { sections? | questionType?, questions }. Soal yang
+ * membawa `bankId` (diambil dari bank) tidak dibandingkan dengan dirinya sendiri.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const { set, errors } = validateQuestionSet(body ?? {});
+    if (!set) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    const matches = findBankDuplicates(set.questions.map((question, index) => {
+      const bankId = body.questions[index]?.bankId;
+      return {
+        questionType: set.sections[question.sectionIndex].questionType,
+        question,
+        bankId: typeof bankId === 'number' ? bankId : undefined
+      };
+    }));
+    const results = set.questions
+      .map((question, index) => ({ id: question.id, matches: matches[index] }))
+      .filter(result => result.matches.length > 0);
+    console.log(`✅ BANK DUPLICATES - ${results.length}/${set.questions.length} question(s) similar to banked questions`);
+
+    return NextResponse.json({
+      success: true,
+      data: { results, duplicateCount: results.length }
+    });
+  } catch (error) {
+    console.error('Error in question-bank duplicates API:', error);
+    return NextResponse.json(
+      {
+        error: 'Gagal memeriksa soal mirip di bank soal',
+        reason: 'server-error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Question Bank Duplicate Check API',
+    endpoints: {
+      'POST /api/question-bank/duplicates': 'Find banked questions of the same type that duplicate or closely paraphrase the given questions'
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createBankQuestions,
+  getBankFacets,
+  parseBankFilters,
+  searchBankQuestions,
+  validateBankInputs
+} from '@/lib/bank';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Handler untuk GET request: cari soal di bank.
+ * Query: q, type, difficulty, subject, tag (boleh berulang), bloomLevel, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { filters, page, errors } = parseBankFilters(request.nextUrl.searchParams);
+    if (!filters) {
+      return NextResponse.json(
+        { error: `Filter tidak valid: ${errors.join('; ')}`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+
+    const result = searchBankQuestions(filters, page);
+    return NextResponse.json({
+      success: true,
+      data: { ...result, facets: getBankFacets() }
+    });
+  } catch (error) {
+    console.error('Error in question-bank API:', error);
+    return NextResponse.json(
+      {
+        error: 'Gagal membaca bank soal',
+        reason: 'server-error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handler untuk POST request: simpan soal ke bank.
+ * Body: { questions, sections? | questionType?, difficulty?, subject?, tags?, material?, model?, provider? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'data');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const { inputs, errors } = validateBankInputs(body ?? {});
+    if (!inputs) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    const { created, skipped } = createBankQuestions(inputs);
+    console.log(`✅ BANK - ${created.length} question(s) saved, ${skipped} duplicate(s) skipped`);
+
+    return NextResponse.json(
+      { success: true, data: { questions: created, skipped } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error in question-bank API:', error);
+    return NextResponse.json(
+      {
+        error: 'Gagal menyimpan soal ke bank',
+        reason: 'server-error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
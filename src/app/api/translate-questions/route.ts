@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateQuestionSet } from '@/lib/export/lms';
+import {
+  configErrorResponse,
+  FallbackTarget,
+  getFallbackChainFromEnv,
+  getRetryPolicyFromEnv,
+  internalErrorResponse,
+  providerErrorResponse
+} from '@/lib/llm';
+import { OUTPUT_LANGUAGES, parseOutputLanguage } from '@/lib/questions/language';
+import { translateQuestions } from '@/lib/questions/translation';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Main handler untuk POST request.
+ * Body sama seperti export ({ sections? | questionType?, questions }) ditambah
+ * `language` tujuan. Soal dikembalikan dengan urutan dan `sectionIndex` yang
+ * sama; kunci jawaban diturunkan dari struktur soal asli.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'ai');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const { language, error: languageError } = parseOutputLanguage(body?.language);
+    if (!language) {
+      return NextResponse.json(
+        { error: languageError ?? `"language" wajib diisi: ${OUTPUT_LANGUAGES.join(', ')}`, reason: 'invalid-request' },
+        { status: 400 }
+      );
+    }
+
+    const { set, errors } = validateQuestionSet(body ?? {});
+    if (!set) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    let chain: FallbackTarget[];
+    try {
+      chain = getFallbackChainFromEnv();
+    } catch (configError) {
+      return configErrorResponse(configError);
+    }
+
+    let translation;
+    try {
+      translation = await translateQuestions(
+        set.questions.map(question => ({ questionType: set.sections[question.sectionIndex].questionType, question })),
+        language,
+        { chain, policy: getRetryPolicyFromEnv(), signal: request.signal }
+      );
+    } catch (providerError) {
+      return providerErrorResponse(providerError);
+    }
+
+    const { completion } = translation;
+    console.log(`✅ TRANSLATE - ${translation.questions.length} question(s) to "${language}"${completion ? ` with ${completion.providerLabel}` : ''}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        language,
+        questions: translation.questions.map((question, index) => ({ ...question, sectionIndex: set.questions[index].sectionIndex }))
+      },
+      metadata: {
+        model: completion?.model,
+        apiProvider: completion?.providerLabel,
+        attempts: translation.attempts
+      }
+    });
+  } catch (error) {
+    return internalErrorResponse('translate-questions', error);
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Question Translation API',
+    endpoints: {
+      'POST /api/translate-questions': 'Translate a question set into another language while keeping the answer key aligned'
+    },
+    supportedLanguages: OUTPUT_LANGUAGES
+  });
+}
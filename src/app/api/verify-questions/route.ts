@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateQuestionSet } from '@/lib/export/lms';
+import { configErrorResponse, FallbackTarget, getFallbackChainFromEnv, getRetryPolicyFromEnv, internalErrorResponse } from '@/lib/llm';
+import { MAX_GROUNDING_MATERIAL_LENGTH, verifyGrounding } from '@/lib/questions/grounding';
+import { enforceBodySize, enforceRateLimit, MAX_JSON_BODY_BYTES } from '@/lib/rate-limit';
+
+/**
+ * Main handler untuk POST request.
+ * Body: { material, sections? | questionType?, questions, judge? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = enforceBodySize(request.headers, MAX_JSON_BODY_BYTES) ?? await enforceRateLimit(request.headers, 'ai');
+    if (limited) return limited;
+
+    const body = await request.json();
+    const material: unknown = body?.material;
+    if (typeof material !== 'string' || material.trim().length < 50) {
+      return NextResponse.json(
+        { error: 'materi terlalu singkat', reason: 'material-too-short' },
+        { status: 400 }
+      );
+    }
+    if (material.length > MAX_GROUNDING_MATERIAL_LENGTH) {
+      return NextResponse.json(
+        { error: `materi maksimal ${MAX_GROUNDING_MATERIAL_LENGTH} karakter`, reason: 'material-too-long', limit: MAX_GROUNDING_MATERIAL_LENGTH },
+        { status: 400 }
+      );
+    }
+
+    const { set, errors } = validateQuestionSet(body);
+    if (!set) {
+      return NextResponse.json(
+        { error: `Soal tidak valid: ${errors.join('; ')}`, reason: 'invalid-questions' },
+        { status: 400 }
+      );
+    }
+
+    // Penilaian LLM opsional; tanpa itu hanya kecocokan teks yang dihitung
+    let chain: FallbackTarget[] | undefined;
+    if (body.judge === true) {
+      try {
+        chain = getFallbackChainFromEnv();
+      } catch (configError) {
+        return configErrorResponse(configError);
+      }
+    }
+
+    const items = set.questions.map(question => ({
+      id: question.id,
+      questionType: set.sections[question.sectionIndex].questionType,
+      question
+    }));
+    const report = await verifyGrounding(material, items, chain && {
+      chain,
+      policy: getRetryPolicyFromEnv(),
+      signal: request.signal
+    });
+    const { completion } = report;
+    console.log(`✅ VERIFIED - ${report.flaggedCount}/${items.length} question(s) flagged${report.judged ? ` with ${completion?.providerLabel}` : ''}`);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results: report.results,
+        flaggedCount: report.flaggedCount,
+        averageConfidence: report.averageConfidence
+      },
+      metadata: {
+        judged: report.judged,
+        judgeError: report.judgeError,
+        model: completion?.model,
+        apiProvider: completion?.providerLabel,
+        attempts: report.attempts
+      }
+    });
+  } catch (error) {
+    return internalErrorResponse('verify-questions', error);
+  }
+}
+
+/**
+ * Handler untuk GET request (untuk testing)
+ */
+export async function GET() {
+  return NextResponse.json({
+    message: 'ExamCraft AI Question Verification API',
+    endpoints: {
+      'POST /api/verify-questions': 'Check each question\'s answer and explanation against the source material, with a confidence score and evidence quote',
+      'POST /api/verify-questions (judge: true)': 'Also ask the LLM to judge each question using the most relevant passages'
+    }
+  });
+}
@@ -1,32 +1,124 @@
 'use client';
 
-import { useState } from 'react';
-// jsPDF will be dynamically imported to avoid SSR/Turbopack build issues
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { ApiErrorBody, getApiErrorMessage, getResponseError } from '@/components/api';
+import { BankPanel } from '@/components/bank/bank-panel';
+import { BankSaveBar } from '@/components/bank/bank-save-bar';
+import { useQuestionBank } from '@/components/bank/use-question-bank';
+import { DistractorBadge, DistractorIssues } from '@/components/distractors/distractor-badge';
+import { DistractorPanel } from '@/components/distractors/distractor-panel';
+import { useDistractors } from '@/components/distractors/use-distractors';
+import { BankMatchBadge, DuplicateBadge } from '@/components/duplicates/duplicate-badges';
+import { DuplicatesPanel } from '@/components/duplicates/duplicates-panel';
+import { useDuplicates } from '@/components/duplicates/use-duplicates';
+import { QuestionEditForm } from '@/components/editor/question-edit-form';
+import { RegenerateButton } from '@/components/editor/regenerate-button';
+import { useQuestionEditor } from '@/components/editor/use-question-editor';
+import {
+  APIResponse,
+  ExamSectionInfo,
+  GeneratedQuestion,
+  getSectionOf,
+  getTextDirection,
+  getTotalPoints,
+  isSectionStart
+} from '@/components/exam';
+import { ExportButtons } from '@/components/export/export-buttons';
+import { PrintSettingsPanel } from '@/components/export/print-settings-panel';
+import { useExamExport } from '@/components/export/use-exam-export';
+import { GroundingBadge, GroundingWarning } from '@/components/grounding/grounding-badge';
+import { GroundingPanel } from '@/components/grounding/grounding-panel';
+import { useGrounding } from '@/components/grounding/use-grounding';
+import { DIFFICULTY_OPTIONS, getBloomLevelLabel, QUESTION_TYPE_OPTIONS } from '@/components/labels';
+import { QuestionCard } from '@/components/question-card';
+import { QuizStartBar, QuizView } from '@/components/quiz/quiz-view';
+import { useQuiz } from '@/components/quiz/use-quiz';
+import { SectionHeading } from '@/components/section-heading';
+import { TranslationPanel } from '@/components/translation/translation-panel';
+import { useQuestionTranslation } from '@/components/translation/use-question-translation';
+import type { DocumentBlock, OutlineEntry } from '@/lib/extraction/document';
+import { ACCEPTED_EXTENSIONS, SUPPORTED_FORMAT_LABELS } from '@/lib/extraction/formats';
+import { buildMaterial, MaterialSelection, selectAll, toggleSection } from '@/lib/extraction/selection';
+import { createTranslator, Locale, LOCALES } from '@/lib/i18n';
+import { getServerLocale, getStoredLocale, storeLocale, subscribeLocale } from '@/lib/i18n/preference';
+import { BLOOM_LEVEL_INFO, BLOOM_LEVELS } from '@/lib/questions/bloom';
+import { DEFAULT_OUTPUT_LANGUAGE, getDefaultSectionTitle, OUTPUT_LANGUAGE_INFO, OUTPUT_LANGUAGES } from '@/lib/questions/language';
+import type { BloomLevel, LearningObjective, OutputLanguage } from '@/lib/questions/types';
 
 // Interface untuk tipe data
 interface QuestionForm {
   material: string;
-  questionType: 'multiple-choice' | 'essay';
+  questionType: 'multiple-choice' | 'essay' | 'true-false' | 'fill-in-the-blank' | 'matching' | 'short-answer';
   questionCount: number;
   difficulty: 'easy' | 'medium' | 'hard';
 }
 
-interface GeneratedQuestion {
-  question: string;
-  options?: string[];
-  correctAnswer?: string;
-  explanation?: string;
+/**
+ * Fungsi untuk membaca tujuan pembelajaran dari textarea, satu per baris.
+ * Token pertama yang mengandung angka (misalnya "3.1" atau "KD-3.2") dianggap kode.
+ */
+function parseObjectiveLines(text: string): LearningObjective[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^(\S*\d\S*)[\s:.-]+(.+)$/);
+      return match ? { code: match[1].replace(/[:.]$/, ''), description: match[2].trim() } : { description: line };
+    });
 }
 
-interface APIResponse {
+// Blueprint awal: contoh ujian campuran yang bisa langsung diubah
+const DEFAULT_BLUEPRINT: ExamSectionInfo[] = [
+  { title: '', questionType: 'multiple-choice', questionCount: 10, difficulty: 'easy', points: 1 },
+  { title: '', questionType: 'true-false', questionCount: 5, difficulty: 'medium', points: 1 },
+  { title: '', questionType: 'essay', questionCount: 2, difficulty: 'hard', points: 10 }
+];
+
+interface ExtractResponse {
   success: boolean;
-  data?: {
-    questions: GeneratedQuestion[];
-  };
+  text?: string;
+  filename?: string;
+  fileType?: string;
+  pageCount?: number;
+  outline?: OutlineEntry[];
+  blocks?: DocumentBlock[];
+  ocr?: boolean;
   error?: string;
 }
 
+interface UploadedFile {
+  name: string;
+  fileType: string;
+  pageCount?: number;
+  outline: OutlineEntry[];
+  blocks: DocumentBlock[];
+  ocr?: boolean;
+}
+
+// Model dan provider pembuat soal dari metadata response, disimpan bersama soal di bank
+function readGenerationInfo(metadata?: Record<string, unknown>): { model?: string; provider?: string } {
+  return {
+    model: typeof metadata?.model === 'string' ? metadata.model : undefined,
+    provider: typeof metadata?.apiProvider === 'string' ? metadata.apiProvider : undefined
+  };
+}
+
+// Event NDJSON dari /api/generate-questions dengan stream: true
+type StreamEvent =
+  | { type: 'start'; total: number; sections?: ExamSectionInfo[] }
+  | { type: 'question'; index: number; sectionIndex?: number; question: GeneratedQuestion }
+  | { type: 'done'; metadata: Record<string, unknown> }
+  | ({ type: 'error' } & ApiErrorBody);
+
 export default function Home() {
+  // Bahasa antarmuka disimpan di browser; render server selalu memakai bahasa bawaan
+  const locale = useSyncExternalStore(subscribeLocale, getStoredLocale, getServerLocale);
+  const t = createTranslator(locale);
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   // State untuk form input
   const [formData, setFormData] = useState<QuestionForm>({
     material: '',
@@ -39,6 +131,75 @@ export default function Home() {
   const [isLoading, setIsLoading] = useState(false);
   const [generatedQuestions, setGeneratedQuestions] = useState<GeneratedQuestion[]>([]);
   const [error, setError] = useState<string>('');
+  const [expectedCount, setExpectedCount] = useState(0);
+  const [examSections, setExamSections] = useState<ExamSectionInfo[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // State untuk upload file materi
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
+  const [selection, setSelection] = useState<MaterialSelection | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // State untuk mode blueprint (ujian campuran beberapa bagian)
+  const [mode, setMode] = useState<'single' | 'blueprint'>('single');
+  const [blueprintSections, setBlueprintSections] = useState<ExamSectionInfo[]>(DEFAULT_BLUEPRINT);
+
+  // State untuk target level kognitif dan tujuan pembelajaran (berlaku di kedua mode)
+  const [bloomLevels, setBloomLevels] = useState<BloomLevel[]>([]);
+  const [objectivesText, setObjectivesText] = useState('');
+
+  // State untuk bahasa soal (berlaku di kedua mode)
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+
+  // Model dan provider pembuat soal hasil generate
+  const [generationInfo, setGenerationInfo] = useState<{ model?: string; provider?: string }>({});
+
+  // Jenis soal mengikuti bagian ujiannya, bukan pilihan form saat ini
+  const getQuestionTypeOf = (question: GeneratedQuestion) =>
+    getSectionOf(examSections, question)?.questionType ?? formData.questionType;
+
+  const quiz = useQuiz({ questions: generatedQuestions, sections: examSections, getQuestionType: getQuestionTypeOf, t });
+  const distractors = useDistractors({
+    questions: generatedQuestions,
+    setQuestions: setGeneratedQuestions,
+    material: formData.material,
+    getQuestionType: getQuestionTypeOf,
+    t
+  });
+  const duplicates = useDuplicates({ questions: generatedQuestions, t });
+  const grounding = useGrounding({ questions: generatedQuestions, material: formData.material, t });
+  const editor = useQuestionEditor({
+    questions: generatedQuestions,
+    setQuestions: setGeneratedQuestions,
+    sections: examSections,
+    material: formData.material,
+    objectives: parseObjectiveLines(objectivesText),
+    getQuestionType: getQuestionTypeOf,
+    onError: setError,
+    t
+  });
+  const translation = useQuestionTranslation({
+    questions: generatedQuestions,
+    sections: examSections,
+    onTranslated: (questions, language) => showTranslatedExam(questions, language),
+    onError: setError,
+    t
+  });
+  const exporter = useExamExport({
+    questions: generatedQuestions,
+    sections: examSections,
+    getQuestionType: getQuestionTypeOf,
+    defaultType: formData.questionType,
+    defaultDifficulty: formData.difficulty,
+    provider: generationInfo.provider,
+    confirmExport: grounding.confirmExport,
+    onError: setError,
+    locale,
+    t
+  });
+  const bank = useQuestionBank({ t, onExam: (sections, questions) => showBankExam(sections, questions), onError: setError });
 
   // Handler untuk perubahan form
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -49,198 +210,63 @@ export default function Home() {
     }));
   };
 
-  // Handler untuk download soal sebagai TXT
-  const handleDownloadQuestions = () => {
-    if (generatedQuestions.length === 0) return;
+  // Handler untuk upload file: ekstrak teks lalu isi ke textarea materi agar bisa diedit
+  const handleFileUpload = async (file: File) => {
+    setIsExtracting(true);
+    setError('');
 
-    // Buat konten file berdasarkan jenis soal
-    let content = '';
-    const { questionType } = formData;
-    
-    // Header
-    content += `ExamCraft AI\n`;
-    content += `=====================================\n\n`;
-    content += `Jenis Soal: ${getQuestionTypeLabel(questionType)}\n`;
-    content += `Jumlah Soal: ${generatedQuestions.length}\n`;
-    content += `Tingkat Kesulitan: ${getDifficultyLabel(formData.difficulty)}\n`;
-    content += `Tanggal: ${new Date().toLocaleString('id-ID')}\n\n`;
-    content += `-------------------------------------\n\n`;
-
-    // Generate soal berdasarkan jenis
-    generatedQuestions.forEach((question, index) => {
-      content += `SOAL ${index + 1}\n`;
-      content += `${'='.repeat(50)}\n\n`;
-      content += `Pertanyaan:\n${question.question}\n\n`;
-
-      if (questionType === 'multiple-choice' && question.options) {
-        content += `Pilihan Jawaban:\n`;
-        question.options.forEach((option, optIndex) => {
-          const letter = String.fromCharCode(65 + optIndex);
-          const isCorrect = option === question.correctAnswer;
-          content += `  ${letter}. ${option}${isCorrect ? ' ✓' : ''}\n`;
-        });
-        content += `\nKunci Jawaban: ${question.correctAnswer}\n\n`;
-      } else if (questionType === 'essay') {
-        content += `[Jawaban esai - lihat penjelasan untuk petunjuk]\n\n`;
-      }
+    try {
+      const uploadData = new FormData();
+      uploadData.append('file', file);
+      const response = await fetch('/api/extract-text', {
+        method: 'POST',
+        body: uploadData
+      });
+      const result: ExtractResponse = await response.json();
 
-      if (question.explanation) {
-        content += `Penjelasan:\n${question.explanation}\n\n`;
+      if (result.success && result.text) {
+        const uploaded: UploadedFile = {
+          name: result.filename || file.name,
+          fileType: result.fileType || '',
+          pageCount: result.pageCount,
+          outline: result.outline ?? [],
+          blocks: result.blocks ?? [],
+          ocr: result.ocr
+        };
+        const initialSelection = selectAll(uploaded.outline, uploaded.pageCount);
+        // Dokumen berhalaman disusun ulang dengan penanda [Halaman N]
+        const material = uploaded.pageCount && uploaded.blocks.length > 0
+          ? buildMaterial(uploaded.blocks, uploaded.outline, initialSelection, true)
+          : result.text;
+        setFormData(prev => ({ ...prev, material }));
+        setUploadedFile(uploaded);
+        setSelection(initialSelection);
+      } else {
+        setError(getResponseError(response, result, t, 'upload.failed'));
       }
-      content += `${'-'.repeat(50)}\n\n`;
-    });
+    } catch {
+      setError(t('upload.error'));
+    } finally {
+      setIsExtracting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
 
-    // Footer
-    content += `=====================================\n`;
-    content += `Generated by ExamCraft AI\n`;
-    content += `Powered by OpenRouter AI\n`;
-
-    // Download file
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `examcraft-questions-${questionType}-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // Handler untuk memilih bab/halaman: materi disusun ulang dari blok yang dipilih
+  const handleSelectionChange = (next: MaterialSelection) => {
+    if (!uploadedFile) return;
+    setSelection(next);
+    setFormData(prev => ({
+      ...prev,
+      material: buildMaterial(uploadedFile.blocks, uploadedFile.outline, next, Boolean(uploadedFile.pageCount))
+    }));
   };
 
-  // Handler untuk download soal sebagai PDF
-  const handleDownloadPDF = async () => {
-    if (generatedQuestions.length === 0) return;
-
-    // Dynamic import to avoid SSR/Turbopack issues
-    const jsPDFModule: any = await import('jspdf');
-    const jsPDFConstructor = jsPDFModule.jsPDF || jsPDFModule.default || jsPDFModule;
-
-    const { questionType } = formData;
-    const doc = new jsPDFConstructor();
-
-    // Set font untuk mendukung Unicode (Indonesian)
-    doc.setFont('helvetica');
-
-    let yPosition = 20;
-    const lineHeight = 7;
-    const pageHeight = doc.internal.pageSize.height;
-
-    // Header
-    doc.setFontSize(20);
-    doc.text('ExamCraft AI', 105, yPosition, { align: 'center' });
-    yPosition += 15;
-
-    doc.setFontSize(12);
-    doc.text(`Jenis Soal: ${getQuestionTypeLabel(questionType)}`, 20, yPosition);
-    yPosition += lineHeight;
-    doc.text(`Jumlah Soal: ${generatedQuestions.length}`, 20, yPosition);
-    yPosition += lineHeight;
-    doc.text(`Tingkat Kesulitan: ${getDifficultyLabel(formData.difficulty)}`, 20, yPosition);
-    yPosition += lineHeight;
-    doc.text(`Tanggal: ${new Date().toLocaleString('id-ID')}`, 20, yPosition);
-    yPosition += lineHeight * 2;
-
-    // Generate soal
-    generatedQuestions.forEach((question, index) => {
-      // Check if we need a new page
-      if (yPosition > pageHeight - 50) {
-        doc.addPage();
-        yPosition = 20;
-      }
-      
-      // Soal number
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'bold');
-      doc.text(`SOAL ${index + 1}`, 20, yPosition);
-      yPosition += lineHeight * 1.5;
-      
-      // Pertanyaan
-      doc.setFont('helvetica', 'normal');
-      doc.setFontSize(11);
-      const questionLines = doc.splitTextToSize(question.question, 170);
-      questionLines.forEach((line: string) => {
-        if (yPosition > pageHeight - 30) {
-          doc.addPage();
-          yPosition = 20;
-        }
-        doc.text(line, 20, yPosition);
-        yPosition += lineHeight;
-      });
-      yPosition += lineHeight;
-      
-      // Pilihan jawaban untuk multiple choice
-      if (questionType === 'multiple-choice' && question.options) {
-        question.options.forEach((option, optIndex) => {
-          if (yPosition > pageHeight - 30) {
-            doc.addPage();
-            yPosition = 20;
-          }
-          const letter = String.fromCharCode(65 + optIndex);
-          const isCorrect = option === question.correctAnswer;
-          const optionText = `${letter}. ${option}${isCorrect ? ' (Benar)' : ''}`;
-          const optionLines = doc.splitTextToSize(optionText, 150);
-          optionLines.forEach((line: string) => {
-            if (yPosition > pageHeight - 30) {
-              doc.addPage();
-              yPosition = 20;
-            }
-            doc.text(line, 25, yPosition);
-            yPosition += lineHeight;
-          });
-        });
-        yPosition += lineHeight;
-        doc.text(`Kunci Jawaban: ${question.correctAnswer}`, 20, yPosition);
-        yPosition += lineHeight * 2;
-      } else if (questionType === 'essay') {
-        if (yPosition > pageHeight - 30) {
-          doc.addPage();
-          yPosition = 20;
-        }
-        doc.text('[Jawaban esai - lihat penjelasan untuk petunjuk]', 20, yPosition);
-        yPosition += lineHeight * 2;
-      }
-      
-      // Penjelasan
-      if (question.explanation) {
-        if (yPosition > pageHeight - 40) {
-          doc.addPage();
-          yPosition = 20;
-        }
-        doc.setFont('helvetica', 'bold');
-        doc.text('Penjelasan:', 20, yPosition);
-        yPosition += lineHeight;
-        doc.setFont('helvetica', 'normal');
-        const explanationLines = doc.splitTextToSize(question.explanation, 170);
-        explanationLines.forEach((line: string) => {
-          if (yPosition > pageHeight - 30) {
-            doc.addPage();
-            yPosition = 20;
-          }
-          doc.text(line, 20, yPosition);
-          yPosition += lineHeight;
-        });
-        yPosition += lineHeight;
-      }
-      
-      // Separator
-      yPosition += lineHeight;
-      if (yPosition < pageHeight - 30) {
-        doc.text('--------------------------------------------------', 20, yPosition);
-        yPosition += lineHeight * 2;
-      }
-    });
-    
-    // Footer
-    const lastPage = doc.internal.getNumberOfPages();
-    doc.setPage(lastPage);
-    yPosition = pageHeight - 20;
-    doc.setFontSize(10);
-    doc.text('Generated by ExamCraft AI', 105, yPosition, { align: 'center' });
-    yPosition += lineHeight;
-    doc.text('Powered by OpenRouter AI', 105, yPosition, { align: 'center' });
-    
-    // Download PDF
-    doc.save(`examcraft-questions-${questionType}-${new Date().toISOString().split('T')[0]}.pdf`);
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFileUpload(file);
   };
 
   // Handler untuk generate soal
@@ -248,18 +274,49 @@ export default function Home() {
     e.preventDefault();
     
     if (!formData.material.trim()) {
-      setError('Materi pembelajaran harus diisi');
+      setError(t('material.required'));
       return;
     }
 
     if (formData.material.trim().length < 50) {
-      setError('materi terlalu singkat');
+      setError(t('material.tooShort'));
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const isBlueprint = mode === 'blueprint';
+    const sections: ExamSectionInfo[] = (isBlueprint
+      ? blueprintSections
+      : [{
+          title: t(`questionType.${formData.questionType}`),
+          questionType: formData.questionType,
+          questionCount: Number(formData.questionCount),
+          difficulty: formData.difficulty
+        }]).map(section => ({ ...section, language: outputLanguage }));
+    const objectives = parseObjectiveLines(objectivesText);
+    const targets = {
+      bloomLevels: bloomLevels.length > 0 ? bloomLevels : undefined,
+      objectives: objectives.length > 0 ? objectives : undefined
+    };
+    const requestBody = isBlueprint
+      ? { material: formData.material, blueprint: { sections: blueprintSections.map(section => ({ ...section, ...targets })) }, language: outputLanguage, stream: true }
+      : { ...formData, ...targets, language: outputLanguage, stream: true };
+
     setIsLoading(true);
     setError('');
     setGeneratedQuestions([]);
+    quiz.exit();
+    editor.cancel();
+    grounding.reset();
+    duplicates.reset();
+    distractors.reset();
+    translation.reset();
+    bank.reset();
+    setGenerationInfo({});
+    setExamSections(sections);
+    setExpectedCount(sections.reduce((sum, section) => sum + Number(section.questionCount), 0));
 
     try {
       const response = await fetch('/api/generate-questions', {
@@ -267,99 +324,191 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify(requestBody),
+        signal: controller.signal
       });
 
-      const result: APIResponse = await response.json();
+      // Error validasi dikirim sebagai JSON biasa, bukan stream
+      if (!response.ok || !response.body || !response.headers.get('Content-Type')?.includes('ndjson')) {
+        const result: APIResponse = await response.json();
+        if (result.success) setGenerationInfo(readGenerationInfo(result.metadata));
+        if (result.success && result.data?.exam) {
+          const questions = result.data.exam.sections.flatMap((section, sectionIndex) =>
+            section.questions.map(question => ({ ...question, sectionIndex }))
+          );
+          setGeneratedQuestions(questions);
+          grounding.run(questions, sections, false);
+          duplicates.runBankCheck(questions, sections);
+        } else if (result.success && result.data?.questions) {
+          setGeneratedQuestions(result.data.questions);
+          grounding.run(result.data.questions, sections, false);
+          duplicates.runBankCheck(result.data.questions, sections);
+        } else {
+          setError(getResponseError(response, result, t, 'generate.failed'));
+        }
+        return;
+      }
 
-      if (result.success && result.data) {
-        setGeneratedQuestions(result.data.questions);
-        setError('');
-      } else {
-        setError(result.error || 'Gagal menghasilkan soal');
+      // Baca NDJSON baris per baris dan tampilkan setiap soal begitu tiba
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      const received: GeneratedQuestion[] = [];
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: StreamEvent = JSON.parse(line);
+          switch (event.type) {
+            case 'start':
+              setExpectedCount(event.total);
+              // Judul dan poin bagian yang sudah dilengkapi server
+              if (event.sections) setExamSections(event.sections);
+              break;
+            case 'question': {
+              const question = { ...event.question, sectionIndex: event.sectionIndex ?? 0 };
+              received.push(question);
+              setGeneratedQuestions(prev => [...prev, question]);
+              break;
+            }
+            case 'done':
+              setGenerationInfo(readGenerationInfo(event.metadata));
+              break;
+            case 'error': {
+              const message = getApiErrorMessage(event, t, 'generate.failed');
+              setError(received.length > 0 ? t('generate.partial', { error: message, count: received.length }) : message);
+              break;
+            }
+          }
+        }
+      }
+      // Cek kesesuaian dengan materi (tanpa AI) dan soal mirip di bank begitu semua soal diterima
+      grounding.run(received, sections, false);
+      duplicates.runBankCheck(received, sections);
+    } catch {
+      if (!controller.signal.aborted) {
+        setError(t('common.unexpectedError'));
       }
-    } catch (err) {
-      setError('Terjadi kesalahan. Silakan coba lagi.');
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
-  // Helper functions
-  const getQuestionTypeLabel = (type: string) => {
-    switch (type) {
-      case 'multiple-choice': return 'Pilihan Ganda';
-      case 'essay': return 'Esai';
-      default: return 'Umum';
-    }
+  // Handler untuk membatalkan generate soal yang sedang berjalan
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
-  const getDifficultyLabel = (difficulty: string) => {
-    switch (difficulty) {
-      case 'easy': return 'Mudah';
-      case 'medium': return 'Sedang';
-      case 'hard': return 'Sulit';
-      default: return 'Sedang';
-    }
+  // Handler untuk mode kuis
+  const startQuiz = () => {
+    editor.cancel();
+    quiz.start();
   };
 
-  // Render soal berdasarkan jenis
-  const renderQuestion = (question: GeneratedQuestion, index: number) => {
-    const { questionType } = formData;
+  // Terjemahan menggantikan set soal; hasil cek kesesuaian dan soal mirip dihitung dari soal lama, jadi dikosongkan
+  const showTranslatedExam = (questions: GeneratedQuestion[], language: OutputLanguage) => {
+    setGeneratedQuestions(questions);
+    setExamSections(prev => prev.map(section => ({ ...section, language })));
+    grounding.reset();
+    duplicates.reset();
+    distractors.reset();
+  };
 
-    return (
-      <div key={index} className="border-2 border-gray-200 rounded-xl p-6 mb-6 hover:border-blue-300 transition-colors bg-gradient-to-r from-white to-blue-50">
-        <div className="flex items-center mb-4">
-          <div className="bg-blue-600 text-white w-8 h-8 rounded-full flex items-center justify-center font-bold mr-3">
-            {index + 1}
-          </div>
-          <h4 className="font-bold text-lg text-gray-800">Soal {index + 1}</h4>
-        </div>
-        
-        <div className="bg-white p-4 rounded-lg mb-4 border border-gray-100">
-          <p className="text-gray-800 leading-relaxed">{question.question}</p>
-        </div>
+  // Handler untuk bank soal
+  const handleSaveToBank = () => {
+    bank.save({
+      sections: examSections,
+      questions: generatedQuestions,
+      subject: exporter.printSettings.subject,
+      material: formData.material || undefined,
+      ...generationInfo
+    }, duplicates.inBankCount);
+  };
 
-        {questionType === 'multiple-choice' && question.options && (
-          <div className="space-y-3 mb-4">
-            {question.options.map((option, optIndex) => (
-              <label key={optIndex} className="flex items-center space-x-3 p-3 rounded-lg hover:bg-blue-50 transition-colors cursor-pointer border border-gray-200">
-                <input
-                  type="radio"
-                  name={`question-${index}`}
-                  value={option}
-                  className="w-4 h-4 text-blue-600 focus:ring-blue-500"
-                />
-                <span className="text-gray-700 font-medium">{String.fromCharCode(65 + optIndex)}. {option}</span>
-              </label>
-            ))}
-          </div>
-        )}
+  const showBankExam = (sections: ExamSectionInfo[], questions: GeneratedQuestion[]) => {
+    setError('');
+    quiz.exit();
+    editor.cancel();
+    grounding.reset();
+    duplicates.reset();
+    distractors.reset();
+    translation.reset();
+    bank.reset();
+    setGenerationInfo({});
+    setExamSections(sections);
+    setExpectedCount(questions.length);
+    setGeneratedQuestions(questions);
+  };
 
-        
+  // Jumlah soal per level kognitif, urut C1-C6
+  const getBloomDistribution = () =>
+    BLOOM_LEVELS
+      .map(level => ({ level, count: generatedQuestions.filter(question => question.bloomLevel === level).length }))
+      .filter(entry => entry.count > 0);
 
-        {questionType === 'essay' && (
-          <div className="mb-4">
-            <textarea
-              placeholder="Tulis jawaban esai Anda di sini..."
-              rows={5}
-              className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 resize-none"
-            />
-          </div>
-        )}
+  const toggleBloomLevel = (level: BloomLevel) => {
+    setBloomLevels(prev => (prev.includes(level) ? prev.filter(item => item !== level) : BLOOM_LEVELS.filter(item => item === level || prev.includes(item))));
+  };
 
-        {question.explanation && (
-          <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl p-4">
-            <div className="flex items-start space-x-2">
-              <span className="text-blue-600 text-lg">💡</span>
-              <div>
-                <strong className="text-blue-800">Petunjuk:</strong>
-                <p className="text-blue-700 mt-1">{question.explanation}</p>
-              </div>
-            </div>
-          </div>
+  // Ubah satu baris bagian pada blueprint
+  const updateBlueprintSection = (index: number, changes: Partial<ExamSectionInfo>) => {
+    setBlueprintSections(prev => prev.map((section, sectionIndex) => (sectionIndex === index ? { ...section, ...changes } : section)));
+  };
+
+  // Soal beserta hasil pemeriksaan (kesesuaian, soal mirip, pengecoh) dan tombol edit
+  const renderQuestion = (question: GeneratedQuestion, index: number) => {
+    if (editor.editing?.index === index) return <QuestionEditForm editor={editor} questionType={getQuestionTypeOf(editor.editing.draft)} t={t} />;
+    const groundingResult = grounding.getResult(question);
+    const duplicateCluster = duplicates.clusters.find(cluster => cluster.members.includes(index));
+    const bankMatch = duplicates.getBankMatches(question)[0];
+    const distractorAnalysis = distractors.getAnalysis(question);
+
+    return (
+      <QuestionCard
+        question={question}
+        index={index}
+        questionType={getQuestionTypeOf(question)}
+        dir={getTextDirection(getSectionOf(examSections, question))}
+        t={t}
+        weakOptions={distractorAnalysis?.weakOptions}
+        badges={
+          <>
+            {groundingResult && <GroundingBadge result={groundingResult} t={t} />}
+            {duplicateCluster && duplicateCluster.members[0] !== index && <DuplicateBadge original={duplicateCluster.members[0]} t={t} />}
+            {distractorAnalysis && <DistractorBadge analysis={distractorAnalysis} t={t} />}
+            {bankMatch && <BankMatchBadge match={bankMatch} t={t} />}
+            {!isLoading && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => editor.start(index)}
+                  disabled={editor.editing !== null || editor.regeneratingIndex !== null}
+                  className="bg-white border border-gray-300 text-gray-700 px-3 py-1 rounded-full text-xs font-medium hover:bg-gray-50 disabled:text-gray-300"
+                >
+                  {t('question.edit')}
+                </button>
+                <RegenerateButton editor={editor} index={index} label={t('question.regenerate')} t={t} />
+              </>
+            )}
+          </>
+        }
+        warning={groundingResult?.flagged && <GroundingWarning result={groundingResult} t={t} />}
+        optionsNote={distractorAnalysis && distractorAnalysis.issues.length > 0 && (
+          <DistractorIssues
+            distractors={distractors}
+            analysis={distractorAnalysis}
+            index={index}
+            showImprove={!isLoading}
+            disabled={editor.editing !== null}
+            t={t}
+          />
         )}
-      </div>
+      />
     );
   };
 
@@ -369,21 +518,37 @@ export default function Home() {
         {/* Header */}
         <div className="text-center mb-8">
           <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+            <div className="flex justify-end gap-1 -mt-4 -mr-4 mb-2" role="group" aria-label={t('app.language')}>
+              {(Object.keys(LOCALES) as Locale[]).map(value => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => storeLocale(value)}
+                  title={LOCALES[value].label}
+                  aria-pressed={locale === value}
+                  className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${
+                    locale === value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:border-blue-300'
+                  }`}
+                >
+                  {LOCALES[value].flag} {value.toUpperCase()}
+                </button>
+              ))}
+            </div>
             <h1 className="text-4xl font-bold text-gray-800 mb-3">
               🤖 ExamCraft AI
             </h1>
             <p className="text-lg text-gray-600 leading-relaxed">
-              Buat soal ujian otomatis dari materi pembelajaran menggunakan teknologi AI
+              {t('app.subtitle')}
             </p>
             <div className="mt-4 flex justify-center space-x-4">
               <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-full text-sm font-medium">
-                ⚡ Cepat & Otomatis
+                {t('app.badgeFast')}
               </div>
                 <div className="bg-green-100 text-green-800 px-4 py-2 rounded-full text-sm font-medium">
-                  📚 2 Jenis Soal
+                  {t('app.badgeTypes')}
                 </div>
               <div className="bg-purple-100 text-purple-800 px-4 py-2 rounded-full text-sm font-medium">
-                🎯 AI Powered
+                {t('app.badgeAi')}
               </div>
             </div>
           </div>
@@ -395,74 +560,344 @@ export default function Home() {
             {/* Input Materi */}
             <div className="mb-8">
               <label className="block text-lg font-semibold text-gray-800 mb-3">
-                📝 Materi Pembelajaran
+                {t('material.label')}
               </label>
               
+              {/* Upload File */}
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={`mb-4 border-2 border-dashed rounded-xl px-4 py-6 text-center cursor-pointer transition-all ${
+                  isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_EXTENSIONS}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFileUpload(file);
+                  }}
+                />
+                {isExtracting ? (
+                  <div className="flex items-center justify-center space-x-2 text-blue-700">
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+                    <span className="font-medium">{t('upload.extracting')}</span>
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-gray-700 font-medium">{t('upload.drop')}</p>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {SUPPORTED_FORMAT_LABELS.join(', ')} · {t('upload.maxSize')}
+                    </p>
+                  </>
+                )}
+              </div>
+
+              {uploadedFile && (
+                <div className="mb-3 flex items-center justify-between bg-green-50 border border-green-200 text-green-800 px-4 py-2 rounded-lg text-sm">
+                  <span>{t('upload.textFrom')} <strong>{uploadedFile.name}</strong> ({uploadedFile.fileType}){uploadedFile.ocr && t('upload.ocr')} — {t('upload.review')}</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUploadedFile(null);
+                      setSelection(null);
+                    }}
+                    className="ml-3 text-green-700 hover:text-green-900"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+
+              {/* Pilih bab/halaman dari dokumen */}
+              {uploadedFile && selection && (uploadedFile.outline.length > 1 || uploadedFile.pageCount) && (
+                <details className="mb-3 border border-gray-200 rounded-lg px-4 py-3 text-sm text-gray-700">
+                  <summary className="cursor-pointer font-medium">
+                    {t('upload.selectSections', {
+                      selected: selection.sections.filter(Boolean).length,
+                      total: uploadedFile.outline.length,
+                      pages: uploadedFile.pageCount
+                        ? t('upload.selectedPages', { from: selection.pageFrom, to: selection.pageTo, count: uploadedFile.pageCount })
+                        : ''
+                    })}
+                  </summary>
+                  <p className="mt-2 text-xs text-gray-500">{t('upload.selectionHint')}</p>
+
+                  {uploadedFile.pageCount && (
+                    <div className="mt-3 flex items-center space-x-2">
+                      <span>{t('upload.pages')}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={selection.pageTo}
+                        value={selection.pageFrom}
+                        onChange={(e) => handleSelectionChange({ ...selection, pageFrom: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-20 border border-gray-300 rounded px-2 py-1"
+                      />
+                      <span>{t('upload.pageTo')}</span>
+                      <input
+                        type="number"
+                        min={selection.pageFrom}
+                        max={uploadedFile.pageCount}
+                        value={selection.pageTo}
+                        onChange={(e) => handleSelectionChange({ ...selection, pageTo: Math.min(uploadedFile.pageCount!, Number(e.target.value) || 1) })}
+                        className="w-20 border border-gray-300 rounded px-2 py-1"
+                      />
+                    </div>
+                  )}
+
+                  {uploadedFile.outline.length > 0 && (
+                    <div className="mt-3 max-h-48 overflow-y-auto space-y-1">
+                      {uploadedFile.outline.map((entry, index) => (
+                        <label key={index} className="flex items-center space-x-2" style={{ paddingLeft: `${(entry.level - 1) * 16}px` }}>
+                          <input
+                            type="checkbox"
+                            checked={selection.sections[index]}
+                            onChange={() => handleSelectionChange({ ...selection, sections: toggleSection(uploadedFile.outline, selection.sections, index) })}
+                            className="text-blue-600"
+                          />
+                          <span>{entry.title}</span>
+                          {entry.page !== undefined && <span className="text-xs text-gray-400">{t('upload.page', { page: entry.page })}</span>}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </details>
+              )}
+
               <div>
                 <textarea
                   name="material"
                   value={formData.material}
                   onChange={handleInputChange}
-                  placeholder="Masukkan materi pembelajaran di sini...&#10;&#10;Contoh:&#10;Photosintesis adalah proses biologi yang mengubah energi cahaya menjadi energi kimia. Proses ini terjadi di kloroplas dan melibatkan klorofil. Hasil utama fotosintesis adalah glukosa dan oksigen."
+                  placeholder={t('material.placeholder')}
                   className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 h-40 resize-none focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700"
                   required
                 />
                 <div className="mt-2 text-sm text-gray-500">
-                  📝 Ketik materi pembelajaran minimal 50 karakter
+                  {t('material.hint', { count: formData.material.length })}
                 </div>
               </div>
             </div>
 
-            {/* Pengaturan Soal */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-              {/* Jenis Soal */}
-              <div>
-                <label className="block text-lg font-semibold text-gray-800 mb-3">
-                  📋 Jenis Soal
-                </label>
-                <select
-                  name="questionType"
-                  value={formData.questionType}
-                  onChange={handleInputChange}
-                  className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
+            {/* Mode: satu jenis soal atau blueprint ujian campuran */}
+            <div className="flex mb-6 bg-gray-100 rounded-xl p-1">
+              {([['single', 'mode.single'], ['blueprint', 'mode.blueprint']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex-1 py-2 rounded-lg font-semibold transition-all ${
+                    mode === value ? 'bg-white shadow text-blue-700' : 'text-gray-600 hover:text-gray-800'
+                  }`}
                 >
-                  <option value="multiple-choice">🔘 Pilihan Ganda</option>
-                  <option value="essay">📄 Esai</option>
-                </select>
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+
+            {/* Blueprint: daftar bagian ujian */}
+            {mode === 'blueprint' && (
+              <div className="mb-8">
+                <div className="hidden md:grid grid-cols-12 gap-2 px-1 mb-2 text-xs font-semibold text-gray-500">
+                  <span className="col-span-3">{t('blueprint.sectionTitle')}</span>
+                  <span className="col-span-3">{t('blueprint.questionType')}</span>
+                  <span className="col-span-2">{t('blueprint.count')}</span>
+                  <span className="col-span-2">{t('blueprint.difficulty')}</span>
+                  <span className="col-span-1">{t('blueprint.points')}</span>
+                </div>
+                <div className="space-y-2">
+                  {blueprintSections.map((section, index) => (
+                    <div key={index} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-center">
+                      <input
+                        type="text"
+                        value={section.title}
+                        placeholder={getDefaultSectionTitle(index, outputLanguage)}
+                        onChange={(e) => updateBlueprintSection(index, { title: e.target.value })}
+                        className="col-span-2 md:col-span-3 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+                      />
+                      <select
+                        value={section.questionType}
+                        onChange={(e) => updateBlueprintSection(index, { questionType: e.target.value as ExamSectionInfo['questionType'] })}
+                        className="md:col-span-3 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+                      >
+                        {QUESTION_TYPE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.icon} {t(`questionType.${option.value}`)}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="1"
+                        max="50"
+                        value={section.questionCount}
+                        onChange={(e) => updateBlueprintSection(index, { questionCount: Number(e.target.value) })}
+                        className="md:col-span-2 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+                      />
+                      <select
+                        value={section.difficulty ?? ''}
+                        onChange={(e) => updateBlueprintSection(index, { difficulty: (e.target.value || undefined) as ExamSectionInfo['difficulty'] })}
+                        className="md:col-span-2 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+                      >
+                        <option value="">{t('blueprint.anyDifficulty')}</option>
+                        {DIFFICULTY_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.icon} {t(`difficulty.${option.value}`)}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        value={section.points}
+                        onChange={(e) => updateBlueprintSection(index, { points: Number(e.target.value) })}
+                        className="md:col-span-1 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setBlueprintSections(prev => prev.filter((_, sectionIndex) => sectionIndex !== index))}
+                        disabled={blueprintSections.length === 1}
+                        className="md:col-span-1 text-red-600 hover:text-red-800 disabled:text-gray-300"
+                        title={t('blueprint.removeSection')}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-3 flex items-center justify-between text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setBlueprintSections(prev => [...prev, { title: '', questionType: 'multiple-choice', questionCount: 5, difficulty: 'medium', points: 1 }])}
+                    disabled={blueprintSections.length >= 10}
+                    className="text-blue-700 font-semibold hover:text-blue-900 disabled:text-gray-400"
+                  >
+                    {t('blueprint.addSection')}
+                  </button>
+                  <span className="text-gray-500">
+                    {t('common.questions', { count: blueprintSections.reduce((sum, section) => sum + (section.questionCount || 0), 0) })} ·{' '}
+                    {t('common.points', { count: blueprintSections.reduce((sum, section) => sum + (section.questionCount || 0) * (section.points || 0), 0) })}
+                  </span>
+                </div>
               </div>
+            )}
+
+            {/* Pengaturan Soal */}
+            {mode === 'single' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                {/* Jenis Soal */}
+                <div>
+                  <label className="block text-lg font-semibold text-gray-800 mb-3">
+                    {t('form.questionType')}
+                  </label>
+                  <select
+                    name="questionType"
+                    value={formData.questionType}
+                    onChange={handleInputChange}
+                    className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
+                  >
+                    {QUESTION_TYPE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.icon} {t(`questionType.${option.value}`)}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Jumlah Soal */}
+                <div>
+                  <label className="block text-lg font-semibold text-gray-800 mb-3">
+                    {t('form.questionCount')}
+                  </label>
+                  <input
+                    type="number"
+                    name="questionCount"
+                    value={formData.questionCount}
+                    onChange={handleInputChange}
+                    min="1"
+                    max="10"
+                    className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
+                  />
+                  <div className="mt-1 text-xs text-gray-500">{t('form.questionCountHint')}</div>
+                </div>
 
-              {/* Jumlah Soal */}
+                {/* Tingkat Kesulitan */}
+                <div>
+                  <label className="block text-lg font-semibold text-gray-800 mb-3">
+                    {t('form.difficulty')}
+                  </label>
+                  <select
+                    name="difficulty"
+                    value={formData.difficulty}
+                    onChange={handleInputChange}
+                    className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
+                  >
+                    {DIFFICULTY_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.icon} {t(`difficulty.${option.value}`)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {/* Bahasa Soal */}
+            <div className="mb-8">
+              <label className="block text-lg font-semibold text-gray-800 mb-3">
+                {t('form.language')}
+              </label>
+              <select
+                value={outputLanguage}
+                onChange={(e) => setOutputLanguage(e.target.value as OutputLanguage)}
+                className="w-full md:w-1/3 border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
+              >
+                {OUTPUT_LANGUAGES.map(language => (
+                  <option key={language} value={language}>{OUTPUT_LANGUAGE_INFO[language].label}</option>
+                ))}
+              </select>
+              <div className="mt-1 text-xs text-gray-500">{t('form.languageHint')}</div>
+            </div>
+
+            {/* Level Kognitif & Tujuan Pembelajaran */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
               <div>
                 <label className="block text-lg font-semibold text-gray-800 mb-3">
-                  🔢 Jumlah Soal
+                  {t('form.bloom')}
                 </label>
-                <input
-                  type="number"
-                  name="questionCount"
-                  value={formData.questionCount}
-                  onChange={handleInputChange}
-                  min="1"
-                  max="10"
-                  className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
-                />
-                <div className="mt-1 text-xs text-gray-500">1-10 soal</div>
+                <div className="flex flex-wrap gap-2">
+                  {BLOOM_LEVELS.map(level => (
+                    <button
+                      key={level}
+                      type="button"
+                      onClick={() => toggleBloomLevel(level)}
+                      title={t('form.bloomVerbs', { verbs: t(`bloomVerbs.${level}`) })}
+                      className={`px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                        bloomLevels.includes(level)
+                          ? 'border-purple-500 bg-purple-50 text-purple-800'
+                          : 'border-gray-300 text-gray-600 hover:border-purple-300'
+                      }`}
+                    >
+                      {getBloomLevelLabel(level, t)}
+                    </button>
+                  ))}
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {bloomLevels.length > 0 ? t('form.bloomSelected') : t('form.bloomEmpty')}
+                </div>
               </div>
-
-              {/* Tingkat Kesulitan */}
               <div>
                 <label className="block text-lg font-semibold text-gray-800 mb-3">
-                  📈 Tingkat Kesulitan
+                  {t('form.objectives')}
                 </label>
-                <select
-                  name="difficulty"
-                  value={formData.difficulty}
-                  onChange={handleInputChange}
-                  className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 font-medium"
-                >
-                  <option value="easy">😊 Mudah</option>
-                  <option value="medium">🎯 Sedang</option>
-                  <option value="hard">🔥 Sulit</option>
-                </select>
+                <textarea
+                  value={objectivesText}
+                  onChange={(e) => setObjectivesText(e.target.value)}
+                  placeholder={t('form.objectivesPlaceholder')}
+                  className="w-full h-24 border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 text-sm resize-none"
+                />
               </div>
             </div>
 
@@ -485,52 +920,129 @@ export default function Home() {
               {isLoading ? (
                 <div className="flex items-center justify-center space-x-2">
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                  <span>🤖 Menghasilkan Soal...</span>
+                  <span>{t('form.generating', { count: generatedQuestions.length, total: expectedCount })}</span>
                 </div>
               ) : (
                 <div className="flex items-center justify-center space-x-2">
                   <span>✨</span>
-                  <span>Hasilkan Soal dengan AI</span>
+                  <span>{t('form.generate')}</span>
                   <span>✨</span>
                 </div>
               )}
             </button>
+
+            {/* Cancel Button */}
+            {isLoading && (
+              <button
+                type="button"
+                onClick={handleCancelGeneration}
+                className="w-full mt-3 border-2 border-gray-300 text-gray-700 py-3 rounded-xl font-bold hover:bg-gray-50 transition-all"
+              >
+                {t('form.cancel')}
+              </button>
+            )}
           </form>
         </div>
 
+        {/* Bank Soal */}
+        <BankPanel
+          bank={bank}
+          disabled={isLoading}
+          onAssemble={mode === 'blueprint' ? () => bank.assemble(blueprintSections, outputLanguage) : undefined}
+          locale={locale}
+          t={t}
+        />
+
         {/* Hasil Soal */}
         {generatedQuestions.length > 0 && (
           <div className="bg-white rounded-2xl shadow-lg p-8">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-2xl font-bold text-gray-800">
-                📚 Hasil Soal ({generatedQuestions.length} soal)
+                {t('results.title', {
+                  questions: t('common.questions', { count: generatedQuestions.length }),
+                  points: examSections.length > 1 ? ` · ${t('common.points', { count: getTotalPoints(generatedQuestions, examSections) })}` : ''
+                })}
               </h2>
-              <div className="bg-green-100 text-green-800 px-4 py-2 rounded-full text-sm font-medium">
-                ✅ Berhasil Dibuat
-              </div>
+              {isLoading ? (
+                <div className="bg-blue-100 text-blue-800 px-4 py-2 rounded-full text-sm font-medium">
+                  {t('results.progress', { count: generatedQuestions.length, total: expectedCount })}
+                </div>
+              ) : (
+                <div className="bg-green-100 text-green-800 px-4 py-2 rounded-full text-sm font-medium">
+                  {t('results.done')}
+                </div>
+              )}
             </div>
-            {generatedQuestions.map((question, index) => renderQuestion(question, index))}
+            {getBloomDistribution().length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+                <span className="text-gray-600 font-medium">{t('results.bloomDistribution')}</span>
+                {getBloomDistribution().map(({ level, count }) => (
+                  <span key={level} className="bg-purple-100 text-purple-700 px-3 py-1 rounded-full font-medium" title={t(`bloom.${level}`)}>
+                    {BLOOM_LEVEL_INFO[level].code}: {count}
+                  </span>
+                ))}
+              </div>
+            )}
+            {isLoading && (
+              <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${expectedCount ? Math.min(100, (generatedQuestions.length / expectedCount) * 100) : 0}%` }}
+                ></div>
+              </div>
+            )}
+            {!isLoading && !quiz.session && <QuizStartBar quiz={quiz} onStart={startQuiz} t={t} />}
+
+            {quiz.session ? (
+              <QuizView quiz={quiz} questions={generatedQuestions} sections={examSections} getQuestionType={getQuestionTypeOf} t={t} />
+            ) : generatedQuestions.map((question, index) => (
+              <div key={index}>
+                {examSections.length > 1 && isSectionStart(generatedQuestions, index) && <SectionHeading section={getSectionOf(examSections, question)} t={t} />}
+                {renderQuestion(question, index)}
+              </div>
+            ))}
             
-            <div className="mt-8 flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
-              <button 
-                onClick={handleDownloadQuestions}
-                className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 text-white py-3 rounded-xl font-bold hover:from-green-700 hover:to-emerald-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
-              >
-                📄 Download TXT
-              </button>
-              <button 
-                onClick={handleDownloadPDF}
-                className="flex-1 bg-gradient-to-r from-red-600 to-pink-600 text-white py-3 rounded-xl font-bold hover:from-red-700 hover:to-pink-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
-              >
-                📑 Download PDF
-              </button>
-              <button 
-                onClick={() => setGeneratedQuestions([])}
-                className="flex-1 bg-gradient-to-r from-gray-600 to-gray-700 text-white py-3 rounded-xl font-bold hover:from-gray-700 hover:to-gray-800 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
-              >
-                🔄 Buat Soal Baru
-              </button>
-            </div>
+            {!isLoading && !quiz.session && (
+              <GroundingPanel grounding={grounding} onCheck={judge => grounding.run(generatedQuestions, examSections, judge)} t={t} />
+            )}
+
+            {!isLoading && !quiz.session && (
+              <DuplicatesPanel
+                duplicates={duplicates}
+                questions={generatedQuestions}
+                editor={editor}
+                onCheckBank={() => duplicates.runBankCheck(generatedQuestions, examSections)}
+                t={t}
+              />
+            )}
+
+            {!isLoading && !quiz.session && generatedQuestions.some(question => distractors.getAnalysis(question)) && (
+              <DistractorPanel distractors={distractors} disabled={editor.editing !== null} t={t} />
+            )}
+
+            {!isLoading && !quiz.session && (
+              <TranslationPanel translation={translation} disabled={editor.editing !== null || editor.regeneratingIndex !== null} t={t} />
+            )}
+
+            {!isLoading && !quiz.session && (
+              <PrintSettingsPanel exporter={exporter} t={t} />
+            )}
+
+            {!isLoading && !quiz.session && (
+              <BankSaveBar bank={bank} subject={exporter.printSettings.subject} onSave={handleSaveToBank} t={t} />
+            )}
+
+            {!isLoading && !quiz.session && (
+              <ExportButtons
+                exporter={exporter}
+                onNewQuestions={() => {
+                  setGeneratedQuestions([]);
+                  quiz.exit();
+                  editor.cancel();
+                }}
+                t={t}
+              />
+            )}
           </div>
         )}
       </div>
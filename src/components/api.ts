@@ -0,0 +1,31 @@
+import { isApiErrorReason } from '@/lib/api/errors';
+import type { MessageKey, Translator } from '@/lib/i18n';
+
+export interface ApiErrorBody {
+  error?: string;
+  reason?: string;
+  limit?: number;
+}
+
+// Pesan `error` dari server berbahasa Indonesia, jadi yang ditampilkan adalah
+// terjemahan `reason`-nya; error tanpa `reason` yang dikenal memakai `fallback`
+export function getApiErrorMessage(data: ApiErrorBody | undefined, t: Translator, fallback: MessageKey): string {
+  return isApiErrorReason(data?.reason)
+    ? `${t(fallback)}: ${t(`apiError.${data.reason}`, { limit: data.limit })}`
+    : t(fallback);
+}
+
+// Pesan error dari response API. Batas permintaan (429) ditampilkan dengan
+// waktu tunggu dari header Retry-After dalam bahasa antarmuka
+export function getResponseError(response: Response, data: ApiErrorBody | undefined, t: Translator, fallback: MessageKey): string {
+  if (response.status === 429) {
+    const seconds = Math.max(1, Number(response.headers.get('Retry-After')) || 60);
+    const wait = seconds < 60
+      ? t('time.seconds', { count: seconds })
+      : seconds < 3600
+        ? t('time.minutes', { count: Math.ceil(seconds / 60) })
+        : t('time.hours', { count: Math.ceil(seconds / 3600) });
+    return t(data?.reason === 'quota' ? 'limit.quota' : 'limit.rateLimit', { wait });
+  }
+  return getApiErrorMessage(data, t, fallback);
+}
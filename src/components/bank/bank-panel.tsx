@@ -0,0 +1,174 @@
+'use client';
+
+import { Locale, LOCALES, Translator } from '@/lib/i18n';
+import { DIFFICULTY_OPTIONS, getBloomLevelLabel, QUESTION_TYPE_OPTIONS } from '../labels';
+import type { QuestionBank } from './use-question-bank';
+
+interface BankPanelProps {
+  bank: QuestionBank;
+  disabled: boolean; // soal sedang dibuat; hasil tidak boleh diganti
+  onAssemble?: () => void; // hanya di mode blueprint
+  locale: Locale;
+  t: Translator;
+}
+
+// Panel bank soal: pencarian dengan filter, pilih soal, hapus dan susun ujian dari bank
+export function BankPanel({ bank, disabled, onAssemble, locale, t }: BankPanelProps) {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-8 mb-8">
+      <button
+        type="button"
+        onClick={bank.toggle}
+        className="w-full flex items-center justify-between text-left"
+      >
+        <h2 className="text-2xl font-bold text-gray-800">{t('bank.title')}</h2>
+        <span className="text-gray-500">{bank.isOpen ? t('bank.close') : t('bank.open')}</span>
+      </button>
+
+      {bank.isOpen && (
+        <div className="mt-6">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              bank.runSearch();
+            }}
+            className="grid grid-cols-1 md:grid-cols-6 gap-3 text-sm"
+          >
+            <input
+              type="text"
+              value={bank.search.q}
+              placeholder={t('bank.searchPlaceholder')}
+              onChange={(e) => bank.setSearch(prev => ({ ...prev, q: e.target.value }))}
+              className="md:col-span-2 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+            />
+            <select
+              value={bank.search.type}
+              onChange={(e) => bank.setSearch(prev => ({ ...prev, type: e.target.value }))}
+              className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+            >
+              <option value="">{t('bank.allTypes')}</option>
+              {QUESTION_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.icon} {t(`questionType.${option.value}`)}</option>
+              ))}
+            </select>
+            <select
+              value={bank.search.difficulty}
+              onChange={(e) => bank.setSearch(prev => ({ ...prev, difficulty: e.target.value }))}
+              className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+            >
+              <option value="">{t('bank.allDifficulties')}</option>
+              {DIFFICULTY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.icon} {t(`difficulty.${option.value}`)}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              list="bank-subjects"
+              value={bank.search.subject}
+              placeholder={t('bank.subject')}
+              onChange={(e) => bank.setSearch(prev => ({ ...prev, subject: e.target.value }))}
+              className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+            />
+            <input
+              type="text"
+              list="bank-tags"
+              value={bank.search.tag}
+              placeholder={t('bank.tag')}
+              onChange={(e) => bank.setSearch(prev => ({ ...prev, tag: e.target.value }))}
+              className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+            />
+            <datalist id="bank-subjects">
+              {bank.facets.subjects.map(subject => <option key={subject} value={subject} />)}
+            </datalist>
+            <datalist id="bank-tags">
+              {bank.facets.tags.map(({ tag, count }) => <option key={tag} value={tag}>{`${tag} (${count})`}</option>)}
+            </datalist>
+            <div className="md:col-span-6 flex flex-col sm:flex-row gap-3">
+              <button
+                type="submit"
+                disabled={bank.isLoading}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-blue-700 disabled:bg-gray-400 transition-all"
+              >
+                {bank.isLoading ? t('bank.searching') : t('bank.search')}
+              </button>
+              <button
+                type="button"
+                onClick={bank.applySelection}
+                disabled={bank.selectedIds.length === 0 || disabled}
+                className="bg-green-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-green-700 disabled:bg-gray-400 transition-all"
+              >
+                {t('bank.useSelected', { count: bank.selectedIds.length })}
+              </button>
+              {onAssemble && (
+                <button
+                  type="button"
+                  onClick={onAssemble}
+                  disabled={bank.isLoading || disabled}
+                  title={t('bank.assembleHint')}
+                  className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-indigo-700 disabled:bg-gray-400 transition-all"
+                >
+                  {t('bank.assemble')}
+                </button>
+              )}
+            </div>
+          </form>
+
+          {bank.error && (
+            <div className="mt-4 bg-red-50 border-2 border-red-200 text-red-800 px-4 py-3 rounded-xl text-sm">⚠️ {bank.error}</div>
+          )}
+
+          {bank.results && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-600 mb-3">
+                {bank.results.total === 0
+                  ? t('bank.noResults')
+                  : t('bank.showing', { count: bank.results.questions.length, total: bank.results.total })}
+              </p>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {bank.results.questions.map(item => (
+                  <label key={item.id} className="flex items-start gap-3 border-2 border-gray-200 rounded-lg p-3 text-sm cursor-pointer hover:border-blue-300">
+                    <input
+                      type="checkbox"
+                      checked={bank.selectedIds.includes(item.id)}
+                      onChange={(e) => bank.setSelected(item.id, e.target.checked)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1">
+                      <p className="text-gray-800 font-medium">{item.question.question}</p>
+                      <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                        <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{t(`questionType.${item.questionType}`)}</span>
+                        <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">{t(`difficulty.${item.difficulty}`)}</span>
+                        {item.subject && <span className="bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{item.subject}</span>}
+                        {item.question.bloomLevel && (
+                          <span className="bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full">{getBloomLevelLabel(item.question.bloomLevel, t)}</span>
+                        )}
+                        {item.tags.map(tag => (
+                          <span key={tag} className="bg-green-100 text-green-700 px-2 py-0.5 rounded-full">#{tag}</span>
+                        ))}
+                        <span className="text-gray-400">
+                          {new Date(item.createdAt).toLocaleDateString(LOCALES[locale].intl)}{item.model ? ` · ${item.model}` : ''}
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        bank.remove(item.id);
+                      }}
+                      className="text-red-600 hover:text-red-800"
+                      title={t('bank.delete')}
+                    >
+                      🗑️
+                    </button>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+
+  );
+}
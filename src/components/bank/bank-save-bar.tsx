@@ -0,0 +1,34 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { QuestionBank } from './use-question-bank';
+
+// Simpan soal hasil ke bank dengan tag; mata pelajaran diambil dari kop naskah
+export function BankSaveBar({ bank, subject, onSave, t }: { bank: QuestionBank; subject: string; onSave: () => void; t: Translator }) {
+  return (
+    <div className="mt-4 border-2 border-gray-200 rounded-xl p-4">
+      <div className="flex flex-col sm:flex-row gap-3 text-sm">
+        <span className="font-semibold text-gray-800 self-center">{t('bank.save')}</span>
+        <input
+          type="text"
+          value={bank.tags}
+          placeholder={t('bank.tagsPlaceholder')}
+          onChange={(e) => bank.setTags(e.target.value)}
+          className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+        />
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={bank.isSaving}
+          className="bg-emerald-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-emerald-700 disabled:bg-gray-400 transition-all"
+        >
+          {bank.isSaving ? t('bank.saving') : t('bank.saveButton')}
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        {t('bank.saveHint', { subject: subject ? ` (${subject})` : '' })}
+      </p>
+      {bank.message && <p className="mt-2 text-sm text-green-700 font-medium">{bank.message}</p>}
+    </div>
+  );
+}
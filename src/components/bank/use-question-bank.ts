@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import type { BankFacets, BankQuestion } from '@/lib/bank/types';
+import type { Translator } from '@/lib/i18n';
+import { DEFAULT_POINTS } from '@/lib/questions/types';
+import type { OutputLanguage } from '@/lib/questions/types';
+import { getResponseError } from '../api';
+import type { APIResponse, ExamSectionInfo, GeneratedQuestion } from '../exam';
+
+// Filter pencarian bank soal; string kosong = semua
+export interface BankSearchForm {
+  q: string;
+  type: string;
+  difficulty: string;
+  subject: string;
+  tag: string;
+}
+
+// Soal hasil beserta asalnya yang disimpan ke bank
+export interface BankSaveInput {
+  sections: ExamSectionInfo[];
+  questions: GeneratedQuestion[];
+  subject: string;
+  material?: string;
+  model?: string;
+  provider?: string;
+}
+
+interface QuestionBankOptions {
+  t: Translator;
+  onExam: (sections: ExamSectionInfo[], questions: GeneratedQuestion[]) => void; // soal dari bank dipakai sebagai hasil
+  onError: (message: string) => void; // error simpan dan kekurangan soal tampil di pesan error utama
+}
+
+/**
+ * State bank soal: simpan soal hasil, cari, hapus, pakai soal terpilih dan
+ * susun ujian dari bank mengikuti blueprint
+ */
+export function useQuestionBank({ t, onExam, onError }: QuestionBankOptions) {
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState<BankSearchForm>({ q: '', type: '', difficulty: '', subject: '', tag: '' });
+  const [results, setResults] = useState<{ questions: BankQuestion[]; total: number } | null>(null);
+  const [facets, setFacets] = useState<BankFacets>({ subjects: [], tags: [] });
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // similarCount = jumlah soal yang mirip soal di bank; simpan hanya setelah dikonfirmasi
+  const save = async (input: BankSaveInput, similarCount: number) => {
+    if (input.questions.length === 0) return;
+    if (similarCount > 0 && !window.confirm(t('bank.confirmSimilar', { count: similarCount }))) return;
+    setIsSaving(true);
+    setMessage('');
+    onError('');
+
+    try {
+      const response = await fetch('/api/question-bank', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...input, tags })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'bank.saveFailed'));
+      }
+      const { questions, skipped } = data.data as { questions: BankQuestion[]; skipped: number };
+      setMessage(t('bank.saved', { count: questions.length }) + (skipped > 0 ? t('bank.skipped', { count: skipped }) : ''));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('bank.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const runSearch = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams();
+      (Object.keys(search) as (keyof BankSearchForm)[]).forEach(key => {
+        if (search[key].trim()) params.set(key, search[key].trim());
+      });
+      params.set('limit', '50');
+      const response = await fetch(`/api/question-bank?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'bank.searchFailed'));
+      }
+      setResults({ questions: data.data.questions, total: data.data.total });
+      setFacets(data.data.facets);
+      setSelectedIds(prev => prev.filter(id => data.data.questions.some((question: BankQuestion) => question.id === id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('bank.searchFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Panel dibuka pertama kali: langsung tampilkan isi bank
+  const toggle = () => {
+    setIsOpen(!isOpen);
+    if (!isOpen && !results) runSearch();
+  };
+
+  const remove = async (id: number) => {
+    if (!window.confirm(t('bank.confirmDelete'))) return;
+    setError('');
+
+    try {
+      const response = await fetch(`/api/question-bank/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(getResponseError(response, data, t, 'bank.deleteFailed'));
+      }
+      setSelectedIds(prev => prev.filter(selected => selected !== id));
+      await runSearch();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('bank.deleteFailed'));
+    }
+  };
+
+  const setSelected = (id: number, selected: boolean) => {
+    setSelectedIds(prev => (selected ? [...prev, id] : prev.filter(item => item !== id)));
+  };
+
+  // Pakai soal terpilih sebagai hasil; dikelompokkan per jenis dan tingkat kesulitan
+  const applySelection = () => {
+    const selected = results?.questions.filter(item => selectedIds.includes(item.id)) ?? [];
+    if (selected.length === 0) return;
+
+    const sections: ExamSectionInfo[] = [];
+    const questions = selected.map(item => {
+      let sectionIndex = sections.findIndex(section => section.questionType === item.questionType && section.difficulty === item.difficulty);
+      if (sectionIndex === -1) {
+        sectionIndex = sections.push({
+          title: t(`questionType.${item.questionType}`),
+          questionType: item.questionType,
+          questionCount: 0,
+          difficulty: item.difficulty,
+          points: DEFAULT_POINTS[item.questionType]
+        }) - 1;
+      }
+      sections[sectionIndex].questionCount++;
+      return { ...item.question, sectionIndex, bankId: item.id };
+    });
+    onExam(sections, questions.sort((a, b) => a.sectionIndex - b.sectionIndex));
+  };
+
+  // Susun ujian dari bank mengikuti blueprint, difilter mata pelajaran dan tag pencarian
+  const assemble = async (blueprintSections: ExamSectionInfo[], language: OutputLanguage) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/question-bank/assemble', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          blueprint: { sections: blueprintSections },
+          language,
+          subject: search.subject.trim() || undefined,
+          tags: search.tag.trim() || undefined
+        })
+      });
+      const result: APIResponse = await response.json();
+      if (!response.ok || !result.success || !result.data?.exam) {
+        throw new Error(getResponseError(response, result, t, 'bank.assembleFailed'));
+      }
+      const { sections } = result.data.exam;
+      onExam(
+        sections.map(({ title, questionType, difficulty, points, questions }) => ({ title, questionType, difficulty, points, questionCount: questions.length })),
+        sections.flatMap((section, sectionIndex) => section.questions.map(question => ({ ...question, sectionIndex })))
+      );
+      const shortages = sections
+        .filter(section => section.questions.length < section.questionCount)
+        .map(section => t('bank.sectionShortage', { title: section.title, count: section.questions.length, total: section.questionCount }));
+      if (shortages.length > 0) onError(shortages.join('; '));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('bank.assembleFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Pesan simpan milik set soal sebelumnya
+  const reset = () => setMessage('');
+
+  return {
+    tags,
+    setTags,
+    isSaving,
+    message,
+    isOpen,
+    search,
+    setSearch,
+    results,
+    facets,
+    selectedIds,
+    isLoading,
+    error,
+    save,
+    runSearch,
+    toggle,
+    remove,
+    setSelected,
+    applySelection,
+    assemble,
+    reset
+  };
+}
+
+export type QuestionBank = ReturnType<typeof useQuestionBank>;
@@ -0,0 +1,48 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import { DistractorAnalysis, WEAK_DISTRACTOR_SCORE } from '@/lib/questions/distractor-analysis';
+import type { Distractors } from './use-distractors';
+
+// Skor kualitas pengecoh; oranye jika di bawah ambang perbaikan
+export function DistractorBadge({ analysis, t }: { analysis: DistractorAnalysis; t: Translator }) {
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium ${analysis.score < WEAK_DISTRACTOR_SCORE ? 'bg-orange-100 text-orange-700' : 'bg-green-100 text-green-700'}`}
+      title={t('distractors.scoreHint')}
+    >
+      {t('distractors.badge', { score: Math.round(analysis.score * 100) })}
+    </span>
+  );
+}
+
+interface DistractorIssuesProps {
+  distractors: Distractors;
+  analysis: DistractorAnalysis;
+  index: number;
+  showImprove: boolean; // tombol perbaiki disembunyikan selama soal dibuat
+  disabled?: boolean;
+  t: Translator;
+}
+
+// Masalah pengecoh satu soal beserta tombol perbaiki pengecoh lemah
+export function DistractorIssues({ distractors, analysis, index, showImprove, disabled, t }: DistractorIssuesProps) {
+  return (
+    <div className="bg-orange-50 border-2 border-orange-200 rounded-xl p-4 mb-4 text-sm text-orange-800">
+      <strong>{t('distractors.needsWork')}</strong>
+      <ul className="list-disc ml-6 mt-1">
+        {analysis.issues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+      </ul>
+      {analysis.weakOptions.length > 0 && showImprove && (
+        <button
+          type="button"
+          onClick={() => distractors.improve([index])}
+          disabled={distractors.improving.length > 0 || disabled}
+          className="mt-2 bg-white border border-orange-300 text-orange-700 px-3 py-1 rounded-full text-xs font-medium hover:bg-orange-100 disabled:text-gray-300"
+        >
+          {distractors.improving.includes(index) ? t('distractors.improving') : t('distractors.improve')}
+        </button>
+      )}
+    </div>
+  );
+}
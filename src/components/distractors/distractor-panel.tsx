@@ -0,0 +1,30 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { Distractors } from './use-distractors';
+
+// Ringkasan pengecoh lemah di seluruh set dengan tombol perbaiki semua
+export function DistractorPanel({ distractors, disabled, t }: { distractors: Distractors; disabled?: boolean; t: Translator }) {
+  const { weakIndices } = distractors;
+  return (
+    <div className="mt-4 border-2 border-gray-200 rounded-xl p-4 text-sm">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <span className="font-semibold text-gray-800 self-center">{t('distractors.title')}</span>
+        <span className="flex-1 self-center text-gray-600">
+          {weakIndices.length > 0
+            ? t('distractors.weakSummary', { count: weakIndices.length })
+            : t('distractors.okSummary')}
+        </span>
+        <button
+          type="button"
+          onClick={() => distractors.improve(weakIndices)}
+          disabled={distractors.improving.length > 0 || disabled || weakIndices.length === 0}
+          className="border-2 border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-bold hover:bg-gray-50 disabled:text-gray-400 transition-all"
+        >
+          {distractors.improving.length > 1 ? t('distractors.improving') : t('distractors.improveAll')}
+        </button>
+      </div>
+      {distractors.note && <p className="mt-2 text-gray-700">{distractors.note}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { Translator } from '@/lib/i18n';
+import { analyzeDistractors, createMaterialVocabulary, DistractorImprovement } from '@/lib/questions/distractor-analysis';
+import type { QuestionType } from '@/lib/questions/types';
+import { getResponseError } from '../api';
+import { GeneratedQuestion, getQuestionKey } from '../exam';
+
+interface DistractorOptions {
+  questions: GeneratedQuestion[];
+  setQuestions: Dispatch<SetStateAction<GeneratedQuestion[]>>;
+  material: string;
+  getQuestionType: (question: GeneratedQuestion) => QuestionType;
+  t: Translator;
+}
+
+/**
+ * Analisis kualitas pengecoh soal pilihan ganda (di browser) dan perbaikan
+ * pengecoh lemah lewat /api/improve-distractors
+ */
+export function useDistractors({ questions, setQuestions, material, getQuestionType, t }: DistractorOptions) {
+  const [improving, setImproving] = useState<number[]>([]); // indeks soal yang sedang diperbaiki
+  const [note, setNote] = useState('');
+
+  // Kata dasar materi untuk menilai apakah pengecoh masuk akal
+  const vocabulary = material.trim() ? createMaterialVocabulary(material) : undefined;
+
+  const getAnalysis = (question: GeneratedQuestion) =>
+    getQuestionType(question) === 'multiple-choice' && question.options ? analyzeDistractors(question, vocabulary) : undefined;
+
+  // Indeks soal pilihan ganda yang punya pengecoh lemah
+  const weakIndices = questions.map((question, index) => ({ analysis: getAnalysis(question), index }))
+    .filter(({ analysis }) => analysis && analysis.weakOptions.length > 0)
+    .map(({ index }) => index);
+
+  // Buat ulang hanya pengecoh yang lemah; pokok soal dan kunci jawaban tidak berubah
+  const improve = async (indices: number[]) => {
+    if (indices.length === 0) return;
+    setImproving(indices);
+    setNote('');
+
+    try {
+      const response = await fetch('/api/improve-distractors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          material: material.trim() || undefined,
+          questions: indices.map(index => ({ ...questions[index], id: getQuestionKey(questions[index]) }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'distractors.failed'));
+      }
+      const results: DistractorImprovement[] = data.data.results;
+      const improved = new Map(results.filter(result => result.improved).map(result => [result.id, result.question]));
+      setQuestions(prev => prev.map(question => {
+        const replacement = improved.get(getQuestionKey(question));
+        return replacement ? { ...question, options: replacement.options, id: replacement.id } : question;
+      }));
+      setNote(improved.size > 0
+        ? t('distractors.improved', { count: improved.size })
+        : t('distractors.unchanged'));
+    } catch (err) {
+      setNote(err instanceof Error ? err.message : t('distractors.failed'));
+    } finally {
+      setImproving([]);
+    }
+  };
+
+  const reset = () => setNote('');
+
+  return {
+    improving,
+    note,
+    getAnalysis,
+    weakIndices,
+    improve,
+    reset
+  };
+}
+
+export type Distractors = ReturnType<typeof useDistractors>;
@@ -0,0 +1,22 @@
+'use client';
+
+import type { BankDuplicateMatch } from '@/lib/bank/duplicates';
+import type { Translator } from '@/lib/i18n';
+
+// Soal mirip dengan soal lain di set; `original` = indeks soal pertama di kelompoknya
+export function DuplicateBadge({ original, t }: { original: number; t: Translator }) {
+  return (
+    <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-full text-xs font-medium">
+      {t('duplicates.badge', { number: original + 1 })}
+    </span>
+  );
+}
+
+// Soal mirip dengan soal di bank; teks soal bank tampil sebagai tooltip
+export function BankMatchBadge({ match, t }: { match: BankDuplicateMatch; t: Translator }) {
+  return (
+    <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-full text-xs font-medium" title={match.question.question.question}>
+      {t('duplicates.bankBadge', { id: match.question.id, similarity: Math.round(match.similarity * 100) })}
+    </span>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import { RegenerateButton } from '../editor/regenerate-button';
+import type { QuestionEditor } from '../editor/use-question-editor';
+import type { GeneratedQuestion } from '../exam';
+import type { Duplicates } from './use-duplicates';
+
+interface DuplicatesPanelProps {
+  duplicates: Duplicates;
+  questions: GeneratedQuestion[];
+  editor: QuestionEditor;
+  onCheckBank: () => void;
+  t: Translator;
+}
+
+// Ringkasan soal kembar; setiap kelompok dan kecocokan bank punya tombol buat ulang
+export function DuplicatesPanel({ duplicates, questions, editor, onCheckBank, t }: DuplicatesPanelProps) {
+  return (
+    <div className="mt-4 border-2 border-gray-200 rounded-xl p-4 text-sm">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <span className="font-semibold text-gray-800 self-center">{t('duplicates.title')}</span>
+        <span className="flex-1 self-center text-gray-600">
+          {duplicates.isChecking ? t('duplicates.checking') : duplicates.getSummary()}
+        </span>
+        <button
+          type="button"
+          onClick={onCheckBank}
+          disabled={duplicates.isChecking}
+          className="border-2 border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-bold hover:bg-gray-50 disabled:text-gray-400 transition-all"
+        >
+          {t('duplicates.checkBank')}
+        </button>
+      </div>
+      {duplicates.clusters.map(cluster => (
+        <div key={cluster.members.join('-')} className="mt-3 bg-orange-50 border border-orange-200 rounded-lg p-3">
+          <p className="text-orange-800">
+            {t('duplicates.cluster', { numbers: cluster.members.map(member => member + 1).join(', '), similarity: Math.round(cluster.similarity * 100) })}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {cluster.members.slice(1).map(member => <RegenerateButton key={member} editor={editor} index={member} t={t} />)}
+          </div>
+        </div>
+      ))}
+      {questions.map((question, index) => duplicates.getBankMatches(question).map(match => (
+        <div key={`${index}-${match.question.id}`} className="mt-3 bg-orange-50 border border-orange-200 rounded-lg p-3">
+          <p className="text-orange-800">
+            {t('duplicates.bankMatch', { number: index + 1, id: match.question.id, similarity: Math.round(match.similarity * 100) })} <q className="italic">{match.question.question.question}</q>
+          </p>
+          <div className="flex flex-wrap gap-2 mt-2"><RegenerateButton editor={editor} index={index} t={t} /></div>
+        </div>
+      )))}
+      {duplicates.note && <p className="mt-2 text-amber-700">{duplicates.note}</p>}
+    </div>
+  );
+}
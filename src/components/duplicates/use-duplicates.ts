@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import type { BankDuplicateMatch } from '@/lib/bank/duplicates';
+import type { Translator } from '@/lib/i18n';
+import { createSimilarityProfile, findDuplicateClusters } from '@/lib/questions/similarity';
+import { getResponseError } from '../api';
+import { ExamSectionInfo, GeneratedQuestion, getQuestionKey } from '../exam';
+
+/**
+ * Soal kembar di dalam set (dihitung di browser) dan soal yang mirip dengan
+ * soal di bank lewat /api/question-bank/duplicates, per ID soal
+ */
+export function useDuplicates({ questions, t }: { questions: GeneratedQuestion[]; t: Translator }) {
+  const [bankMatches, setBankMatches] = useState<Record<string, BankDuplicateMatch[]>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [note, setNote] = useState('');
+
+  // Kelompok soal yang saling mirip di dalam set; dihitung ulang setiap kali soal berubah
+  const clusters = findDuplicateClusters(questions.map(question => createSimilarityProfile(question)));
+
+  const getBankMatches = (question: GeneratedQuestion): BankDuplicateMatch[] => bankMatches[getQuestionKey(question)] ?? [];
+
+  // Jumlah soal yang punya kembaran di bank
+  const inBankCount = questions.filter(question => getBankMatches(question).length > 0).length;
+
+  // Cari soal bank yang kembar atau hampir kembar dengan soal hasil
+  const runBankCheck = async (checkedQuestions: GeneratedQuestion[], sections: ExamSectionInfo[]) => {
+    if (checkedQuestions.length === 0) return;
+    setIsChecking(true);
+    setNote('');
+
+    try {
+      const response = await fetch('/api/question-bank/duplicates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          sections,
+          questions: checkedQuestions.map(question => ({ ...question, id: getQuestionKey(question) }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'duplicates.failed'));
+      }
+      const results: { id: string; matches: BankDuplicateMatch[] }[] = data.data.results;
+      setBankMatches(Object.fromEntries(results.map(result => [result.id, result.matches])));
+    } catch (err) {
+      setNote(err instanceof Error ? err.message : t('duplicates.failed'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  // Hasil cek bank milik set soal sebelumnya
+  const reset = () => {
+    setBankMatches({});
+    setNote('');
+  };
+
+  const getSummary = () => {
+    if (clusters.length === 0 && inBankCount === 0) return t('duplicates.none');
+    return [
+      clusters.length > 0 ? t('duplicates.clusters', { count: clusters.length }) : '',
+      inBankCount > 0 ? t('duplicates.inBank', { count: inBankCount }) : ''
+    ].filter(Boolean).join(' ');
+  };
+
+  return {
+    clusters,
+    isChecking,
+    note,
+    inBankCount,
+    getBankMatches,
+    runBankCheck,
+    reset,
+    getSummary
+  };
+}
+
+export type Duplicates = ReturnType<typeof useDuplicates>;
@@ -0,0 +1,140 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { QuestionType } from '@/lib/questions/types';
+import { TRUE_FALSE_CHOICES } from '../labels';
+import type { QuestionEditor } from './use-question-editor';
+
+// Form edit soal: teks soal, opsi, kunci jawaban dan penjelasan
+export function QuestionEditForm({ editor, questionType, t }: { editor: QuestionEditor; questionType: QuestionType; t: Translator }) {
+  if (!editor.editing) return null;
+  const { index, draft, errors } = editor.editing;
+  const inputClass = 'w-full border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700 focus:border-blue-500';
+
+  return (
+    <div className="border-2 border-blue-400 rounded-xl p-6 mb-6 bg-blue-50 text-sm">
+      <h4 className="font-bold text-lg text-gray-800 mb-4">{t('editor.title', { number: index + 1 })}</h4>
+
+      <label className="block font-semibold text-gray-700 mb-1">{t('editor.question')}</label>
+      <textarea
+        value={draft.question}
+        rows={3}
+        onChange={(e) => editor.updateDraft({ question: e.target.value })}
+        className={`${inputClass} mb-4`}
+      />
+
+      {questionType === 'multiple-choice' && draft.options && (
+        <div className="mb-4">
+          <label className="block font-semibold text-gray-700 mb-1">{t('editor.options')}</label>
+          <div className="space-y-2">
+            {draft.options.map((option, optIndex) => (
+              <div key={optIndex} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`edit-answer-${index}`}
+                  checked={draft.correctAnswer === option}
+                  onChange={() => editor.updateDraft({ correctAnswer: option })}
+                  title={t('editor.answerKey')}
+                />
+                <span className="font-medium text-gray-700">{String.fromCharCode(65 + optIndex)}.</span>
+                <input
+                  type="text"
+                  value={option}
+                  onChange={(e) => editor.updateDraft({
+                    options: draft.options!.map((existing, existingIndex) => (existingIndex === optIndex ? e.target.value : existing)),
+                    // Kunci jawaban ikut berubah jika opsi yang benar diedit
+                    correctAnswer: draft.correctAnswer === option ? e.target.value : draft.correctAnswer
+                  })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {questionType === 'true-false' && (
+        <div className="mb-4">
+          <label className="block font-semibold text-gray-700 mb-1">{t('editor.answerKey')}</label>
+          <select
+            value={draft.correctAnswer ?? ''}
+            onChange={(e) => editor.updateDraft({ correctAnswer: e.target.value })}
+            className={inputClass}
+          >
+            {TRUE_FALSE_CHOICES.map(({ value, label }) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {(questionType === 'fill-in-the-blank' || questionType === 'short-answer') && (
+        <div className="mb-4">
+          <label className="block font-semibold text-gray-700 mb-1">{t('editor.answerKey')}</label>
+          <input
+            type="text"
+            value={draft.correctAnswer ?? ''}
+            onChange={(e) => editor.updateDraft({ correctAnswer: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {questionType === 'matching' && draft.pairs && (
+        <div className="mb-4">
+          <label className="block font-semibold text-gray-700 mb-1">{t('editor.pairs')}</label>
+          <div className="space-y-2">
+            {draft.pairs.map((pair, pairIndex) => (
+              <div key={pairIndex} className="grid grid-cols-2 gap-2">
+                {(['left', 'right'] as const).map(side => (
+                  <input
+                    key={side}
+                    type="text"
+                    value={pair[side]}
+                    onChange={(e) => editor.updateDraft({
+                      pairs: draft.pairs!.map((existing, existingIndex) => (
+                        existingIndex === pairIndex ? { ...existing, [side]: e.target.value } : existing
+                      ))
+                    })}
+                    className={inputClass}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="block font-semibold text-gray-700 mb-1">{t('editor.explanation')}</label>
+      <textarea
+        value={draft.explanation ?? ''}
+        rows={2}
+        onChange={(e) => editor.updateDraft({ explanation: e.target.value })}
+        className={`${inputClass} mb-4`}
+      />
+
+      {errors.length > 0 && (
+        <ul className="bg-red-50 border-2 border-red-200 text-red-800 rounded-lg px-6 py-3 mb-4 list-disc">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={editor.save}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-blue-700 transition-all"
+        >
+          {t('editor.save')}
+        </button>
+        <button
+          type="button"
+          onClick={editor.cancel}
+          className="border-2 border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-bold hover:bg-gray-50 transition-all"
+        >
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { QuestionEditor } from './use-question-editor';
+
+interface RegenerateButtonProps {
+  editor: QuestionEditor;
+  index: number;
+  label?: string; // bawaan: "Buat ulang soal N"
+  disabled?: boolean;
+  t: Translator;
+}
+
+// Tombol buat ulang satu soal; nonaktif selama ada soal yang diedit atau dibuat ulang
+export function RegenerateButton({ editor, index, label, disabled, t }: RegenerateButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={() => editor.regenerate(index)}
+      disabled={disabled || editor.editing !== null || editor.regeneratingIndex !== null || !editor.canRegenerate}
+      title={editor.canRegenerate ? t('question.regenerateHint') : t('question.regenerateNeedsMaterial')}
+      className="bg-white border border-gray-300 text-gray-700 px-3 py-1 rounded-full text-xs font-medium hover:bg-gray-50 disabled:text-gray-300"
+    >
+      {editor.regeneratingIndex === index ? t('question.regenerating') : (label ?? t('question.regenerateNumbered', { number: index + 1 }))}
+    </button>
+  );
+}
@@ -0,0 +1,120 @@
+import { Dispatch, SetStateAction, useState } from 'react';
+import type { Translator } from '@/lib/i18n';
+import { createQuestionId } from '@/lib/questions/shuffle';
+import type { LearningObjective, QuestionType } from '@/lib/questions/types';
+import { validateQuestion } from '@/lib/questions/validation';
+import { getResponseError } from '../api';
+import type { APIResponse, ExamSectionInfo, GeneratedQuestion } from '../exam';
+
+// Soal yang sedang diedit beserta draf dan pesan validasinya
+export interface QuestionEditing {
+  index: number;
+  draft: GeneratedQuestion;
+  errors: string[];
+}
+
+interface QuestionEditorOptions {
+  questions: GeneratedQuestion[];
+  setQuestions: Dispatch<SetStateAction<GeneratedQuestion[]>>;
+  sections: ExamSectionInfo[];
+  material: string;
+  objectives: LearningObjective[];
+  getQuestionType: (question: GeneratedQuestion) => QuestionType;
+  onError: (message: string) => void; // error buat ulang soal tampil di pesan error utama
+  t: Translator;
+}
+
+/**
+ * State edit soal oleh guru dan buat ulang satu soal lewat AI. Soal yang
+ * disimpan divalidasi dengan aturan yang sama seperti hasil AI.
+ */
+export function useQuestionEditor({ questions, setQuestions, sections, material, objectives, getQuestionType, onError, t }: QuestionEditorOptions) {
+  const [editing, setEditing] = useState<QuestionEditing | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+
+  const replaceQuestion = (index: number, question: GeneratedQuestion) => {
+    setQuestions(prev => prev.map((existing, questionIndex) => (questionIndex === index ? question : existing)));
+  };
+
+  const start = (index: number) => {
+    setEditing({ index, draft: structuredClone(questions[index]), errors: [] });
+  };
+
+  const updateDraft = (changes: Partial<GeneratedQuestion>) => {
+    setEditing(prev => prev && { ...prev, draft: { ...prev.draft, ...changes } });
+  };
+
+  const save = () => {
+    if (!editing) return;
+    const { index, draft } = editing;
+    const { question, errors } = validateQuestion(draft, getQuestionType(draft));
+    if (!question) {
+      setEditing({ ...editing, errors });
+      return;
+    }
+    // ID kanonik dihitung ulang dari isi baru supaya paket acak dan export tetap konsisten
+    replaceQuestion(index, { ...draft, ...question, id: createQuestionId(question) });
+    setEditing(null);
+  };
+
+  const cancel = () => setEditing(null);
+
+  // Buat ulang satu soal dengan jenis, tingkat kesulitan dan level kognitif yang sama
+  const regenerate = async (index: number) => {
+    const current = questions[index];
+    const section = sections[current.sectionIndex ?? 0];
+    // Prompt hanya memuat soal-soal terakhir dari daftar, jadi soal sebagian dan soal lama diletakkan di akhir
+    const others = questions.filter((_, questionIndex) => questionIndex !== index);
+    const avoidQuestions = [
+      ...others.filter(question => question.sectionIndex !== current.sectionIndex),
+      ...others.filter(question => question.sectionIndex === current.sectionIndex),
+      current
+    ].map(question => question.question);
+
+    setRegeneratingIndex(index);
+    onError('');
+
+    try {
+      const response = await fetch('/api/generate-questions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          material,
+          questionType: section.questionType,
+          questionCount: 1,
+          difficulty: section.difficulty,
+          language: section.language,
+          bloomLevels: current.bloomLevel ? [current.bloomLevel] : undefined,
+          objectives: objectives.length > 0 ? objectives : undefined,
+          avoidQuestions
+        })
+      });
+      const result: APIResponse = await response.json();
+      const replacement = result.data?.questions?.[0];
+      if (!response.ok || !result.success || !replacement) {
+        throw new Error(getResponseError(response, result, t, 'question.regenerateFailed'));
+      }
+      replaceQuestion(index, { ...replacement, sectionIndex: current.sectionIndex });
+    } catch (err) {
+      onError(t('question.error', { number: index + 1, error: err instanceof Error ? err.message : t('question.regenerateFailed') }));
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  return {
+    editing,
+    regeneratingIndex,
+    // Buat ulang butuh materi yang cukup panjang, sama seperti generate
+    canRegenerate: material.trim().length >= 50,
+    start,
+    updateDraft,
+    save,
+    cancel,
+    regenerate
+  };
+}
+
+export type QuestionEditor = ReturnType<typeof useQuestionEditor>;
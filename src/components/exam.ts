@@ -0,0 +1,83 @@
+import type { Translator } from '@/lib/i18n';
+import { OUTPUT_LANGUAGE_INFO } from '@/lib/questions/language';
+import { createQuestionId } from '@/lib/questions/shuffle';
+import type { BloomLevel, Difficulty, EssayRubric, OutputLanguage, QuestionType } from '@/lib/questions/types';
+
+/**
+ * Tipe data soal dan bagian ujian di halaman beserta helper yang dipakai
+ * bersama oleh komponen fitur (kuis, bank soal, editor, pemeriksaan, export)
+ */
+
+export interface GeneratedQuestion {
+  id?: string;
+  question: string;
+  options?: string[];
+  correctAnswer?: string;
+  pairs?: { left: string; right: string }[];
+  explanation?: string;
+  rubric?: EssayRubric; // untuk esai
+  source?: {
+    chunkIndex: number;
+    heading?: string;
+  };
+  sourcePage?: number;
+  bloomLevel?: BloomLevel;
+  objective?: string;
+  sectionIndex?: number; // indeks bagian ujian, diisi saat soal diterima
+  bankId?: number; // ID di bank soal jika soal diambil dari bank
+}
+
+// Bagian ujian; mode satu jenis soal dianggap ujian dengan satu bagian
+export interface ExamSectionInfo {
+  title: string;
+  questionType: QuestionType;
+  questionCount: number;
+  difficulty?: Difficulty; // kosong: bank mengambil semua tingkat, generate memakai "medium"
+  points?: number; // poin per soal
+  language?: OutputLanguage; // bahasa soal; kosong untuk soal dari bank
+}
+
+// Response /api/generate-questions dan /api/question-bank/assemble tanpa stream
+export interface APIResponse {
+  success: boolean;
+  data?: {
+    questions?: GeneratedQuestion[];
+    exam?: { sections: (ExamSectionInfo & { questions: GeneratedQuestion[]; error?: string })[] };
+  };
+  metadata?: Record<string, unknown>;
+  error?: string;
+}
+
+// Hasil cek kesesuaian dan soal mirip mengikuti isi soal: soal yang diedit atau dibuat ulang harus dicek lagi
+export function getQuestionKey(question: GeneratedQuestion): string {
+  return question.id ?? createQuestionId(question);
+}
+
+export function getSectionOf(sections: ExamSectionInfo[], question: GeneratedQuestion): ExamSectionInfo | undefined {
+  return sections[question.sectionIndex ?? 0];
+}
+
+// Soal pertama dari sebuah bagian ujian
+export function isSectionStart(questions: GeneratedQuestion[], index: number): boolean {
+  return index === 0 || questions[index - 1].sectionIndex !== questions[index].sectionIndex;
+}
+
+// Ringkasan bagian mengikuti bahasa antarmuka, termasuk di file TXT
+export function getSectionDetails(section: ExamSectionInfo, t: Translator): string {
+  return t(`questionType.${section.questionType}`) +
+    (section.difficulty ? `, ${t(`difficulty.${section.difficulty}`)}` : '') +
+    (section.points ? `, ${t('section.pointsPerQuestion', { count: section.points })}` : '');
+}
+
+export function getSectionSummary(section: ExamSectionInfo, t: Translator): string {
+  return `${section.title} - ${getSectionDetails(section, t)}`;
+}
+
+export function getTotalPoints(questions: GeneratedQuestion[], sections: ExamSectionInfo[]): number {
+  return questions.reduce((sum, question) => sum + (getSectionOf(sections, question)?.points ?? 0), 0);
+}
+
+// Teks soal berbahasa Arab ditulis dari kanan ke kiri
+export function getTextDirection(section: ExamSectionInfo | undefined): 'rtl' | undefined {
+  return section?.language && OUTPUT_LANGUAGE_INFO[section.language].rtl ? 'rtl' : undefined;
+}
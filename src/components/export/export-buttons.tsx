@@ -0,0 +1,42 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { ExamExport } from './use-exam-export';
+
+// Tombol unduh TXT, PDF naskah siswa, PDF kunci jawaban dan DOCX, lalu buat soal baru
+export function ExportButtons({ exporter, onNewQuestions, t }: { exporter: ExamExport; onNewQuestions: () => void; t: Translator }) {
+  return (
+    <div className="mt-8 flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
+      <button
+        onClick={exporter.downloadTxt}
+        className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 text-white py-3 rounded-xl font-bold hover:from-green-700 hover:to-emerald-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+      >
+        {t('export.txt')}
+      </button>
+      <button
+        onClick={() => exporter.downloadPdf('student')}
+        className="flex-1 bg-gradient-to-r from-red-600 to-pink-600 text-white py-3 rounded-xl font-bold hover:from-red-700 hover:to-pink-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+      >
+        {t('export.studentPdf')}
+      </button>
+      <button
+        onClick={() => exporter.downloadPdf('key')}
+        className="flex-1 bg-gradient-to-r from-amber-500 to-orange-600 text-white py-3 rounded-xl font-bold hover:from-amber-600 hover:to-orange-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+      >
+        {t('export.keyPdf')}
+      </button>
+      <button
+        onClick={exporter.downloadDocx}
+        className="flex-1 bg-gradient-to-r from-blue-600 to-sky-600 text-white py-3 rounded-xl font-bold hover:from-blue-700 hover:to-sky-700 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+      >
+        {t('export.docx')}
+      </button>
+      <button
+        onClick={onNewQuestions}
+        className="flex-1 bg-gradient-to-r from-gray-600 to-gray-700 text-white py-3 rounded-xl font-bold hover:from-gray-700 hover:to-gray-800 transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-1"
+      >
+        {t('results.newQuestions')}
+      </button>
+    </div>
+  );
+}
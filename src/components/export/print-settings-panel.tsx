@@ -0,0 +1,98 @@
+'use client';
+
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export/lms/formats';
+import { MAX_VARIANTS } from '@/lib/export/variants';
+import type { Translator } from '@/lib/i18n';
+import type { ExamExport } from './use-exam-export';
+
+// Kop naskah cetak, jumlah paket, template kop DOCX dan export ke format LMS
+export function PrintSettingsPanel({ exporter, t }: { exporter: ExamExport; t: Translator }) {
+  return (
+    <div className="mt-8 border-2 border-gray-200 rounded-xl p-4">
+      <h3 className="font-semibold text-gray-800 mb-3">{t('print.title')}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3 text-sm">
+        {([
+          ['school', 'print.school'],
+          ['subject', 'print.subject'],
+          ['className', 'print.className'],
+          ['date', 'print.date']
+        ] as const).map(([field, label]) => (
+          <input
+            key={field}
+            type="text"
+            value={field === 'date' ? exporter.printDate : exporter.printSettings[field]}
+            placeholder={t(label)}
+            title={t(label)}
+            onChange={(e) => exporter.setPrintSettings(prev => ({ ...prev, [field]: e.target.value }))}
+            className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+          />
+        ))}
+        <select
+          value={exporter.printSettings.variantCount}
+          onChange={(e) => exporter.setPrintSettings(prev => ({ ...prev, variantCount: Number(e.target.value) }))}
+          title={t('print.variantCount')}
+          className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+        >
+          {Array.from({ length: MAX_VARIANTS }, (_, index) => (
+            <option key={index} value={index + 1}>
+              {index === 0 ? t('print.oneVariant') : t('print.variants', { count: index + 1, last: String.fromCharCode(65 + index) })}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={exporter.printSettings.seed}
+          placeholder={t('print.seed')}
+          title={t('print.seedHint')}
+          disabled={exporter.printSettings.variantCount === 1}
+          onChange={(e) => exporter.setPrintSettings(prev => ({ ...prev, seed: e.target.value }))}
+          className="border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700 disabled:bg-gray-100"
+        />
+      </div>
+      <div className="mt-4 flex flex-col sm:flex-row gap-3 text-sm">
+        <span className="font-semibold text-gray-800 self-center">{t('print.letterhead')}</span>
+        <label className="flex-1 border-2 border-dashed border-gray-300 rounded-lg px-3 py-2 text-gray-600 cursor-pointer hover:border-blue-400 truncate">
+          <input
+            type="file"
+            accept=".docx"
+            className="hidden"
+            onChange={(e) => {
+              exporter.setLetterheadFile(e.target.files?.[0] ?? null);
+              e.target.value = '';
+            }}
+          />
+          {exporter.letterheadFile ? exporter.letterheadFile.name : t('print.letterheadHint')}
+        </label>
+        {exporter.letterheadFile && (
+          <button
+            type="button"
+            onClick={() => exporter.setLetterheadFile(null)}
+            className="text-red-600 hover:text-red-800 font-medium"
+          >
+            {t('common.remove')}
+          </button>
+        )}
+      </div>
+      <div className="mt-4 flex flex-col sm:flex-row gap-3 text-sm">
+        <span className="font-semibold text-gray-800 self-center">{t('export.lms')}</span>
+        <select
+          value={exporter.format}
+          onChange={(e) => exporter.setFormat(e.target.value as ExportFormat)}
+          className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+        >
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+            <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={exporter.exportLms}
+          disabled={exporter.isExporting}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-indigo-700 disabled:bg-gray-400 transition-all"
+        >
+          {exporter.isExporting ? t('export.preparing') : t('export.download')}
+        </button>
+      </div>
+    </div>
+  );
+}
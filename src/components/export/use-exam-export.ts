@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { renderAnswerKey, renderStudentExam } from '@/lib/export/exam-pdf';
+import {
+  getAnswerKey,
+  getAnswerLayout,
+  getDifficultyLabel,
+  getQuestionTags,
+  getQuestionTypeLabel,
+  getRubricLines
+} from '@/lib/export/layout';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export/lms/formats';
+import { registerPdfFonts } from '@/lib/export/pdf-fonts';
+import { createVariants } from '@/lib/export/variants';
+import { getDocumentLocale, Locale, LOCALES, Translator } from '@/lib/i18n';
+import type { Difficulty, QuestionType } from '@/lib/questions/types';
+import { getResponseError } from '../api';
+import { ExamSectionInfo, GeneratedQuestion, getSectionSummary, getTotalPoints, isSectionStart } from '../exam';
+// jsPDF will be dynamically imported to avoid SSR/Turbopack build issues
+
+// Kop naskah ujian cetak
+export interface PrintSettings {
+  school: string;
+  subject: string;
+  className: string;
+  date?: string; // kosong = tanggal hari ini dalam bahasa naskah
+  variantCount: number; // jumlah paket soal (A, B, C, ...)
+  seed: string; // kode acak paket; kosong = diturunkan dari isi soal
+}
+
+interface ExamExportOptions {
+  questions: GeneratedQuestion[];
+  sections: ExamSectionInfo[];
+  getQuestionType: (question: GeneratedQuestion) => QuestionType;
+  defaultType: QuestionType; // pilihan form, dipakai jika set soal belum punya bagian
+  defaultDifficulty: Difficulty;
+  provider?: string; // provider AI pembuat soal, dicantumkan di TXT
+  confirmExport: () => boolean; // konfirmasi soal yang ditandai meragukan
+  onError: (message: string) => void;
+  locale: Locale;
+  t: Translator;
+}
+
+// Unduh blob lewat link sementara
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Kop naskah, template kop DOCX dan export set soal ke TXT, PDF, DOCX dan
+ * format LMS
+ */
+export function useExamExport({
+  questions,
+  sections,
+  getQuestionType,
+  defaultType,
+  defaultDifficulty,
+  provider,
+  confirmExport,
+  onError,
+  locale,
+  t
+}: ExamExportOptions) {
+  const [printSettings, setPrintSettings] = useState<PrintSettings>({
+    school: '',
+    subject: '',
+    className: '',
+    variantCount: 1,
+    seed: ''
+  });
+  const [letterheadFile, setLetterheadFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ExportFormat>('moodle-xml');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Kop dan label naskah mengikuti bahasa soal jika tersedia sebagai bahasa antarmuka
+  const printLocale = getDocumentLocale(sections.map(section => section.language), locale);
+
+  const printDate = printSettings.date ?? new Date().toLocaleDateString(LOCALES[printLocale].intl, { day: 'numeric', month: 'long', year: 'numeric' });
+
+  const getPrintableExam = () => ({
+    header: { ...printSettings, date: printDate },
+    locale: printLocale,
+    sections,
+    variants: createVariants(questions, printSettings.variantCount, printSettings.seed.trim() || undefined)
+  });
+
+  const exportName = sections.length > 1 ? 'ujian' : sections[0]?.questionType ?? defaultType;
+  const today = () => new Date().toISOString().split('T')[0];
+
+  // Download soal sebagai TXT
+  const downloadTxt = () => {
+    if (questions.length === 0 || !confirmExport()) return;
+
+    // Buat konten file berdasarkan jenis soal
+    let content = '';
+    const isExam = sections.length > 1;
+
+    // Header
+    content += `ExamCraft AI\n`;
+    content += `=====================================\n\n`;
+    if (isExam) {
+      content += `${t('txt.questionCount', { count: questions.length })}\n`;
+      content += `${t('txt.totalPoints', { count: getTotalPoints(questions, sections) })}\n`;
+      sections.forEach(section => {
+        content += `- ${getSectionSummary(section, t)}\n`;
+      });
+    } else {
+      content += `${t('txt.questionType', { type: getQuestionTypeLabel(sections[0]?.questionType ?? defaultType, t) })}\n`;
+      content += `${t('txt.questionCount', { count: questions.length })}\n`;
+      const difficulty = sections.length > 0 ? sections[0].difficulty : defaultDifficulty;
+      if (difficulty) content += `${t('txt.difficulty', { difficulty: getDifficultyLabel(difficulty, t) })}\n`;
+    }
+    content += `${t('txt.date', { date: new Date().toLocaleString(LOCALES[locale].intl) })}\n\n`;
+    content += `-------------------------------------\n\n`;
+
+    // Generate soal berdasarkan jenis
+    questions.forEach((question, index) => {
+      const questionType = getQuestionType(question);
+      if (isExam && isSectionStart(questions, index)) {
+        content += `${'#'.repeat(50)}\n${getSectionSummary(sections[question.sectionIndex ?? 0], t).toUpperCase()}\n${'#'.repeat(50)}\n\n`;
+      }
+      content += `${t('txt.question', { number: index + 1 })}\n`;
+      content += `${'='.repeat(50)}\n\n`;
+      content += `${t('txt.prompt')}\n${question.question}\n\n`;
+
+      if (questionType === 'multiple-choice' && question.options) {
+        content += `${t('txt.options')}\n`;
+        question.options.forEach((option, optIndex) => {
+          const letter = String.fromCharCode(65 + optIndex);
+          const isCorrect = option === question.correctAnswer;
+          content += `  ${letter}. ${option}${isCorrect ? ' ✓' : ''}\n`;
+        });
+        content += `\n${t('txt.answerKey', { answer: question.correctAnswer })}\n\n`;
+      } else if (questionType === 'essay') {
+        content += `${t('txt.essayNote')}\n\n`;
+        if (question.rubric) {
+          content += `${getRubricLines(question.rubric, t).join('\n')}\n\n`;
+        }
+      } else {
+        content += `${getAnswerLayout(question, questionType, t).join('\n')}\n\n`;
+        content += `${t('txt.answerKey', { answer: getAnswerKey(question, questionType, t) })}\n\n`;
+      }
+
+      if (question.explanation) {
+        content += `${t('txt.explanation')}\n${question.explanation}\n\n`;
+      }
+      const tags = getQuestionTags(question, t);
+      if (tags.length > 0) {
+        content += `${tags.join(' | ')}\n\n`;
+      }
+      content += `${'-'.repeat(50)}\n\n`;
+    });
+
+    // Footer
+    content += `=====================================\n`;
+    content += `Generated by ExamCraft AI\n`;
+    if (provider) {
+      content += `${t('txt.poweredBy', { provider })}\n`;
+    }
+
+    saveBlob(new Blob([content], { type: 'text/plain;charset=utf-8' }), `examcraft-questions-${exportName}-${today()}.txt`);
+  };
+
+  // Download naskah siswa dan kunci jawaban sebagai DOCX (opsional dengan template kop)
+  const downloadDocx = async () => {
+    if (questions.length === 0 || !confirmExport()) return;
+    onError('');
+
+    try {
+      const { createExamDocx } = await import('@/lib/export/exam-docx');
+      const blob = await createExamDocx(getPrintableExam(), letterheadFile ? await letterheadFile.arrayBuffer() : undefined);
+      saveBlob(blob, `examcraft-${exportName}-${today()}.docx`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('export.docxFailed'));
+    }
+  };
+
+  // Export ke format LMS (dibuat di server lewat /api/export-questions)
+  const exportLms = async () => {
+    if (questions.length === 0 || !confirmExport()) return;
+    setIsExporting(true);
+    onError('');
+
+    try {
+      const response = await fetch('/api/export-questions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          format,
+          title: [printSettings.subject, printSettings.className].filter(Boolean).join(' ') || 'ExamCraft AI',
+          sections,
+          questions
+        })
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(getResponseError(response, data, t, 'export.failed'));
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        ?? `examcraft${EXPORT_FORMATS[format].extension}`;
+      saveBlob(await response.blob(), filename);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Download naskah siswa atau kunci jawaban sebagai PDF
+  const downloadPdf = async (kind: 'student' | 'key') => {
+    if (questions.length === 0 || !confirmExport()) return;
+
+    onError('');
+
+    try {
+      // Dynamic import to avoid SSR/Turbopack issues
+      const { jsPDF } = await import('jspdf');
+      const doc = new jsPDF();
+      await registerPdfFonts(doc);
+
+      const exam = getPrintableExam();
+      if (kind === 'student') {
+        renderStudentExam(doc, exam);
+      } else {
+        renderAnswerKey(doc, exam);
+      }
+
+      doc.save(`examcraft-${kind === 'student' ? 'soal' : 'kunci'}-${exportName}-${today()}.pdf`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('export.pdfFailed'));
+    }
+  };
+
+  return {
+    printSettings,
+    setPrintSettings,
+    printDate,
+    letterheadFile,
+    setLetterheadFile,
+    format,
+    setFormat,
+    isExporting,
+    downloadTxt,
+    downloadDocx,
+    downloadPdf,
+    exportLms
+  };
+}
+
+export type ExamExport = ReturnType<typeof useExamExport>;
@@ -0,0 +1,31 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { GroundingResult } from '@/lib/questions/grounding';
+
+// Lencana hasil cek kesesuaian beserta tingkat keyakinannya
+export function GroundingBadge({ result, t }: { result: GroundingResult; t: Translator }) {
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium ${result.flagged ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}
+      title={result.evidence ? t('grounding.evidence', { evidence: result.evidence }) : undefined}
+    >
+      {result.flagged ? t('grounding.flagged') : t('grounding.supported')} · {Math.round(result.confidence * 100)}%
+    </span>
+  );
+}
+
+// Alasan soal ditandai meragukan dan kutipan materi terdekat
+export function GroundingWarning({ result, t }: { result: GroundingResult; t: Translator }) {
+  return (
+    <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 mb-4 text-sm text-red-800">
+      <strong>{t('grounding.warning')}</strong>
+      <ul className="list-disc ml-6 mt-1">
+        {result.reasons.map(reason => <li key={reason}>{reason}</li>)}
+      </ul>
+      {result.evidence && (
+        <p className="mt-2 text-gray-700">{t('grounding.nearestEvidence')} <q className="italic">{result.evidence}</q></p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { Grounding } from './use-grounding';
+
+// Ringkasan cek kesesuaian dengan tombol cek ulang (teks) dan cek dengan AI
+export function GroundingPanel({ grounding, onCheck, t }: { grounding: Grounding; onCheck: (judge: boolean) => void; t: Translator }) {
+  return (
+    <div className="mt-8 border-2 border-gray-200 rounded-xl p-4 text-sm">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <span className="font-semibold text-gray-800 self-center">{t('grounding.title')}</span>
+        <span className="flex-1 self-center text-gray-600">
+          {grounding.isVerifying ? t('grounding.checking') : grounding.getSummary()}
+        </span>
+        {(['teks', 'ai'] as const).map(kind => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => onCheck(kind === 'ai')}
+            disabled={grounding.isVerifying || !grounding.canVerify}
+            title={grounding.canVerify ? undefined : t('grounding.needsMaterial')}
+            className="border-2 border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-bold hover:bg-gray-50 disabled:text-gray-400 transition-all"
+          >
+            {kind === 'ai' ? t('grounding.checkAi') : t('grounding.recheck')}
+          </button>
+        ))}
+      </div>
+      {grounding.note && <p className="mt-2 text-amber-700">{grounding.note}</p>}
+    </div>
+  );
+}
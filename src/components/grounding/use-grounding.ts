@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { Translator } from '@/lib/i18n';
+import type { GroundingResult } from '@/lib/questions/grounding';
+import { getResponseError } from '../api';
+import { ExamSectionInfo, GeneratedQuestion, getQuestionKey } from '../exam';
+
+interface GroundingOptions {
+  questions: GeneratedQuestion[];
+  material: string;
+  t: Translator;
+}
+
+/**
+ * State cek kesesuaian soal dengan materi lewat /api/verify-questions; hasil
+ * disimpan per ID soal
+ */
+export function useGrounding({ questions, material, t }: GroundingOptions) {
+  const [results, setResults] = useState<Record<string, GroundingResult>>({});
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [note, setNote] = useState('');
+
+  // Cek butuh materi yang cukup panjang untuk dicocokkan
+  const canVerify = material.trim().length >= 50;
+
+  // Soal yang dicek diberikan langsung karena state soal belum tentu sudah diperbarui; `judge` menambahkan penilaian AI
+  const run = async (checkedQuestions: GeneratedQuestion[], sections: ExamSectionInfo[], judge: boolean) => {
+    if (checkedQuestions.length === 0 || !canVerify) return;
+    setIsVerifying(true);
+    setNote('');
+
+    try {
+      const response = await fetch('/api/verify-questions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          material,
+          sections,
+          questions: checkedQuestions.map(question => ({ ...question, id: getQuestionKey(question) })),
+          judge
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'grounding.failed'));
+      }
+      const checked: GroundingResult[] = data.data.results;
+      setResults(prev => ({ ...prev, ...Object.fromEntries(checked.map(result => [result.id, result])) }));
+      if (data.metadata.judgeError) {
+        setNote(t('grounding.judgeFailed'));
+      }
+    } catch (err) {
+      setNote(err instanceof Error ? err.message : t('grounding.failed'));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  // Hasil cek milik set soal sebelumnya
+  const reset = () => {
+    setResults({});
+    setNote('');
+  };
+
+  const getResult = (question: GeneratedQuestion): GroundingResult | undefined => results[getQuestionKey(question)];
+
+  const flaggedCount = questions.filter(question => getResult(question)?.flagged).length;
+
+  const getSummary = () => {
+    const checked = questions.filter(question => getResult(question)).length;
+    if (checked === 0) return t('grounding.notChecked');
+    const unchecked = questions.length - checked;
+    return (flaggedCount > 0 ? t('grounding.flaggedSummary', { count: flaggedCount }) : t('grounding.okSummary', { count: checked })) +
+      (unchecked > 0 ? t('grounding.uncheckedSummary', { count: unchecked }) : '');
+  };
+
+  // Soal yang ditandai meragukan harus dikonfirmasi sebelum diekspor
+  const confirmExport = () => flaggedCount === 0 || window.confirm(t('grounding.confirmExport', { count: flaggedCount }));
+
+  return {
+    isVerifying,
+    note,
+    canVerify,
+    run,
+    reset,
+    getResult,
+    getSummary,
+    confirmExport
+  };
+}
+
+export type Grounding = ReturnType<typeof useGrounding>;
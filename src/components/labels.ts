@@ -0,0 +1,35 @@
+import type { MessageKey, Translator } from '@/lib/i18n';
+import { BLOOM_LEVEL_INFO } from '@/lib/questions/bloom';
+import type { BloomLevel, Difficulty, QuestionType } from '@/lib/questions/types';
+
+// Label jenis soal dan tingkat kesulitan diambil dari kamus bahasa antarmuka
+export const QUESTION_TYPE_OPTIONS: { value: QuestionType; icon: string }[] = [
+  { value: 'multiple-choice', icon: '🔘' },
+  { value: 'essay', icon: '📄' },
+  { value: 'true-false', icon: '✅' },
+  { value: 'fill-in-the-blank', icon: '✏️' },
+  { value: 'matching', icon: '🔗' },
+  { value: 'short-answer', icon: '💬' }
+];
+
+export const DIFFICULTY_OPTIONS: { value: Difficulty; icon: string }[] = [
+  { value: 'easy', icon: '😊' },
+  { value: 'medium', icon: '🎯' },
+  { value: 'hard', icon: '🔥' }
+];
+
+// Jawaban benar/salah selalu disimpan sebagai "Benar"/"Salah"; hanya labelnya yang diterjemahkan
+export const TRUE_FALSE_CHOICES: { value: string; label: MessageKey }[] = [
+  { value: 'Benar', label: 'answer.true' },
+  { value: 'Salah', label: 'answer.false' }
+];
+
+export function getBloomLevelLabel(level: BloomLevel, t: Translator): string {
+  return `${BLOOM_LEVEL_INFO[level].code} ${t(`bloom.${level}`)}`;
+}
+
+// Label jawaban untuk ditampilkan; kunci benar/salah diterjemahkan, jawaban lain apa adanya
+export function getAnswerLabel(answer: string, t: Translator): string {
+  const choice = TRUE_FALSE_CHOICES.find(item => item.value === answer);
+  return choice ? t(choice.label) : answer;
+}
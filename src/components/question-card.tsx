@@ -0,0 +1,249 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { getMatchingChoices } from '@/lib/export/layout';
+import type { MessageKey, Translator } from '@/lib/i18n';
+import type { AnswerResult, AnswerStatus, QuizAnswer } from '@/lib/questions/grading';
+import type { QuestionType } from '@/lib/questions/types';
+import type { GeneratedQuestion } from './exam';
+import { getAnswerLabel, getBloomLevelLabel, TRUE_FALSE_CHOICES } from './labels';
+
+export const QUIZ_FEEDBACK: Record<AnswerStatus, { label: MessageKey; className: string }> = {
+  correct: { label: 'quiz.status.correct', className: 'bg-green-50 border-green-300 text-green-800' },
+  partial: { label: 'quiz.status.partial', className: 'bg-yellow-50 border-yellow-300 text-yellow-800' },
+  incorrect: { label: 'quiz.status.incorrect', className: 'bg-red-50 border-red-300 text-red-800' },
+  unanswered: { label: 'quiz.status.unanswered', className: 'bg-gray-50 border-gray-300 text-gray-700' },
+  manual: { label: 'quiz.status.manual', className: 'bg-blue-50 border-blue-300 text-blue-800' }
+};
+
+// Input jawaban siswa di mode kuis
+export interface QuizAnswerInput {
+  answer?: QuizAnswer;
+  onAnswer: (answer: QuizAnswer) => void;
+  result?: AnswerResult; // terisi setelah jawaban dikumpulkan; input dikunci
+  essayGrade?: ReactNode; // penilaian rubrik esai di bawah hasil
+}
+
+interface QuestionCardProps {
+  question: GeneratedQuestion;
+  index: number;
+  questionType: QuestionType;
+  t: Translator;
+  dir?: 'rtl';
+  quiz?: QuizAnswerInput;
+  badges?: ReactNode; // lencana hasil pemeriksaan dan tombol aksi, setelah lencana soal
+  warning?: ReactNode; // peringatan di bawah teks soal
+  weakOptions?: number[]; // indeks pengecoh lemah yang ditandai
+  optionsNote?: ReactNode; // catatan di bawah opsi pilihan ganda
+}
+
+/**
+ * Satu soal beserta opsi, rubrik dan pembahasannya. Di mode kuis input
+ * terikat ke jawaban siswa; setelah dikumpulkan hasilnya menampilkan
+ * benar/salah dan pembahasan.
+ */
+export function QuestionCard({ question, index, questionType, t, dir, quiz, badges, warning, weakOptions, optionsNote }: QuestionCardProps) {
+  const answer = quiz?.answer;
+  const result = quiz?.result;
+  const isLocked = Boolean(result);
+  const matchingAnswer = Array.isArray(answer) ? answer : [];
+
+  const choiceProps = (value: string) => quiz
+    ? { checked: answer === value, onChange: () => quiz.onAnswer(value), disabled: isLocked }
+    : {};
+  const textProps = quiz
+    ? {
+      value: typeof answer === 'string' ? answer : '',
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => quiz.onAnswer(e.target.value),
+      disabled: isLocked
+    }
+    : {};
+  // Setelah dikumpulkan: opsi benar hijau, pilihan siswa yang salah merah
+  const choiceStyle = (value: string) => {
+    if (!result) return 'border-gray-200 hover:bg-blue-50';
+    if (value === question.correctAnswer) return 'border-green-500 bg-green-50';
+    return answer === value ? 'border-red-500 bg-red-50' : 'border-gray-200';
+  };
+
+  return (
+    <div className="border-2 border-gray-200 rounded-xl p-6 mb-6 hover:border-blue-300 transition-colors bg-gradient-to-r from-white to-blue-50">
+      <div className="flex items-center mb-4">
+        <div className="bg-blue-600 text-white w-8 h-8 rounded-full flex items-center justify-center font-bold mr-3">
+          {index + 1}
+        </div>
+        <h4 className="font-bold text-lg text-gray-800">{t('question.title', { number: index + 1 })}</h4>
+        <div className="ml-auto flex flex-wrap justify-end gap-2">
+          {question.bloomLevel && (
+            <span className="bg-purple-100 text-purple-700 px-3 py-1 rounded-full text-xs font-medium">
+              🧠 {getBloomLevelLabel(question.bloomLevel, t)}
+            </span>
+          )}
+          {question.objective && (
+            <span className="bg-amber-100 text-amber-700 px-3 py-1 rounded-full text-xs font-medium" title={question.objective}>
+              🎯 {question.objective.length > 30 ? `${question.objective.slice(0, 30)}…` : question.objective}
+            </span>
+          )}
+          {question.source && (
+            <span className="bg-gray-100 text-gray-600 px-3 py-1 rounded-full text-xs font-medium">
+              📖 {question.source.heading || t('section.chunk', { number: question.source.chunkIndex + 1 })}
+            </span>
+          )}
+          {question.sourcePage && (
+            <span className="bg-gray-100 text-gray-600 px-3 py-1 rounded-full text-xs font-medium">
+              {t('question.page', { page: question.sourcePage })}
+            </span>
+          )}
+          {badges}
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg mb-4 border border-gray-100" dir={dir}>
+        <p className="text-gray-800 leading-relaxed">{question.question}</p>
+      </div>
+
+      {warning}
+
+      {questionType === 'multiple-choice' && question.options && (
+        <div className="space-y-3 mb-4" dir={dir}>
+          {question.options.map((option, optIndex) => (
+            <label key={optIndex} className={`flex items-center space-x-3 p-3 rounded-lg transition-colors cursor-pointer border ${choiceStyle(option)}`}>
+              <input
+                type="radio"
+                name={`question-${index}`}
+                value={option}
+                {...choiceProps(option)}
+                className="w-4 h-4 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-700 font-medium">{String.fromCharCode(65 + optIndex)}. {option}</span>
+              {weakOptions?.includes(optIndex) && (
+                <span className="ml-auto bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full text-xs font-medium">{t('distractors.weakOption')}</span>
+              )}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {optionsNote}
+
+      {questionType === 'true-false' && (
+        <div className="flex space-x-3 mb-4">
+          {TRUE_FALSE_CHOICES.map(({ value: choice, label }) => (
+            <label key={choice} className={`flex-1 flex items-center justify-center space-x-2 p-3 rounded-lg transition-colors cursor-pointer border ${choiceStyle(choice)}`}>
+              <input
+                type="radio"
+                name={`question-${index}`}
+                value={choice}
+                {...choiceProps(choice)}
+                className="w-4 h-4 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-700 font-medium">{t(label)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {(questionType === 'fill-in-the-blank' || questionType === 'short-answer') && (
+        <div className="mb-4">
+          <input
+            type="text"
+            placeholder={t('question.answerPlaceholder')}
+            {...textProps}
+            className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700"
+          />
+        </div>
+      )}
+
+      {questionType === 'matching' && question.pairs && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="space-y-2">
+            {question.pairs.map((pair, pairIndex) => (
+              <div key={pairIndex} className="flex items-center justify-between space-x-3 p-3 rounded-lg border border-gray-200 bg-white">
+                <span className="text-gray-700">{pairIndex + 1}. {pair.left}</span>
+                <select
+                  {...(quiz && {
+                    value: matchingAnswer[pairIndex] ?? '',
+                    onChange: (e: React.ChangeEvent<HTMLSelectElement>) => {
+                      const next = question.pairs!.map((_, rowIndex) => matchingAnswer[rowIndex] ?? '');
+                      next[pairIndex] = e.target.value;
+                      quiz.onAnswer(next);
+                    },
+                    disabled: isLocked
+                  })}
+                  className="border border-gray-300 rounded px-2 py-1 text-gray-700"
+                >
+                  <option value="">-</option>
+                  {question.pairs!.map((_, choiceIndex) => (
+                    <option key={choiceIndex}>{String.fromCharCode(65 + choiceIndex)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            {getMatchingChoices(question.pairs).map((choice, choiceIndex) => (
+              <div key={choiceIndex} className="p-3 rounded-lg border border-gray-200 bg-white text-gray-700">
+                {String.fromCharCode(65 + choiceIndex)}. {choice}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {questionType === 'essay' && (
+        <div className="mb-4">
+          <textarea
+            placeholder={t('question.essayPlaceholder')}
+            rows={5}
+            {...textProps}
+            className="w-full border-2 border-gray-300 rounded-xl px-4 py-3 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 transition-all text-gray-700 resize-none"
+          />
+        </div>
+      )}
+
+      {result && (
+        <div className={`border-2 rounded-xl p-4 mb-4 ${QUIZ_FEEDBACK[result.status].className}`}>
+          <p className="font-bold">
+            {t(QUIZ_FEEDBACK[result.status].label)}
+            {result.status !== 'manual' && ` · ${t('common.points', { count: `${result.score}/${result.maxScore}` })}`}
+          </p>
+          {result.status !== 'correct' && result.expected && (
+            <p className="mt-1">{t('quiz.expected')} <span className="font-semibold">{getAnswerLabel(result.expected, t)}</span></p>
+          )}
+          {quiz?.essayGrade}
+        </div>
+      )}
+
+      {questionType === 'essay' && question.rubric && (!quiz || result) && (
+        <div className="border-2 border-purple-200 bg-purple-50 rounded-xl p-4 mb-4 text-sm text-purple-900">
+          <strong>{t('question.rubric')}</strong>
+          <p className="mt-2 font-medium">{t('question.modelAnswer')}</p>
+          <ul className="list-disc ml-6">
+            {question.rubric.modelAnswer.map((point, pointIndex) => <li key={pointIndex}>{point}</li>)}
+          </ul>
+          {question.rubric.criteria.map(criterion => (
+            <div key={criterion.name} className="mt-2">
+              <p className="font-medium">{criterion.name} (0-{criterion.maxScore})</p>
+              <ul className="ml-6">
+                {criterion.bands.map(band => (
+                  <li key={band.score}><span className="font-semibold">{band.score}</span>: {band.description}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {question.explanation && (!quiz || result) && (
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl p-4">
+          <div className="flex items-start space-x-2">
+            <span className="text-blue-600 text-lg">💡</span>
+            <div>
+              <strong className="text-blue-800">{result ? t('question.discussion') : t('question.hint')}</strong>
+              <p className="text-blue-700 mt-1">{question.explanation}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
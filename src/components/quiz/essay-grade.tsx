@@ -0,0 +1,57 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import type { Quiz } from './use-quiz';
+
+// Hasil penilaian rubrik satu esai kuis; skor setiap kriteria bisa diubah guru
+export function EssayGradePanel({ quiz, index, t }: { quiz: Quiz; index: number; t: Translator }) {
+  const grade = quiz.session?.essayGrades[index];
+  if (!grade) {
+    return (
+      <div className="mt-3">
+        <button
+          type="button"
+          onClick={() => quiz.gradeEssay(index)}
+          disabled={quiz.gradingEssay !== null}
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-purple-700 disabled:bg-gray-400 transition-all"
+        >
+          {quiz.gradingEssay === index ? t('essay.grading') : t('essay.grade')}
+        </button>
+        {quiz.essayErrors[index] && <p className="mt-2 text-red-600">{quiz.essayErrors[index]}</p>}
+      </div>
+    );
+  }
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="font-semibold">
+        {t('essay.score', { score: grade.score, max: grade.maxScore })}
+        {grade.overridden && t('essay.overridden')}
+      </p>
+      {grade.criteria.map((criterion, criterionIndex) => (
+        <div key={criterion.name} className="bg-white/70 rounded-lg p-3 text-gray-800">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-medium">{criterion.name}</span>
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0}
+                max={criterion.maxScore}
+                step={0.5}
+                value={criterion.score}
+                title={t('essay.editScore')}
+                onChange={(e) => quiz.setEssayCriterionScore(index, criterionIndex, Number(e.target.value))}
+                className="w-16 border border-gray-300 rounded px-2 py-1 text-right"
+              />
+              / {criterion.maxScore}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">{criterion.justification}</p>
+          {criterion.aiScore !== undefined && (
+            <p className="text-xs text-gray-500 mt-1">{t('essay.aiScore', { score: criterion.aiScore })}</p>
+          )}
+        </div>
+      ))}
+      {grade.feedback && <p className="italic">{grade.feedback}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import { AnswerResult, isAnswered } from '@/lib/questions/grading';
+import type { QuestionType } from '@/lib/questions/types';
+import { ExamSectionInfo, GeneratedQuestion, getSectionOf, getTextDirection, isSectionStart } from '../exam';
+import { QUIZ_FEEDBACK, QuestionCard } from '../question-card';
+import { SectionHeading } from '../section-heading';
+import { EssayGradePanel } from './essay-grade';
+import type { Quiz } from './use-quiz';
+
+const QUIZ_DURATIONS = [0, 5, 10, 15, 20, 30, 45, 60, 90]; // menit, 0 = tanpa batas waktu
+
+// Durasi dalam format m:ss
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+interface QuizViewProps {
+  quiz: Quiz;
+  questions: GeneratedQuestion[];
+  sections: ExamSectionInfo[];
+  getQuestionType: (question: GeneratedQuestion) => QuestionType;
+  t: Translator;
+}
+
+// Pilihan batas waktu dan tombol mulai kuis di atas daftar soal
+export function QuizStartBar({ quiz, onStart, t }: { quiz: Quiz; onStart: () => void; t: Translator }) {
+  return (
+    <div className="flex flex-col sm:flex-row gap-3 mb-8 bg-blue-50 border-2 border-blue-200 rounded-xl p-4 text-sm">
+      <span className="font-semibold text-gray-800 self-center">{t('quiz.title')}</span>
+      <select
+        value={quiz.minutes}
+        onChange={(e) => quiz.setMinutes(Number(e.target.value))}
+        title={t('quiz.timeLimit')}
+        className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700 bg-white"
+      >
+        {QUIZ_DURATIONS.map(minutes => (
+          <option key={minutes} value={minutes}>
+            {minutes === 0 ? t('quiz.noLimit') : t('quiz.minutes', { count: minutes })}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onStart}
+        className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold hover:bg-blue-700 transition-all"
+      >
+        {t('quiz.start')}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Mode kuis: satu soal per layar selama dikerjakan, lalu ringkasan nilai dan
+ * semua soal beserta hasilnya
+ */
+export function QuizView({ quiz, questions, sections, getQuestionType, t }: QuizViewProps) {
+  const { session, result } = quiz;
+  if (!session) return null;
+  const answeredCount = questions.filter((_, index) => isAnswered(session.answers[index])).length;
+
+  const renderQuestion = (index: number, answerResult?: AnswerResult) => {
+    const question = questions[index];
+    const questionType = getQuestionType(question);
+    const answer = session.answers[index];
+    return (
+      <QuestionCard
+        question={question}
+        index={index}
+        questionType={questionType}
+        dir={getTextDirection(getSectionOf(sections, question))}
+        t={t}
+        quiz={{
+          answer,
+          onAnswer: value => quiz.setAnswer(index, value),
+          result: answerResult,
+          essayGrade: questionType === 'essay' && question.rubric && isAnswered(answer) && <EssayGradePanel quiz={quiz} index={index} t={t} />
+        }}
+      />
+    );
+  };
+
+  if (!result) {
+    const remaining = session.deadline !== null ? session.deadline - quiz.now : null;
+    return (
+      <div>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4 text-sm">
+          <span className="font-semibold text-gray-800">
+            {t('quiz.position', { number: session.current + 1, total: questions.length })}
+          </span>
+          <span className="text-gray-600">{t('quiz.answered', { count: answeredCount })}</span>
+          {remaining !== null && (
+            <span className={`px-3 py-1 rounded-full font-mono font-bold ${remaining < 60 * 1000 ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'}`}>
+              ⏱️ {formatDuration(remaining)}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {questions.map((_, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => quiz.goTo(index)}
+              className={`w-9 h-9 rounded-lg text-sm font-bold border-2 transition-all ${
+                index === session.current
+                  ? 'border-blue-600 bg-blue-600 text-white'
+                  : isAnswered(session.answers[index])
+                    ? 'border-blue-300 bg-blue-100 text-blue-800'
+                    : 'border-gray-300 bg-white text-gray-600 hover:border-blue-400'
+              }`}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
+        {sections.length > 1 && <SectionHeading section={getSectionOf(sections, questions[session.current])} t={t} />}
+        {renderQuestion(session.current)}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            type="button"
+            onClick={() => quiz.goTo(session.current - 1)}
+            disabled={session.current === 0}
+            className="flex-1 border-2 border-gray-300 text-gray-700 py-3 rounded-xl font-bold hover:bg-gray-50 disabled:opacity-50 transition-all"
+          >
+            {t('quiz.previous')}
+          </button>
+          <button
+            type="button"
+            onClick={() => quiz.goTo(session.current + 1)}
+            disabled={session.current === questions.length - 1}
+            className="flex-1 border-2 border-gray-300 text-gray-700 py-3 rounded-xl font-bold hover:bg-gray-50 disabled:opacity-50 transition-all"
+          >
+            {t('quiz.next')}
+          </button>
+          <button
+            type="button"
+            onClick={quiz.submit}
+            className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 text-white py-3 rounded-xl font-bold hover:from-green-700 hover:to-emerald-700 transition-all shadow-lg"
+          >
+            {t('quiz.submit')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const finishedAt = session.finishedAt ?? session.startedAt;
+  const percentage = result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 0;
+  return (
+    <div>
+      <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl p-6 mb-8">
+        <h3 className="text-xl font-bold text-gray-800 mb-2">{t('quiz.result')}</h3>
+        <p className="text-3xl font-bold text-blue-700">
+          {t('common.points', { count: `${result.score}/${result.maxScore}` })} <span className="text-xl text-gray-600">({percentage}%)</span>
+        </p>
+        <div className="flex flex-wrap gap-2 mt-4 text-sm">
+          {(['correct', 'partial', 'incorrect', 'unanswered'] as const)
+            .filter(status => result.counts[status] > 0)
+            .map(status => (
+              <span key={status} className={`border px-3 py-1 rounded-full font-medium ${QUIZ_FEEDBACK[status].className}`}>
+                {t(QUIZ_FEEDBACK[status].label)}: {result.counts[status]}
+              </span>
+            ))}
+        </div>
+        {result.counts.manual > 0 && (
+          <p className="mt-3 text-sm text-blue-800">
+            {t('quiz.manualPending', { count: result.counts.manual, points: result.manualScore })}
+          </p>
+        )}
+        <p className="mt-3 text-sm text-gray-600">
+          {t('quiz.duration', { duration: formatDuration(finishedAt - session.startedAt) })}
+          {session.deadline !== null && finishedAt >= session.deadline && t('quiz.timedOut')}
+        </p>
+      </div>
+      {questions.map((question, index) => (
+        <div key={index}>
+          {sections.length > 1 && isSectionStart(questions, index) && <SectionHeading section={getSectionOf(sections, question)} t={t} />}
+          {renderQuestion(index, result.results[index])}
+        </div>
+      ))}
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          type="button"
+          onClick={quiz.start}
+          className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 text-white py-3 rounded-xl font-bold hover:from-blue-700 hover:to-indigo-700 transition-all shadow-lg"
+        >
+          {t('quiz.retry')}
+        </button>
+        <button
+          type="button"
+          onClick={quiz.exit}
+          className="flex-1 border-2 border-gray-300 text-gray-700 py-3 rounded-xl font-bold hover:bg-gray-50 transition-all"
+        >
+          {t('quiz.exit')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import type { Translator } from '@/lib/i18n';
+import { EssayGrade, overrideCriterionScore } from '@/lib/questions/essay-scoring';
+import { gradeQuiz, isAnswered, QuizAnswer, QuizResult } from '@/lib/questions/grading';
+import type { QuestionType } from '@/lib/questions/types';
+import { getResponseError } from '../api';
+import { ExamSectionInfo, GeneratedQuestion, getSectionOf } from '../exam';
+
+// Sesi mode kuis: jawaban per indeks soal, soal yang sedang tampil dan batas waktu
+export interface QuizSession {
+  answers: Record<number, QuizAnswer>;
+  current: number;
+  startedAt: number;
+  deadline: number | null; // null = tanpa batas waktu
+  finishedAt: number | null; // terisi setelah jawaban dikumpulkan
+  essayGrades: Record<number, EssayGrade>; // hasil penilaian rubrik esai (AI, bisa diubah guru)
+}
+
+interface QuizOptions {
+  questions: GeneratedQuestion[];
+  sections: ExamSectionInfo[];
+  getQuestionType: (question: GeneratedQuestion) => QuestionType;
+  t: Translator;
+}
+
+/**
+ * State mode kuis: sesi, timer, penilaian otomatis dan penilaian esai
+ * dengan rubrik lewat /api/grade-essay
+ */
+export function useQuiz({ questions, sections, getQuestionType, t }: QuizOptions) {
+  const [session, setSession] = useState<QuizSession | null>(null);
+  const [minutes, setMinutes] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [gradingEssay, setGradingEssay] = useState<number | null>(null);
+  const [essayErrors, setEssayErrors] = useState<Record<number, string>>({});
+
+  // Timer kuis: jawaban dikumpulkan otomatis saat waktu habis
+  const deadline = session && session.finishedAt === null ? session.deadline : null;
+  useEffect(() => {
+    if (deadline === null) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= deadline) {
+        setSession(prev => (prev && prev.finishedAt === null ? { ...prev, finishedAt: deadline } : prev));
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const start = () => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setSession({
+      answers: {},
+      current: 0,
+      startedAt,
+      deadline: minutes > 0 ? startedAt + minutes * 60 * 1000 : null,
+      finishedAt: null,
+      essayGrades: {}
+    });
+    setEssayErrors({});
+  };
+
+  const exit = () => setSession(null);
+
+  const setAnswer = (index: number, answer: QuizAnswer) => {
+    setSession(prev => (prev && prev.finishedAt === null ? { ...prev, answers: { ...prev.answers, [index]: answer } } : prev));
+  };
+
+  const goTo = (index: number) => {
+    setSession(prev => prev && { ...prev, current: Math.min(Math.max(index, 0), questions.length - 1) });
+  };
+
+  const submit = () => {
+    if (!session) return;
+    const unanswered = questions.filter((_, index) => !isAnswered(session.answers[index])).length;
+    if (unanswered > 0 && !window.confirm(t('quiz.confirmSubmit', { count: unanswered }))) return;
+    setSession(prev => prev && { ...prev, finishedAt: Date.now() });
+  };
+
+  // Nilai jawaban esai kuis dengan rubriknya lewat AI
+  const gradeEssay = async (index: number) => {
+    const question = questions[index];
+    const answer = session?.answers[index];
+    if (!question.rubric || typeof answer !== 'string') return;
+    setGradingEssay(index);
+    setEssayErrors(prev => ({ ...prev, [index]: '' }));
+
+    try {
+      const response = await fetch('/api/grade-essay', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ question: question.question, rubric: question.rubric, answer })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'essay.failed'));
+      }
+      const grade: EssayGrade = data.data.grade;
+      setSession(prev => prev && { ...prev, essayGrades: { ...prev.essayGrades, [index]: grade } });
+    } catch (err) {
+      setEssayErrors(prev => ({ ...prev, [index]: err instanceof Error ? err.message : t('essay.failed') }));
+    } finally {
+      setGradingEssay(null);
+    }
+  };
+
+  // Guru mengubah skor satu kriteria hasil penilaian AI
+  const setEssayCriterionScore = (index: number, criterionIndex: number, score: number) => {
+    setSession(prev => {
+      const grade = prev?.essayGrades[index];
+      if (!prev || !grade) return prev;
+      return { ...prev, essayGrades: { ...prev.essayGrades, [index]: overrideCriterionScore(grade, criterionIndex, score) } };
+    });
+  };
+
+  // Hasil penilaian kuis; null selama kuis masih dikerjakan
+  const result: QuizResult | null = session && session.finishedAt !== null
+    ? gradeQuiz(
+      questions.map(question => ({
+        question,
+        type: getQuestionType(question),
+        points: getSectionOf(sections, question)?.points
+      })),
+      session.answers,
+      Object.fromEntries(Object.entries(session.essayGrades).map(([index, grade]) => [index, grade.score / grade.maxScore]))
+    )
+    : null;
+
+  return {
+    session,
+    minutes,
+    setMinutes,
+    now,
+    result,
+    gradingEssay,
+    essayErrors,
+    start,
+    exit,
+    setAnswer,
+    goTo,
+    submit,
+    gradeEssay,
+    setEssayCriterionScore
+  };
+}
+
+export type Quiz = ReturnType<typeof useQuiz>;
@@ -0,0 +1,12 @@
+import type { Translator } from '@/lib/i18n';
+import { ExamSectionInfo, getSectionDetails } from './exam';
+
+// Judul bagian ujian di atas soal pertamanya
+export function SectionHeading({ section, t }: { section?: ExamSectionInfo; t: Translator }) {
+  return (
+    <div className="flex items-center justify-between border-b-2 border-blue-200 pb-2 mb-4 mt-2">
+      <h3 className="text-xl font-bold text-blue-800">{section?.title}</h3>
+      <span className="text-sm text-gray-600">{section && getSectionDetails(section, t)}</span>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import type { Translator } from '@/lib/i18n';
+import { OUTPUT_LANGUAGE_INFO, OUTPUT_LANGUAGES } from '@/lib/questions/language';
+import type { OutputLanguage } from '@/lib/questions/types';
+import type { QuestionTranslation } from './use-question-translation';
+
+// Pilih bahasa tujuan dan terjemahkan seluruh set soal
+export function TranslationPanel({ translation, disabled, t }: { translation: QuestionTranslation; disabled?: boolean; t: Translator }) {
+  return (
+    <div className="mt-4 border-2 border-gray-200 rounded-xl p-4 text-sm">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <span className="font-semibold text-gray-800 self-center">{t('translation.title')}</span>
+        <select
+          value={translation.language}
+          onChange={(e) => translation.setLanguage(e.target.value as OutputLanguage)}
+          className="flex-1 border-2 border-gray-300 rounded-lg px-3 py-2 text-gray-700"
+        >
+          {OUTPUT_LANGUAGES.map(language => (
+            <option key={language} value={language}>{OUTPUT_LANGUAGE_INFO[language].label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={translation.translate}
+          disabled={translation.isTranslating || disabled}
+          className="border-2 border-gray-300 text-gray-700 px-4 py-2 rounded-lg font-bold hover:bg-gray-50 disabled:text-gray-400 transition-all"
+        >
+          {translation.isTranslating ? t('translation.translating') : t('translation.translate')}
+        </button>
+      </div>
+      {translation.note && <p className="mt-2 text-gray-700">{translation.note}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { Translator } from '@/lib/i18n';
+import { OUTPUT_LANGUAGE_INFO } from '@/lib/questions/language';
+import type { OutputLanguage } from '@/lib/questions/types';
+import { getResponseError } from '../api';
+import { ExamSectionInfo, GeneratedQuestion, getQuestionKey } from '../exam';
+
+interface QuestionTranslationOptions {
+  questions: GeneratedQuestion[];
+  sections: ExamSectionInfo[];
+  onTranslated: (questions: GeneratedQuestion[], language: OutputLanguage) => void; // ganti set soal dengan hasil terjemahan
+  onError: (message: string) => void;
+  t: Translator;
+}
+
+// State terjemahan seluruh set soal lewat /api/translate-questions
+export function useQuestionTranslation({ questions, sections, onTranslated, onError, t }: QuestionTranslationOptions) {
+  const [language, setLanguage] = useState<OutputLanguage>('en');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [note, setNote] = useState('');
+
+  const translate = async () => {
+    if (questions.length === 0) return;
+    const languageLabel = OUTPUT_LANGUAGE_INFO[language].label;
+    if (!window.confirm(t('translation.confirm', { language: languageLabel }))) return;
+    setIsTranslating(true);
+    setNote('');
+    onError('');
+
+    try {
+      const response = await fetch('/api/translate-questions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          language,
+          sections,
+          questions: questions.map(question => ({ ...question, id: getQuestionKey(question) }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(getResponseError(response, data, t, 'translation.failed'));
+      }
+      const translated: GeneratedQuestion[] = data.data.questions;
+      onTranslated(translated, language);
+      setNote(t('translation.done', { count: translated.length, language: languageLabel }));
+    } catch (err) {
+      setNote(err instanceof Error ? err.message : t('translation.failed'));
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const reset = () => setNote('');
+
+  return {
+    language,
+    setLanguage,
+    isTranslating,
+    note,
+    translate,
+    reset
+  };
+}
+
+export type QuestionTranslation = ReturnType<typeof useQuestionTranslation>;
@@ -0,0 +1,32 @@
+/**
+ * Kode alasan pada response error API (`reason`). Pesan `error` tetap
+ * berbahasa Indonesia untuk pemanggil API; halaman menerjemahkan `reason`
+ * ke bahasa antarmuka. Response 429 memakai `reason` "rate-limit"/"quota".
+ */
+
+export const API_ERROR_REASONS = [
+  'invalid-request',
+  'invalid-questions',
+  'invalid-blueprint',
+  'material-too-short',
+  'material-too-long', // `limit`: jumlah karakter maksimal
+  'file-missing',
+  'file-too-large', // `limit`: ukuran maksimal dalam MB
+  'unsupported-file',
+  'text-not-found',
+  'extraction-failed',
+  'not-found',
+  'duplicate-question',
+  'bank-no-match',
+  'content-length-required',
+  'request-too-large', // `limit`: ukuran maksimal dalam MB
+  'rate-limit-unconfigured',
+  'generation-failed',
+  'server-error'
+] as const;
+
+export type ApiErrorReason = typeof API_ERROR_REASONS[number];
+
+export function isApiErrorReason(value: unknown): value is ApiErrorReason {
+  return typeof value === 'string' && API_ERROR_REASONS.includes(value as ApiErrorReason);
+}
@@ -0,0 +1,57 @@
+import type Database from 'better-sqlite3';
+import { NormalizedSection } from '@/lib/questions/blueprint';
+import { Question } from '@/lib/questions/types';
+import { getDatabase } from './database';
+import { pickRandomQuestions } from './store';
+import { BankFilters } from './types';
+
+/**
+ * Susun ujian dari bank soal berdasarkan blueprint, tanpa generate ulang.
+ * Setiap bagian mengambil soal acak dengan jenis yang sama (dan tingkat
+ * kesulitan serta level kognitif jika disebutkan); soal yang sudah terpakai
+ * di bagian lain tidak diambil lagi.
+ */
+
+export interface BankExamSection extends NormalizedSection {
+  questions: (Question & { bankId: number })[];
+  error?: string; // bank tidak memiliki cukup soal yang cocok
+}
+
+export interface BankExam {
+  sections: BankExamSection[];
+  totalQuestions: number;
+  totalPoints: number;
+}
+
+export function assembleExamFromBank(
+  blueprintSections: NormalizedSection[],
+  filters: Pick<BankFilters, 'subject' | 'tags'> = {},
+  db: Database.Database = getDatabase()
+): BankExam {
+  const used: number[] = [];
+  const sections = blueprintSections.map(section => {
+    const picked = pickRandomQuestions({
+      ...filters,
+      questionType: section.questionType,
+      difficulty: section.difficulty,
+      bloomLevels: section.bloomLevels,
+      excludeIds: used
+    }, section.questionCount, db);
+    used.push(...picked.map(item => item.id));
+
+    const examSection: BankExamSection = {
+      ...section,
+      questions: picked.map(item => ({ ...item.question, bankId: item.id }))
+    };
+    if (picked.length < section.questionCount) {
+      examSection.error = `bank soal hanya memiliki ${picked.length} dari ${section.questionCount} soal yang cocok`;
+    }
+    return examSection;
+  });
+
+  return {
+    sections,
+    totalQuestions: sections.reduce((sum, section) => sum + section.questions.length, 0),
+    totalPoints: sections.reduce((sum, section) => sum + section.questions.length * section.points, 0)
+  };
+}
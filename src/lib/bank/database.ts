@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+/**
+ * Koneksi SQLite bank soal. Lokasi file diatur lewat QUESTION_BANK_PATH
+ * (bawaan `data/question-bank.db`). Skema dibuat otomatis dan versinya
+ * dicatat di `PRAGMA user_version` untuk migrasi berikutnya.
+ */
+
+export const DEFAULT_BANK_PATH = 'data/question-bank.db';
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS materials (
+    id INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL UNIQUE,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS questions (
+    id INTEGER PRIMARY KEY,
+    content_id TEXT NOT NULL,
+    question_type TEXT NOT NULL,
+    difficulty TEXT NOT NULL,
+    subject TEXT NOT NULL DEFAULT '',
+    data TEXT NOT NULL,
+    material_id INTEGER REFERENCES materials(id),
+    model TEXT,
+    provider TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (question_type, content_id)
+  );
+  CREATE INDEX IF NOT EXISTS questions_filter ON questions (question_type, difficulty, subject);
+
+  CREATE TABLE IF NOT EXISTS question_tags (
+    question_id INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (question_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS question_tags_tag ON question_tags (tag);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS questions_fts USING fts5(
+    content, tags, subject,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+`;
+
+// Satu koneksi per proses; disimpan di globalThis supaya tidak dibuka ulang saat hot reload
+const globalForBank = globalThis as unknown as { questionBank?: Database.Database };
+
+export function openDatabase(path: string): Database.Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(resolve(path)), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  if (db.pragma('user_version', { simple: true }) !== SCHEMA_VERSION) {
+    db.exec(SCHEMA);
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+  return db;
+}
+
+export function getDatabase(): Database.Database {
+  if (!globalForBank.questionBank) {
+    globalForBank.questionBank = openDatabase(process.env.QUESTION_BANK_PATH || DEFAULT_BANK_PATH);
+  }
+  return globalForBank.questionBank;
+}
@@ -0,0 +1,49 @@
+import type Database from 'better-sqlite3';
+import { createSimilarityProfile, DUPLICATE_THRESHOLD, getSimilarity } from '@/lib/questions/similarity';
+import { tokenize } from '@/lib/questions/text';
+import { Question, QuestionType } from '@/lib/questions/types';
+import { getDatabase } from './database';
+import { findCandidateQuestions } from './store';
+import { BankQuestion } from './types';
+
+/**
+ * Cari soal di bank yang kembar atau hampir kembar dengan soal baru. Kandidat
+ * diambil lewat indeks teks penuh (soal sejenis yang memuat kata yang sama),
+ * lalu dibandingkan dengan ukuran kemiripan yang sama seperti di dalam satu set.
+ */
+
+export const MAX_BANK_MATCHES = 3;
+
+const CANDIDATE_LIMIT = 50;
+const MAX_QUERY_TERMS = 30;
+
+export interface BankDuplicateItem {
+  questionType: QuestionType;
+  question: Question;
+  bankId?: number; // soal yang berasal dari bank tidak dibandingkan dengan dirinya sendiri
+}
+
+export interface BankDuplicateMatch {
+  similarity: number;
+  question: BankQuestion;
+}
+
+export function findBankDuplicates(
+  items: BankDuplicateItem[],
+  threshold = DUPLICATE_THRESHOLD,
+  db: Database.Database = getDatabase()
+): BankDuplicateMatch[][] {
+  return items.map(item => {
+    const { question } = item;
+    const text = [question.question, question.correctAnswer ?? '', ...(question.pairs ?? []).flatMap(pair => [pair.left, pair.right])].join(' ');
+    const terms = Array.from(new Set(tokenize(text))).slice(0, MAX_QUERY_TERMS);
+    const profile = createSimilarityProfile(question);
+
+    return findCandidateQuestions(item.questionType, terms, CANDIDATE_LIMIT, db)
+      .filter(candidate => candidate.id !== item.bankId)
+      .map(candidate => ({ similarity: getSimilarity(profile, createSimilarityProfile(candidate.question)), question: candidate }))
+      .filter(match => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_BANK_MATCHES);
+  });
+}
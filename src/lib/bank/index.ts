@@ -0,0 +1,6 @@
+export * from './types';
+export * from './database';
+export * from './store';
+export * from './validation';
+export * from './assemble';
+export * from './duplicates';
@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { assembleExamFromBank } from './assemble';
+import { openDatabase } from './database';
+import { createBankQuestions, deleteBankQuestion, searchBankQuestions, toFtsQuery } from './store';
+import { BankQuestionInput } from './types';
+
+function trueFalse(question: string, overrides: Partial<BankQuestionInput> = {}): BankQuestionInput {
+  return {
+    questionType: 'true-false',
+    difficulty: 'easy',
+    subject: 'IPA',
+    tags: [],
+    question: { question, correctAnswer: 'Benar' },
+    ...overrides
+  };
+}
+
+describe('toFtsQuery', () => {
+  it('mengutip setiap kata dan mencocokkannya sebagai awalan', () => {
+    expect(toFtsQuery('Fotosintesis  daun')).toBe('"fotosintesis"* "daun"*');
+  });
+
+  it('membuang operator FTS dan tanda baca dari input', () => {
+    expect(toFtsQuery('daun OR "akar" NEAR(batang) -bunga*')).toBe('"daun"* "or"* "akar"* "near"* "batang"* "bunga"*');
+  });
+
+  it('mempertahankan huruf non-ASCII', () => {
+    expect(toFtsQuery('Énergi الماء')).toBe('"énergi"* "الماء"*');
+  });
+
+  it('mengembalikan undefined jika tidak ada kata', () => {
+    expect(toFtsQuery(' -- "" ')).toBeUndefined();
+  });
+});
+
+describe('bank soal', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openDatabase(':memory:');
+  });
+
+  it('mencari dengan awalan kata tanpa menjalankan operator dari input', () => {
+    createBankQuestions([
+      trueFalse('Fotosintesis terjadi di daun.'),
+      trueFalse('Akar menyerap air dari tanah.')
+    ], db);
+
+    expect(searchBankQuestions({ query: 'foto' }, {}, db).questions.map(item => item.question.question))
+      .toEqual(['Fotosintesis terjadi di daun.']);
+    expect(searchBankQuestions({ query: 'akar OR daun' }, {}, db).total).toBe(0);
+    expect(searchBankQuestions({ query: 'akar)' }, {}, db).total).toBe(1);
+  });
+
+  it('menghapus materi yang tidak lagi dipakai soal lain', () => {
+    const { created } = createBankQuestions([
+      trueFalse('Soal pertama dari materi A.', { material: 'Materi A' }),
+      trueFalse('Soal kedua dari materi A.', { material: 'Materi A' })
+    ], db);
+    const countMaterials = () => (db.prepare('SELECT COUNT(*) AS count FROM materials').get() as { count: number }).count;
+
+    expect(deleteBankQuestion(created[0].id, db)).toBe(true);
+    expect(countMaterials()).toBe(1);
+    expect(deleteBankQuestion(created[1].id, db)).toBe(true);
+    expect(countMaterials()).toBe(0);
+    expect(deleteBankQuestion(created[1].id, db)).toBe(false);
+  });
+
+  it('menyusun ujian dari semua tingkat kesulitan jika bagian tidak menyebutnya', () => {
+    createBankQuestions([
+      trueFalse('Soal mudah tentang air.'),
+      trueFalse('Soal sedang tentang tanah.', { difficulty: 'medium' }),
+      trueFalse('Soal sulit tentang udara.', { difficulty: 'hard' })
+    ], db);
+    const section = { title: 'Bagian A', questionType: 'true-false' as const, questionCount: 3, points: 1 };
+
+    expect(assembleExamFromBank([section], {}, db).totalQuestions).toBe(3);
+    const hard = assembleExamFromBank([{ ...section, difficulty: 'hard' }], {}, db);
+    expect(hard.totalQuestions).toBe(1);
+    expect(hard.sections[0].error).toBe('bank soal hanya memiliki 1 dari 3 soal yang cocok');
+  });
+});
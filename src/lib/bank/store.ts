@@ -0,0 +1,315 @@
+import type Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { createQuestionId } from '@/lib/questions/shuffle';
+import { Difficulty, Question, QuestionType } from '@/lib/questions/types';
+import { getDatabase } from './database';
+import {
+  BankFacets,
+  BankFilters,
+  BankQuestion,
+  BankQuestionInput,
+  BankQuestionUpdate,
+  BankSearchResult
+} from './types';
+
+/**
+ * Operasi CRUD dan pencarian bank soal. Indeks teks penuh (FTS5) diisi dari
+ * teks soal, opsi, jawaban, pasangan, penjelasan dan rubrik, lalu diperbarui
+ * setiap kali soal, tag atau mata pelajarannya berubah.
+ */
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Error ketika soal yang diubah menjadi sama dengan soal lain di bank
+ */
+export class DuplicateQuestionError extends Error {
+  existingId: number;
+
+  constructor(existingId: number) {
+    super(`Soal yang sama sudah ada di bank (ID ${existingId})`);
+    this.name = 'DuplicateQuestionError';
+    this.existingId = existingId;
+  }
+}
+
+interface QuestionRow {
+  id: number;
+  question_type: QuestionType;
+  difficulty: Difficulty;
+  subject: string;
+  data: string;
+  material_id: number | null;
+  model: string | null;
+  provider: string | null;
+  created_at: string;
+  updated_at: string;
+  tags: string; // array JSON dari json_group_array
+  material?: string | null;
+}
+
+const QUESTION_COLUMNS = `q.*,
+  (SELECT json_group_array(tag) FROM (SELECT tag FROM question_tags WHERE question_id = q.id ORDER BY tag)) AS tags`;
+
+function toBankQuestion(row: QuestionRow): BankQuestion {
+  return {
+    id: row.id,
+    questionType: row.question_type,
+    difficulty: row.difficulty,
+    subject: row.subject,
+    tags: JSON.parse(row.tags) as string[],
+    question: JSON.parse(row.data) as Question,
+    ...(row.material !== undefined && row.material !== null ? { material: row.material } : {}),
+    hasMaterial: row.material_id !== null,
+    model: row.model ?? undefined,
+    provider: row.provider ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Teks yang diindeks untuk pencarian
+ */
+function searchableText(question: Question): string {
+  return [
+    question.question,
+    ...(question.options ?? []),
+    question.correctAnswer ?? '',
+    ...(question.pairs ?? []).flatMap(pair => [pair.left, pair.right]),
+    question.explanation ?? '',
+    ...(question.rubric?.modelAnswer ?? []),
+    question.objective ?? ''
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Ubah kata kunci pencarian menjadi query FTS5: setiap kata diberi tanda kutip
+ * (supaya operator FTS di input tidak ikut dijalankan) dan dicocokkan sebagai awalan
+ */
+export function toFtsQuery(text: string): string | undefined {
+  const terms = text.toLowerCase().split(/[^0-9a-z\u00C0-\uFFFF]+/).filter(Boolean);
+  return terms.length > 0 ? terms.map(term => `"${term}"*`).join(' ') : undefined;
+}
+
+function saveMaterial(db: Database.Database, content: string, now: string): number {
+  const hash = createHash('sha256').update(content).digest('hex');
+  db.prepare('INSERT INTO materials (hash, content, created_at) VALUES (?, ?, ?) ON CONFLICT (hash) DO NOTHING').run(hash, content, now);
+  return (db.prepare('SELECT id FROM materials WHERE hash = ?').get(hash) as { id: number }).id;
+}
+
+function writeTags(db: Database.Database, id: number, tags: string[]) {
+  db.prepare('DELETE FROM question_tags WHERE question_id = ?').run(id);
+  const insert = db.prepare('INSERT INTO question_tags (question_id, tag) VALUES (?, ?)');
+  for (const tag of tags) insert.run(id, tag);
+}
+
+function writeSearchIndex(db: Database.Database, id: number, question: Question, tags: string[], subject: string) {
+  db.prepare('DELETE FROM questions_fts WHERE rowid = ?').run(id);
+  db.prepare('INSERT INTO questions_fts (rowid, content, tags, subject) VALUES (?, ?, ?, ?)')
+    .run(id, searchableText(question), tags.join(' '), subject);
+}
+
+/**
+ * Simpan soal baru. Soal yang sudah ada di bank (jenis dan isi sama) dilewati.
+ * Materi yang sama hanya disimpan sekali.
+ */
+export function createBankQuestions(
+  inputs: BankQuestionInput[],
+  db: Database.Database = getDatabase()
+): { created: BankQuestion[]; skipped: number } {
+  const insert = db.prepare(`
+    INSERT INTO questions (content_id, question_type, difficulty, subject, data, material_id, model, provider, created_at, updated_at)
+    VALUES (@contentId, @questionType, @difficulty, @subject, @data, @materialId, @model, @provider, @now, @now)
+    ON CONFLICT (question_type, content_id) DO NOTHING`);
+
+  const ids = db.transaction(() => {
+    const now = new Date().toISOString();
+    const materialIds = new Map<string, number>();
+    const created: number[] = [];
+    for (const input of inputs) {
+      let materialId: number | null = null;
+      if (input.material) {
+        materialId = materialIds.get(input.material) ?? saveMaterial(db, input.material, now);
+        materialIds.set(input.material, materialId);
+      }
+      const question = { ...input.question, id: input.question.id ?? createQuestionId(input.question) };
+      const result = insert.run({
+        contentId: question.id,
+        questionType: input.questionType,
+        difficulty: input.difficulty,
+        subject: input.subject,
+        data: JSON.stringify(question),
+        materialId,
+        model: input.model ?? null,
+        provider: input.provider ?? null,
+        now
+      });
+      if (result.changes === 0) continue;
+      const id = Number(result.lastInsertRowid);
+      writeTags(db, id, input.tags);
+      writeSearchIndex(db, id, question, input.tags, input.subject);
+      created.push(id);
+    }
+    return created;
+  })();
+
+  return { created: ids.map(id => getBankQuestion(id, db, false)!), skipped: inputs.length - ids.length };
+}
+
+export function getBankQuestion(id: number, db: Database.Database = getDatabase(), withMaterial = true): BankQuestion | undefined {
+  const row = withMaterial
+    ? db.prepare(`SELECT ${QUESTION_COLUMNS}, m.content AS material FROM questions q LEFT JOIN materials m ON m.id = q.material_id WHERE q.id = ?`).get(id)
+    : db.prepare(`SELECT ${QUESTION_COLUMNS} FROM questions q WHERE q.id = ?`).get(id);
+  return row ? toBankQuestion(row as QuestionRow) : undefined;
+}
+
+/**
+ * Ubah soal, tingkat kesulitan, mata pelajaran atau tag. Jenis soal tidak bisa diubah.
+ */
+export function updateBankQuestion(id: number, update: BankQuestionUpdate, db: Database.Database = getDatabase()): BankQuestion | undefined {
+  const existing = getBankQuestion(id, db, false);
+  if (!existing) return undefined;
+
+  const question = update.question
+    ? { ...update.question, id: createQuestionId(update.question) }
+    : existing.question;
+  const subject = update.subject ?? existing.subject;
+  const tags = update.tags ?? existing.tags;
+  const duplicate = db.prepare('SELECT id FROM questions WHERE question_type = ? AND content_id = ? AND id <> ?')
+    .get(existing.questionType, question.id, id) as { id: number } | undefined;
+  if (duplicate) {
+    throw new DuplicateQuestionError(duplicate.id);
+  }
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE questions
+      SET content_id = ?, difficulty = ?, subject = ?, data = ?, updated_at = ?
+      WHERE id = ?`)
+      .run(question.id, update.difficulty ?? existing.difficulty, subject, JSON.stringify(question), new Date().toISOString(), id);
+    writeTags(db, id, tags);
+    writeSearchIndex(db, id, question, tags, subject);
+  })();
+  return getBankQuestion(id, db);
+}
+
+/**
+ * Hapus soal beserta indeks pencariannya. Materi yang tidak lagi dipakai
+ * soal lain ikut dihapus.
+ */
+export function deleteBankQuestion(id: number, db: Database.Database = getDatabase()): boolean {
+  return db.transaction(() => {
+    const row = db.prepare('SELECT material_id FROM questions WHERE id = ?').get(id) as { material_id: number | null } | undefined;
+    if (!row) return false;
+    db.prepare('DELETE FROM questions_fts WHERE rowid = ?').run(id);
+    db.prepare('DELETE FROM questions WHERE id = ?').run(id);
+    if (row.material_id !== null) {
+      db.prepare('DELETE FROM materials WHERE id = ? AND NOT EXISTS (SELECT 1 FROM questions WHERE material_id = ?)')
+        .run(row.material_id, row.material_id);
+    }
+    return true;
+  })();
+}
+
+/**
+ * Susun FROM dan WHERE dari filter. Dengan kata kunci, tabel FTS ikut di-join
+ * supaya hasilnya bisa diurutkan dengan bm25.
+ */
+function buildQuery(filters: BankFilters): { from: string; params: unknown[]; ranked: boolean } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+  const ftsQuery = filters.query ? toFtsQuery(filters.query) : undefined;
+  if (ftsQuery) {
+    clauses.push('questions_fts MATCH ?');
+    params.push(ftsQuery);
+  }
+  if (filters.questionType) {
+    clauses.push('q.question_type = ?');
+    params.push(filters.questionType);
+  }
+  if (filters.difficulty) {
+    clauses.push('q.difficulty = ?');
+    params.push(filters.difficulty);
+  }
+  if (filters.subject) {
+    clauses.push('q.subject = ? COLLATE NOCASE');
+    params.push(filters.subject);
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    clauses.push(`q.id IN (
+      SELECT question_id FROM question_tags WHERE tag IN (${filters.tags.map(() => '?').join(', ')})
+      GROUP BY question_id HAVING COUNT(*) = ?)`);
+    params.push(...filters.tags, filters.tags.length);
+  }
+  if (filters.bloomLevels && filters.bloomLevels.length > 0) {
+    clauses.push(`json_extract(q.data, '$.bloomLevel') IN (${filters.bloomLevels.map(() => '?').join(', ')})`);
+    params.push(...filters.bloomLevels);
+  }
+  if (filters.excludeIds && filters.excludeIds.length > 0) {
+    clauses.push(`q.id NOT IN (${filters.excludeIds.map(() => '?').join(', ')})`);
+    params.push(...filters.excludeIds);
+  }
+  const join = ftsQuery ? ' JOIN questions_fts ON questions_fts.rowid = q.id' : '';
+  const where = clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '';
+  return { from: `FROM questions q${join}${where}`, params, ranked: Boolean(ftsQuery) };
+}
+
+/**
+ * Cari soal. Dengan kata kunci hasil diurutkan berdasarkan relevansi (bm25),
+ * tanpa kata kunci dari yang terbaru.
+ */
+export function searchBankQuestions(
+  filters: BankFilters,
+  page: { limit?: number; offset?: number } = {},
+  db: Database.Database = getDatabase()
+): BankSearchResult {
+  const { from, params, ranked } = buildQuery(filters);
+  const limit = Math.min(Math.max(page.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(page.offset ?? 0, 0);
+  const order = ranked ? 'bm25(questions_fts), q.id DESC' : 'q.created_at DESC, q.id DESC';
+
+  const total = (db.prepare(`SELECT COUNT(*) AS count ${from}`).get(...params) as { count: number }).count;
+  const rows = db.prepare(`SELECT ${QUESTION_COLUMNS} ${from} ORDER BY ${order} LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as QuestionRow[];
+  return { questions: rows.map(toBankQuestion), total };
+}
+
+/**
+ * Kandidat soal mirip: soal sejenis yang memuat salah satu kata `terms`,
+ * urut relevansi bm25. Kemiripan sebenarnya dihitung di luar SQL.
+ */
+export function findCandidateQuestions(
+  questionType: QuestionType,
+  terms: string[],
+  limit: number,
+  db: Database.Database = getDatabase()
+): BankQuestion[] {
+  const ftsQuery = toFtsQuery(terms.join(' '))?.split(' ').join(' OR ');
+  if (!ftsQuery) return [];
+  const rows = db.prepare(`
+    SELECT ${QUESTION_COLUMNS} FROM questions q JOIN questions_fts ON questions_fts.rowid = q.id
+    WHERE questions_fts MATCH ? AND q.question_type = ?
+    ORDER BY bm25(questions_fts) LIMIT ?`)
+    .all(ftsQuery, questionType, limit) as QuestionRow[];
+  return rows.map(toBankQuestion);
+}
+
+/**
+ * Ambil soal acak yang cocok dengan filter, untuk menyusun ujian dari bank
+ */
+export function pickRandomQuestions(filters: BankFilters, count: number, db: Database.Database = getDatabase()): BankQuestion[] {
+  const { from, params } = buildQuery(filters);
+  const rows = db.prepare(`SELECT ${QUESTION_COLUMNS} ${from} ORDER BY random() LIMIT ?`).all(...params, count) as QuestionRow[];
+  return rows.map(toBankQuestion);
+}
+
+/**
+ * Daftar mata pelajaran dan tag yang ada di bank, untuk pilihan filter
+ */
+export function getBankFacets(db: Database.Database = getDatabase()): BankFacets {
+  const subjects = db.prepare("SELECT DISTINCT subject FROM questions WHERE subject <> '' ORDER BY subject COLLATE NOCASE").all() as { subject: string }[];
+  const tags = db.prepare('SELECT tag, COUNT(*) AS count FROM question_tags GROUP BY tag ORDER BY count DESC, tag LIMIT 50').all() as { tag: string; count: number }[];
+  return { subjects: subjects.map(row => row.subject), tags };
+}
@@ -0,0 +1,60 @@
+import { BloomLevel, Difficulty, Question, QuestionType } from '@/lib/questions/types';
+
+/**
+ * Tipe data bank soal. Soal disimpan bersama jenis, tingkat kesulitan,
+ * mata pelajaran, tag dan asal pembuatannya (materi, model, provider).
+ */
+
+export interface BankQuestion {
+  id: number;
+  questionType: QuestionType;
+  difficulty: Difficulty;
+  subject: string;
+  tags: string[];
+  question: Question;
+  material?: string; // materi sumber; hanya disertakan saat mengambil satu soal
+  hasMaterial: boolean;
+  model?: string; // model yang membuat soal
+  provider?: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+// Soal baru yang akan disimpan, sudah divalidasi
+export interface BankQuestionInput {
+  questionType: QuestionType;
+  difficulty: Difficulty;
+  subject: string;
+  tags: string[];
+  question: Question;
+  material?: string;
+  model?: string;
+  provider?: string;
+}
+
+export interface BankQuestionUpdate {
+  question?: Question;
+  difficulty?: Difficulty;
+  subject?: string;
+  tags?: string[];
+}
+
+export interface BankFilters {
+  query?: string; // pencarian teks penuh
+  questionType?: QuestionType;
+  difficulty?: Difficulty;
+  subject?: string;
+  tags?: string[]; // soal harus memiliki semua tag
+  bloomLevels?: BloomLevel[];
+  excludeIds?: number[];
+}
+
+export interface BankSearchResult {
+  questions: BankQuestion[];
+  total: number;
+}
+
+export interface BankFacets {
+  subjects: string[];
+  tags: { tag: string; count: number }[];
+}
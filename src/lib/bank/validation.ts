@@ -0,0 +1,214 @@
+import { parseBloomLevels } from '@/lib/questions/bloom';
+import { DIFFICULTIES } from '@/lib/questions/blueprint';
+import { Difficulty, QUESTION_TYPES, QuestionType } from '@/lib/questions/types';
+import { validateQuestion } from '@/lib/questions/validation';
+import { getMaxMaterialLength } from '@/lib/rate-limit';
+import { BankFilters, BankQuestionInput, BankQuestionUpdate } from './types';
+
+/**
+ * Validasi body dan query string API bank soal
+ */
+
+export const MAX_BANK_BATCH = 200;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_SUBJECT_LENGTH = 100;
+
+interface SectionInfo {
+  questionType: QuestionType;
+  difficulty: Difficulty;
+}
+
+/**
+ * Tag berupa array atau teks dipisah koma; disimpan huruf kecil tanpa duplikat
+ */
+export function normalizeTags(raw: unknown, errors: string[]): string[] {
+  if (raw === undefined) return [];
+  const items = typeof raw === 'string' ? raw.split(',') : raw;
+  if (!Array.isArray(items) || !items.every(item => typeof item === 'string')) {
+    errors.push('"tags" harus berupa array teks atau teks dipisah koma');
+    return [];
+  }
+  const tags = Array.from(new Set(items.map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean)));
+  if (tags.length > MAX_TAGS) {
+    errors.push(`maksimal ${MAX_TAGS} tag per soal`);
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`panjang tag maksimal ${MAX_TAG_LENGTH} karakter`);
+  }
+  return tags;
+}
+
+function normalizeSubject(raw: unknown, errors: string[]): string | undefined {
+  if (raw === undefined) return undefined;
+  if (typeof raw !== 'string' || raw.trim().length > MAX_SUBJECT_LENGTH) {
+    errors.push(`"subject" harus berupa teks maksimal ${MAX_SUBJECT_LENGTH} karakter`);
+    return undefined;
+  }
+  return raw.trim();
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTIES.includes(value as Difficulty);
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validasi body penyimpanan soal. Seperti export, jenis soal diambil dari
+ * `sections[sectionIndex]` atau dari `questionType` jika semua soal sejenis.
+ * `subject`, `tags`, `material`, `model` dan `provider` berlaku untuk semua
+ * soal; tag per soal (`questions[i].tags`) ditambahkan ke tag bersama.
+ */
+export function validateBankInputs(raw: Record<string, unknown>): { inputs?: BankQuestionInput[]; errors: string[] } {
+  const { questions } = raw;
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return { errors: ['"questions" wajib berisi array soal yang tidak kosong'] };
+  }
+  if (questions.length > MAX_BANK_BATCH) {
+    return { errors: [`maksimal ${MAX_BANK_BATCH} soal per penyimpanan`] };
+  }
+
+  const errors: string[] = [];
+  const defaultDifficulty = raw.difficulty === undefined ? 'medium' : raw.difficulty;
+  if (!isDifficulty(defaultDifficulty)) {
+    errors.push('"difficulty" harus "easy", "medium" atau "hard"');
+  }
+  let sections: SectionInfo[];
+  if (raw.sections !== undefined) {
+    if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+      return { errors: ['"sections" harus berupa array yang tidak kosong'] };
+    }
+    sections = raw.sections.map((section, index) => {
+      const { questionType, difficulty = defaultDifficulty } = (section ?? {}) as Partial<SectionInfo>;
+      if (!questionType || !QUESTION_TYPES.includes(questionType)) {
+        errors.push(`bagian ${index + 1}: jenis soal "${questionType}" tidak dikenal`);
+      }
+      if (!isDifficulty(difficulty)) {
+        errors.push(`bagian ${index + 1}: tingkat kesulitan harus "easy", "medium" atau "hard"`);
+      }
+      return { questionType: questionType as QuestionType, difficulty: difficulty as Difficulty };
+    });
+  } else {
+    const questionType = raw.questionType as QuestionType;
+    if (!QUESTION_TYPES.includes(questionType)) {
+      return { errors: ['isi "sections" atau "questionType" yang valid'] };
+    }
+    sections = [{ questionType, difficulty: defaultDifficulty as Difficulty }];
+  }
+
+  const subject = normalizeSubject(raw.subject, errors) ?? '';
+  const tags = normalizeTags(raw.tags, errors);
+  const maxMaterialLength = getMaxMaterialLength();
+  if (raw.material !== undefined && (typeof raw.material !== 'string' || raw.material.length > maxMaterialLength)) {
+    errors.push(`"material" harus berupa teks maksimal ${maxMaterialLength} karakter`);
+  }
+  if (errors.length > 0) return { errors };
+
+  const inputs: BankQuestionInput[] = [];
+  questions.forEach((item, index) => {
+    const sectionIndex = typeof item?.sectionIndex === 'number' ? item.sectionIndex : 0;
+    const section = sections[sectionIndex];
+    if (!section) {
+      errors.push(`soal ${index + 1}: bagian ${sectionIndex + 1} tidak ada`);
+      return;
+    }
+    const { question, errors: questionErrors } = validateQuestion(item, section.questionType);
+    const itemErrors = [...questionErrors];
+    const itemTags = normalizeTags(item.tags, itemErrors);
+    if (!question || itemErrors.length > 0) {
+      errors.push(`soal ${index + 1}: ${itemErrors.join('; ')}`);
+      return;
+    }
+    inputs.push({
+      questionType: section.questionType,
+      difficulty: section.difficulty,
+      subject,
+      tags: Array.from(new Set([...tags, ...itemTags])),
+      question: { ...question, objective: question.objective ?? optionalText(item.objective), canonicalId: optionalText(item.canonicalId) },
+      material: optionalText(raw.material),
+      model: optionalText(raw.model),
+      provider: optionalText(raw.provider)
+    });
+  });
+  return errors.length > 0 ? { errors } : { inputs, errors };
+}
+
+/**
+ * Validasi body perubahan soal. `question` divalidasi ulang sesuai jenis soal di bank.
+ */
+export function validateBankUpdate(raw: Record<string, unknown>, questionType: QuestionType): { update?: BankQuestionUpdate; errors: string[] } {
+  const errors: string[] = [];
+  const update: BankQuestionUpdate = {};
+  if (raw.question !== undefined) {
+    const { question, errors: questionErrors } = validateQuestion(raw.question, questionType);
+    if (question) {
+      const objective = (raw.question as Record<string, unknown>).objective;
+      update.question = { ...question, objective: question.objective ?? optionalText(objective) };
+    } else {
+      errors.push(...questionErrors.map(error => `soal: ${error}`));
+    }
+  }
+  if (raw.difficulty !== undefined) {
+    if (isDifficulty(raw.difficulty)) {
+      update.difficulty = raw.difficulty;
+    } else {
+      errors.push('"difficulty" harus "easy", "medium" atau "hard"');
+    }
+  }
+  update.subject = normalizeSubject(raw.subject, errors);
+  if (raw.tags !== undefined) {
+    update.tags = normalizeTags(raw.tags, errors);
+  }
+  if (errors.length === 0 && Object.values(update).every(value => value === undefined)) {
+    errors.push('isi minimal salah satu dari "question", "difficulty", "subject" atau "tags"');
+  }
+  return errors.length > 0 ? { errors } : { update, errors };
+}
+
+/**
+ * Filter pencarian dari query string:
+ * `?q=&type=&difficulty=&subject=&tag=a&tag=b&bloomLevel=C3&limit=&offset=`
+ */
+export function parseBankFilters(params: URLSearchParams): { filters?: BankFilters; page: { limit?: number; offset?: number }; errors: string[] } {
+  const errors: string[] = [];
+  const type = params.get('type') || undefined;
+  const difficulty = params.get('difficulty') || undefined;
+  if (type && !QUESTION_TYPES.includes(type as QuestionType)) {
+    errors.push(`jenis soal "${type}" tidak dikenal`);
+  }
+  if (difficulty && !isDifficulty(difficulty)) {
+    errors.push('tingkat kesulitan harus "easy", "medium" atau "hard"');
+  }
+  const { levels, error: bloomError } = parseBloomLevels(params.getAll('bloomLevel').length > 0 ? params.getAll('bloomLevel') : undefined);
+  if (bloomError) errors.push(bloomError);
+  const tags = normalizeTags(params.getAll('tag'), errors);
+
+  const readNumber = (key: string) => {
+    const value = params.get(key);
+    if (value === null) return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      errors.push(`"${key}" harus bilangan bulat positif`);
+      return undefined;
+    }
+    return number;
+  };
+  const page = { limit: readNumber('limit'), offset: readNumber('offset') };
+
+  if (errors.length > 0) return { page, errors };
+  return {
+    filters: {
+      query: params.get('q')?.trim() || undefined,
+      questionType: type as QuestionType | undefined,
+      difficulty: difficulty as Difficulty | undefined,
+      subject: params.get('subject')?.trim() || undefined,
+      tags,
+      bloomLevels: levels
+    },
+    page,
+    errors
+  };
+}
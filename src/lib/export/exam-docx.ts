@@ -0,0 +1,432 @@
+import JSZip from 'jszip';
+import { createTranslator, LOCALES, Translator } from '@/lib/i18n';
+import { QuestionType } from '@/lib/questions/types';
+import { PrintableExam, PrintSection } from './exam-pdf';
+import {
+  getAnswerKey,
+  getMatchingChoices,
+  getQuestionTags,
+  getRubricLines,
+  getSectionInstruction
+} from './layout';
+import { escapeXml } from './lms/markup';
+import { ExamVariant, VariantQuestion } from './variants';
+
+/**
+ * Naskah ujian sebagai dokumen Word (.docx) yang masih bisa diedit guru.
+ * Nomor soal dan huruf opsi memakai penomoran Word asli (numbering.xml),
+ * setiap paket menjadi section sendiri dengan nomor halaman dari 1, dan
+ * kunci jawaban beserta penjelasan ada di section terpisah di akhir dokumen.
+ *
+ * Kop sekolah bisa diambil dari template .docx: header, footer, style dan
+ * ukuran halaman template dipakai apa adanya, dan isi badan template
+ * (misalnya logo dan alamat sekolah) dicetak di atas naskah setiap paket.
+ */
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOC_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NUMBERING_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Ukuran dalam twip (1/20 pt) untuk kertas A4 dengan margin 2 cm
+const CONTENT_WIDTH = 9638;
+const INDENT = 425;
+const MATCHING_COLUMN = Math.floor((CONTENT_WIDTH - INDENT) / 2);
+const BLANK = '____________________';
+const LINE_BORDER = 'w:val="single" w:sz="4" w:space="1" w:color="auto"';
+
+/**
+ * Daftar bernomor: soal (1.), opsi pilihan ganda (A.), kolom kiri (1.) dan
+ * kolom kanan (A.) soal menjodohkan. Indentasi opsi mengikuti teks soal.
+ */
+const LIST_FORMATS = {
+  question: { format: 'decimal', left: INDENT },
+  option: { format: 'upperLetter', left: INDENT * 2 },
+  pairLeft: { format: 'decimal', left: INDENT * 2 },
+  pairRight: { format: 'upperLetter', left: INDENT }
+} as const;
+
+type ListKind = keyof typeof LIST_FORMATS;
+
+/**
+ * Penomoran Word: satu abstractNum per jenis daftar dan satu num per daftar
+ * yang dimulai ulang dari 1. `abstractBase`/`numBase` menggeser ID supaya
+ * tidak bentrok dengan penomoran milik template.
+ */
+function createNumbering(abstractBase: number, numBase: number) {
+  const kinds = Object.keys(LIST_FORMATS) as ListKind[];
+  const nums: ListKind[] = [];
+  return {
+    next(kind: ListKind): number {
+      nums.push(kind);
+      return numBase + nums.length - 1;
+    },
+    abstractXml(): string {
+      return kinds
+        .map((kind, index) => {
+          const { format, left } = LIST_FORMATS[kind];
+          return `<w:abstractNum w:abstractNumId="${abstractBase + index}"><w:multiLevelType w:val="singleLevel"/>` +
+            `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/>` +
+            `<w:pPr><w:ind w:left="${left}" w:hanging="${INDENT}"/></w:pPr></w:lvl></w:abstractNum>`;
+        })
+        .join('');
+    },
+    numXml(): string {
+      return nums
+        .map((kind, index) => `<w:num w:numId="${numBase + index}"><w:abstractNumId w:val="${abstractBase + kinds.indexOf(kind)}"/>` +
+          '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>')
+        .join('');
+    }
+  };
+}
+
+type Numbering = ReturnType<typeof createNumbering>;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // pt
+}
+
+interface ParagraphOptions {
+  align?: 'center' | 'right';
+  numId?: number;
+  indent?: number;
+  keepNext?: boolean;
+  spaceAfter?: number; // twip
+  underline?: boolean; // garis tulis jawaban esai
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.size ? `<w:sz w:val="${style.size * 2}"/><w:szCs w:val="${style.size * 2}"/>` : ''
+  ].join('');
+  const content = text
+    .split('\n')
+    .map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(runs: string, options: ParagraphOptions = {}): string {
+  const props = [
+    options.keepNext ? '<w:keepNext/>' : '',
+    options.numId !== undefined ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${options.numId}"/></w:numPr>` : '',
+    // Word menggabungkan paragraf berurutan dengan border sama, jadi garis antar paragraf pakai `between`
+    options.underline ? `<w:pBdr><w:bottom ${LINE_BORDER}/><w:between ${LINE_BORDER}/></w:pBdr>` : '',
+    `<w:spacing w:after="${options.spaceAfter ?? 60}"/>`,
+    options.indent ? `<w:ind w:left="${options.indent}"/>` : '',
+    options.align ? `<w:jc w:val="${options.align}"/>` : ''
+  ].join('');
+  return `<w:p><w:pPr>${props}</w:pPr>${runs}</w:p>`;
+}
+
+function table(rows: string[][], widths: number[], bordered: boolean): string {
+  const border = bordered ? 'single' : 'nil';
+  const borders = ['top', 'left', 'bottom', 'right']
+    .map(side => `<w:${side} w:val="${border}" w:sz="4" w:space="0" w:color="auto"/>`)
+    .join('');
+  const grid = widths.map(width => `<w:gridCol w:w="${width}"/>`).join('');
+  const body = rows
+    .map(cells => `<w:tr>${cells
+      .map((cell, index) => `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/></w:tcPr>${cell || paragraph('')}</w:tc>`)
+      .join('')}</w:tr>`)
+    .join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="${widths.reduce((sum, width) => sum + width, 0)}" w:type="dxa"/>` +
+    `<w:tblBorders>${borders}<w:insideH w:val="nil"/><w:insideV w:val="nil"/></w:tblBorders>` +
+    `<w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>`;
+}
+
+function getPaketLabel(exam: PrintableExam, variant: ExamVariant, t: Translator): string {
+  return exam.variants.length > 1 ? t('document.variantLabel', { label: variant.label }) : '';
+}
+
+/**
+ * Kop naskah: kop template atau nama sekolah, judul, lalu tabel identitas
+ * ujian dan siswa
+ */
+function studentHeader(exam: PrintableExam, variant: ExamVariant, t: Translator, letterhead?: string): string {
+  const { header } = exam;
+  const paket = getPaketLabel(exam, variant, t);
+  const identity = [
+    [t('document.subject'), header.subject, t('document.name'), ''],
+    [t('document.className'), header.className, t('document.rollNumber'), ''],
+    [t('document.date'), header.date, t('document.variant'), paket ? variant.label : '']
+  ];
+  return (letterhead ?? paragraph(run((header.school || t('document.defaultSchool')).toUpperCase(), { bold: true, size: 14 }), { align: 'center' })) +
+    paragraph(run([t('document.examTitle'), paket.toUpperCase()].filter(Boolean).join(' - '), { bold: true, size: 12 }), { align: 'center', spaceAfter: 200 }) +
+    table(
+      identity.map(([leftLabel, leftValue, rightLabel, rightValue]) => [
+        paragraph(run(leftLabel)),
+        paragraph(run(`: ${leftValue || BLANK}`)),
+        paragraph(run(rightLabel)),
+        paragraph(run(`: ${rightValue || BLANK}`))
+      ]),
+      [1900, 3000, 1500, 3238],
+      true
+    ) +
+    paragraph('', { spaceAfter: 120 });
+}
+
+function sectionHeading(section: PrintSection, t: Translator, instruction?: string): string {
+  const title = section.points ? `${section.title} (${t('section.pointsPerQuestion', { count: section.points })})` : section.title;
+  return paragraph(run(title, { bold: true, size: 12 }), { keepNext: true }) +
+    (instruction ? paragraph(run(instruction, { italic: true, size: 10 }), { keepNext: true, spaceAfter: 120 }) : '');
+}
+
+/**
+ * Satu soal di naskah siswa, tanpa jawaban maupun penjelasan
+ */
+function studentQuestion(numbering: Numbering, questionNumId: number, question: VariantQuestion, type: QuestionType, t: Translator): string {
+  const answerLine = (text: string) => paragraph(run(text), { indent: INDENT, spaceAfter: 160 });
+  // Teks soal tetap satu halaman dengan awal jawabannya (semua opsi untuk pilihan ganda)
+  let xml = paragraph(run(question.question), { numId: questionNumId, keepNext: true });
+
+  switch (type) {
+    case 'multiple-choice': {
+      const numId = numbering.next('option');
+      const options = question.options ?? [];
+      xml += options
+        .map((option, index) => paragraph(run(option), {
+          numId,
+          keepNext: index < options.length - 1,
+          spaceAfter: index === options.length - 1 ? 160 : 0
+        }))
+        .join('');
+      break;
+    }
+    case 'true-false':
+      xml += answerLine(t('document.trueFalseChoices'));
+      break;
+    case 'matching': {
+      const pairs = question.pairs ?? [];
+      const leftNumId = numbering.next('pairLeft');
+      const rightNumId = numbering.next('pairRight');
+      const column = (items: string[], numId: number) =>
+        items.map(item => paragraph(run(item), { numId, spaceAfter: 0 })).join('');
+      xml += table(
+        [[column(pairs.map(pair => pair.left), leftNumId), column(getMatchingChoices(pairs), rightNumId)]],
+        [INDENT + MATCHING_COLUMN, MATCHING_COLUMN],
+        false
+      ) + paragraph('', { spaceAfter: 0 });
+      break;
+    }
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      xml += answerLine(`${t('document.answer')} ${BLANK}${BLANK}`);
+      break;
+    case 'essay':
+      // Garis untuk menulis jawaban
+      for (let line = 0; line < 5; line++) {
+        xml += paragraph('', { indent: INDENT, underline: true, spaceAfter: 200 });
+      }
+      break;
+  }
+  return xml;
+}
+
+function studentExam(exam: PrintableExam, variant: ExamVariant, numbering: Numbering, t: Translator, letterhead?: string): string {
+  const questionNumId = numbering.next('question');
+  return studentHeader(exam, variant, t, letterhead) + variant.questions
+    .map((question, index) => {
+      const section = exam.sections[question.sectionIndex ?? 0];
+      const isNewSection = index === 0 || variant.questions[index - 1].sectionIndex !== question.sectionIndex;
+      return (isNewSection ? sectionHeading(section, t, getSectionInstruction(section.questionType, t)) : '') +
+        studentQuestion(numbering, questionNumId, question, section.questionType, t);
+    })
+    .join('');
+}
+
+/**
+ * Kunci jawaban guru untuk satu paket, beserta penjelasan, pedoman esai dan
+ * penanda level/tujuan/halaman sumber
+ */
+function answerKey(exam: PrintableExam, variant: ExamVariant, numbering: Numbering, t: Translator): string {
+  const { header } = exam;
+  const paket = getPaketLabel(exam, variant, t);
+  const questionNumId = numbering.next('question');
+  const details = [header.school, header.subject, header.className && t('document.classDetail', { className: header.className }), header.date].filter(Boolean);
+  const note = exam.variants.length > 1 ? ` | ${t('document.seed', { seed: variant.seed })}` : '';
+
+  let xml = paragraph(run([t('document.answerKeyTitle'), paket.toUpperCase()].filter(Boolean).join(' - '), { bold: true, size: 14 }), { align: 'center' }) +
+    (details.length > 0 ? paragraph(run(details.join(' | '), { size: 10 }), { align: 'center' }) : '') +
+    paragraph(run(`${t('document.teacherOnly')}${note}`, { size: 10 }), { align: 'center', spaceAfter: 240 });
+
+  let totalPoints = 0;
+  variant.items.forEach(({ question, canonicalIndex }, index) => {
+    const section = exam.sections[question.sectionIndex ?? 0];
+    if (index === 0 || variant.questions[index - 1].sectionIndex !== question.sectionIndex) {
+      xml += sectionHeading(section, t);
+    }
+    totalPoints += section.points ?? 0;
+
+    const isEssay = section.questionType === 'essay';
+    // Nomor di paket A (urutan asli) untuk mencocokkan analisis antar paket
+    const tags = [
+      ...(exam.variants.length > 1 && canonicalIndex !== index ? [t('document.canonicalNumber', { number: canonicalIndex + 1 })] : []),
+      ...getQuestionTags(question, t)
+    ];
+    const notes = [
+      ...(isEssay && question.rubric ? [paragraph(run(getRubricLines(question.rubric, t).join('\n'), { size: 10 }), { indent: INDENT, spaceAfter: 0 })] : []),
+      ...(question.explanation ? [paragraph(run(question.explanation, { size: 10 }), { indent: INDENT, spaceAfter: 0 })] : []),
+      ...(tags.length > 0 ? [paragraph(run(tags.join(' | '), { italic: true, size: 9 }), { indent: INDENT, spaceAfter: 0 })] : [])
+    ];
+    xml += paragraph(run(isEssay ? t('document.scoringGuide') : getAnswerKey(question, section.questionType, t), { bold: true }), {
+      numId: questionNumId,
+      keepNext: notes.length > 0,
+      spaceAfter: notes.length > 0 ? 0 : 120
+    });
+    xml += notes.join('') + (notes.length > 0 ? paragraph('', { spaceAfter: 0 }) : '');
+  });
+
+  if (totalPoints > 0) {
+    xml += paragraph(run(t('document.maxScore', { score: totalPoints }), { bold: true }));
+  }
+  return xml;
+}
+
+/**
+ * Isi badan dokumen: naskah setiap paket lalu kunci setiap paket, masing-masing
+ * sebagai section sendiri. `sectPr` adalah pengaturan halaman yang dipakai
+ * semua section; section terakhir ditutup oleh sectPr di akhir body.
+ */
+function buildBody(exam: PrintableExam, numbering: Numbering, sectPr: string, letterhead?: (copy: number) => string): string {
+  const t = createTranslator(exam.locale);
+  const parts = [
+    ...exam.variants.map((variant, index) => studentExam(exam, variant, numbering, t, letterhead?.(index))),
+    ...exam.variants.map(variant => answerKey(exam, variant, numbering, t))
+  ];
+  return parts.map((part, index) => (index < parts.length - 1 ? `${part}<w:p><w:pPr>${sectPr}</w:pPr></w:p>` : part)).join('') + sectPr;
+}
+
+function numberingXml(numbering: Numbering): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:numbering xmlns:w="${W_NS}">${numbering.abstractXml()}${numbering.numXml()}</w:numbering>`;
+}
+
+/**
+ * Dokumen baru tanpa template: A4, Times New Roman 12 pt dan nomor halaman di footer
+ */
+function createDefaultDocx(exam: PrintableExam): JSZip {
+  const t = createTranslator(exam.locale);
+  const numbering = createNumbering(0, 1);
+  const sectPr = '<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/>' +
+    '<w:pgNumType w:start="1"/></w:sectPr>';
+  const body = buildBody(exam, numbering, sectPr);
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="${NUMBERING_CONTENT_TYPE}"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${DOC_REL}/officeDocument" Target="word/document.xml"/></Relationships>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${REL_NS}">
+<Relationship Id="rIdStyles" Type="${DOC_REL}/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="${DOC_REL}/numbering" Target="numbering.xml"/>
+<Relationship Id="rIdFooter" Type="${DOC_REL}/footer" Target="footer1.xml"/>
+</Relationships>`);
+  zip.file('word/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/>` +
+    `<w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="${LOCALES[exam.locale].intl}"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style></w:styles>');
+  zip.file('word/footer1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="${W_NS}"><w:p><w:pPr><w:jc w:val="right"/></w:pPr>${run(`${t('document.page')} `, { size: 9 })}` +
+    '<w:fldSimple w:instr=" PAGE "><w:r><w:rPr><w:sz w:val="18"/></w:rPr><w:t>1</w:t></w:r></w:fldSimple></w:p></w:ftr>');
+  zip.file('word/numbering.xml', numberingXml(numbering));
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${body}</w:body></w:document>`);
+  return zip;
+}
+
+function maxId(xml: string, pattern: RegExp): number {
+  return Math.max(-1, ...Array.from(xml.matchAll(pattern), match => Number(match[1])));
+}
+
+/**
+ * Dokumen dari template kop sekolah. Badan template menjadi kop di atas
+ * setiap paket; penomoran soal digabung ke numbering.xml template.
+ */
+async function createTemplateDocx(exam: PrintableExam, template: ArrayBuffer): Promise<JSZip> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(template);
+  } catch {
+    throw new Error('Template kop harus berupa file .docx');
+  }
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+  const contentTypes = await zip.file('[Content_Types].xml')?.async('string');
+  const bodyStart = documentXml?.indexOf('<w:body>') ?? -1;
+  const bodyEnd = documentXml?.lastIndexOf('</w:body>') ?? -1;
+  if (!documentXml || !relsXml || !contentTypes || bodyStart < 0 || bodyEnd < 0) {
+    throw new Error('Template kop harus berupa file .docx');
+  }
+
+  // Pengaturan halaman terakhir template dipakai untuk semua section
+  const sectStart = documentXml.lastIndexOf('<w:sectPr', bodyEnd);
+  const hasSectPr = sectStart > bodyStart;
+  const sectPr = hasSectPr ? documentXml.slice(sectStart, bodyEnd) : '<w:sectPr/>';
+  const letterheadXml = documentXml
+    .slice(bodyStart + '<w:body>'.length, hasSectPr ? sectStart : bodyEnd)
+    .replace(/<w:sectPr\b[\s\S]*?<\/w:sectPr>/g, '');
+  // ID gambar (wp:docPr) harus unik di seluruh dokumen
+  const letterhead = (copy: number) => letterheadXml.replace(
+    /(<wp:docPr\b[^>]*\bid=")(\d+)"/g,
+    (_, prefix: string, id: string) => `${prefix}${Number(id) + copy * 1000}"`
+  );
+
+  const numberingTarget = relsXml.match(/<Relationship\b[^>]*Type="[^"]*\/numbering"[^>]*>/)?.[0].match(/Target="([^"]+)"/)?.[1];
+  const numberingPath = numberingTarget ? `word/${numberingTarget.replace(/^\/?word\//, '')}` : 'word/numbering.xml';
+  const existingNumbering = numberingTarget ? await zip.file(numberingPath)?.async('string') : undefined;
+  const numbering = createNumbering(
+    existingNumbering ? maxId(existingNumbering, /w:abstractNumId="(\d+)"/g) + 1 : 0,
+    existingNumbering ? maxId(existingNumbering, /w:numId="(\d+)"/g) + 1 : 1
+  );
+  const body = buildBody(exam, numbering, sectPr, letterhead);
+
+  if (existingNumbering) {
+    // Semua abstractNum harus berada sebelum num pertama
+    const firstNum = existingNumbering.search(/<w:num\b/);
+    const closing = existingNumbering.lastIndexOf('</w:numbering>');
+    const insertAt = firstNum >= 0 ? firstNum : closing;
+    zip.file(numberingPath, existingNumbering.slice(0, insertAt) + numbering.abstractXml() +
+      existingNumbering.slice(insertAt, closing) + numbering.numXml() + existingNumbering.slice(closing));
+  } else {
+    zip.file(numberingPath, numberingXml(numbering));
+    if (!numberingTarget) {
+      zip.file('word/_rels/document.xml.rels', relsXml.replace(
+        '</Relationships>',
+        `<Relationship Id="rIdExamNumbering" Type="${DOC_REL}/numbering" Target="numbering.xml"/></Relationships>`
+      ));
+    }
+    if (!contentTypes.includes('PartName="/word/numbering.xml"')) {
+      zip.file('[Content_Types].xml', contentTypes.replace(
+        '</Types>',
+        `<Override PartName="/word/numbering.xml" ContentType="${NUMBERING_CONTENT_TYPE}"/></Types>`
+      ));
+    }
+  }
+
+  zip.file('word/document.xml', `${documentXml.slice(0, bodyStart)}<w:body>${body}${documentXml.slice(bodyEnd)}`);
+  return zip;
+}
+
+/**
+ * Buat file .docx berisi naskah siswa setiap paket diikuti kunci jawabannya.
+ * `template` adalah isi file .docx kop sekolah (opsional).
+ */
+export async function createExamDocx(exam: PrintableExam, template?: ArrayBuffer): Promise<Blob> {
+  const zip = template ? await createTemplateDocx(exam, template) : createDefaultDocx(exam);
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+}
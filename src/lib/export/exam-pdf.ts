@@ -0,0 +1,466 @@
+import type { jsPDF, TextOptionsLight } from 'jspdf';
+import { createTranslator, Locale, Translator } from '@/lib/i18n';
+import { QuestionType } from '@/lib/questions/types';
+import {
+  getAnswerKey,
+  getMatchingChoices,
+  getQuestionTags,
+  getRubricLines,
+  getSectionInstruction,
+  optionLetter
+} from './layout';
+import { PDF_FONT, PDF_MONO_FONT } from './pdf-fonts';
+import { formatInline, getCodeOption, isRightToLeft, parseRichText } from './rich-text';
+import { ExamVariant, VariantQuestion } from './variants';
+
+/**
+ * Naskah ujian siswa (tanpa kunci) dan kunci jawaban guru sebagai PDF.
+ * Setiap paket dimulai di halaman baru dan diberi nomor halaman sendiri.
+ * `doc` harus sudah memuat font dari registerPdfFonts supaya huruf non-Latin,
+ * rumus dan blok kode tercetak benar.
+ */
+
+export interface ExamHeader {
+  school: string;
+  subject: string;
+  className: string;
+  date: string;
+}
+
+export interface PrintSection {
+  title: string;
+  questionType: QuestionType;
+  points?: number;
+}
+
+export interface PrintableExam {
+  header: ExamHeader;
+  locale: Locale; // bahasa kop, petunjuk dan label kunci jawaban
+  sections: PrintSection[];
+  variants: ExamVariant[];
+}
+
+// Ukuran dalam mm untuk kertas A4 (bawaan jsPDF)
+const PAGE_WIDTH = 210;
+const MARGIN = 20;
+const CONTENT_WIDTH = 170;
+const LINE_HEIGHT = 6;
+const NUMBER_INDENT = 7; // jarak nomor soal ke teks soal
+const COLUMN_GAP = 8;
+const CODE_LINE_HEIGHT = 5;
+const CODE_PADDING = 2;
+const BLANK = '____________________';
+
+// Teks kanan-ke-kiri: rata kanan dan diurutkan ulang oleh bidi engine jsPDF
+const RTL_TEXT: TextOptionsLight = { align: 'right', isInputVisual: false, isOutputVisual: true, isInputRtl: true };
+
+type PdfStyle = 'normal' | 'bold' | 'italic' | 'code';
+
+/**
+ * Penulis baris demi baris yang pindah halaman otomatis
+ */
+function createWriter(doc: jsPDF) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const bottom = pageHeight - MARGIN - LINE_HEIGHT;
+  const writer = {
+    y: MARGIN,
+    newPage() {
+      doc.addPage();
+      writer.y = MARGIN;
+    },
+    // Pindah halaman jika blok setinggi `height` tidak muat (kecuali lebih tinggi dari satu halaman)
+    ensureSpace(height: number) {
+      if (writer.y + height > bottom && height < bottom - MARGIN) {
+        writer.newPage();
+      }
+    },
+    lines(text: string, width: number): string[] {
+      return doc.splitTextToSize(text, width) as string[];
+    },
+    write(text: string, x = MARGIN, width = CONTENT_WIDTH, rtl = isRightToLeft(text)) {
+      for (const line of writer.lines(text, width)) {
+        if (writer.y > bottom) writer.newPage();
+        if (rtl) {
+          doc.text(line, x + width, writer.y, RTL_TEXT);
+        } else {
+          doc.text(line, x, writer.y);
+        }
+        writer.y += LINE_HEIGHT;
+      }
+    },
+    gap(lines = 1) {
+      writer.y += LINE_HEIGHT * lines;
+    }
+  };
+  return writer;
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+function setStyle(doc: jsPDF, style: PdfStyle, size = 11) {
+  if (style === 'code') {
+    doc.setFont(PDF_MONO_FONT, 'normal');
+  } else {
+    doc.setFont(PDF_FONT, style);
+  }
+  doc.setFontSize(size);
+}
+
+// Jalankan `fn` dengan gaya sementara, lalu kembalikan font sebelumnya
+function withStyle<T>(doc: jsPDF, style: PdfStyle, size: number, fn: () => T): T {
+  const font = doc.getFont();
+  const fontSize = doc.getFontSize();
+  setStyle(doc, style, size);
+  try {
+    return fn();
+  } finally {
+    doc.setFont(font.fontName, font.fontStyle);
+    doc.setFontSize(fontSize);
+  }
+}
+
+/**
+ * Baris blok kode dengan indentasi asli; baris yang terlalu panjang dipotong
+ * di dalam lebar blok
+ */
+function codeLines(doc: jsPDF, code: string, width: number): string[] {
+  return withStyle(doc, 'code', 10, () => code.split('\n').flatMap(line => {
+    const indent = (line.match(/^\s*/)?.[0] ?? '').replace(/\t/g, '    ');
+    const content = line.trimStart();
+    if (!content) return [''];
+    const parts = doc.splitTextToSize(content, width - 2 * CODE_PADDING - doc.getTextWidth(indent)) as string[];
+    return parts.map(part => indent + part);
+  }));
+}
+
+function codeHeight(doc: jsPDF, code: string, width: number): number {
+  return codeLines(doc, code, width).length * CODE_LINE_HEIGHT + LINE_HEIGHT - CODE_LINE_HEIGHT;
+}
+
+/**
+ * Blok kode monospace berlatar abu-abu
+ */
+function writeCode(doc: jsPDF, writer: Writer, code: string, x: number, width: number) {
+  const lines = codeLines(doc, code, width);
+  withStyle(doc, 'code', 10, () => {
+    for (const line of lines) {
+      writer.ensureSpace(CODE_LINE_HEIGHT);
+      // Warna isi ikut berubah saat teks dicetak, jadi diatur ulang setiap baris
+      doc.setFillColor(243, 244, 246);
+      doc.rect(x, writer.y - 3.8, width, CODE_LINE_HEIGHT, 'F');
+      doc.text(line, x + CODE_PADDING, writer.y);
+      writer.y += CODE_LINE_HEIGHT;
+    }
+  });
+  writer.y += LINE_HEIGHT - CODE_LINE_HEIGHT;
+}
+
+/**
+ * Teks soal atau penjelasan: paragraf (rumus sebaris sudah jadi Unicode),
+ * rumus display di tengah dan blok kode
+ */
+function writeRich(doc: jsPDF, writer: Writer, text: string, x: number, width: number) {
+  for (const block of parseRichText(text)) {
+    if (block.type === 'code') {
+      writeCode(doc, writer, block.text, x, width);
+    } else if (block.type === 'math') {
+      for (const line of writer.lines(block.text, width)) {
+        writer.ensureSpace(LINE_HEIGHT);
+        doc.text(line, x + width / 2, writer.y, { align: 'center' });
+        writer.gap();
+      }
+    } else {
+      writer.write(block.text, x, width);
+    }
+  }
+}
+
+function richHeight(doc: jsPDF, writer: Writer, text: string, width: number): number {
+  return parseRichText(text).reduce((sum, block) => sum + (block.type === 'code'
+    ? codeHeight(doc, block.text, width)
+    : writer.lines(block.text, width).length * LINE_HEIGHT), 0);
+}
+
+/**
+ * Nomor halaman "Paket A - Halaman 1/3" untuk halaman `from` sampai `to`
+ */
+function addPageNumbers(doc: jsPDF, from: number, to: number, label: string, t: Translator) {
+  const pageHeight = doc.internal.pageSize.getHeight();
+  setStyle(doc, 'normal', 9);
+  for (let page = from; page <= to; page++) {
+    doc.setPage(page);
+    const text = label + t('document.pageNumber', { page: page - from + 1, total: to - from + 1 });
+    doc.text(text, PAGE_WIDTH - MARGIN, pageHeight - 10, { align: 'right' });
+  }
+}
+
+function getPaketLabel(exam: PrintableExam, variant: ExamVariant, t: Translator): string {
+  return exam.variants.length > 1 ? t('document.variantLabel', { label: variant.label }) : '';
+}
+
+/**
+ * Kop naskah: nama sekolah, judul, lalu kotak identitas ujian dan siswa
+ */
+function writeStudentHeader(doc: jsPDF, writer: Writer, exam: PrintableExam, variant: ExamVariant, t: Translator) {
+  const { header } = exam;
+  const paket = getPaketLabel(exam, variant, t);
+
+  setStyle(doc, 'bold', 14);
+  doc.text((header.school || t('document.defaultSchool')).toUpperCase(), PAGE_WIDTH / 2, writer.y, { align: 'center' });
+  writer.gap(1.2);
+  setStyle(doc, 'bold', 12);
+  doc.text([t('document.examTitle'), paket.toUpperCase()].filter(Boolean).join(' - '), PAGE_WIDTH / 2, writer.y, { align: 'center' });
+  writer.gap(1.5);
+
+  const left = [
+    [t('document.subject'), header.subject],
+    [t('document.className'), header.className],
+    [t('document.date'), header.date]
+  ];
+  const right = [
+    [t('document.name'), ''],
+    [t('document.rollNumber'), ''],
+    [t('document.variant'), paket ? variant.label : '']
+  ];
+  const boxTop = writer.y - 4;
+  setStyle(doc, 'normal', 11);
+  left.forEach(([label, value], row) => {
+    const y = writer.y + row * LINE_HEIGHT * 1.3;
+    doc.text(label, MARGIN + 3, y);
+    doc.text(`: ${value || BLANK}`, MARGIN + 33, y);
+    doc.text(right[row][0], 115, y);
+    doc.text(`: ${right[row][1] || BLANK}`, 138, y);
+  });
+  writer.y += LINE_HEIGHT * 1.3 * left.length;
+  doc.rect(MARGIN, boxTop, CONTENT_WIDTH, writer.y - boxTop - 2);
+  writer.gap(1);
+}
+
+/**
+ * Opsi pilihan ganda dalam dua kolom (A/B di kiri, C/D di kanan) jika semua
+ * opsi cukup pendek, atau satu opsi per baris jika tidak. Opsi berupa kode
+ * dicetak sebagai blok kode; opsi kanan-ke-kiri selalu satu per baris.
+ */
+function layoutOptions(doc: jsPDF, writer: Writer, options: string[], x: number) {
+  const fullWidth = CONTENT_WIDTH - (x - MARGIN);
+  const columnWidth = (fullWidth - COLUMN_GAP) / 2;
+  const items = options.map((option, index) => {
+    const code = getCodeOption(option);
+    const text = formatInline(option);
+    return { label: `${optionLetter(index)}.`, labelled: `${optionLetter(index)}. ${text}`, code, rtl: isRightToLeft(text) };
+  });
+  const twoColumns = items.every(item => item.code === undefined && !item.rtl && doc.getTextWidth(item.labelled) <= columnWidth);
+  const rows = twoColumns ? Math.ceil(items.length / 2) : 0;
+  return {
+    items,
+    twoColumns,
+    columnWidth,
+    fullWidth,
+    height: twoColumns
+      ? rows * LINE_HEIGHT
+      : items.reduce((sum, item) => sum + (item.code !== undefined
+        ? codeHeight(doc, item.code, fullWidth - NUMBER_INDENT)
+        : writer.lines(item.labelled, fullWidth).length * LINE_HEIGHT), 0)
+  };
+}
+
+function writeOptions(doc: jsPDF, writer: Writer, options: string[], x: number) {
+  const { items, twoColumns, columnWidth, fullWidth } = layoutOptions(doc, writer, options, x);
+  if (!twoColumns) {
+    items.forEach(item => {
+      if (item.code !== undefined) {
+        writer.ensureSpace(CODE_LINE_HEIGHT);
+        doc.text(item.label, x, writer.y);
+        writeCode(doc, writer, item.code, x + NUMBER_INDENT, fullWidth - NUMBER_INDENT);
+      } else {
+        writer.write(item.labelled, x, fullWidth, item.rtl);
+      }
+    });
+    return;
+  }
+  const labelled = items.map(item => item.labelled);
+  const rows = Math.ceil(labelled.length / 2);
+  for (let row = 0; row < rows; row++) {
+    doc.text(labelled[row], x, writer.y);
+    if (labelled[row + rows]) {
+      doc.text(labelled[row + rows], x + columnWidth + COLUMN_GAP, writer.y);
+    }
+    writer.gap();
+  }
+}
+
+/**
+ * Kolom kiri (bernomor) dan kolom kanan (berhuruf) soal menjodohkan
+ */
+function writeMatching(doc: jsPDF, writer: Writer, pairs: { left: string; right: string }[], x: number) {
+  const columnWidth = (CONTENT_WIDTH - (x - MARGIN) - COLUMN_GAP) / 2;
+  const leftColumn = pairs.map((pair, index) => writer.lines(`${index + 1}. ${formatInline(pair.left)}`, columnWidth));
+  const rightColumn = getMatchingChoices(pairs).map((choice, index) => writer.lines(`${optionLetter(index)}. ${formatInline(choice)}`, columnWidth));
+
+  for (let row = 0; row < pairs.length; row++) {
+    const height = Math.max(leftColumn[row].length, rightColumn[row].length);
+    writer.ensureSpace(height * LINE_HEIGHT);
+    leftColumn[row].forEach((line, lineIndex) => doc.text(line, x, writer.y + lineIndex * LINE_HEIGHT));
+    rightColumn[row].forEach((line, lineIndex) => doc.text(line, x + columnWidth + COLUMN_GAP, writer.y + lineIndex * LINE_HEIGHT));
+    writer.gap(height);
+  }
+}
+
+/**
+ * Satu soal di naskah siswa, tanpa jawaban maupun penjelasan
+ */
+function writeStudentQuestion(doc: jsPDF, writer: Writer, question: VariantQuestion, type: QuestionType, number: number, t: Translator) {
+  const x = MARGIN + NUMBER_INDENT;
+  const width = CONTENT_WIDTH - NUMBER_INDENT;
+  setStyle(doc, 'normal', 11);
+  // Soal pilihan ganda dijaga utuh dalam satu halaman; jenis lain cukup
+  // nomor, teks soal dan baris pertama jawabannya
+  const answerHeight = type === 'multiple-choice'
+    ? layoutOptions(doc, writer, question.options ?? [], x).height
+    : 2 * LINE_HEIGHT;
+  writer.ensureSpace(richHeight(doc, writer, question.question, width) + answerHeight);
+
+  doc.text(`${number}.`, MARGIN, writer.y);
+  writeRich(doc, writer, question.question, x, width);
+
+  switch (type) {
+    case 'multiple-choice':
+      writeOptions(doc, writer, question.options ?? [], x);
+      break;
+    case 'true-false':
+      writer.write(t('document.trueFalseChoices'), x, width);
+      break;
+    case 'matching':
+      writer.gap(0.5);
+      writeMatching(doc, writer, question.pairs ?? [], x);
+      break;
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      writer.write(`${t('document.answer')} ${BLANK}${BLANK}`, x, width);
+      break;
+    case 'essay':
+      // Garis untuk menulis jawaban
+      for (let line = 0; line < 5; line++) {
+        writer.ensureSpace(LINE_HEIGHT * 1.4);
+        writer.y += LINE_HEIGHT * 1.4;
+        doc.line(x, writer.y - 4, MARGIN + CONTENT_WIDTH, writer.y - 4);
+      }
+      break;
+  }
+  writer.gap(0.7);
+}
+
+function writeSectionHeading(doc: jsPDF, writer: Writer, section: PrintSection, t: Translator, instruction?: string) {
+  writer.ensureSpace(LINE_HEIGHT * 5);
+  setStyle(doc, 'bold', 12);
+  writer.write(section.points ? `${section.title} (${t('section.pointsPerQuestion', { count: section.points })})` : section.title);
+  if (instruction) {
+    setStyle(doc, 'italic', 10);
+    writer.write(instruction);
+  }
+  writer.gap(0.5);
+}
+
+/**
+ * Isi `doc` dengan naskah siswa untuk setiap paket. `doc` harus masih kosong
+ * (satu halaman); paket kedua dan seterusnya ditambahkan di halaman baru.
+ */
+export function renderStudentExam(doc: jsPDF, exam: PrintableExam): void {
+  const t = createTranslator(exam.locale);
+  exam.variants.forEach((variant, variantIndex) => {
+    if (variantIndex > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+    const writer = createWriter(doc);
+    writeStudentHeader(doc, writer, exam, variant, t);
+
+    variant.questions.forEach((question, index) => {
+      const sectionIndex = question.sectionIndex ?? 0;
+      const section = exam.sections[sectionIndex];
+      if (index === 0 || variant.questions[index - 1].sectionIndex !== question.sectionIndex) {
+        writeSectionHeading(doc, writer, section, t, getSectionInstruction(section.questionType, t));
+      }
+      writeStudentQuestion(doc, writer, question, section.questionType, index + 1, t);
+    });
+
+    const paket = getPaketLabel(exam, variant, t);
+    addPageNumbers(doc, firstPage, doc.getNumberOfPages(), paket ? `${paket} - ` : '', t);
+    doc.setPage(doc.getNumberOfPages());
+  });
+}
+
+/**
+ * Isi `doc` dengan kunci jawaban guru untuk setiap paket, beserta
+ * penjelasan, pedoman esai dan penanda level/tujuan/halaman sumber
+ */
+export function renderAnswerKey(doc: jsPDF, exam: PrintableExam): void {
+  const { header } = exam;
+  const t = createTranslator(exam.locale);
+  exam.variants.forEach((variant, variantIndex) => {
+    if (variantIndex > 0) doc.addPage();
+    const firstPage = doc.getNumberOfPages();
+    const writer = createWriter(doc);
+    const paket = getPaketLabel(exam, variant, t);
+
+    setStyle(doc, 'bold', 14);
+    doc.text([t('document.answerKeyTitle'), paket.toUpperCase()].filter(Boolean).join(' - '), PAGE_WIDTH / 2, writer.y, { align: 'center' });
+    writer.gap(1.2);
+    setStyle(doc, 'normal', 10);
+    const details = [header.school, header.subject, header.className && t('document.classDetail', { className: header.className }), header.date].filter(Boolean);
+    if (details.length > 0) {
+      doc.text(details.join(' | '), PAGE_WIDTH / 2, writer.y, { align: 'center' });
+      writer.gap();
+    }
+    const note = exam.variants.length > 1 ? ` | ${t('document.seed', { seed: variant.seed })}` : '';
+    doc.text(`${t('document.teacherOnly')}${note}`, PAGE_WIDTH / 2, writer.y, { align: 'center' });
+    writer.gap(1.5);
+
+    let totalPoints = 0;
+    variant.items.forEach(({ question, canonicalIndex }, index) => {
+      const sectionIndex = question.sectionIndex ?? 0;
+      const section = exam.sections[sectionIndex];
+      if (index === 0 || variant.questions[index - 1].sectionIndex !== question.sectionIndex) {
+        writeSectionHeading(doc, writer, section, t);
+      }
+      totalPoints += section.points ?? 0;
+
+      const x = MARGIN + NUMBER_INDENT;
+      const width = CONTENT_WIDTH - NUMBER_INDENT;
+      const isEssay = section.questionType === 'essay';
+      writer.ensureSpace(LINE_HEIGHT * 3);
+      setStyle(doc, 'bold', 11);
+      doc.text(`${index + 1}.`, MARGIN, writer.y);
+      writeRich(doc, writer, isEssay ? t('document.scoringGuide') : getAnswerKey(question, section.questionType, t), x, width);
+
+      setStyle(doc, 'normal', 10);
+      if (isEssay && question.rubric) {
+        // Baris rubrik menjorok sesuai spasi awalnya
+        for (const line of getRubricLines(question.rubric, t)) {
+          const indent = (line.length - line.trimStart().length) * 1.5;
+          writer.write(formatInline(line.trim()), x + indent, width - indent);
+        }
+      }
+      if (question.explanation) {
+        writeRich(doc, writer, question.explanation, x, width);
+      }
+      // Nomor di paket A (urutan asli) untuk mencocokkan analisis antar paket
+      const tags = [
+        ...(exam.variants.length > 1 && canonicalIndex !== index ? [t('document.canonicalNumber', { number: canonicalIndex + 1 })] : []),
+        ...getQuestionTags(question, t)
+      ];
+      if (tags.length > 0) {
+        setStyle(doc, 'italic', 9);
+        writer.write(tags.join(' | '), x, width);
+      }
+      writer.gap(0.5);
+    });
+
+    if (totalPoints > 0) {
+      setStyle(doc, 'bold', 11);
+      writer.gap(0.5);
+      writer.write(t('document.maxScore', { score: totalPoints }));
+    }
+
+    addPageNumbers(doc, firstPage, doc.getNumberOfPages(), `${t('document.answerKeyPages')} ${paket ? `${paket} - ` : ''}`, t);
+    doc.setPage(doc.getNumberOfPages());
+  });
+}
@@ -0,0 +1,109 @@
+import type { Translator } from '@/lib/i18n';
+import { BLOOM_LEVEL_INFO } from '@/lib/questions/bloom';
+import { Difficulty, EssayRubric, Question, QUESTION_TYPES, QuestionType } from '@/lib/questions/types';
+
+/**
+ * Label dan tata letak jawaban yang dipakai bersama oleh tampilan hasil
+ * dan semua format export (TXT, PDF siswa, kunci jawaban). Teks diambil
+ * dari kamus i18n lewat `t` sesuai bahasa dokumen.
+ */
+
+export function getQuestionTypeLabel(type: string, t: Translator): string {
+  return QUESTION_TYPES.includes(type as QuestionType) ? t(`questionType.${type as QuestionType}`) : type;
+}
+
+export function getDifficultyLabel(difficulty: Difficulty | string, t: Translator): string {
+  return t(difficulty === 'easy' || difficulty === 'hard' ? `difficulty.${difficulty}` : 'difficulty.medium');
+}
+
+/**
+ * Petunjuk pengerjaan di awal setiap bagian naskah siswa
+ */
+export function getSectionInstruction(type: QuestionType, t: Translator): string {
+  return t(`document.instruction.${type}`);
+}
+
+export function optionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// Kolom kanan soal menjodohkan diurutkan alfabetis supaya tidak sejajar dengan pasangannya
+export function getMatchingChoices(pairs: { left: string; right: string }[]): string[] {
+  return pairs.map(pair => pair.right).sort((a, b) => a.localeCompare(b, 'id'));
+}
+
+/**
+ * Tata letak jawaban untuk export (selain pilihan ganda dan esai)
+ */
+export function getAnswerLayout(question: Pick<Question, 'pairs'>, type: string, t: Translator): string[] {
+  switch (type) {
+    case 'true-false':
+      return [`${t('answer.true')} / ${t('answer.false')}`];
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      return [`${t('document.answer')} ______________________`];
+    case 'matching': {
+      const pairs = question.pairs ?? [];
+      return [
+        t('document.leftColumn'),
+        ...pairs.map((pair, pairIndex) => `  ${pairIndex + 1}. ${pair.left}`),
+        t('document.rightColumn'),
+        ...getMatchingChoices(pairs).map((choice, choiceIndex) => `  ${optionLetter(choiceIndex)}. ${choice}`)
+      ];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Kunci jawaban ringkas: huruf opsi untuk pilihan ganda, pasangan nomor-huruf
+ * untuk menjodohkan, dan teks jawaban untuk jenis lainnya. Dengan `t`, kunci
+ * benar/salah ditulis dalam bahasa dokumen.
+ */
+export function getAnswerKey(question: Pick<Question, 'pairs' | 'options' | 'correctAnswer'>, type: string, t?: Translator): string {
+  if (type === 'matching') {
+    const choices = getMatchingChoices(question.pairs ?? []);
+    return (question.pairs ?? [])
+      .map((pair, pairIndex) => `${pairIndex + 1}-${optionLetter(choices.indexOf(pair.right))}`)
+      .join(', ');
+  }
+  if (type === 'multiple-choice' && question.options && question.correctAnswer) {
+    const answerIndex = question.options.indexOf(question.correctAnswer);
+    return answerIndex >= 0 ? `${optionLetter(answerIndex)}. ${question.correctAnswer}` : question.correctAnswer;
+  }
+  if (type === 'true-false' && t && (question.correctAnswer === 'Benar' || question.correctAnswer === 'Salah')) {
+    return t(question.correctAnswer === 'Benar' ? 'answer.true' : 'answer.false');
+  }
+  return question.correctAnswer ?? '-';
+}
+
+/**
+ * Rubrik esai sebagai baris teks untuk kunci jawaban: poin jawaban ideal,
+ * lalu setiap kriteria dengan rentang skornya
+ */
+export function getRubricLines(rubric: EssayRubric, t: Translator): string[] {
+  const maxScore = rubric.criteria.reduce((sum, criterion) => sum + criterion.maxScore, 0);
+  return [
+    t('question.modelAnswer'),
+    ...rubric.modelAnswer.map(point => `  • ${point}`),
+    t('document.rubric', { score: maxScore }),
+    ...rubric.criteria.flatMap(criterion => [
+      `  ${criterion.name} (0-${criterion.maxScore})`,
+      ...criterion.bands.map(band => `    ${band.score}: ${band.description}`)
+    ])
+  ];
+}
+
+/**
+ * Level kognitif, tujuan dan halaman sumber sebuah soal, untuk export guru
+ */
+export function getQuestionTags(question: Pick<Question, 'bloomLevel' | 'objective' | 'sourcePage'>, t: Translator): string[] {
+  return [
+    ...(question.bloomLevel
+      ? [t('document.bloomTag', { level: `${BLOOM_LEVEL_INFO[question.bloomLevel].code} ${t(`bloom.${question.bloomLevel}`)}` })]
+      : []),
+    ...(question.objective ? [t('document.objectiveTag', { objective: question.objective })] : []),
+    ...(question.sourcePage ? [t('document.sourceTag', { page: question.sourcePage })] : [])
+  ];
+}
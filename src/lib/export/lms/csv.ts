@@ -0,0 +1,72 @@
+import { MATCHING_MAX_PAIRS } from '@/lib/questions/validation';
+import { getMatchingChoices } from '../layout';
+import { getQuestionPoints, getQuestionType, QuestionSet } from './question-set';
+
+/**
+ * Export CSV satu baris per soal dengan kolom yang siap dipakai add-on
+ * impor Google Forms (dan mudah diolah di spreadsheet). Jenis soal
+ * dipetakan ke jenis pertanyaan Google Forms; menjodohkan menjadi
+ * "Multiple choice grid" dengan baris = kolom kiri dan kolom = pilihan kanan.
+ */
+
+const OPTION_COLUMNS = MATCHING_MAX_PAIRS;
+
+const FORM_TYPES = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'Multiple choice',
+  essay: 'Paragraph',
+  'fill-in-the-blank': 'Short answer',
+  'short-answer': 'Short answer',
+  matching: 'Multiple choice grid'
+} as const;
+
+const HEADER = [
+  'Section',
+  'Question Type',
+  'Question',
+  'Rows',
+  ...Array.from({ length: OPTION_COLUMNS }, (_, index) => `Option ${index + 1}`),
+  'Correct Answer',
+  'Points',
+  'Feedback'
+];
+
+// RFC 4180: kutip jika ada koma, kutip ganda atau baris baru
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(set: QuestionSet): string {
+  const rows = set.questions.map(question => {
+    const type = getQuestionType(set, question);
+    let rowsCell = '';
+    let options: string[] = [];
+    let correct = question.correctAnswer ?? '';
+
+    if (type === 'multiple-choice') {
+      options = question.options ?? [];
+    } else if (type === 'true-false') {
+      options = ['Benar', 'Salah'];
+    } else if (type === 'matching') {
+      const pairs = question.pairs ?? [];
+      rowsCell = pairs.map(pair => pair.left).join(' | ');
+      options = getMatchingChoices(pairs);
+      correct = pairs.map(pair => `${pair.left} -> ${pair.right}`).join(' | ');
+    }
+
+    return [
+      set.sections[question.sectionIndex].title,
+      FORM_TYPES[type],
+      question.question,
+      rowsCell,
+      ...Array.from({ length: OPTION_COLUMNS }, (_, index) => options[index] ?? ''),
+      correct,
+      getQuestionPoints(set, question),
+      question.explanation ?? ''
+    ];
+  });
+
+  // BOM supaya Excel membaca UTF-8 dengan benar
+  return '﻿' + [HEADER, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
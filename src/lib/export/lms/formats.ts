@@ -0,0 +1,22 @@
+/**
+ * Format export yang didukung /api/export-questions
+ */
+
+export type ExportFormat = 'moodle-xml' | 'gift' | 'qti' | 'csv';
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  contentType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  'moodle-xml': { label: 'Moodle XML', extension: '.xml', contentType: 'application/xml; charset=utf-8' },
+  gift: { label: 'GIFT', extension: '.gift.txt', contentType: 'text/plain; charset=utf-8' },
+  qti: { label: 'QTI 2.1 (zip)', extension: '.zip', contentType: 'application/zip' },
+  csv: { label: 'CSV (Google Forms)', extension: '.csv', contentType: 'text/csv; charset=utf-8' }
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.keys(EXPORT_FORMATS).includes(value);
+}
@@ -0,0 +1,65 @@
+import { BLANK_MARKER } from '@/lib/questions/validation';
+import { categoryPath, truncate } from './markup';
+import { ExportQuestion, getQuestionType, QuestionSet } from './question-set';
+
+/**
+ * Export GIFT (format teks impor Moodle). Setiap bagian menjadi $CATEGORY
+ * dan penjelasan ditulis sebagai umpan balik umum (####).
+ */
+
+// Karakter kontrol GIFT harus di-escape dengan backslash
+function escapeGift(value: string): string {
+  return value.replace(/[~=#{}:\\]/g, match => `\\${match}`).replace(/\n/g, '\\n');
+}
+
+function generalFeedback(question: ExportQuestion): string {
+  return question.explanation ? ` ####${escapeGift(question.explanation)}` : '';
+}
+
+// Umpan balik umum di baris sendiri untuk soal dengan jawaban bertingkat
+function feedbackLine(question: ExportQuestion): string {
+  return question.explanation ? `  ####${escapeGift(question.explanation)}\n` : '';
+}
+
+function writeQuestion(set: QuestionSet, question: ExportQuestion, number: number): string {
+  const type = getQuestionType(set, question);
+  const title = `::${escapeGift(`${number}. ${truncate(question.question, 40)}`)}:: `;
+  const stem = escapeGift(question.question);
+
+  switch (type) {
+    case 'multiple-choice': {
+      const options = (question.options ?? [])
+        .map(option => `  ${option === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`)
+        .join('\n');
+      return `${title}${stem} {\n${options}\n${feedbackLine(question)}}`;
+    }
+    case 'true-false':
+      return `${title}${stem} {${question.correctAnswer === 'Benar' ? 'TRUE' : 'FALSE'}${generalFeedback(question)}}`;
+    case 'essay':
+      return `${title}${stem} {${generalFeedback(question)}}`;
+    case 'fill-in-the-blank': {
+      // Bagian rumpang diganti jawaban singkat yang disisipkan di kalimat
+      const [before, after = ''] = question.question.split(BLANK_MARKER);
+      return `${title}${escapeGift(before)}{=${escapeGift(question.correctAnswer ?? '')}${generalFeedback(question)}}${escapeGift(after)}`;
+    }
+    case 'matching': {
+      const pairs = (question.pairs ?? [])
+        .map(pair => `  =${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`)
+        .join('\n');
+      return `${title}${stem} {\n${pairs}\n${feedbackLine(question)}}`;
+    }
+    case 'short-answer':
+      return `${title}${stem} {=${escapeGift(question.correctAnswer ?? '')}${generalFeedback(question)}}`;
+  }
+}
+
+export function toGift(set: QuestionSet): string {
+  const blocks: string[] = [];
+  set.questions.forEach((question, index) => {
+    if (index === 0 || set.questions[index - 1].sectionIndex !== question.sectionIndex) {
+      blocks.push(`$CATEGORY: ${categoryPath(set.title, set.sections[question.sectionIndex].title)}`);
+    }
+    blocks.push(writeQuestion(set, question, index + 1));
+  });
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,122 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { exportQuestionSet, QuestionSet, validateQuestionSet } from '.';
+
+const TRICKY = 'Nilai {x} = 2 ~ #1: a\\b';
+
+const SET: QuestionSet = {
+  title: 'Ujian / Fisika',
+  sections: [
+    { title: 'Pilihan <Ganda>', questionType: 'multiple-choice', points: 2 },
+    { title: 'Isian', questionType: 'fill-in-the-blank' }
+  ],
+  questions: [
+    {
+      id: 'q-mc',
+      sectionIndex: 0,
+      question: `${TRICKY}?`,
+      options: ['"kutip", koma', 'a & b', 'x < y', TRICKY],
+      correctAnswer: 'a & b',
+      explanation: 'Baris satu\nbaris ]]> dua'
+    },
+    {
+      id: 'q-blank',
+      sectionIndex: 1,
+      question: 'Rumus {luas} adalah _____ satuan.',
+      correctAnswer: 'p} x ~l'
+    }
+  ]
+};
+
+async function exportText(format: 'gift' | 'moodle-xml' | 'csv'): Promise<string> {
+  return String(await exportQuestionSet(SET, format));
+}
+
+describe('export GIFT', () => {
+  it('meng-escape karakter kontrol GIFT dan baris baru', async () => {
+    const gift = await exportText('gift');
+
+    expect(gift).toContain('Nilai \\{x\\} \\= 2 \\~ \\#1\\: a\\\\b?');
+    expect(gift).toContain('  =a & b');
+    expect(gift).toContain('####Baris satu\\nbaris ]]> dua');
+    expect(gift).toContain('{=p\\} x \\~l}');
+  });
+
+  it('menulis satu $CATEGORY per bagian dengan "/" di judul digandakan', async () => {
+    const categories = (await exportText('gift')).match(/^\$CATEGORY: .*$/gm);
+
+    expect(categories).toEqual([
+      '$CATEGORY: $course$/top/Ujian // Fisika/Pilihan <Ganda>',
+      '$CATEGORY: $course$/top/Ujian // Fisika/Isian'
+    ]);
+  });
+});
+
+describe('export Moodle XML', () => {
+  it('meng-escape entitas XML di luar dan di dalam CDATA', async () => {
+    const xml = await exportText('moodle-xml');
+
+    expect(xml).toContain('<text>$course$/top/Ujian // Fisika/Pilihan &lt;Ganda&gt;</text>');
+    expect(xml).toContain('<answer fraction="100" format="html"><text><![CDATA[<p>a &amp; b</p>]]></text></answer>');
+    expect(xml).toContain('<![CDATA[<p>x &lt; y</p>]]>');
+    // "]]>" di teks tidak boleh menutup CDATA lebih awal
+    expect(xml).toContain('<p>Baris satu<br>baris ]]&gt; dua</p>');
+    expect(xml).not.toContain('baris ]]> dua');
+  });
+
+  it('meng-escape jawaban cloze', async () => {
+    expect(await exportText('moodle-xml')).toContain('Rumus {luas} adalah {1:SHORTANSWER:=p\\} x \\~l} satuan.');
+  });
+});
+
+describe('export QTI', () => {
+  it('mengemas satu file item per soal dengan teks yang di-escape', async () => {
+    const zip = await JSZip.loadAsync(await exportQuestionSet(SET, 'qti'));
+    const item = await zip.file('items/q-mc.xml')?.async('string');
+
+    expect(Object.keys(zip.files).sort()).toEqual(['assessment.xml', 'imsmanifest.xml', 'items/', 'items/q-blank.xml', 'items/q-mc.xml']);
+    expect(item).toContain('<correctResponse><value>CHOICE_2</value></correctResponse>');
+    expect(item).toContain('<simpleChoice identifier="CHOICE_1">&quot;kutip&quot;, koma</simpleChoice>');
+    expect(item).toContain('<simpleChoice identifier="CHOICE_3">x &lt; y</simpleChoice>');
+    expect(await zip.file('assessment.xml')?.async('string')).toContain('title="Pilihan &lt;Ganda&gt;"');
+  });
+});
+
+describe('export CSV', () => {
+  it('mengutip sel yang berisi koma, kutip ganda atau baris baru', async () => {
+    const csv = await exportText('csv');
+    const [header, mcRow] = csv.replace(/^﻿/, '').split('\r\n');
+
+    expect(header.split(',').slice(0, 4)).toEqual(['Section', 'Question Type', 'Question', 'Rows']);
+    expect(mcRow).toContain('"""kutip"", koma",a & b,x < y');
+    expect(csv).toContain(',a & b,2,"Baris satu\nbaris ]]> dua"\r\n');
+  });
+
+  it('diawali BOM supaya Excel membaca UTF-8', async () => {
+    expect((await exportText('csv')).startsWith('﻿')).toBe(true);
+  });
+});
+
+describe('validateQuestionSet', () => {
+  it('mengganti ID yang tidak aman untuk XML dan nama file', () => {
+    const { set } = validateQuestionSet({
+      questionType: 'true-false',
+      questions: [
+        { id: '../rahasia', question: 'Satu?', correctAnswer: 'Benar' },
+        { id: 'q-1', question: 'Dua?', correctAnswer: 'Salah' },
+        { id: 'q-1', question: 'Tiga?', correctAnswer: 'Benar' }
+      ]
+    });
+
+    expect(set?.questions.map(question => question.id)).toEqual([expect.stringMatching(/^q-[0-9a-f]{8}$/), 'q-1', 'q-1-3']);
+  });
+
+  it('memberi judul bawaan bagian dalam bahasa bagiannya', () => {
+    const { set } = validateQuestionSet({
+      sections: [{ questionType: 'true-false', language: 'en' }, { questionType: 'true-false' }],
+      questions: [{ question: 'Satu?', correctAnswer: 'Benar', sectionIndex: 0 }, { question: 'Dua?', correctAnswer: 'Salah', sectionIndex: 1 }]
+    });
+
+    expect(set?.sections.map(section => section.title)).toEqual(['Section A', 'Bagian B']);
+  });
+});
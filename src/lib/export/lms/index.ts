@@ -0,0 +1,25 @@
+import { toCsv } from './csv';
+import { ExportFormat } from './formats';
+import { toGift } from './gift';
+import { toMoodleXml } from './moodle';
+import { toQtiPackage } from './qti';
+import { QuestionSet } from './question-set';
+
+export * from './formats';
+export * from './question-set';
+
+/**
+ * Susun isi file export sesuai format
+ */
+export async function exportQuestionSet(set: QuestionSet, format: ExportFormat): Promise<string | Buffer> {
+  switch (format) {
+    case 'moodle-xml':
+      return toMoodleXml(set);
+    case 'gift':
+      return toGift(set);
+    case 'qti':
+      return toQtiPackage(set);
+    case 'csv':
+      return toCsv(set);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Helper escape untuk format export berbasis teks, XML dan HTML
+ */
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Teks biasa sebagai paragraf HTML; baris baru dipertahankan
+ */
+export function toHtmlParagraph(text: string): string {
+  return `<p>${escapeXml(text).replace(/\n/g, '<br>')}</p>`;
+}
+
+/**
+ * Potong teks panjang untuk nama/judul soal
+ */
+export function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+/**
+ * Path kategori Moodle untuk satu bagian. "/" memisahkan subkategori di
+ * Moodle, jadi garis miring di judul ditulis "//"
+ */
+export function categoryPath(title: string, sectionTitle: string): string {
+  return ['$course$/top', ...[title, sectionTitle].map(part => part.replace(/\//g, '//'))].join('/');
+}
@@ -0,0 +1,94 @@
+import { createTranslator, getDocumentLocale } from '@/lib/i18n';
+import { BLANK_MARKER } from '@/lib/questions/validation';
+import { getRubricLines } from '../layout';
+import { categoryPath, escapeXml, toHtmlParagraph, truncate } from './markup';
+import { ExportQuestion, getQuestionPoints, getQuestionType, QuestionSet } from './question-set';
+
+/**
+ * Export Moodle XML. Setiap bagian menjadi kategori di bank soal Moodle:
+ * pilihan ganda -> multichoice, benar/salah -> truefalse, esai -> essay,
+ * isian -> cloze, menjodohkan -> matching, jawaban singkat -> shortanswer.
+ */
+
+function text(value: string): string {
+  return `<text>${escapeXml(value)}</text>`;
+}
+
+function htmlText(value: string): string {
+  return `<text><![CDATA[${toHtmlParagraph(value)}]]></text>`;
+}
+
+// Karakter khusus di jawaban cloze harus di-escape dengan backslash
+function escapeCloze(value: string): string {
+  return value.replace(/[\\}#~/"]/g, match => `\\${match}`);
+}
+
+function feedback(question: ExportQuestion): string {
+  return question.explanation ? `    <generalfeedback format="html">${htmlText(question.explanation)}</generalfeedback>\n` : '';
+}
+
+// Informasi penilai esai: rubrik (jika ada, dalam bahasa bagiannya) lalu penjelasan
+function getGraderInfo(set: QuestionSet, question: ExportQuestion): string {
+  const t = createTranslator(getDocumentLocale([set.sections[question.sectionIndex].language]));
+  return [...(question.rubric ? getRubricLines(question.rubric, t) : []), ...(question.explanation ? [question.explanation] : [])].join('\n');
+}
+
+function answer(fraction: number, value: string, format: 'html' | 'moodle_auto_format' = 'moodle_auto_format'): string {
+  return `    <answer fraction="${fraction}" format="${format}">${format === 'html' ? htmlText(value) : text(value)}</answer>\n`;
+}
+
+function writeQuestion(set: QuestionSet, question: ExportQuestion, number: number): string {
+  const type = getQuestionType(set, question);
+  const name = `    <name>${text(`${number}. ${truncate(question.question, 60)}`)}</name>\n`;
+  const grade = `    <defaultgrade>${getQuestionPoints(set, question)}</defaultgrade>\n`;
+  const body = (questionText: string) => `    <questiontext format="html">${htmlText(questionText)}</questiontext>\n`;
+
+  switch (type) {
+    case 'multiple-choice':
+      return `  <question type="multichoice">\n${name}${body(question.question)}${feedback(question)}${grade}` +
+        '    <single>true</single>\n    <shuffleanswers>true</shuffleanswers>\n    <answernumbering>ABCD</answernumbering>\n' +
+        (question.options ?? []).map(option => answer(option === question.correctAnswer ? 100 : 0, option, 'html')).join('') +
+        '  </question>\n';
+    case 'true-false': {
+      const isTrue = question.correctAnswer === 'Benar';
+      return `  <question type="truefalse">\n${name}${body(question.question)}${feedback(question)}${grade}` +
+        answer(isTrue ? 100 : 0, 'true') + answer(isTrue ? 0 : 100, 'false') +
+        '  </question>\n';
+    }
+    case 'essay':
+      return `  <question type="essay">\n${name}${body(question.question)}${grade}` +
+        '    <responseformat>editor</responseformat>\n    <responserequired>1</responserequired>\n    <responsefieldlines>15</responsefieldlines>\n' +
+        (question.explanation || question.rubric ? `    <graderinfo format="html">${htmlText(getGraderInfo(set, question))}</graderinfo>\n` : '') +
+        '  </question>\n';
+    case 'fill-in-the-blank': {
+      // Bagian rumpang diganti sub-soal cloze; poinnya mengikuti defaultgrade
+      const [before, after = ''] = question.question.split(BLANK_MARKER);
+      const cloze = `${escapeXml(before)}{${getQuestionPoints(set, question)}:SHORTANSWER:=${escapeXml(escapeCloze(question.correctAnswer ?? ''))}}${escapeXml(after)}`;
+      return `  <question type="cloze">\n${name}    <questiontext format="html"><text><![CDATA[<p>${cloze}</p>]]></text></questiontext>\n${feedback(question)}` +
+        '  </question>\n';
+    }
+    case 'matching':
+      return `  <question type="matching">\n${name}${body(question.question)}${feedback(question)}${grade}` +
+        '    <shuffleanswers>true</shuffleanswers>\n' +
+        (question.pairs ?? []).map(pair =>
+          `    <subquestion format="html">${htmlText(pair.left)}<answer>${text(pair.right)}</answer></subquestion>\n`
+        ).join('') +
+        '  </question>\n';
+    case 'short-answer':
+      return `  <question type="shortanswer">\n${name}${body(question.question)}${feedback(question)}${grade}` +
+        '    <usecase>0</usecase>\n' + answer(100, question.correctAnswer ?? '') +
+        '  </question>\n';
+  }
+}
+
+export function toMoodleXml(set: QuestionSet): string {
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n';
+  set.questions.forEach((question, index) => {
+    if (index === 0 || set.questions[index - 1].sectionIndex !== question.sectionIndex) {
+      const category = categoryPath(set.title, set.sections[question.sectionIndex].title);
+      xml += `  <question type="category">\n    <category>${text(category)}</category>\n  </question>\n`;
+    }
+    xml += writeQuestion(set, question, index + 1);
+  });
+  return `${xml}</quiz>\n`;
+}
@@ -0,0 +1,224 @@
+import JSZip from 'jszip';
+import { BLANK_MARKER } from '@/lib/questions/validation';
+import { getMatchingChoices } from '../layout';
+import { escapeXml, truncate } from './markup';
+import { ExportQuestion, getQuestionPoints, getQuestionType, QuestionSet } from './question-set';
+
+/**
+ * Export paket IMS QTI 2.1 (zip): satu assessmentItem per soal, satu
+ * assessmentTest dengan assessmentSection per bagian, dan imsmanifest.xml.
+ * Penjelasan ditampilkan sebagai modalFeedback setelah soal dijawab.
+ */
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+
+function paragraph(value: string): string {
+  return `<p>${escapeXml(value)}</p>`;
+}
+
+function scoreDeclarations(points: number): string {
+  return `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+    <defaultValue><value>${points}</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+`;
+}
+
+/**
+ * Penilaian: `match` memberi poin penuh jika jawaban sama dengan kunci,
+ * `map` memakai mapping di responseDeclaration (poin per pasangan/jawaban),
+ * `manual` tidak memberi skor (esai dinilai guru)
+ */
+function responseProcessing(mode: 'match' | 'map' | 'manual', points: number, hasFeedback: boolean): string {
+  const score = mode === 'match'
+    ? `    <responseCondition>
+      <responseIf>
+        <match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">${points}</baseValue></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+`
+    : mode === 'map'
+      ? `    <setOutcomeValue identifier="SCORE"><mapResponse identifier="RESPONSE"/></setOutcomeValue>
+`
+      : '';
+  const feedback = hasFeedback
+    ? `    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>
+`
+    : '';
+  return score || feedback ? `  <responseProcessing>\n${score}${feedback}  </responseProcessing>\n` : '';
+}
+
+function modalFeedback(question: ExportQuestion): string {
+  return question.explanation
+    ? `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${paragraph(question.explanation)}</modalFeedback>\n`
+    : '';
+}
+
+function choiceInteraction(choices: string[], prompt: string): string {
+  const simpleChoices = choices
+    .map((choice, index) => `      <simpleChoice identifier="CHOICE_${index + 1}">${escapeXml(choice)}</simpleChoice>`)
+    .join('\n');
+  return `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${escapeXml(prompt)}</prompt>
+${simpleChoices}
+    </choiceInteraction>
+`;
+}
+
+function textEntryMapping(answer: string, points: number): string {
+  return `    <mapping defaultValue="0">
+      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="${points}" caseSensitive="false"/>
+    </mapping>
+`;
+}
+
+function buildItem(set: QuestionSet, question: ExportQuestion, number: number): string {
+  const type = getQuestionType(set, question);
+  const points = getQuestionPoints(set, question);
+  const hasFeedback = Boolean(question.explanation);
+  let declaration: string;
+  let body: string;
+  let processing: string;
+
+  switch (type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const choices = type === 'true-false' ? ['Benar', 'Salah'] : question.options ?? [];
+      const correct = choices.indexOf(question.correctAnswer ?? '') + 1;
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>CHOICE_${correct}</value></correctResponse>
+  </responseDeclaration>
+`;
+      body = choiceInteraction(choices, question.question);
+      processing = responseProcessing('match', points, hasFeedback);
+      break;
+    }
+    case 'essay':
+      declaration = '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>\n';
+      body = `    ${paragraph(question.question)}
+    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>
+`;
+      processing = responseProcessing('manual', points, hasFeedback);
+      break;
+    case 'fill-in-the-blank':
+    case 'short-answer': {
+      const answer = question.correctAnswer ?? '';
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse><value>${escapeXml(answer)}</value></correctResponse>
+${textEntryMapping(answer, points)}  </responseDeclaration>
+`;
+      const expectedLength = Math.max(10, answer.length + 5);
+      const entry = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${expectedLength}"/>`;
+      if (type === 'fill-in-the-blank') {
+        // Bagian rumpang diganti kotak isian di dalam kalimat
+        const [before, after = ''] = question.question.split(BLANK_MARKER);
+        body = `    <p>${escapeXml(before)}${entry}${escapeXml(after)}</p>\n`;
+      } else {
+        body = `    ${paragraph(question.question)}\n    <p>${entry}</p>\n`;
+      }
+      processing = responseProcessing('map', points, hasFeedback);
+      break;
+    }
+    case 'matching': {
+      const pairs = question.pairs ?? [];
+      const choices = getMatchingChoices(pairs);
+      const pairPoints = Math.round((points / Math.max(pairs.length, 1)) * 100) / 100;
+      const correctPairs = pairs.map((pair, index) => `L${index + 1} R${choices.indexOf(pair.right) + 1}`);
+      declaration = `  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">
+    <correctResponse>
+${correctPairs.map(pair => `      <value>${pair}</value>`).join('\n')}
+    </correctResponse>
+    <mapping defaultValue="0">
+${correctPairs.map(pair => `      <mapEntry mapKey="${pair}" mappedValue="${pairPoints}"/>`).join('\n')}
+    </mapping>
+  </responseDeclaration>
+`;
+      body = `    <matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${pairs.length}">
+      <prompt>${escapeXml(question.question)}</prompt>
+      <simpleMatchSet>
+${pairs.map((pair, index) => `        <simpleAssociableChoice identifier="L${index + 1}" matchMax="1">${escapeXml(pair.left)}</simpleAssociableChoice>`).join('\n')}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${choices.map((choice, index) => `        <simpleAssociableChoice identifier="R${index + 1}" matchMax="1">${escapeXml(choice)}</simpleAssociableChoice>`).join('\n')}
+      </simpleMatchSet>
+    </matchInteraction>
+`;
+      processing = responseProcessing('map', points, hasFeedback);
+      break;
+    }
+  }
+
+  const title = escapeXml(`${number}. ${truncate(question.question, 60)}`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="${question.id}" title="${title}" adaptive="false" timeDependent="false">
+${declaration}${scoreDeclarations(points)}  <itemBody>
+${body}  </itemBody>
+${processing}${modalFeedback(question)}</assessmentItem>
+`;
+}
+
+function buildTest(set: QuestionSet): string {
+  const sections = set.sections
+    .map((section, sectionIndex) => {
+      const refs = set.questions
+        .filter(question => question.sectionIndex === sectionIndex)
+        .map(question => `      <assessmentItemRef identifier="ref-${question.id}" href="items/${question.id}.xml"/>`)
+        .join('\n');
+      return refs
+        ? `    <assessmentSection identifier="section-${sectionIndex + 1}" title="${escapeXml(section.title)}" visible="true">\n${refs}\n    </assessmentSection>`
+        : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}"
+  identifier="examcraft-test" title="${escapeXml(set.title)}">
+  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections}
+  </testPart>
+</assessmentTest>
+`;
+}
+
+function buildManifest(set: QuestionSet): string {
+  const items = set.questions
+    .map(question => `    <resource identifier="${question.id}" type="imsqti_item_xmlv2p1" href="items/${question.id}.xml">
+      <file href="items/${question.id}.xml"/>
+    </resource>`)
+    .join('\n');
+  const dependencies = set.questions.map(question => `      <dependency identifierref="${question.id}"/>`).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"
+  identifier="examcraft-manifest">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="examcraft-test" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${dependencies}
+    </resource>
+${items}
+  </resources>
+</manifest>
+`;
+}
+
+export async function toQtiPackage(set: QuestionSet): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('imsmanifest.xml', buildManifest(set));
+  zip.file('assessment.xml', buildTest(set));
+  set.questions.forEach((question, index) => {
+    zip.file(`items/${question.id}.xml`, buildItem(set, question, index + 1));
+  });
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
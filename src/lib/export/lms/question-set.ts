@@ -0,0 +1,121 @@
+import { createTranslator, DEFAULT_LOCALE } from '@/lib/i18n';
+import { getDefaultSectionTitle, isOutputLanguage } from '@/lib/questions/language';
+import { createQuestionId } from '@/lib/questions/shuffle';
+import { OutputLanguage, Question, QUESTION_TYPES, QuestionType } from '@/lib/questions/types';
+import { validateQuestion } from '@/lib/questions/validation';
+import { getQuestionTypeLabel } from '../layout';
+
+/**
+ * Kumpulan soal yang diekspor: daftar bagian (jenis soal dan poin) dan soal
+ * yang masing-masing menunjuk ke bagiannya
+ */
+
+export interface ExportSection {
+  title: string;
+  questionType: QuestionType;
+  points?: number; // poin per soal
+  language?: OutputLanguage; // bahasa soal, untuk teks tambahan di file export
+}
+
+export interface ExportQuestion extends Question {
+  id: string;
+  sectionIndex: number;
+}
+
+export interface QuestionSet {
+  title: string;
+  sections: ExportSection[];
+  questions: ExportQuestion[];
+}
+
+export const MAX_EXPORT_QUESTIONS = 200;
+
+const VALID_ID = /^[A-Za-z_][\w.-]{0,63}$/;
+
+/**
+ * Poin soal; bagian tanpa poin dihitung 1
+ */
+export function getQuestionPoints(set: QuestionSet, question: ExportQuestion): number {
+  return set.sections[question.sectionIndex].points ?? 1;
+}
+
+export function getQuestionType(set: QuestionSet, question: ExportQuestion): QuestionType {
+  return set.sections[question.sectionIndex].questionType;
+}
+
+/**
+ * Validasi body export. Tanpa `sections`, semua soal dianggap satu bagian
+ * dengan jenis `questionType`. Setiap soal divalidasi ulang dengan aturan
+ * yang sama seperti saat generate supaya file export selalu lengkap.
+ */
+export function validateQuestionSet(raw: {
+  title?: unknown;
+  sections?: unknown;
+  questionType?: unknown;
+  questions?: unknown;
+}): { set?: QuestionSet; errors: string[] } {
+  const { questions } = raw;
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return { errors: ['"questions" wajib berisi array soal yang tidak kosong'] };
+  }
+  if (questions.length > MAX_EXPORT_QUESTIONS) {
+    return { errors: [`maksimal ${MAX_EXPORT_QUESTIONS} soal per export`] };
+  }
+
+  let sections: ExportSection[];
+  if (raw.sections !== undefined) {
+    if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+      return { errors: ['"sections" harus berupa array yang tidak kosong'] };
+    }
+    const errors: string[] = [];
+    sections = raw.sections.map((section, index) => {
+      const { title, questionType, points, language } = (section ?? {}) as Partial<ExportSection>;
+      if (!questionType || !QUESTION_TYPES.includes(questionType)) {
+        errors.push(`bagian ${index + 1}: jenis soal "${questionType}" tidak dikenal`);
+      }
+      if (points !== undefined && (typeof points !== 'number' || !(points > 0))) {
+        errors.push(`bagian ${index + 1}: poin per soal harus lebih dari 0`);
+      }
+      const sectionLanguage = isOutputLanguage(language) ? language : undefined;
+      return {
+        title: typeof title === 'string' && title.trim() ? title.trim() : getDefaultSectionTitle(index, sectionLanguage),
+        questionType: questionType as QuestionType,
+        points,
+        language: sectionLanguage
+      };
+    });
+    if (errors.length > 0) return { errors };
+  } else {
+    const questionType = raw.questionType as QuestionType;
+    if (!QUESTION_TYPES.includes(questionType)) {
+      return { errors: ['isi "sections" atau "questionType" yang valid'] };
+    }
+    sections = [{ title: getQuestionTypeLabel(questionType, createTranslator(DEFAULT_LOCALE)), questionType }];
+  }
+
+  const errors: string[] = [];
+  const normalized: ExportQuestion[] = [];
+  const usedIds = new Set<string>();
+  questions.forEach((item, index) => {
+    const sectionIndex = typeof item?.sectionIndex === 'number' ? item.sectionIndex : 0;
+    const section = sections[sectionIndex];
+    if (!section) {
+      errors.push(`soal ${index + 1}: bagian ${sectionIndex + 1} tidak ada`);
+      return;
+    }
+    const { question, errors: questionErrors } = validateQuestion(item, section.questionType);
+    if (!question) {
+      errors.push(`soal ${index + 1}: ${questionErrors.join('; ')}`);
+      return;
+    }
+    // ID dipakai sebagai identifier XML dan nama file, jadi harus aman dan unik
+    let id = typeof item.id === 'string' && VALID_ID.test(item.id) ? item.id : createQuestionId(question);
+    if (usedIds.has(id)) id = `${id}-${index + 1}`;
+    usedIds.add(id);
+    normalized.push({ ...question, id, sectionIndex });
+  });
+  if (errors.length > 0) return { errors };
+
+  const title = typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'ExamCraft AI';
+  return { set: { title, sections, questions: normalized }, errors };
+}
@@ -0,0 +1,62 @@
+import type { jsPDF } from 'jspdf';
+
+/**
+ * Font TTF yang ditanam ke PDF. Font bawaan jsPDF (Helvetica) hanya
+ * mendukung Latin-1, jadi huruf Arab, Yunani, subskrip (H₂O) dan simbol
+ * seperti ✓ hilang. DejaVu Sans mencakup semuanya; file font ada di
+ * `public/fonts` dan hanya glyph yang dipakai yang disematkan ke PDF.
+ */
+
+export const PDF_FONT = 'ExamSans';
+export const PDF_MONO_FONT = 'ExamMono';
+
+const FONT_FILES = [
+  { file: 'DejaVuSans.ttf', family: PDF_FONT, style: 'normal' },
+  { file: 'DejaVuSans-Bold.ttf', family: PDF_FONT, style: 'bold' },
+  // DejaVu Sans miring tidak disertakan; teks miring memakai bentuk tegak
+  { file: 'DejaVuSans.ttf', family: PDF_FONT, style: 'italic' },
+  { file: 'DejaVuSansMono.ttf', family: PDF_MONO_FONT, style: 'normal' }
+];
+
+export type FontLoader = (file: string) => Promise<ArrayBuffer>;
+
+const fetchFont: FontLoader = async file => {
+  const response = await fetch(`/fonts/${file}`);
+  if (!response.ok) {
+    throw new Error(`Font ${file} tidak ditemukan`);
+  }
+  return response.arrayBuffer();
+};
+
+// Font cukup diunduh sekali per sesi
+const fontCache = new Map<string, Promise<string>>();
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function loadFont(file: string, load: FontLoader): Promise<string> {
+  let font = fontCache.get(file);
+  if (!font) {
+    font = load(file).then(toBase64);
+    // Jangan simpan kegagalan supaya percobaan berikutnya mengunduh ulang
+    font.catch(() => fontCache.delete(file));
+    fontCache.set(file, font);
+  }
+  return font;
+}
+
+/**
+ * Daftarkan font ke `doc`. Wajib dipanggil sebelum renderStudentExam/renderAnswerKey.
+ */
+export async function registerPdfFonts(doc: jsPDF, load: FontLoader = fetchFont): Promise<void> {
+  for (const { file, family, style } of FONT_FILES) {
+    doc.addFileToVFS(file, await loadFont(file, load));
+    doc.addFont(file, family, style, 'Identity-H');
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Teks soal "kaya" untuk export cetak: rumus LaTeX (`$...$`, `$$...$$`,
+ * `\(...\)`, `\[...\]`), blok kode markdown (```...```) dan teks kanan-ke-kiri
+ * (Arab/Ibrani). Rumus diubah menjadi teks Unicode (α, x², H₂O, √, ½) supaya
+ * bisa dicetak dengan font biasa tanpa mesin rendering LaTeX.
+ */
+
+export interface RichBlock {
+  type: 'text' | 'math' | 'code';
+  text: string;
+}
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+  times: '×', div: '÷', cdot: '·', pm: '±', mp: '∓', ast: '∗',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡', sim: '∼', propto: '∝',
+  infty: '∞', partial: '∂', nabla: '∇', sum: '∑', prod: '∏', int: '∫', oint: '∮',
+  to: '→', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐',
+  Leftrightarrow: '⇔', rightleftharpoons: '⇌', uparrow: '↑', downarrow: '↓',
+  in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', supset: '⊃', cup: '∪', cap: '∩', emptyset: '∅',
+  forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨', therefore: '∴', because: '∵',
+  angle: '∠', perp: '⊥', parallel: '∥', triangle: '△', circ: '∘', degree: '°',
+  ldots: '…', cdots: '⋯', dots: '…', prime: '′',
+  ',': ' ', ';': ' ', ':': ' ', '!': '', quad: ' ', qquad: '  ', ' ': ' ',
+  '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '{': '{', '}': '}', '\\': ' '
+};
+
+// Perintah yang isinya dicetak apa adanya
+const TEXT_COMMANDS = ['text', 'textrm', 'textbf', 'textit', 'mathrm', 'mathbf', 'mathit', 'mathsf', 'operatorname', 'vec', 'overline', 'hat', 'bar'];
+// Pembatas ukuran yang tidak berarti apa-apa dalam teks biasa
+const IGNORED_COMMANDS = ['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'limits'];
+
+const SUPERSCRIPTS: Record<string, string> = {
+  0: '⁰', 1: '¹', 2: '²', 3: '³', 4: '⁴', 5: '⁵', 6: '⁶', 7: '⁷', 8: '⁸', 9: '⁹',
+  '+': '⁺', '-': '⁻', '−': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', '∘': '°', '°': '°', '′': '′',
+  a: 'ᵃ', b: 'ᵇ', c: 'ᶜ', d: 'ᵈ', e: 'ᵉ', f: 'ᶠ', g: 'ᵍ', h: 'ʰ', i: 'ⁱ', j: 'ʲ', k: 'ᵏ', l: 'ˡ', m: 'ᵐ',
+  n: 'ⁿ', o: 'ᵒ', p: 'ᵖ', r: 'ʳ', s: 'ˢ', t: 'ᵗ', u: 'ᵘ', v: 'ᵛ', w: 'ʷ', x: 'ˣ', y: 'ʸ', z: 'ᶻ'
+};
+
+const SUBSCRIPTS: Record<string, string> = {
+  0: '₀', 1: '₁', 2: '₂', 3: '₃', 4: '₄', 5: '₅', 6: '₆', 7: '₇', 8: '₈', 9: '₉',
+  '+': '₊', '-': '₋', '−': '₋', '=': '₌', '(': '₍', ')': '₎',
+  a: 'ₐ', e: 'ₑ', h: 'ₕ', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', o: 'ₒ', p: 'ₚ', r: 'ᵣ',
+  s: 'ₛ', t: 'ₜ', u: 'ᵤ', v: 'ᵥ', x: 'ₓ'
+};
+
+/**
+ * Pangkat/indeks sebagai karakter Unicode jika semua karakternya tersedia,
+ * atau `^(...)`/`_(...)` jika tidak
+ */
+function toScript(text: string, map: Record<string, string>, marker: '^' | '_'): string {
+  const chars = Array.from(text.replace(/\s+/g, ''));
+  if (chars.length > 0 && chars.every(char => map[char])) {
+    return chars.map(char => map[char]).join('');
+  }
+  return chars.length === 1 ? `${marker}${text}` : `${marker}(${text})`;
+}
+
+// Pembilang/penyebut/isi akar diberi kurung jika lebih dari satu suku
+function group(text: string): string {
+  return /[\s+\-−×÷·=<>/]/.test(text.trim()) ? `(${text.trim()})` : text.trim();
+}
+
+/**
+ * Ubah rumus LaTeX menjadi teks Unicode, misalnya `\frac{1}{2}` → `1/2`,
+ * `x^{2}` → `x²`, `H_2O` → `H₂O` dan `\sqrt{b^2-4ac}` → `√(b²-4ac)`
+ */
+export function latexToUnicode(latex: string): string {
+  let index = 0;
+
+  const readCommand = (): string => {
+    index++; // lewati "\"
+    const name = latex.slice(index).match(/^[A-Za-z]+/)?.[0] ?? latex[index] ?? '';
+    index += name.length;
+    return name;
+  };
+
+  // Satu argumen: {grup}, perintah, atau satu karakter
+  const readArgument = (): string => {
+    while (latex[index] === ' ') index++;
+    if (latex[index] === '{') {
+      let depth = 0;
+      const start = index;
+      for (; index < latex.length; index++) {
+        if (latex[index] === '{') depth++;
+        if (latex[index] === '}' && --depth === 0) break;
+      }
+      return latexToUnicode(latex.slice(start + 1, index++));
+    }
+    if (latex[index] === '\\') {
+      const name = readCommand();
+      return SYMBOLS[name] ?? name;
+    }
+    return latex[index++] ?? '';
+  };
+
+  let result = '';
+  while (index < latex.length) {
+    const char = latex[index];
+    if (char === '\\') {
+      const name = readCommand();
+      if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+        const numerator = readArgument();
+        result += `${group(numerator)}/${group(readArgument())}`;
+      } else if (name === 'sqrt') {
+        let degree = '';
+        if (latex[index] === '[') {
+          const end = latex.indexOf(']', index);
+          degree = toScript(latexToUnicode(latex.slice(index + 1, end)), SUPERSCRIPTS, '^');
+          index = end + 1;
+        }
+        result += `${degree}√${group(readArgument())}`;
+      } else if (TEXT_COMMANDS.includes(name)) {
+        result += readArgument();
+      } else if (!IGNORED_COMMANDS.includes(name)) {
+        result += SYMBOLS[name] ?? name;
+      }
+    } else if (char === '^' || char === '_') {
+      index++;
+      const argument = readArgument();
+      result += char === '^' ? toScript(argument, SUPERSCRIPTS, '^') : toScript(argument, SUBSCRIPTS, '_');
+    } else if (char === '{' || char === '}') {
+      index++;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Rumus sebaris diubah ke Unicode dan tanda kode sebaris (`...`) dibuang.
+ * `$` hanya dianggap rumus jika menempel pada isinya, jadi "$5 dan $10" aman.
+ */
+export function formatInline(text: string): string {
+  return text
+    .replace(/\\\((.+?)\\\)/g, (_, latex: string) => latexToUnicode(latex))
+    .replace(/\$(?!\s)([^$\n]*?[^\s$])\$(?!\d)/g, (_, latex: string) => latexToUnicode(latex))
+    .replace(/`([^`\n]+)`/g, '$1');
+}
+
+/**
+ * Pecah teks soal menjadi paragraf biasa, rumus display dan blok kode
+ */
+export function parseRichText(text: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  const pattern = /```[\w+-]*[^\S\n]*\n?([\s\S]*?)\n?```|\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]/g;
+  let last = 0;
+  const pushText = (value: string) => {
+    const trimmed = value.replace(/^\n+|\n+$/g, '');
+    if (trimmed.trim()) blocks.push({ type: 'text', text: formatInline(trimmed) });
+  };
+
+  for (const match of text.matchAll(pattern)) {
+    pushText(text.slice(last, match.index));
+    if (match[1] !== undefined) {
+      blocks.push({ type: 'code', text: match[1] });
+    } else {
+      blocks.push({ type: 'math', text: latexToUnicode((match[2] ?? match[3]).trim()) });
+    }
+    last = (match.index ?? 0) + match[0].length;
+  }
+  pushText(text.slice(last));
+  return blocks;
+}
+
+/**
+ * Isi kode jika seluruh opsi berupa kode (`...` atau ```...```)
+ */
+export function getCodeOption(option: string): string | undefined {
+  const trimmed = option.trim();
+  return trimmed.match(/^```[\w+-]*[^\S\n]*\n?([\s\S]*?)\n?```$/)?.[1] ?? trimmed.match(/^`([^`]+)`$/)?.[1];
+}
+
+// Huruf Arab, Ibrani, Suryani, Thaana dan bentuk presentasinya
+const RTL_LETTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const STRONG_LETTER = /[A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * Arah teks ditentukan oleh huruf pertamanya, seperti aturan Unicode Bidi
+ */
+export function isRightToLeft(text: string): boolean {
+  const first = text.match(STRONG_LETTER)?.[0];
+  return first !== undefined && RTL_LETTER.test(first);
+}
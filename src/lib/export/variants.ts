@@ -0,0 +1,54 @@
+import { createQuestionId, hashText, ShuffledQuestion, shuffleQuestions } from '@/lib/questions/shuffle';
+import { Question } from '@/lib/questions/types';
+
+/**
+ * Paket soal (A, B, C, ...) untuk ujian cetak. Paket A memakai urutan asli;
+ * paket berikutnya mengacak urutan soal di dalam setiap bagian dan urutan
+ * opsi pilihan ganda dengan seed `<seed>:<huruf paket>`, jadi paket yang
+ * sama selalu bisa dibuat ulang persis.
+ */
+
+export const MAX_VARIANTS = 5;
+
+export type VariantQuestion = Question & { sectionIndex?: number };
+
+export interface ExamVariant<T extends VariantQuestion = VariantQuestion> {
+  label: string;
+  seed: string;
+  items: ShuffledQuestion<T>[]; // pemetaan ke soal asli
+  questions: T[]; // soal dalam urutan paket ini
+}
+
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Seed bawaan dari ID soal, supaya ujian yang sama menghasilkan paket yang sama
+ */
+export function getDefaultSeed(questions: Question[]): string {
+  return hashText(questions.map(question => question.id ?? createQuestionId(question)).join(',')).toString(36);
+}
+
+/**
+ * Buat `count` paket soal dari daftar soal yang sudah dikelompokkan per bagian
+ */
+export function createVariants<T extends VariantQuestion>(
+  questions: T[],
+  count: number,
+  seed = getDefaultSeed(questions)
+): ExamVariant<T>[] {
+  const total = Math.min(Math.max(1, Math.floor(count)), MAX_VARIANTS);
+  return Array.from({ length: total }, (_, variantIndex) => {
+    const label = variantLabel(variantIndex);
+    const isCanonical = variantIndex === 0;
+    const items = shuffleQuestions(questions, {
+      seed: `${seed}:${label}`,
+      shuffleQuestions: !isCanonical,
+      shuffleOptions: !isCanonical,
+      // Bagian tetap berurutan; yang diacak hanya soal di dalam bagian
+      groupOf: question => question.sectionIndex ?? 0
+    });
+    return { label, seed, items, questions: items.map(item => item.question) };
+  });
+}
@@ -0,0 +1,133 @@
+import { isHeading } from '@/lib/questions/chunking';
+import { normalizeWhitespace, stripTags } from './xml';
+
+/**
+ * Model dokumen hasil ekstraksi: urutan blok heading dan paragraf,
+ * masing-masing dengan nomor halaman/slide jika formatnya punya halaman.
+ */
+
+export interface DocumentBlock {
+  type: 'heading' | 'paragraph';
+  text: string;
+  level?: number; // untuk heading, 1-6
+  page?: number;
+}
+
+export interface ExtractedDocument {
+  blocks: DocumentBlock[];
+  pageCount?: number;
+  ocr?: boolean; // sebagian/seluruh teks berasal dari OCR
+}
+
+// Blok beserta posisinya di teks gabungan
+export interface PositionedBlock extends DocumentBlock {
+  start: number;
+  end: number;
+}
+
+export interface OutlineEntry {
+  level: number;
+  title: string;
+  page?: number;
+  blockIndex: number;
+}
+
+export interface StructuredText {
+  text: string;
+  blocks: PositionedBlock[];
+  outline: OutlineEntry[];
+  pageCount?: number;
+  ocr?: boolean;
+}
+
+/**
+ * Tingkat heading dari penanda markdown atau penomoran (1.2 -> level 2)
+ */
+function headingLevel(line: string): number {
+  const markdown = line.match(/^(#{1,6})\s/);
+  if (markdown) return markdown[1].length;
+  const numbered = line.match(/^(\d+(?:\.\d+)*)\.?\s/);
+  if (numbered) return Math.min(numbered[1].split('.').length, 6);
+  return 1;
+}
+
+/**
+ * Susun blok dari teks biasa/markdown. Baris kosong memisahkan paragraf,
+ * baris heading (markdown atau heuristik) menjadi blok heading tersendiri.
+ */
+export function blocksFromText(text: string, page?: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const joined = normalizeWhitespace(paragraph.join('\n'));
+    if (joined) blocks.push({ type: 'paragraph', text: joined, page });
+    paragraph = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      flush();
+    } else if (isHeading(line)) {
+      flush();
+      blocks.push({ type: 'heading', text: line.trim().replace(/^#+\s*/, ''), level: headingLevel(line.trim()), page });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Susun blok dari HTML (hasil mammoth untuk DOCX, atau file HTML)
+ */
+export function blocksFromHtml(html: string, page?: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n');
+
+  for (const match of cleaned.matchAll(/<(h[1-6]|p|li|td|th|pre|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const tag = match[1].toLowerCase();
+    const text = normalizeWhitespace(stripTags(match[2]));
+    if (!text) continue;
+
+    if (tag[0] === 'h' && tag !== 'th') {
+      blocks.push({ type: 'heading', text, level: Number(tag[1]), page });
+    } else {
+      blocks.push({ type: 'paragraph', text: tag === 'li' ? `- ${text}` : text, page });
+    }
+  }
+
+  // HTML tanpa elemen blok (mis. teks polos di <body>) tetap diambil isinya
+  if (blocks.length === 0) {
+    return blocksFromText(normalizeWhitespace(stripTags(cleaned)), page);
+  }
+  return blocks;
+}
+
+/**
+ * Gabungkan blok menjadi teks materi. Heading ditulis sebagai heading markdown
+ * agar pemecahan materi per bagian tetap mengikuti struktur dokumen.
+ */
+export function structureDocument(document: ExtractedDocument): StructuredText {
+  const blocks: PositionedBlock[] = [];
+  const outline: OutlineEntry[] = [];
+  let text = '';
+
+  document.blocks.forEach(block => {
+    const rendered = block.type === 'heading' ? `${'#'.repeat(block.level ?? 1)} ${block.text}` : block.text;
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += rendered;
+
+    if (block.type === 'heading') {
+      outline.push({ level: block.level ?? 1, title: block.text, page: block.page, blockIndex: blocks.length });
+    }
+    blocks.push({ ...block, start, end: text.length });
+  });
+
+  return { text, blocks, outline, pageCount: document.pageCount, ocr: document.ocr };
+}
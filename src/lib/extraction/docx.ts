@@ -0,0 +1,11 @@
+import mammoth from 'mammoth';
+import { blocksFromHtml, ExtractedDocument } from './document';
+
+/**
+ * Fungsi untuk ekstrak teks dari DOCX. Konversi HTML dari mammoth
+ * dipakai karena mempertahankan heading (Heading 1, Heading 2, ...).
+ */
+export async function extractFromDOCX(buffer: Buffer): Promise<ExtractedDocument> {
+  const result = await mammoth.convertToHtml({ buffer });
+  return { blocks: blocksFromHtml(result.value) };
+}
@@ -0,0 +1,55 @@
+/**
+ * Format file yang didukung /api/extract-text
+ */
+
+export type FileFormat = 'pdf' | 'docx' | 'txt' | 'pptx' | 'md' | 'html' | 'odt' | 'rtf' | 'png' | 'jpg';
+
+interface FormatInfo {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export const FILE_FORMATS: Record<FileFormat, FormatInfo> = {
+  pdf: { label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  docx: {
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+  },
+  txt: { label: 'TXT', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  pptx: {
+    label: 'PPTX',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation']
+  },
+  md: { label: 'Markdown', extensions: ['.md', '.markdown'], mimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain'] },
+  html: { label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html'] },
+  odt: { label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'] },
+  rtf: { label: 'RTF', extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf', 'application/x-rtf'] },
+  png: { label: 'PNG', extensions: ['.png'], mimeTypes: ['image/png'] },
+  jpg: { label: 'JPG', extensions: ['.jpg', '.jpeg'], mimeTypes: ['image/jpeg'] }
+};
+
+// Browser sering mengirim MIME kosong atau generik untuk .md dan .rtf
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+/**
+ * Tentukan format file dari ekstensi, lalu pastikan MIME type cocok
+ */
+export function detectFileFormat(filename: string, mimeType: string): FileFormat | null {
+  const extension = filename.toLowerCase().substring(filename.lastIndexOf('.'));
+  const entry = (Object.entries(FILE_FORMATS) as [FileFormat, FormatInfo][])
+    .find(([, info]) => info.extensions.includes(extension));
+  if (!entry) return null;
+
+  const [format, info] = entry;
+  return info.mimeTypes.includes(mimeType) || GENERIC_MIME_TYPES.includes(mimeType) ? format : null;
+}
+
+/**
+ * Daftar ekstensi untuk atribut `accept` pada input file
+ */
+export const ACCEPTED_EXTENSIONS = Object.values(FILE_FORMATS).flatMap(info => info.extensions).join(',');
+
+export const SUPPORTED_FORMAT_LABELS = Object.values(FILE_FORMATS).map(info => info.label);
@@ -0,0 +1,53 @@
+import { blocksFromText, ExtractedDocument, structureDocument, StructuredText } from './document';
+import { extractFromDOCX } from './docx';
+import { FileFormat } from './formats';
+import { extractFromHTML, extractFromMarkdown } from './markup';
+import { recognizeImage } from './ocr';
+import { extractFromODT, extractFromPPTX } from './office';
+import { extractFromPDF } from './pdf';
+import { extractFromRTF } from './rtf';
+
+export * from './formats';
+export type { DocumentBlock, OutlineEntry, PositionedBlock, StructuredText } from './document';
+
+/**
+ * Fungsi untuk ekstrak teks dari file text biasa
+ */
+function extractFromText(buffer: Buffer): ExtractedDocument {
+  return { blocks: blocksFromText(buffer.toString('utf-8')) };
+}
+
+/**
+ * Ekstrak dokumen berdasarkan format file, tanpa menggabungkan blok
+ */
+async function extractDocument(buffer: Buffer, format: FileFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return extractFromPDF(buffer);
+    case 'docx':
+      return extractFromDOCX(buffer);
+    case 'txt':
+      return extractFromText(buffer);
+    case 'pptx':
+      return extractFromPPTX(buffer);
+    case 'md':
+      return extractFromMarkdown(buffer.toString('utf-8'));
+    case 'html':
+      return extractFromHTML(buffer.toString('utf-8'));
+    case 'odt':
+      return extractFromODT(buffer);
+    case 'rtf':
+      // RTF pada dasarnya ASCII; karakter non-ASCII ditulis sebagai escape
+      return { blocks: blocksFromText(extractFromRTF(buffer.toString('latin1'))) };
+    case 'png':
+    case 'jpg':
+      return { blocks: blocksFromText(await recognizeImage(buffer)), ocr: true };
+  }
+}
+
+/**
+ * Ekstrak teks beserta strukturnya (halaman, outline heading, batas paragraf)
+ */
+export async function extractText(buffer: Buffer, format: FileFormat): Promise<StructuredText> {
+  return structureDocument(await extractDocument(buffer, format));
+}
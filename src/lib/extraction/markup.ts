@@ -0,0 +1,31 @@
+import { blocksFromHtml, blocksFromText, ExtractedDocument } from './document';
+import { decodeEntities } from './xml';
+
+/**
+ * Fungsi untuk ekstrak teks dari HTML. Heading dan elemen blok dipertahankan.
+ */
+export function extractFromHTML(html: string): ExtractedDocument {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return { blocks: blocksFromHtml(body) };
+}
+
+/**
+ * Fungsi untuk ekstrak teks dari Markdown. Heading dipertahankan,
+ * sintaks tautan, gambar, penekanan dan kode dibersihkan.
+ */
+export function extractFromMarkdown(markdown: string): ExtractedDocument {
+  const text = markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^*\w])[*_]([^*_\n]+)[*_](?=[^*\w]|$)/g, '$1$2')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/^\|?[\s:|-]+\|?$/gm, '') // garis pemisah tabel
+    .replace(/<[^>]+>/g, '');
+
+  return { blocks: blocksFromText(decodeEntities(text)) };
+}
@@ -0,0 +1,85 @@
+import { access, copyFile, mkdir } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createWorker, OEM, Worker } from 'tesseract.js';
+
+/**
+ * OCR lokal dengan tesseract.js untuk PDF hasil scan dan upload gambar.
+ * Data bahasa diambil dari paket @tesseract.js-data di node_modules,
+ * jadi tidak ada unduhan dari CDN dan semuanya berjalan offline.
+ */
+
+export const OCR_LANGUAGES = ['ind', 'eng'];
+
+// Halaman dengan teks lebih sedikit dari ini dianggap hasil scan
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+export const DEFAULT_OCR_MAX_PAGES = 30;
+
+/**
+ * Baca batas jumlah halaman PDF yang di-OCR dari OCR_MAX_PAGES.
+ * OCR berjalan di CPU server, jadi dokumen scan yang sangat tebal dibatasi.
+ */
+export function getOcrMaxPagesFromEnv(): number {
+  const value = parseInt(process.env.OCR_MAX_PAGES || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_OCR_MAX_PAGES;
+}
+
+/**
+ * Apakah teks hasil ekstraksi terlalu sedikit sehingga perlu OCR
+ */
+export function needsOcr(text: string): boolean {
+  return text.replace(/\s+/g, '').length < MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Salin data bahasa dari node_modules ke satu folder cache, karena tesseract.js
+ * hanya membaca semua bahasa dari satu lokasi. Isinya tetap gzip; worker
+ * mengenali dan mengekstraknya sendiri.
+ */
+async function prepareLanguageData(): Promise<string> {
+  const cacheDir = process.env.OCR_CACHE_DIR || path.join(os.tmpdir(), 'examcraft-tessdata');
+  await mkdir(cacheDir, { recursive: true });
+  for (const code of OCR_LANGUAGES) {
+    const target = path.join(cacheDir, `${code}.traineddata`);
+    try {
+      await access(target);
+    } catch {
+      const source = path.join(process.cwd(), 'node_modules', '@tesseract.js-data', code, '4.0.0_best_int', `${code}.traineddata.gz`);
+      try {
+        await copyFile(source, target);
+      } catch {
+        throw new Error(`Data bahasa OCR "${code}" tidak ditemukan. Jalankan npm install.`);
+      }
+    }
+  }
+  return cacheDir;
+}
+
+/**
+ * Jalankan `task` dengan satu worker OCR, lalu matikan worker-nya
+ */
+export async function withOcrWorker<T>(task: (recognize: (image: Buffer | Uint8Array) => Promise<string>) => Promise<T>): Promise<T> {
+  const cacheDir = await prepareLanguageData();
+  // readOnly + langPath lokal: tidak pernah mengunduh data bahasa dari CDN
+  const worker: Worker = await createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+    cacheMethod: 'readOnly',
+    cachePath: cacheDir,
+    langPath: cacheDir
+  });
+  try {
+    return await task(async image => {
+      const { data } = await worker.recognize(Buffer.from(image));
+      return data.text;
+    });
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Fungsi untuk ekstrak teks dari gambar (PNG/JPG)
+ */
+export async function recognizeImage(image: Buffer): Promise<string> {
+  return withOcrWorker(recognize => recognize(image));
+}
@@ -0,0 +1,104 @@
+import JSZip from 'jszip';
+import { DocumentBlock, ExtractedDocument } from './document';
+import { decodeEntities, normalizeWhitespace, stripTags } from './xml';
+
+/**
+ * Urutkan nama file seperti slide2.xml, slide10.xml berdasarkan angkanya
+ */
+function byTrailingNumber(a: string, b: string): number {
+  const number = (name: string) => parseInt(name.match(/(\d+)\.xml$/)?.[1] ?? '0', 10);
+  return number(a) - number(b);
+}
+
+/**
+ * Ambil teks setiap paragraf DrawingML (<a:p>) di dalam potongan XML
+ */
+function drawingParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const match of xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g)) {
+    const runs = Array.from(match[1].matchAll(/<a:t\b[^>]*>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g))
+      .map(run => (run[1] !== undefined ? decodeEntities(run[1]) : '\n'));
+    const text = runs.join('').trim();
+    if (text) paragraphs.push(text);
+  }
+  return paragraphs;
+}
+
+/**
+ * Fungsi untuk ekstrak teks dari PPTX. Setiap slide dihitung sebagai satu
+ * halaman dan judul slide dijadikan heading.
+ */
+export async function extractFromPPTX(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideFiles = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort(byTrailingNumber);
+
+  const blocks: DocumentBlock[] = [];
+  for (const [position, name] of slideFiles.entries()) {
+    const page = position + 1;
+    const xml = await zip.file(name)!.async('string');
+    let title = '';
+    const body: string[] = [];
+
+    for (const shape of xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)) {
+      const paragraphs = drawingParagraphs(shape[0]);
+      if (!title && /<p:ph\b[^>]*type="(title|ctrTitle)"/.test(shape[0])) {
+        title = paragraphs.join(' ');
+      } else {
+        body.push(...paragraphs);
+      }
+    }
+
+    // Catatan pembicara sering berisi penjelasan yang berguna sebagai materi
+    const notesName = `ppt/notesSlides/notesSlide${name.match(/(\d+)\.xml$/)![1]}.xml`;
+    const notesFile = zip.file(notesName);
+    if (notesFile) {
+      const notes = drawingParagraphs(await notesFile.async('string')).filter(text => !/^\d+$/.test(text));
+      if (notes.length > 0) body.push(`Catatan: ${notes.join(' ')}`);
+    }
+
+    if (title || body.length > 0) {
+      blocks.push({ type: 'heading', text: normalizeWhitespace(title) || `Slide ${page}`, level: 1, page });
+      for (const text of body) {
+        blocks.push({ type: 'paragraph', text: normalizeWhitespace(text), page });
+      }
+    }
+  }
+
+  return { blocks, pageCount: slideFiles.length };
+}
+
+/**
+ * Fungsi untuk ekstrak teks dari ODT (OpenDocument Text)
+ */
+export async function extractFromODT(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('File ODT tidak memiliki content.xml');
+  }
+  const xml = await contentFile.async('string');
+
+  const blocks: DocumentBlock[] = [];
+  for (const match of xml.matchAll(/<text:(h|p)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/text:\1>)/g)) {
+    const [, tag, attributes, inner = ''] = match;
+    const text = stripTags(
+      inner
+        .replace(/<text:s\b[^>]*?(?:text:c="(\d+)")?[^>]*\/>/g, (_, count) => ' '.repeat(count ? parseInt(count, 10) : 1))
+        .replace(/<text:tab\b[^>]*\/>/g, '\t')
+        .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+    );
+    const normalized = normalizeWhitespace(text);
+    if (!normalized) continue;
+
+    if (tag === 'h') {
+      const level = parseInt(attributes.match(/text:outline-level="(\d+)"/)?.[1] ?? '1', 10);
+      blocks.push({ type: 'heading', text: normalized, level: Math.min(Math.max(level, 1), 6) });
+    } else {
+      blocks.push({ type: 'paragraph', text: normalized });
+    }
+  }
+
+  return { blocks };
+}
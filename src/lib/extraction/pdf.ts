@@ -0,0 +1,41 @@
+import { PDFParse } from 'pdf-parse';
+import { blocksFromText, ExtractedDocument } from './document';
+import { getOcrMaxPagesFromEnv, needsOcr, withOcrWorker } from './ocr';
+
+// Skala render halaman untuk OCR; 2x memberi akurasi yang baik untuk scan A4
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Fungsi untuk ekstrak teks dari PDF, per halaman. Halaman tanpa lapisan teks
+ * (hasil scan) dirender menjadi gambar lalu dibaca dengan OCR.
+ */
+export async function extractFromPDF(buffer: Buffer): Promise<ExtractedDocument> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    const pageTexts = new Map(result.pages.map(page => [page.num, page.text]));
+
+    const scannedPages = result.pages
+      .filter(page => needsOcr(page.text))
+      .map(page => page.num)
+      .slice(0, getOcrMaxPagesFromEnv());
+
+    if (scannedPages.length > 0) {
+      console.log(`🔍 OCR untuk ${scannedPages.length} halaman tanpa lapisan teks`);
+      const screenshots = await parser.getScreenshot({ partial: scannedPages, scale: OCR_RENDER_SCALE, imageBuffer: true });
+      await withOcrWorker(async recognize => {
+        for (const screenshot of screenshots.pages) {
+          pageTexts.set(screenshot.pageNumber, await recognize(screenshot.data));
+        }
+      });
+    }
+
+    return {
+      blocks: result.pages.flatMap(page => blocksFromText(pageTexts.get(page.num) ?? '', page.num)),
+      pageCount: result.total,
+      ocr: scannedPages.length > 0
+    };
+  } finally {
+    await parser.destroy();
+  }
+}
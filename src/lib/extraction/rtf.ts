@@ -0,0 +1,147 @@
+import { normalizeWhitespace } from './xml';
+
+// Grup yang isinya bukan teks dokumen
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer',
+  'headerl', 'headerr', 'footerl', 'footerr', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore'
+]);
+
+// Byte 0x80-0x9F pada Windows-1252 yang berbeda dari Latin-1
+const CP1252: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ', 0x89: '‰',
+  0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•',
+  0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ'
+};
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // nilai \ucN: jumlah karakter pengganti setelah \u
+}
+
+/**
+ * Fungsi untuk ekstrak teks dari RTF dengan membaca control word secara berurutan
+ */
+export function extractFromRTF(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let output = '';
+  let pendingSkip = 0;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) output += text;
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+      // {\* ...} adalah destination opsional yang boleh diabaikan
+      if (rtf.startsWith('\\*', i)) state.skip = true;
+      continue;
+    }
+    if (char === '}') {
+      state = stack.pop() ?? state;
+      i++;
+      continue;
+    }
+    if (char !== '\\') {
+      if (char !== '\r' && char !== '\n') emit(char);
+      i++;
+      continue;
+    }
+
+    // Control symbol atau control word
+    const next = rtf[i + 1];
+    if (next === "'") {
+      const code = parseInt(rtf.substr(i + 2, 2), 16);
+      emit(CP1252[code] ?? String.fromCharCode(code));
+      i += 4;
+      continue;
+    }
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '\n' || next === '\r') {
+      emit('\n');
+      i += 2;
+      continue;
+    }
+
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+    const [token, word, param] = match;
+    i += token.length;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+    switch (word) {
+      case 'par':
+      case 'line':
+      case 'sect':
+      case 'page':
+        emit('\n');
+        break;
+      case 'tab':
+      case 'cell':
+        emit('\t');
+        break;
+      case 'row':
+        emit('\n');
+        break;
+      case 'uc':
+        state.unicodeSkip = param ? parseInt(param, 10) : 1;
+        break;
+      case 'u': {
+        let code = parseInt(param ?? '0', 10);
+        if (code < 0) code += 65536;
+        emit(String.fromCharCode(code));
+        pendingSkip = state.unicodeSkip;
+        break;
+      }
+      case 'emdash':
+        emit('—');
+        break;
+      case 'endash':
+        emit('–');
+        break;
+      case 'bullet':
+        emit('•');
+        break;
+      case 'lquote':
+        emit('‘');
+        break;
+      case 'rquote':
+        emit('’');
+        break;
+      case 'ldblquote':
+        emit('“');
+        break;
+      case 'rdblquote':
+        emit('”');
+        break;
+    }
+  }
+
+  return normalizeWhitespace(output);
+}
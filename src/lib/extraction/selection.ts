@@ -0,0 +1,70 @@
+import { formatPageMarker } from '@/lib/questions/pages';
+import type { DocumentBlock, OutlineEntry } from './document';
+
+/**
+ * Pemilihan bab/halaman dari dokumen hasil ekstraksi. Modul ini aman dipakai
+ * di client: UI menyusun ulang materi dari blok yang dipilih guru.
+ */
+
+export interface MaterialSelection {
+  sections: boolean[]; // sejajar dengan outline; true = bab ikut dipakai
+  pageFrom?: number;
+  pageTo?: number;
+}
+
+export function selectAll(outline: OutlineEntry[], pageCount?: number): MaterialSelection {
+  return {
+    sections: outline.map(() => true),
+    pageFrom: pageCount ? 1 : undefined,
+    pageTo: pageCount || undefined
+  };
+}
+
+/**
+ * Centang/hapus centang satu bab beserta sub-babnya
+ */
+export function toggleSection(outline: OutlineEntry[], sections: boolean[], index: number): boolean[] {
+  const next = [...sections];
+  const checked = !sections[index];
+  next[index] = checked;
+  for (let i = index + 1; i < outline.length && outline[i].level > outline[index].level; i++) {
+    next[i] = checked;
+  }
+  return next;
+}
+
+/**
+ * Susun teks materi dari blok yang masuk pilihan. Blok mengikuti heading
+ * terdekat di atasnya; blok sebelum heading pertama selalu ikut. Untuk dokumen
+ * berhalaman, penanda [Halaman N] disisipkan setiap kali halaman berganti
+ * supaya soal bisa mencantumkan halaman sumbernya.
+ */
+export function buildMaterial(
+  blocks: DocumentBlock[],
+  outline: OutlineEntry[],
+  selection: MaterialSelection,
+  paged: boolean
+): string {
+  const parts: string[] = [];
+  let sectionIndex = -1;
+  let currentPage: number | undefined;
+
+  blocks.forEach((block, blockIndex) => {
+    while (sectionIndex + 1 < outline.length && outline[sectionIndex + 1].blockIndex <= blockIndex) {
+      sectionIndex++;
+    }
+    if (sectionIndex >= 0 && !selection.sections[sectionIndex]) return;
+    if (block.page !== undefined) {
+      if (selection.pageFrom !== undefined && block.page < selection.pageFrom) return;
+      if (selection.pageTo !== undefined && block.page > selection.pageTo) return;
+    }
+
+    if (paged && block.page !== undefined && block.page !== currentPage) {
+      parts.push(formatPageMarker(block.page));
+      currentPage = block.page;
+    }
+    parts.push(block.type === 'heading' ? `${'#'.repeat(block.level ?? 1)} ${block.text}` : block.text);
+  });
+
+  return parts.join('\n\n');
+}
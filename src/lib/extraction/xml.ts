@@ -0,0 +1,54 @@
+/**
+ * Helper kecil untuk mengolah XML/HTML tanpa parser DOM
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  deg: '°',
+  times: '×',
+  divide: '÷'
+};
+
+/**
+ * Ubah entity (&amp;, &#39;, &#x2013;) menjadi karakter aslinya
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Hapus semua tag lalu decode entity
+ */
+export function stripTags(markup: string): string {
+  return decodeEntities(markup.replace(/<[^>]+>/g, ''));
+}
+
+/**
+ * Rapikan spasi: satu spasi di dalam baris, maksimal satu baris kosong antar paragraf
+ */
+export function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
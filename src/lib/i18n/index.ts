@@ -0,0 +1,54 @@
+import { en } from './messages/en';
+import { id, MessageKey } from './messages/id';
+import { Locale, Message, MessageParams } from './types';
+
+/**
+ * Bahasa antarmuka. Hanya teks tampilan yang diterjemahkan; bahasa soal
+ * diatur terpisah lewat `language` pada request pembuatan soal.
+ */
+
+export type { Locale, Message, MessageParams } from './types';
+export type { MessageKey } from './messages/id';
+
+export const LOCALES: Record<Locale, { label: string; flag: string; intl: string }> = {
+  id: { label: 'Bahasa Indonesia', flag: '🇮🇩', intl: 'id-ID' },
+  en: { label: 'English', flag: '🇬🇧', intl: 'en-US' }
+};
+
+export const DEFAULT_LOCALE: Locale = 'id';
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { id, en };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+/**
+ * Ambil pesan `key` dan isi placeholder `{nama}` dari `params`. Kunci yang
+ * tidak ada di kamus `locale` jatuh ke bahasa Indonesia.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  const template = typeof message === 'string'
+    ? message
+    : params.count === 1 ? message.one : message.other;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Bahasa teks dokumen export (kop, petunjuk, label kunci jawaban) untuk soal
+ * berbahasa `languages`. Soal campuran atau berbahasa tanpa kamus antarmuka
+ * memakai `fallback`.
+ */
+export function getDocumentLocale(languages: (string | undefined)[], fallback: Locale = DEFAULT_LOCALE): Locale {
+  const [first] = languages;
+  return isLocale(first) && languages.every(language => language === first) ? first : fallback;
+}
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
@@ -0,0 +1,376 @@
+import { Message } from '../types';
+import { MessageKey } from './id';
+
+/**
+ * Teks antarmuka bahasa Inggris
+ */
+export const en: Record<MessageKey, Message> = {
+  'app.subtitle': 'Generate exam questions from learning material automatically with AI',
+  'app.badgeFast': '⚡ Fast & Automatic',
+  'app.badgeTypes': '📚 6 Question Types',
+  'app.badgeAi': '🎯 AI Powered',
+  'app.language': 'Interface language',
+
+  'questionType.multiple-choice': 'Multiple Choice',
+  'questionType.essay': 'Essay',
+  'questionType.true-false': 'True/False',
+  'questionType.fill-in-the-blank': 'Fill in the Blank',
+  'questionType.matching': 'Matching',
+  'questionType.short-answer': 'Short Answer',
+
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+
+  'bloom.remember': 'Remember',
+  'bloom.understand': 'Understand',
+  'bloom.apply': 'Apply',
+  'bloom.analyze': 'Analyze',
+  'bloom.evaluate': 'Evaluate',
+  'bloom.create': 'Create',
+  'bloomVerbs.remember': 'list, define, identify',
+  'bloomVerbs.understand': 'explain, distinguish, give examples',
+  'bloomVerbs.apply': 'calculate, use, apply to new situations',
+  'bloomVerbs.analyze': 'break down, compare, find cause and effect',
+  'bloomVerbs.evaluate': 'judge, critique, argue',
+  'bloomVerbs.create': 'design, compose, formulate',
+
+  'answer.true': 'True',
+  'answer.false': 'False',
+
+  'common.cancel': 'Cancel',
+  'common.remove': 'Remove',
+  'common.points': { one: '{count} point', other: '{count} points' },
+  'common.questions': { one: '{count} question', other: '{count} questions' },
+  'common.unexpectedError': 'Something went wrong. Please try again.',
+  'time.seconds': { one: '{count} second', other: '{count} seconds' },
+  'time.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'time.hours': { one: '{count} hour', other: '{count} hours' },
+  'limit.rateLimit': 'Too many requests. Wait {wait} and try again.',
+  'apiError.invalid-request': 'the request is invalid',
+  'apiError.invalid-questions': 'the question data is invalid',
+  'apiError.invalid-blueprint': 'the blueprint is invalid',
+  'apiError.material-too-short': 'the material is too short',
+  'apiError.material-too-long': 'the material can be at most {limit} characters',
+  'apiError.file-missing': 'no file was uploaded',
+  'apiError.file-too-large': 'the file can be at most {limit}MB',
+  'apiError.unsupported-file': 'this file type is not supported',
+  'apiError.text-not-found': 'the file has no readable text',
+  'apiError.extraction-failed': 'the file could not be read',
+  'apiError.not-found': 'the question was not found in the bank',
+  'apiError.duplicate-question': 'the same question is already in the bank',
+  'apiError.bank-no-match': 'no questions in the bank match the blueprint',
+  'apiError.content-length-required': 'the request size is unknown',
+  'apiError.request-too-large': 'the request can be at most {limit}MB',
+  'apiError.rate-limit-unconfigured': 'server request limits are not configured, contact the administrator',
+  'apiError.generation-failed': 'the AI service is having problems, please try again',
+  'apiError.server-error': 'something went wrong on the server, please try again',
+  'limit.quota': 'Not enough daily question generation quota left. Request fewer questions or wait for the reset in {wait}.',
+
+  'material.label': '📝 Learning Material',
+  'material.placeholder': 'Enter the learning material here...\n\nExample:\nPhotosynthesis is the biological process that converts light energy into chemical energy. It takes place in the chloroplasts and involves chlorophyll. Its main products are glucose and oxygen.',
+  'material.hint': '📝 Type or upload at least 50 characters of learning material · {count} characters',
+  'material.required': 'Learning material is required',
+  'material.tooShort': 'material too short',
+
+  'upload.extracting': 'Extracting text from file...',
+  'upload.drop': '📂 Drop a file here or click to choose',
+  'upload.maxSize': 'up to 10MB',
+  'upload.textFrom': '✅ Text from',
+  'upload.ocr': ', read with OCR',
+  'upload.review': 'please review and edit before generating questions',
+  'upload.failed': 'Failed to extract text from the file',
+  'upload.error': 'Something went wrong while uploading the file. Please try again.',
+  'upload.selectSections': '📑 Choose chapters or pages ({selected}/{total} chapters{pages})',
+  'upload.selectedPages': ', pp. {from}-{to} of {count}',
+  'upload.selectionHint': 'Changing the selection rebuilds the material and overwrites edits in the text box.',
+  'upload.pages': 'Pages',
+  'upload.pageTo': 'to',
+  'upload.page': 'p. {page}',
+
+  'mode.single': '📋 Single Question Type',
+  'mode.blueprint': '🧩 Exam Blueprint',
+
+  'blueprint.sectionTitle': 'Section title',
+  'blueprint.questionType': 'Question type',
+  'blueprint.count': 'Count',
+  'blueprint.difficulty': 'Difficulty',
+  'blueprint.anyDifficulty': 'Any',
+  'blueprint.points': 'Points',
+  'blueprint.removeSection': 'Remove section',
+  'blueprint.addSection': '➕ Add Section',
+
+  'form.questionType': '📋 Question Type',
+  'form.questionCount': '🔢 Number of Questions',
+  'form.questionCountHint': '1-10 questions',
+  'form.difficulty': '📈 Difficulty',
+  'form.language': '🌐 Question Language',
+  'form.languageHint': 'The questions may be in a different language from the material',
+  'form.bloom': '🧠 Cognitive Level (Bloom)',
+  'form.bloomVerbs': 'Verbs: {verbs}',
+  'form.bloomSelected': 'Questions are spread evenly across the selected levels',
+  'form.bloomEmpty': 'Leave empty to let the AI choose the levels',
+  'form.objectives': '🎯 Learning Objectives',
+  'form.objectivesPlaceholder': 'One objective per line, for example:\n3.1 Explain the process of photosynthesis',
+  'form.generating': '🤖 Generating Questions... ({count}/{total})',
+  'form.generate': 'Generate Questions with AI',
+  'form.cancel': '⏹️ Cancel',
+
+  'generate.failed': 'Failed to generate questions',
+  'generate.partial': { one: '{error} ({count} question generated)', other: '{error} ({count} questions generated)' },
+
+  'bank.title': '🗄️ Question Bank',
+  'bank.open': '▼ Open',
+  'bank.close': '▲ Close',
+  'bank.searchPlaceholder': 'Search question text...',
+  'bank.allTypes': 'All types',
+  'bank.allDifficulties': 'All difficulties',
+  'bank.subject': 'Subject',
+  'bank.tag': 'Tag',
+  'bank.searching': '⏳ Searching...',
+  'bank.search': '🔍 Search',
+  'bank.useSelected': { one: '✅ Use {count} Selected Question', other: '✅ Use {count} Selected Questions' },
+  'bank.sectionShortage': '{title}: the bank has only {count} of {total} matching questions',
+  'bank.assembleHint': 'Draw random questions from the bank following the blueprint, filtered by the subject and tag above',
+  'bank.assemble': '🎲 Assemble Exam from Blueprint',
+  'bank.noResults': 'No matching questions.',
+  'bank.showing': 'Showing {count} of {total} questions.',
+  'bank.delete': 'Delete from bank',
+  'bank.confirmDelete': 'Delete this question from the bank?',
+  'bank.deleteFailed': 'Failed to delete the question',
+  'bank.searchFailed': 'Failed to search the question bank',
+  'bank.assembleFailed': 'Failed to assemble an exam from the question bank',
+  'bank.save': '💾 Save to Question Bank',
+  'bank.tagsPlaceholder': 'Tags, separated by commas (e.g. grade 10, cells)',
+  'bank.saving': '⏳ Saving...',
+  'bank.saveButton': '💾 Save',
+  'bank.saveHint': 'The subject is taken from the exam header{subject}. The source material is saved as well.',
+  'bank.saved': { one: '✅ {count} question saved to the bank', other: '✅ {count} questions saved to the bank' },
+  'bank.skipped': { one: ', {count} question already existed and was skipped', other: ', {count} questions already existed and were skipped' },
+  'bank.saveFailed': 'Failed to save questions to the bank',
+  'bank.confirmSimilar': {
+    one: '{count} question is similar to one already in the bank. Save all questions anyway?',
+    other: '{count} questions are similar to ones already in the bank. Save all questions anyway?'
+  },
+
+  'results.title': '📚 Generated Questions ({questions}{points})',
+  'results.progress': '⏳ {count}/{total} questions',
+  'results.done': '✅ Generated',
+  'results.bloomDistribution': '🧠 Level distribution:',
+  'results.newQuestions': '🔄 Generate New Questions',
+
+  'section.pointsPerQuestion': { one: '{count} point per question', other: '{count} points per question' },
+  'section.chunk': 'Part {number}',
+
+  'question.title': 'Question {number}',
+  'question.page': '📄 p. {page}',
+  'question.edit': '✏️ Edit',
+  'question.regenerate': '🔄 Regenerate',
+  'question.regenerateNumbered': '🔄 Regenerate Question {number}',
+  'question.regenerating': '⏳ Regenerating...',
+  'question.regenerateNeedsMaterial': 'Fill in the learning material to regenerate questions',
+  'question.regenerateHint': 'Replace this question with a new one from the material',
+  'question.regenerateFailed': 'Failed to regenerate the question',
+  'question.error': 'Question {number}: {error}',
+  'question.answerPlaceholder': 'Write your answer...',
+  'question.essayPlaceholder': 'Write your essay answer here...',
+  'question.rubric': '📋 Scoring Rubric',
+  'question.modelAnswer': 'Model answer points:',
+  'question.discussion': 'Explanation:',
+  'question.hint': 'Hint:',
+
+  'editor.title': '✏️ Edit Question {number}',
+  'editor.question': 'Question',
+  'editor.options': 'Options (choose the answer key)',
+  'editor.answerKey': 'Answer key',
+  'editor.pairs': 'Pairs (left → right)',
+  'editor.explanation': 'Explanation',
+  'editor.save': '💾 Save Changes',
+
+  'grounding.title': '🔍 Alignment with Material',
+  'grounding.checking': '⏳ Checking questions...',
+  'grounding.needsMaterial': 'Fill in the learning material to check the questions',
+  'grounding.checkAi': '🤖 Check with AI',
+  'grounding.recheck': '🔍 Check Again',
+  'grounding.failed': 'Failed to check the questions against the material',
+  'grounding.judgeFailed': 'The AI check failed; results are based on text matching with the material only.',
+  'grounding.notChecked': 'Questions have not been checked yet.',
+  'grounding.flaggedSummary': {
+    one: '⚠️ {count} question should be reviewed before exporting.',
+    other: '⚠️ {count} questions should be reviewed before exporting.'
+  },
+  'grounding.okSummary': {
+    one: '✅ {count} question matches the material.',
+    other: '✅ {count} questions match the material.'
+  },
+  'grounding.uncheckedSummary': {
+    one: ' {count} question (edited/regenerated) has not been checked.',
+    other: ' {count} questions (edited/regenerated) have not been checked.'
+  },
+  'grounding.flagged': '⚠️ Needs review',
+  'grounding.supported': '✅ Matches material',
+  'grounding.evidence': 'Material quote: {evidence}',
+  'grounding.warning': '⚠️ This question may not match the material',
+  'grounding.nearestEvidence': 'Closest material quote:',
+  'grounding.confirmExport': {
+    one: '{count} question is flagged as possibly not matching the material. Export anyway?',
+    other: '{count} questions are flagged as possibly not matching the material. Export anyway?'
+  },
+
+  'duplicates.title': '🧬 Similar Questions',
+  'duplicates.checking': '⏳ Looking for similar questions in the bank...',
+  'duplicates.checkBank': '🗄️ Check Question Bank',
+  'duplicates.failed': 'Failed to check the question bank for similar questions',
+  'duplicates.none': '✅ No questions are similar to each other or to questions in the bank.',
+  'duplicates.clusters': {
+    one: '⚠️ {count} group of similar questions.',
+    other: '⚠️ {count} groups of similar questions.'
+  },
+  'duplicates.inBank': {
+    one: '⚠️ {count} question is similar to a question in the bank.',
+    other: '⚠️ {count} questions are similar to questions in the bank.'
+  },
+  'duplicates.cluster': 'Questions {numbers} ask almost the same thing ({similarity}% similar)',
+  'duplicates.bankMatch': 'Question {number} is similar to bank question #{id} ({similarity}% similar):',
+  'duplicates.badge': '🧬 Similar to question {number}',
+  'duplicates.bankBadge': '🗄️ Similar to bank question #{id} · {similarity}%',
+
+  'distractors.title': '🎯 Distractor Quality',
+  'distractors.weakSummary': {
+    one: '⚠️ {count} multiple-choice question has weak distractors.',
+    other: '⚠️ {count} multiple-choice questions have weak distractors.'
+  },
+  'distractors.okSummary': '✅ The distractors of every multiple-choice question follow the item-writing rules.',
+  'distractors.improveAll': '🤖 Improve All Weak Distractors',
+  'distractors.improve': '🤖 Improve Distractors',
+  'distractors.improving': '⏳ Improving...',
+  'distractors.scoreHint': 'Distractor quality score',
+  'distractors.badge': '🎯 Distractors {score}%',
+  'distractors.weakOption': '⚠️ Weak distractor',
+  'distractors.needsWork': '🎯 Distractors need improvement',
+  'distractors.improved': {
+    one: '✅ Distractors of {count} question updated.',
+    other: '✅ Distractors of {count} questions updated.'
+  },
+  'distractors.unchanged': 'The new distractors are not better than the old ones; the question was not changed.',
+  'distractors.failed': 'Failed to improve the distractors',
+
+  'translation.title': '🌐 Translate Questions',
+  'translation.translate': '🌐 Translate',
+  'translation.translating': '⏳ Translating...',
+  'translation.confirm': 'All questions will be replaced with their translation into {language}. Continue?',
+  'translation.done': {
+    one: '✅ {count} question translated into {language}.',
+    other: '✅ {count} questions translated into {language}.'
+  },
+  'translation.failed': 'Failed to translate the questions',
+
+  'quiz.title': '🎯 Quiz Mode',
+  'quiz.timeLimit': 'Quiz time limit',
+  'quiz.noLimit': 'No time limit',
+  'quiz.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'quiz.start': '▶️ Start Quiz',
+  'quiz.position': 'Question {number} of {total}',
+  'quiz.answered': '{count} answered',
+  'quiz.previous': '← Previous',
+  'quiz.next': 'Next →',
+  'quiz.submit': '✅ Submit Answers',
+  'quiz.confirmSubmit': {
+    one: '{count} question is still unanswered. Submit now?',
+    other: '{count} questions are still unanswered. Submit now?'
+  },
+  'quiz.result': '🏁 Quiz Result',
+  'quiz.manualPending': {
+    one: '📝 {count} essay question ({points} points) awaits teacher grading and is not included in the score above.',
+    other: '📝 {count} essay questions ({points} points) await teacher grading and are not included in the score above.'
+  },
+  'quiz.duration': '⏱️ Time taken: {duration}',
+  'quiz.timedOut': ' (time ran out, answers were submitted automatically)',
+  'quiz.retry': '🔁 Retry Quiz',
+  'quiz.exit': '✖️ Exit Quiz Mode',
+  'quiz.expected': 'Correct answer:',
+  'quiz.status.correct': '✅ Correct',
+  'quiz.status.partial': '🟡 Partially correct',
+  'quiz.status.incorrect': '❌ Incorrect',
+  'quiz.status.unanswered': '⚪ Not answered',
+  'quiz.status.manual': '📝 Awaiting grading',
+
+  'essay.grading': '⏳ Grading...',
+  'essay.grade': '🤖 Grade with AI',
+  'essay.score': 'Rubric score: {score}/{max}',
+  'essay.overridden': ' (adjusted by teacher)',
+  'essay.editScore': 'Change criterion score',
+  'essay.aiScore': 'AI score: {score}',
+  'essay.failed': 'Failed to grade the essay answer',
+
+  'print.title': '🖨️ Exam Header',
+  'print.school': 'School name',
+  'print.subject': 'Subject',
+  'print.className': 'Class',
+  'print.date': 'Date',
+  'print.variantCount': 'Number of exam versions',
+  'print.oneVariant': '1 version',
+  'print.variants': '{count} versions (A-{last})',
+  'print.seed': 'Shuffle code (automatic)',
+  'print.seedHint': 'The same shuffle code produces the same versions',
+  'print.letterhead': '📎 DOCX letterhead template',
+  'print.letterheadHint': 'Optional: choose a .docx file with the school letterhead',
+
+  'export.lms': '📤 Export to LMS',
+  'export.preparing': '⏳ Preparing...',
+  'export.download': '⬇️ Download',
+  'export.txt': '📄 Download TXT',
+  'export.studentPdf': '📝 Student PDF',
+  'export.keyPdf': '🔑 Answer Key PDF',
+  'export.docx': '📘 DOCX Questions + Key',
+  'export.docxFailed': 'Failed to create the DOCX file',
+  'export.failed': 'Failed to create the export file',
+  'export.pdfFailed': 'Failed to create the PDF file',
+
+  'document.instruction.multiple-choice': 'Choose the one best answer by marking a cross (X) on the letter A, B, C or D!',
+  'document.instruction.essay': 'Answer the following questions clearly and completely!',
+  'document.instruction.true-false': 'Circle T if the statement is true or F if the statement is false!',
+  'document.instruction.fill-in-the-blank': 'Fill in the blanks with the correct answer!',
+  'document.instruction.matching': 'Match each statement in the left column with the correct answer in the right column!',
+  'document.instruction.short-answer': 'Answer the following questions briefly!',
+  'document.answer': 'Answer:',
+  'document.leftColumn': 'Left Column:',
+  'document.rightColumn': 'Right Column:',
+  'document.rubric': 'Rubric (maximum score {score}):',
+  'document.bloomTag': 'Cognitive level: {level}',
+  'document.objectiveTag': 'Objective: {objective}',
+  'document.sourceTag': 'Source: page {page}',
+  'document.examTitle': 'EXAM PAPER',
+  'document.defaultSchool': 'Exam Paper',
+  'document.answerKeyTitle': 'ANSWER KEY',
+  'document.answerKeyPages': 'Key',
+  'document.subject': 'Subject',
+  'document.className': 'Class',
+  'document.classDetail': 'Class {className}',
+  'document.date': 'Date',
+  'document.name': 'Name',
+  'document.rollNumber': 'Student No.',
+  'document.variant': 'Version',
+  'document.variantLabel': 'Version {label}',
+  'document.trueFalseChoices': 'T  /  F',
+  'document.teacherOnly': 'For teachers - do not distribute to students',
+  'document.seed': 'Shuffle code: {seed}',
+  'document.scoringGuide': 'Scoring guide:',
+  'document.canonicalNumber': 'No. in version A: {number}',
+  'document.maxScore': 'Maximum score: {score}',
+  'document.page': 'Page',
+  'document.pageNumber': 'Page {page}/{total}',
+
+  'txt.questionCount': 'Number of Questions: {count}',
+  'txt.totalPoints': 'Total Points: {count}',
+  'txt.questionType': 'Question Type: {type}',
+  'txt.difficulty': 'Difficulty: {difficulty}',
+  'txt.date': 'Date: {date}',
+  'txt.question': 'QUESTION {number}',
+  'txt.prompt': 'Question:',
+  'txt.options': 'Answer Choices:',
+  'txt.answerKey': 'Answer Key: {answer}',
+  'txt.essayNote': '[Essay answer - see the explanation for guidance]',
+  'txt.explanation': 'Explanation:',
+  'txt.poweredBy': 'Powered by {provider}'
+};
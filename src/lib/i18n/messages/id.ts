@@ -0,0 +1,342 @@
+import { Message } from '../types';
+
+/**
+ * Teks antarmuka bahasa Indonesia. Kamus ini menjadi acuan kunci pesan;
+ * kamus bahasa lain wajib memuat kunci yang sama.
+ */
+export const id = {
+  'app.subtitle': 'Buat soal ujian otomatis dari materi pembelajaran menggunakan teknologi AI',
+  'app.badgeFast': '⚡ Cepat & Otomatis',
+  'app.badgeTypes': '📚 6 Jenis Soal',
+  'app.badgeAi': '🎯 AI Powered',
+  'app.language': 'Bahasa antarmuka',
+
+  'questionType.multiple-choice': 'Pilihan Ganda',
+  'questionType.essay': 'Esai',
+  'questionType.true-false': 'Benar/Salah',
+  'questionType.fill-in-the-blank': 'Isian',
+  'questionType.matching': 'Menjodohkan',
+  'questionType.short-answer': 'Jawaban Singkat',
+
+  'difficulty.easy': 'Mudah',
+  'difficulty.medium': 'Sedang',
+  'difficulty.hard': 'Sulit',
+
+  'bloom.remember': 'Mengingat',
+  'bloom.understand': 'Memahami',
+  'bloom.apply': 'Menerapkan',
+  'bloom.analyze': 'Menganalisis',
+  'bloom.evaluate': 'Mengevaluasi',
+  'bloom.create': 'Mencipta',
+  'bloomVerbs.remember': 'menyebutkan, mendefinisikan, mengidentifikasi',
+  'bloomVerbs.understand': 'menjelaskan, membedakan, memberi contoh',
+  'bloomVerbs.apply': 'menghitung, menggunakan, menerapkan pada situasi baru',
+  'bloomVerbs.analyze': 'menguraikan, membandingkan, menemukan hubungan sebab-akibat',
+  'bloomVerbs.evaluate': 'menilai, mengkritik, memberi argumen',
+  'bloomVerbs.create': 'merancang, menyusun, merumuskan',
+
+  'answer.true': 'Benar',
+  'answer.false': 'Salah',
+
+  'common.cancel': 'Batal',
+  'common.remove': 'Hapus',
+  'common.points': '{count} poin',
+  'common.questions': '{count} soal',
+  'common.unexpectedError': 'Terjadi kesalahan. Silakan coba lagi.',
+  'time.seconds': '{count} detik',
+  'time.minutes': '{count} menit',
+  'time.hours': '{count} jam',
+  'limit.rateLimit': 'Terlalu banyak permintaan. Tunggu {wait} lalu coba lagi.',
+  'apiError.invalid-request': 'isi permintaan tidak valid',
+  'apiError.invalid-questions': 'data soal tidak valid',
+  'apiError.invalid-blueprint': 'blueprint tidak valid',
+  'apiError.material-too-short': 'materi terlalu singkat',
+  'apiError.material-too-long': 'materi maksimal {limit} karakter',
+  'apiError.file-missing': 'tidak ada file yang diupload',
+  'apiError.file-too-large': 'ukuran file maksimal {limit}MB',
+  'apiError.unsupported-file': 'tipe file tidak didukung',
+  'apiError.text-not-found': 'tidak ada teks yang bisa dibaca di file',
+  'apiError.extraction-failed': 'file tidak bisa dibaca',
+  'apiError.not-found': 'soal tidak ditemukan di bank',
+  'apiError.duplicate-question': 'soal yang sama sudah ada di bank',
+  'apiError.bank-no-match': 'tidak ada soal di bank yang cocok dengan blueprint',
+  'apiError.content-length-required': 'ukuran permintaan tidak diketahui',
+  'apiError.request-too-large': 'ukuran permintaan maksimal {limit}MB',
+  'apiError.rate-limit-unconfigured': 'batas permintaan server belum dikonfigurasi, hubungi administrator',
+  'apiError.generation-failed': 'layanan AI sedang bermasalah, silakan coba lagi',
+  'apiError.server-error': 'terjadi kesalahan di server, silakan coba lagi',
+  'limit.quota': 'Sisa kuota harian pembuatan soal tidak mencukupi. Kurangi jumlah soal atau tunggu reset kuota dalam {wait}.',
+
+  'material.label': '📝 Materi Pembelajaran',
+  'material.placeholder': 'Masukkan materi pembelajaran di sini...\n\nContoh:\nPhotosintesis adalah proses biologi yang mengubah energi cahaya menjadi energi kimia. Proses ini terjadi di kloroplas dan melibatkan klorofil. Hasil utama fotosintesis adalah glukosa dan oksigen.',
+  'material.hint': '📝 Ketik atau upload materi pembelajaran minimal 50 karakter · {count} karakter',
+  'material.required': 'Materi pembelajaran harus diisi',
+  'material.tooShort': 'materi terlalu singkat',
+
+  'upload.extracting': 'Mengekstrak teks dari file...',
+  'upload.drop': '📂 Seret file ke sini atau klik untuk memilih',
+  'upload.maxSize': 'maksimal 10MB',
+  'upload.textFrom': '✅ Teks dari',
+  'upload.ocr': ', dibaca dengan OCR',
+  'upload.review': 'silakan periksa dan edit sebelum membuat soal',
+  'upload.failed': 'Gagal mengekstrak teks dari file',
+  'upload.error': 'Terjadi kesalahan saat mengupload file. Silakan coba lagi.',
+  'upload.selectSections': '📑 Pilih bab atau halaman ({selected}/{total} bab{pages})',
+  'upload.selectedPages': ', hal. {from}-{to} dari {count}',
+  'upload.selectionHint': 'Mengubah pilihan akan menyusun ulang materi dan menimpa suntingan di kotak teks.',
+  'upload.pages': 'Halaman',
+  'upload.pageTo': 'sampai',
+  'upload.page': 'hal. {page}',
+
+  'mode.single': '📋 Satu Jenis Soal',
+  'mode.blueprint': '🧩 Blueprint Ujian',
+
+  'blueprint.sectionTitle': 'Judul bagian',
+  'blueprint.questionType': 'Jenis soal',
+  'blueprint.count': 'Jumlah',
+  'blueprint.difficulty': 'Kesulitan',
+  'blueprint.anyDifficulty': 'Bebas',
+  'blueprint.points': 'Poin',
+  'blueprint.removeSection': 'Hapus bagian',
+  'blueprint.addSection': '➕ Tambah Bagian',
+
+  'form.questionType': '📋 Jenis Soal',
+  'form.questionCount': '🔢 Jumlah Soal',
+  'form.questionCountHint': '1-10 soal',
+  'form.difficulty': '📈 Tingkat Kesulitan',
+  'form.language': '🌐 Bahasa Soal',
+  'form.languageHint': 'Bahasa soal boleh berbeda dari bahasa materi',
+  'form.bloom': '🧠 Level Kognitif (Bloom)',
+  'form.bloomVerbs': 'Kata kerja: {verbs}',
+  'form.bloomSelected': 'Soal dibagi merata ke level yang dipilih',
+  'form.bloomEmpty': 'Kosongkan untuk membiarkan AI memilih level',
+  'form.objectives': '🎯 Tujuan Pembelajaran',
+  'form.objectivesPlaceholder': 'Satu tujuan per baris, misalnya:\n3.1 Menjelaskan proses fotosintesis',
+  'form.generating': '🤖 Menghasilkan Soal... ({count}/{total})',
+  'form.generate': 'Hasilkan Soal dengan AI',
+  'form.cancel': '⏹️ Batalkan',
+
+  'generate.failed': 'Gagal menghasilkan soal',
+  'generate.partial': '{error} ({count} soal berhasil dibuat)',
+
+  'bank.title': '🗄️ Bank Soal',
+  'bank.open': '▼ Buka',
+  'bank.close': '▲ Tutup',
+  'bank.searchPlaceholder': 'Cari teks soal...',
+  'bank.allTypes': 'Semua jenis',
+  'bank.allDifficulties': 'Semua tingkat',
+  'bank.subject': 'Mata pelajaran',
+  'bank.tag': 'Tag',
+  'bank.searching': '⏳ Mencari...',
+  'bank.search': '🔍 Cari',
+  'bank.useSelected': '✅ Gunakan {count} Soal Terpilih',
+  'bank.sectionShortage': '{title}: bank soal hanya memiliki {count} dari {total} soal yang cocok',
+  'bank.assembleHint': 'Ambil soal acak dari bank sesuai blueprint, difilter mata pelajaran dan tag di atas',
+  'bank.assemble': '🎲 Susun Ujian dari Blueprint',
+  'bank.noResults': 'Tidak ada soal yang cocok.',
+  'bank.showing': 'Menampilkan {count} dari {total} soal.',
+  'bank.delete': 'Hapus dari bank',
+  'bank.confirmDelete': 'Hapus soal ini dari bank?',
+  'bank.deleteFailed': 'Gagal menghapus soal',
+  'bank.searchFailed': 'Gagal mencari di bank soal',
+  'bank.assembleFailed': 'Gagal menyusun ujian dari bank soal',
+  'bank.save': '💾 Simpan ke Bank Soal',
+  'bank.tagsPlaceholder': 'Tag, pisahkan dengan koma (mis. kelas x, sel)',
+  'bank.saving': '⏳ Menyimpan...',
+  'bank.saveButton': '💾 Simpan',
+  'bank.saveHint': 'Mata pelajaran diambil dari kop naskah{subject}. Materi sumber ikut disimpan.',
+  'bank.saved': '✅ {count} soal disimpan ke bank',
+  'bank.skipped': ', {count} soal sudah ada dan dilewati',
+  'bank.saveFailed': 'Gagal menyimpan soal ke bank',
+  'bank.confirmSimilar': '{count} soal mirip dengan soal yang sudah ada di bank. Tetap simpan semua soal?',
+
+  'results.title': '📚 Hasil Soal ({questions}{points})',
+  'results.progress': '⏳ {count}/{total} soal',
+  'results.done': '✅ Berhasil Dibuat',
+  'results.bloomDistribution': '🧠 Sebaran level:',
+  'results.newQuestions': '🔄 Buat Soal Baru',
+
+  'section.pointsPerQuestion': '{count} poin per soal',
+  'section.chunk': 'Bagian {number}',
+
+  'question.title': 'Soal {number}',
+  'question.page': '📄 Hal. {page}',
+  'question.edit': '✏️ Edit',
+  'question.regenerate': '🔄 Buat Ulang',
+  'question.regenerateNumbered': '🔄 Buat Ulang Soal {number}',
+  'question.regenerating': '⏳ Membuat ulang...',
+  'question.regenerateNeedsMaterial': 'Isi materi pembelajaran untuk membuat ulang soal',
+  'question.regenerateHint': 'Ganti soal ini dengan soal baru dari materi',
+  'question.regenerateFailed': 'Gagal membuat ulang soal',
+  'question.error': 'Soal {number}: {error}',
+  'question.answerPlaceholder': 'Tulis jawaban Anda...',
+  'question.essayPlaceholder': 'Tulis jawaban esai Anda di sini...',
+  'question.rubric': '📋 Rubrik Penilaian',
+  'question.modelAnswer': 'Poin jawaban ideal:',
+  'question.discussion': 'Pembahasan:',
+  'question.hint': 'Petunjuk:',
+
+  'editor.title': '✏️ Edit Soal {number}',
+  'editor.question': 'Pertanyaan',
+  'editor.options': 'Opsi (pilih kunci jawaban)',
+  'editor.answerKey': 'Kunci jawaban',
+  'editor.pairs': 'Pasangan (kiri → kanan)',
+  'editor.explanation': 'Penjelasan',
+  'editor.save': '💾 Simpan Perubahan',
+
+  'grounding.title': '🔍 Kesesuaian dengan Materi',
+  'grounding.checking': '⏳ Memeriksa soal...',
+  'grounding.needsMaterial': 'Isi materi pembelajaran untuk memeriksa soal',
+  'grounding.checkAi': '🤖 Cek dengan AI',
+  'grounding.recheck': '🔍 Cek Ulang',
+  'grounding.failed': 'Gagal memeriksa kesesuaian soal',
+  'grounding.judgeFailed': 'Penilaian AI gagal, hasil hanya berdasarkan kecocokan teks dengan materi.',
+  'grounding.notChecked': 'Soal belum diperiksa.',
+  'grounding.flaggedSummary': '⚠️ {count} soal perlu dicek ulang sebelum diekspor.',
+  'grounding.okSummary': '✅ {count} soal sesuai materi.',
+  'grounding.uncheckedSummary': ' {count} soal (diedit/dibuat ulang) belum diperiksa.',
+  'grounding.flagged': '⚠️ Perlu dicek',
+  'grounding.supported': '✅ Sesuai materi',
+  'grounding.evidence': 'Kutipan materi: {evidence}',
+  'grounding.warning': '⚠️ Soal ini mungkin tidak sesuai materi',
+  'grounding.nearestEvidence': 'Kutipan materi terdekat:',
+  'grounding.confirmExport': '{count} soal ditandai mungkin tidak sesuai materi. Tetap lanjutkan export?',
+
+  'duplicates.title': '🧬 Soal Mirip',
+  'duplicates.checking': '⏳ Mencari soal mirip di bank...',
+  'duplicates.checkBank': '🗄️ Cek Bank Soal',
+  'duplicates.failed': 'Gagal memeriksa soal mirip di bank soal',
+  'duplicates.none': '✅ Tidak ada soal yang mirip satu sama lain atau dengan soal di bank.',
+  'duplicates.clusters': '⚠️ {count} kelompok soal saling mirip.',
+  'duplicates.inBank': '⚠️ {count} soal mirip dengan soal di bank.',
+  'duplicates.cluster': 'Soal {numbers} menanyakan hal yang hampir sama ({similarity}% mirip)',
+  'duplicates.bankMatch': 'Soal {number} mirip soal bank #{id} ({similarity}% mirip):',
+  'duplicates.badge': '🧬 Mirip soal {number}',
+  'duplicates.bankBadge': '🗄️ Mirip soal bank #{id} · {similarity}%',
+
+  'distractors.title': '🎯 Kualitas Pengecoh',
+  'distractors.weakSummary': '⚠️ {count} soal pilihan ganda memiliki pengecoh lemah.',
+  'distractors.okSummary': '✅ Pengecoh semua soal pilihan ganda sudah memenuhi kaidah penulisan soal.',
+  'distractors.improveAll': '🤖 Perbaiki Semua Pengecoh Lemah',
+  'distractors.improve': '🤖 Perbaiki Pengecoh',
+  'distractors.improving': '⏳ Memperbaiki...',
+  'distractors.scoreHint': 'Skor kualitas pengecoh',
+  'distractors.badge': '🎯 Pengecoh {score}%',
+  'distractors.weakOption': '⚠️ Pengecoh lemah',
+  'distractors.needsWork': '🎯 Pengecoh perlu diperbaiki',
+  'distractors.improved': '✅ Pengecoh {count} soal diperbarui.',
+  'distractors.unchanged': 'Pengecoh baru tidak lebih baik dari yang lama, soal tidak diubah.',
+  'distractors.failed': 'Gagal memperbaiki pengecoh',
+
+  'translation.title': '🌐 Terjemahkan Soal',
+  'translation.translate': '🌐 Terjemahkan',
+  'translation.translating': '⏳ Menerjemahkan...',
+  'translation.confirm': 'Semua soal akan diganti dengan terjemahannya dalam {language}. Lanjutkan?',
+  'translation.done': '✅ {count} soal diterjemahkan ke {language}.',
+  'translation.failed': 'Gagal menerjemahkan soal',
+
+  'quiz.title': '🎯 Mode Kuis',
+  'quiz.timeLimit': 'Batas waktu kuis',
+  'quiz.noLimit': 'Tanpa batas waktu',
+  'quiz.minutes': '{count} menit',
+  'quiz.start': '▶️ Mulai Kuis',
+  'quiz.position': 'Soal {number} dari {total}',
+  'quiz.answered': '{count} terjawab',
+  'quiz.previous': '← Sebelumnya',
+  'quiz.next': 'Berikutnya →',
+  'quiz.submit': '✅ Kumpulkan Jawaban',
+  'quiz.confirmSubmit': 'Masih ada {count} soal yang belum dijawab. Kumpulkan sekarang?',
+  'quiz.result': '🏁 Hasil Kuis',
+  'quiz.manualPending': '📝 {count} soal esai ({points} poin) menunggu penilaian guru dan belum termasuk nilai di atas.',
+  'quiz.duration': '⏱️ Waktu pengerjaan: {duration}',
+  'quiz.timedOut': ' (waktu habis, jawaban dikumpulkan otomatis)',
+  'quiz.retry': '🔁 Ulangi Kuis',
+  'quiz.exit': '✖️ Keluar dari Mode Kuis',
+  'quiz.expected': 'Jawaban benar:',
+  'quiz.status.correct': '✅ Benar',
+  'quiz.status.partial': '🟡 Sebagian benar',
+  'quiz.status.incorrect': '❌ Salah',
+  'quiz.status.unanswered': '⚪ Tidak dijawab',
+  'quiz.status.manual': '📝 Menunggu penilaian',
+
+  'essay.grading': '⏳ Menilai...',
+  'essay.grade': '🤖 Nilai dengan AI',
+  'essay.score': 'Skor rubrik: {score}/{max}',
+  'essay.overridden': ' (diubah guru)',
+  'essay.editScore': 'Ubah skor kriteria',
+  'essay.aiScore': 'Skor AI: {score}',
+  'essay.failed': 'Gagal menilai jawaban esai',
+
+  'print.title': '🖨️ Kop Naskah Ujian',
+  'print.school': 'Nama sekolah',
+  'print.subject': 'Mata pelajaran',
+  'print.className': 'Kelas',
+  'print.date': 'Tanggal',
+  'print.variantCount': 'Jumlah paket soal',
+  'print.oneVariant': '1 paket',
+  'print.variants': '{count} paket (A-{last})',
+  'print.seed': 'Kode acak (otomatis)',
+  'print.seedHint': 'Kode acak yang sama menghasilkan paket yang sama',
+  'print.letterhead': '📎 Template kop DOCX',
+  'print.letterheadHint': 'Opsional: pilih file .docx berisi kop sekolah',
+
+  'export.lms': '📤 Export ke LMS',
+  'export.preparing': '⏳ Menyiapkan...',
+  'export.download': '⬇️ Download',
+  'export.txt': '📄 Download TXT',
+  'export.studentPdf': '📝 PDF Soal Siswa',
+  'export.keyPdf': '🔑 PDF Kunci Jawaban',
+  'export.docx': '📘 DOCX Soal + Kunci',
+  'export.docxFailed': 'Gagal membuat file DOCX',
+  'export.failed': 'Gagal membuat file export',
+  'export.pdfFailed': 'Gagal membuat file PDF',
+
+  'document.instruction.multiple-choice': 'Pilihlah satu jawaban yang paling tepat dengan memberi tanda silang (X) pada huruf A, B, C atau D!',
+  'document.instruction.essay': 'Jawablah pertanyaan berikut dengan jelas dan lengkap!',
+  'document.instruction.true-false': 'Lingkarilah B jika pernyataan benar atau S jika pernyataan salah!',
+  'document.instruction.fill-in-the-blank': 'Isilah titik-titik berikut dengan jawaban yang tepat!',
+  'document.instruction.matching': 'Jodohkan pernyataan di kolom kiri dengan jawaban yang tepat di kolom kanan!',
+  'document.instruction.short-answer': 'Jawablah pertanyaan berikut dengan singkat!',
+  'document.answer': 'Jawaban:',
+  'document.leftColumn': 'Kolom Kiri:',
+  'document.rightColumn': 'Kolom Kanan:',
+  'document.rubric': 'Rubrik (skor maksimal {score}):',
+  'document.bloomTag': 'Level kognitif: {level}',
+  'document.objectiveTag': 'Tujuan: {objective}',
+  'document.sourceTag': 'Sumber: halaman {page}',
+  'document.examTitle': 'NASKAH SOAL',
+  'document.defaultSchool': 'Naskah Soal Ujian',
+  'document.answerKeyTitle': 'KUNCI JAWABAN',
+  'document.answerKeyPages': 'Kunci',
+  'document.subject': 'Mata Pelajaran',
+  'document.className': 'Kelas',
+  'document.classDetail': 'Kelas {className}',
+  'document.date': 'Tanggal',
+  'document.name': 'Nama',
+  'document.rollNumber': 'No. Absen',
+  'document.variant': 'Paket',
+  'document.variantLabel': 'Paket {label}',
+  'document.trueFalseChoices': 'B  /  S',
+  'document.teacherOnly': 'Untuk guru - jangan dibagikan kepada siswa',
+  'document.seed': 'Kode acak: {seed}',
+  'document.scoringGuide': 'Pedoman penskoran:',
+  'document.canonicalNumber': 'No. di paket A: {number}',
+  'document.maxScore': 'Skor maksimal: {score}',
+  'document.page': 'Halaman',
+  'document.pageNumber': 'Halaman {page}/{total}',
+
+  'txt.questionCount': 'Jumlah Soal: {count}',
+  'txt.totalPoints': 'Total Poin: {count}',
+  'txt.questionType': 'Jenis Soal: {type}',
+  'txt.difficulty': 'Tingkat Kesulitan: {difficulty}',
+  'txt.date': 'Tanggal: {date}',
+  'txt.question': 'SOAL {number}',
+  'txt.prompt': 'Pertanyaan:',
+  'txt.options': 'Pilihan Jawaban:',
+  'txt.answerKey': 'Kunci Jawaban: {answer}',
+  'txt.essayNote': '[Jawaban esai - lihat penjelasan untuk petunjuk]',
+  'txt.explanation': 'Penjelasan:',
+  'txt.poweredBy': 'Didukung oleh {provider}'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof id;
@@ -0,0 +1,43 @@
+import { DEFAULT_LOCALE, isLocale, Locale } from './index';
+
+/**
+ * Pilihan bahasa antarmuka yang disimpan di localStorage browser. Bentuknya
+ * mengikuti `useSyncExternalStore` agar halaman ikut berganti bahasa tanpa
+ * state tambahan, termasuk saat diubah dari tab lain.
+ */
+
+const STORAGE_KEY = 'examcraft-locale';
+const listeners = new Set<() => void>();
+let memoryLocale: Locale | undefined;
+
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+export function getStoredLocale(): Locale {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : DEFAULT_LOCALE;
+  } catch {
+    return memoryLocale ?? DEFAULT_LOCALE;
+  }
+}
+
+export function getServerLocale(): Locale {
+  return DEFAULT_LOCALE;
+}
+
+export function storeLocale(locale: Locale): void {
+  memoryLocale = locale;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Penyimpanan diblokir browser; pilihan hanya berlaku sampai halaman dimuat ulang
+  }
+  listeners.forEach(listener => listener());
+}
@@ -0,0 +1,9 @@
+/**
+ * Pesan antarmuka. Bentuk `{ one, other }` dipakai untuk pesan yang
+ * bergantung pada parameter `count` (bentuk tunggal/jamak).
+ */
+export type Message = string | { one: string; other: string };
+
+export type Locale = 'id' | 'en';
+
+export type MessageParams = Record<string, string | number | undefined>;
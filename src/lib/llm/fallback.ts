@@ -0,0 +1,306 @@
+import { createProvider, PROVIDER_NAMES } from './registry';
+import { CompletionRequest, CompletionResult, LLMError, LLMProvider, ProviderName } from './types';
+
+/**
+ * Satu langkah dalam rantai fallback: provider + model yang dicoba
+ */
+export interface FallbackTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+export interface RetryPolicy {
+  maxRetries: number; // jumlah retry per target setelah percobaan pertama
+  baseDelayMs: number; // delay awal exponential backoff
+  maxDelayMs: number;
+  timeoutMs: number; // batas waktu untuk setiap percobaan
+}
+
+export interface AttemptFailure {
+  provider: ProviderName;
+  model: string;
+  status?: number;
+  message: string;
+}
+
+export interface FallbackResult extends CompletionResult {
+  providerLabel: string;
+  attempts: number; // total percobaan termasuk yang berhasil
+  fallbackUsed: boolean; // true jika yang menjawab bukan target pertama
+  failures: AttemptFailure[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  timeoutMs: 30000
+};
+
+/**
+ * Error ketika semua target di rantai fallback gagal
+ */
+export class FallbackExhaustedError extends Error {
+  failures: AttemptFailure[];
+
+  constructor(failures: AttemptFailure[]) {
+    super(`Semua provider gagal setelah ${failures.length} percobaan`);
+    this.name = 'FallbackExhaustedError';
+    this.failures = failures;
+  }
+}
+
+function readNumberEnv(key: string, fallback: number): number {
+  const value = parseInt(process.env[key] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Baca retry policy dari LLM_MAX_RETRIES, LLM_RETRY_BASE_DELAY_MS,
+ * LLM_RETRY_MAX_DELAY_MS dan LLM_TIMEOUT_MS
+ */
+export function getRetryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxRetries: readNumberEnv('LLM_MAX_RETRIES', DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: readNumberEnv('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: readNumberEnv('LLM_RETRY_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+    timeoutMs: readNumberEnv('LLM_TIMEOUT_MS', DEFAULT_RETRY_POLICY.timeoutMs)
+  };
+}
+
+/**
+ * Baca rantai fallback dari LLM_FALLBACK_CHAIN, contoh:
+ * `openrouter:meta-llama/llama-3.2-3b-instruct:free,gemini:gemini-1.5-flash,openai-compatible:llama3.2`
+ *
+ * Hanya titik dua pertama yang memisahkan provider dan model, karena nama model
+ * OpenRouter sendiri bisa mengandung titik dua. Jika tidak diatur, rantai hanya
+ * berisi LLM_PROVIDER + LLM_MODEL. Target yang kredensialnya belum diatur dilewati.
+ */
+export function getFallbackChainFromEnv(): FallbackTarget[] {
+  const spec = process.env.LLM_FALLBACK_CHAIN?.trim()
+    || `${process.env.LLM_PROVIDER || 'openrouter'}${process.env.LLM_MODEL ? `:${process.env.LLM_MODEL}` : ''}`;
+
+  const chain: FallbackTarget[] = [];
+  for (const entry of spec.split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const name = (separator === -1 ? entry : entry.slice(0, separator)) as ProviderName;
+    const model = separator === -1 ? undefined : entry.slice(separator + 1) || undefined;
+
+    if (!PROVIDER_NAMES.includes(name)) {
+      console.warn(`⚠️ Provider tidak dikenal di LLM_FALLBACK_CHAIN: ${name}`);
+      continue;
+    }
+    try {
+      const provider = createProvider(name, model);
+      chain.push({ provider, model: model ?? provider.defaultModel });
+    } catch (error) {
+      console.warn(`⚠️ Melewati ${entry}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (chain.length === 0) {
+    throw new Error('Tidak ada provider LLM yang terkonfigurasi');
+  }
+  return chain;
+}
+
+/**
+ * 429 dan 5xx layak dicoba ulang, begitu juga timeout dan error jaringan (tanpa status)
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  // Jitter kecil supaya request paralel tidak retry bersamaan
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Signal untuk satu percobaan: batal jika pemanggil membatalkan atau jika
+ * tidak ada progres selama `timeoutMs`. `touch()` me-reset timer (dipakai saat streaming).
+ */
+function createAttemptSignal(target: FallbackTarget, parent: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(
+      () => controller.abort(new LLMError(target.provider.name, `Timeout setelah ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  };
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    // Laporkan alasan abort (mis. timeout) daripada AbortError generik
+    reason(error: unknown): unknown {
+      if (controller.signal.aborted && !parent?.aborted && controller.signal.reason instanceof Error) {
+        return controller.signal.reason;
+      }
+      return error;
+    },
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+function toFailure(target: FallbackTarget, error: unknown): AttemptFailure {
+  return {
+    provider: target.provider.name,
+    model: target.model,
+    status: error instanceof LLMError ? error.status : undefined,
+    message: error instanceof Error ? error.message : 'Unknown error'
+  };
+}
+
+/**
+ * Jalankan satu percobaan dengan timeout sendiri, tetap mengikuti signal dari pemanggil
+ */
+async function attemptWithTimeout(target: FallbackTarget, request: CompletionRequest, timeoutMs: number): Promise<CompletionResult> {
+  const attempt = createAttemptSignal(target, request.signal, timeoutMs);
+  try {
+    return await target.provider.complete({ ...request, model: target.model, signal: attempt.signal });
+  } catch (error) {
+    throw attempt.reason(error);
+  } finally {
+    attempt.dispose();
+  }
+}
+
+/**
+ * Coba setiap target secara berurutan. Setiap target dicoba ulang dengan
+ * exponential backoff untuk error yang bisa di-retry, lalu pindah ke target berikutnya.
+ */
+export async function completeWithFallback(
+  chain: FallbackTarget[],
+  request: CompletionRequest,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<FallbackResult> {
+  const failures: AttemptFailure[] = [];
+  let attempts = 0;
+
+  for (let index = 0; index < chain.length; index++) {
+    const target = chain[index];
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      if (request.signal?.aborted) throw request.signal.reason;
+      attempts++;
+
+      try {
+        console.log(`🚀 Attempt ${attempts}: ${target.provider.label} (${target.model})`);
+        const result = await attemptWithTimeout(target, request, policy.timeoutMs);
+        return {
+          ...result,
+          providerLabel: target.provider.label,
+          attempts,
+          fallbackUsed: index > 0,
+          failures
+        };
+      } catch (error) {
+        if (request.signal?.aborted) throw request.signal.reason;
+
+        const failure = toFailure(target, error);
+        failures.push(failure);
+        console.warn(`❌ Attempt ${attempts} gagal (${failure.status ?? 'no status'}): ${failure.message}`);
+
+        if (!isRetryable(error) || retry === policy.maxRetries) break;
+        await sleep(backoffDelay(policy, retry), request.signal);
+      }
+    }
+  }
+
+  throw new FallbackExhaustedError(failures);
+}
+
+export type StreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: FallbackResult };
+
+/**
+ * Versi streaming dari completeWithFallback. Retry dan fallback hanya dilakukan
+ * selama belum ada teks yang terkirim; jika stream putus di tengah jalan, error
+ * diteruskan ke pemanggil karena potongan yang sudah terkirim tidak bisa ditarik.
+ * Timeout berlaku sebagai batas jeda antar potongan, bukan total durasi.
+ */
+export async function* streamWithFallback(
+  chain: FallbackTarget[],
+  request: CompletionRequest,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): AsyncGenerator<StreamChunk> {
+  const failures: AttemptFailure[] = [];
+  let attempts = 0;
+
+  for (let index = 0; index < chain.length; index++) {
+    const target = chain[index];
+
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      if (request.signal?.aborted) throw request.signal.reason;
+      attempts++;
+
+      const attempt = createAttemptSignal(target, request.signal, policy.timeoutMs);
+      let content = '';
+      try {
+        console.log(`🚀 Stream attempt ${attempts}: ${target.provider.label} (${target.model})`);
+        for await (const text of target.provider.stream({ ...request, model: target.model, signal: attempt.signal })) {
+          attempt.touch();
+          content += text;
+          yield { type: 'delta', text };
+        }
+        yield {
+          type: 'done',
+          result: {
+            content,
+            model: target.model,
+            provider: target.provider.name,
+            providerLabel: target.provider.label,
+            attempts,
+            fallbackUsed: index > 0,
+            failures
+          }
+        };
+        return;
+      } catch (rawError) {
+        const error = attempt.reason(rawError);
+        if (request.signal?.aborted || content.length > 0) throw error;
+
+        const failure = toFailure(target, error);
+        failures.push(failure);
+        console.warn(`❌ Stream attempt ${attempts} gagal (${failure.status ?? 'no status'}): ${failure.message}`);
+
+        if (!isRetryable(error) || retry === policy.maxRetries) break;
+        await sleep(backoffDelay(policy, retry), request.signal);
+      } finally {
+        attempt.dispose();
+      }
+    }
+  }
+
+  throw new FallbackExhaustedError(failures);
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './registry';
+export * from './fallback';
+export * from './responses';
@@ -0,0 +1,73 @@
+import { GenerativeModel, GoogleGenerativeAI, GoogleGenerativeAIFetchError } from '@google/generative-ai';
+import { CompletionRequest, CompletionResult, LLMError, LLMProvider } from '../types';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-1.5-flash';
+
+function toLLMError(error: unknown): LLMError {
+  const status = error instanceof GoogleGenerativeAIFetchError ? error.status : undefined;
+  return new LLMError('gemini', `Gemini API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, status);
+}
+
+/**
+ * Adapter Google Gemini memakai @google/generative-ai
+ */
+export function createGeminiProvider(apiKey: string, defaultModel = GEMINI_DEFAULT_MODEL): LLMProvider {
+  const client = new GoogleGenerativeAI(apiKey);
+
+  /**
+   * Gemini memisahkan system instruction dari isi percakapan
+   */
+  function prepare(request: CompletionRequest): { model: GenerativeModel; modelName: string; contents: { role: string; parts: { text: string }[] }[] } {
+    const modelName = request.model ?? defaultModel;
+    const systemInstruction = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const contents = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }));
+
+    const model = client.getGenerativeModel({
+      model: modelName,
+      systemInstruction: systemInstruction || undefined,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature
+      }
+    });
+    return { model, modelName, contents };
+  }
+
+  return {
+    name: 'gemini',
+    label: 'Google Gemini',
+    defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const { model, modelName, contents } = prepare(request);
+      try {
+        const result = await model.generateContent({ contents }, { signal: request.signal });
+        return { content: result.response.text(), model: modelName, provider: 'gemini' };
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const { model, contents } = prepare(request);
+      // Error di tengah stream juga dikonversi supaya status dan klasifikasi retry tetap terbawa
+      try {
+        const result = await model.generateContentStream({ contents }, { signal: request.signal });
+        for await (const chunk of result.stream) {
+          const text = chunk.text();
+          if (text) yield text;
+        }
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { InferenceClient, InferenceClientProviderApiError } from '@huggingface/inference';
+import { CompletionRequest, CompletionResult, LLMError, LLMProvider } from '../types';
+
+export const HUGGINGFACE_DEFAULT_MODEL = 'meta-llama/Llama-3.2-3B-Instruct';
+
+function toLLMError(error: unknown): LLMError {
+  if (error instanceof LLMError) return error;
+  const status = error instanceof InferenceClientProviderApiError ? error.httpResponse.status : undefined;
+  return new LLMError('huggingface', `Hugging Face API Error: ${error instanceof Error ? error.message : 'Unknown error'}`, status);
+}
+
+/**
+ * Adapter Hugging Face Inference memakai @huggingface/inference
+ */
+export function createHuggingFaceProvider(accessToken: string, defaultModel = HUGGINGFACE_DEFAULT_MODEL): LLMProvider {
+  const client = new InferenceClient(accessToken);
+
+  function toArgs(request: CompletionRequest) {
+    return {
+      model: request.model ?? defaultModel,
+      messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+  }
+
+  return {
+    name: 'huggingface',
+    label: 'Hugging Face',
+    defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const args = toArgs(request);
+      try {
+        const output = await client.chatCompletion(args, { signal: request.signal });
+
+        const content = output.choices[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new LLMError('huggingface', 'Hugging Face mengembalikan response tanpa konten');
+        }
+        return { content, model: args.model, provider: 'huggingface' };
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      try {
+        for await (const chunk of client.chatCompletionStream(toArgs(request), { signal: request.signal })) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (error) {
+        throw toLLMError(error);
+      }
+    }
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { validateQuestionResponse } from '@/lib/questions/validation';
+import { QUESTION_TYPES } from '@/lib/questions/types';
+import { CompletionRequest, LLMError } from '../types';
+import { createMockProvider } from './mock';
+
+const MATERIAL = [
+  'Fotosintesis adalah proses tumbuhan hijau membuat makanan sendiri.',
+  'Proses ini membutuhkan cahaya matahari, air dan karbon dioksida.',
+  'Hasil fotosintesis berupa glukosa dan oksigen yang dilepas ke udara.',
+  'Klorofil pada daun berfungsi menyerap energi cahaya matahari.'
+].join(' ');
+
+function questionRequest(questionType: (typeof QUESTION_TYPES)[number], count: number, offset = 0): CompletionRequest {
+  return {
+    messages: [{ role: 'user', content: 'prompt apa pun' }],
+    task: { type: 'questions', questionType, count, material: MATERIAL, offset, bloomLevels: [] }
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let content = '';
+  for await (const chunk of stream) content += chunk;
+  return content;
+}
+
+describe('provider mock', () => {
+  it.each(QUESTION_TYPES)('menyusun soal %s yang lolos validasi', async questionType => {
+    const { content } = await createMockProvider().complete(questionRequest(questionType, 3));
+    const { valid, issues } = validateQuestionResponse(JSON.parse(content), questionType);
+
+    expect(issues).toEqual([]);
+    expect(valid).toHaveLength(3);
+  });
+
+  it('mengirim isi yang sama lewat stream', async () => {
+    const provider = createMockProvider();
+    const request = questionRequest('matching', 2);
+
+    const streamed = await collect(provider.stream(request));
+
+    expect(streamed).toBe((await provider.complete(request)).content);
+    expect(validateQuestionResponse(JSON.parse(streamed), 'matching').valid).toHaveLength(2);
+  });
+
+  it('tidak mengulang soal ronde sebelumnya saat offset digeser', async () => {
+    const provider = createMockProvider();
+    const first = JSON.parse((await provider.complete(questionRequest('essay', 2))).content);
+    const second = JSON.parse((await provider.complete(questionRequest('essay', 2, 2))).content);
+
+    const texts = [...first.questions, ...second.questions].map((question: { question: string }) => question.question);
+    expect(new Set(texts).size).toBe(4);
+  });
+
+  it('menolak permintaan tanpa task', async () => {
+    await expect(createMockProvider().complete({ messages: [{ role: 'user', content: 'Buat 2 soal esai' }] }))
+      .rejects.toBeInstanceOf(LLMError);
+  });
+});
@@ -0,0 +1,349 @@
+import { CompletionRequest, CompletionResult, CompletionTask, LLMError, LLMProvider } from '../types';
+
+export const MOCK_MODEL = 'mock-deterministic';
+
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_CHUNK_DELAY_MS = 15;
+
+type MockQuestionType = 'multiple-choice' | 'essay' | 'true-false' | 'fill-in-the-blank' | 'matching' | 'short-answer';
+
+type TaskOf<T extends CompletionTask['type']> = Extract<CompletionTask, { type: T }>;
+
+/**
+ * Pecah materi menjadi kalimat-kalimat yang cukup panjang untuk dijadikan soal
+ */
+function splitSentences(material: string): string[] {
+  const candidates = material
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 4);
+  // Utamakan kalimat utuh (berakhir tanda baca) agar baris heading tidak dijadikan soal
+  const sentences = candidates.filter(sentence => /[.!?]$/.test(sentence));
+  if (sentences.length > 0) return sentences;
+  return candidates.length > 0 ? candidates : [material.trim()];
+}
+
+/**
+ * Pecah kalimat menjadi bagian awal (stem) dan bagian akhir (jawaban)
+ */
+function splitSentence(sentence: string): [string, string] {
+  const words = sentence.replace(/[.!?]$/, '').split(/\s+/);
+  const cut = Math.max(1, Math.ceil(words.length / 2));
+  return [words.slice(0, cut).join(' '), words.slice(cut).join(' ') || words[words.length - 1]];
+}
+
+// Variasi kalimat pembuka supaya soal tetap berbeda saat materi lebih pendek dari jumlah soal
+const STEM_TEMPLATES = [
+  'Lengkapi pernyataan berikut sesuai materi',
+  'Bagian yang tepat untuk melengkapi kalimat berikut adalah',
+  'Menurut materi, lanjutan yang benar dari kalimat berikut adalah'
+];
+
+function stemTemplate(sentences: string[], index: number): string {
+  const round = Math.floor(index / sentences.length);
+  const template = STEM_TEMPLATES[round % STEM_TEMPLATES.length];
+  return round < STEM_TEMPLATES.length ? template : `${template} (variasi ${round + 1})`;
+}
+
+function buildMultipleChoice(sentences: string[], index: number) {
+  const sentence = sentences[index % sentences.length];
+  const [stem, answer] = splitSentence(sentence);
+
+  // Distraktor diambil dari bagian akhir kalimat lain agar tetap deterministik
+  const options = [answer];
+  for (let offset = 1; options.length < 4 && offset < sentences.length; offset++) {
+    const [, other] = splitSentence(sentences[(index + offset) % sentences.length]);
+    if (!options.includes(other)) options.push(other);
+  }
+  for (let filler = 1; options.length < 4; filler++) {
+    options.push(`Pernyataan pengecoh ${filler}`);
+  }
+
+  // Rotasi posisi jawaban benar supaya tidak selalu di opsi A
+  const shift = index % 4;
+  const rotated = [...options.slice(shift), ...options.slice(0, shift)];
+
+  return {
+    question: `${stemTemplate(sentences, index)}: "${stem} ..."`,
+    options: rotated,
+    correctAnswer: answer,
+    explanation: `Menurut materi: ${sentence}`
+  };
+}
+
+function buildEssay(sentences: string[], index: number) {
+  const sentence = sentences[index % sentences.length];
+  const round = Math.floor(index / sentences.length);
+  return {
+    question: `Jelaskan dengan kata-kata Anda sendiri maksud dari pernyataan berikut${round > 0 ? ` (sudut pandang ${round + 1})` : ''}: "${sentence}"`,
+    explanation: `Jawaban yang baik menguraikan poin: ${sentence}`,
+    rubric: {
+      criteria: [
+        {
+          name: 'Ketepatan isi',
+          maxScore: 4,
+          bands: [
+            { score: 4, description: 'Seluruh gagasan pernyataan dijelaskan dengan tepat' },
+            { score: 2, description: 'Sebagian gagasan dijelaskan dengan tepat' },
+            { score: 0, description: 'Penjelasan tidak sesuai materi' }
+          ]
+        },
+        {
+          name: 'Kejelasan bahasa',
+          maxScore: 2,
+          bands: [
+            { score: 2, description: 'Runtut dan memakai kata-kata sendiri' },
+            { score: 1, description: 'Cukup jelas tetapi sebagian menyalin materi' },
+            { score: 0, description: 'Tidak runtut atau hanya menyalin' }
+          ]
+        }
+      ],
+      modelAnswer: [sentence]
+    }
+  };
+}
+
+function buildTrueFalse(sentences: string[], index: number) {
+  const sentence = sentences[index % sentences.length];
+  const round = Math.floor(index / sentences.length);
+  const suffix = round > 0 ? ` (pernyataan ${round + 1})` : '';
+  // Pernyataan salah dibuat dengan menukar bagian akhir kalimat dengan kalimat lain
+  if (index % 2 === 1) {
+    const [stem] = splitSentence(sentence);
+    const [, otherEnd] = splitSentence(sentences[(index + 1) % sentences.length]);
+    const [, ownEnd] = splitSentence(sentence);
+    const statement = otherEnd !== ownEnd ? `${stem} ${otherEnd}.` : `Tidak benar bahwa ${sentence.charAt(0).toLowerCase()}${sentence.slice(1)}`;
+    return {
+      question: `${statement}${suffix}`,
+      correctAnswer: 'Salah',
+      explanation: `Menurut materi: ${sentence}`
+    };
+  }
+  return {
+    question: `${sentence}${suffix}`,
+    correctAnswer: 'Benar',
+    explanation: `Pernyataan ini sesuai dengan materi.`
+  };
+}
+
+/**
+ * Pilih kata kunci (kata terpanjang ke-n) dari kalimat untuk dijadikan jawaban
+ */
+function pickKeyword(sentence: string, rank: number): string {
+  const words = Array.from(new Set(sentence.replace(/[.!?,;:"]/g, '').split(/\s+/))).filter(word => word.length >= 4);
+  const sorted = words.sort((a, b) => b.length - a.length);
+  return sorted[rank % Math.max(sorted.length, 1)] ?? sentence.split(/\s+/)[0];
+}
+
+function buildFillInTheBlank(sentences: string[], index: number) {
+  const sentence = sentences[index % sentences.length];
+  const keyword = pickKeyword(sentence, Math.floor(index / sentences.length));
+  return {
+    question: sentence.replace(keyword, '_____'),
+    correctAnswer: keyword,
+    explanation: `Menurut materi: ${sentence}`
+  };
+}
+
+function buildMatching(sentences: string[], index: number) {
+  const pairs: { left: string; right: string }[] = [];
+  // Setiap set mulai dari kalimat berikutnya yang belum dipakai set sebelumnya
+  for (let offset = 0; pairs.length < 4 && offset < sentences.length; offset++) {
+    const [left, right] = splitSentence(sentences[(index * 4 + offset) % sentences.length]);
+    if (!pairs.some(pair => pair.left === left || pair.right === right)) pairs.push({ left: `${left} ...`, right });
+  }
+  for (let filler = 1; pairs.length < 3; filler++) {
+    pairs.push({ left: `Istilah tambahan ${filler}`, right: `Pasangan tambahan ${filler}` });
+  }
+  return {
+    question: `Jodohkan awal kalimat di kolom kiri dengan lanjutan yang tepat di kolom kanan (set ${index + 1})`,
+    pairs,
+    explanation: 'Setiap pasangan membentuk kalimat utuh dari materi.'
+  };
+}
+
+function buildShortAnswer(sentences: string[], index: number) {
+  const sentence = sentences[index % sentences.length];
+  const keyword = pickKeyword(sentence, Math.floor(index / sentences.length));
+  return {
+    question: `Sebutkan satu kata dari materi yang hilang pada pernyataan berikut: "${sentence.replace(keyword, '...')}"`,
+    correctAnswer: keyword,
+    explanation: `Menurut materi: ${sentence}`
+  };
+}
+
+const BUILDERS: Record<MockQuestionType, (sentences: string[], index: number) => object> = {
+  'multiple-choice': buildMultipleChoice,
+  essay: buildEssay,
+  'true-false': buildTrueFalse,
+  'fill-in-the-blank': buildFillInTheBlank,
+  matching: buildMatching,
+  'short-answer': buildShortAnswer
+};
+
+/**
+ * Nilai jawaban esai: skor setiap kriteria sebanding dengan porsi kata kunci
+ * jawaban ideal yang muncul di jawaban siswa
+ */
+function buildGrading({ rubric, answer: rawAnswer }: TaskOf<'grade-essay'>): string {
+  const answer = rawAnswer.toLowerCase();
+  const keywords = Array.from(new Set(rubric.modelAnswer.join(' ').toLowerCase().match(/[a-z0-9]{4,}/g) ?? []));
+  const found = keywords.filter(keyword => answer.includes(keyword)).length;
+  const ratio = keywords.length > 0 ? found / keywords.length : 0;
+
+  return JSON.stringify({
+    criteria: rubric.criteria.map(criterion => ({
+      name: criterion.name,
+      score: Math.round(criterion.maxScore * ratio),
+      justification: `Jawaban memuat ${found} dari ${keywords.length} kata kunci jawaban ideal.`
+    })),
+    feedback: ratio >= 0.5 ? 'Jawaban sudah mencakup sebagian besar poin penting.' : 'Lengkapi jawaban dengan poin-poin penting dari materi.'
+  });
+}
+
+/**
+ * Nilai kesesuaian soal: kunci jawaban dianggap benar jika teksnya muncul di
+ * kutipan materi yang disertakan
+ */
+function buildVerification({ items: entries }: TaskOf<'verify-questions'>): string {
+  return JSON.stringify({
+    verdicts: entries.map(entry => {
+      const passages = entry.passages.join(' ').toLowerCase();
+      // Benar/salah dan esai tidak punya kunci yang bisa dicari di teks
+      const answers = entry.pairs?.map(pair => pair.right)
+        ?? (entry.correctAnswer && !['Benar', 'Salah'].includes(entry.correctAnswer) ? [entry.correctAnswer] : []);
+      const found = answers.every(answer => passages.includes(answer.toLowerCase()));
+      return {
+        index: entry.index,
+        supported: entry.passages.length > 0,
+        answerCorrect: found,
+        confidence: found ? 0.9 : 0.3,
+        evidence: entry.passages[0] ?? '',
+        reason: found ? 'Kunci jawaban tercantum di kutipan materi.' : 'Kunci jawaban tidak ditemukan di kutipan materi.'
+      };
+    })
+  });
+}
+
+/**
+ * Pengecoh pengganti: bagian akhir kalimat kutipan materi (atau kata dari
+ * kutipan) yang belum dipakai sebagai opsi dan tidak memuat kunci, dengan
+ * huruf awal mengikuti kunci
+ */
+function buildDistractors({ items }: TaskOf<'improve-distractors'>): string {
+  return JSON.stringify({
+    items: items.map(item => {
+      const key = item.correctAnswer ?? '';
+      const used = Object.values(item.options).map(option => option.toLowerCase());
+      const sentences = splitSentences(item.passages.join(' '));
+      const candidates = [
+        ...sentences.map(sentence => splitSentence(sentence)[1]),
+        ...sentences.flatMap(sentence => sentence.replace(/[.!?,;:"]/g, '').split(/\s+/)).filter(word => word.length >= 4)
+      ]
+        .map(candidate => candidate.replace(/^(di|ke|dari)\s+/i, ''))
+        .map(candidate => /^[A-Z]/.test(key) ? candidate.charAt(0).toUpperCase() + candidate.slice(1) : candidate)
+        .filter(candidate => {
+          const [a, b] = [candidate.toLowerCase(), key.toLowerCase()];
+          return !a.includes(b) && !b.includes(a);
+        });
+      return {
+        index: item.index,
+        replacements: item.replace.map((option, offset) => {
+          const text = candidates.find(candidate => !used.includes(candidate.toLowerCase())) ?? `Pilihan lain ${offset + 1}`;
+          used.push(text.toLowerCase());
+          return { option, text };
+        })
+      };
+    })
+  });
+}
+
+/**
+ * "Terjemahan" soal: setiap teks diberi awalan kode bahasa tujuan, struktur
+ * dan urutannya tidak berubah. Kunci isian dan jawaban singkat dibiarkan
+ * supaya tetap lolos batas jumlah kata.
+ */
+function buildTranslation({ language, items }: TaskOf<'translate-questions'>): string {
+  const translate = (text: string) => `[${language}] ${text}`;
+  return JSON.stringify({
+    items: items.map(item => ({
+      index: item.index,
+      question: translate(item.question),
+      options: item.options?.map(translate),
+      correctAnswer: item.correctAnswer,
+      pairs: item.pairs?.map(pair => ({ left: translate(pair.left), right: translate(pair.right) })),
+      explanation: item.explanation && translate(item.explanation),
+      rubric: item.rubric && {
+        criteria: item.rubric.criteria.map(criterion => ({ name: translate(criterion.name), bands: criterion.bands.map(translate) })),
+        modelAnswer: item.rubric.modelAnswer.map(translate)
+      }
+    }))
+  });
+}
+
+/**
+ * Soal dari kalimat-kalimat materi. `offset` menggeser indeks awal supaya
+ * ronde perbaikan dan soal yang harus dihindari tidak menghasilkan soal yang sama.
+ */
+function buildQuestions({ questionType, count, material, offset, bloomLevels, objective }: TaskOf<'questions'>): string {
+  const sentences = splitSentences(material);
+  const build = BUILDERS[questionType as MockQuestionType] ?? buildEssay;
+  const levels = bloomLevels.length > 0 ? bloomLevels : ['C2'];
+  const questions = Array.from({ length: count }, (_, index) => ({
+    ...build(sentences, offset + index),
+    bloomLevel: levels[index % levels.length],
+    objective
+  }));
+  return JSON.stringify({ questions });
+}
+
+/**
+ * Susun output JSON dari data terstruktur permintaan tanpa memanggil model
+ */
+function buildContent(request: CompletionRequest): string {
+  const { task } = request;
+  switch (task?.type) {
+    case 'questions':
+      return buildQuestions(task);
+    case 'grade-essay':
+      return buildGrading(task);
+    case 'verify-questions':
+      return buildVerification(task);
+    case 'improve-distractors':
+      return buildDistractors(task);
+    case 'translate-questions':
+      return buildTranslation(task);
+    default:
+      throw new LLMError('mock', 'Provider mock membutuhkan data "task" pada permintaan', 400);
+  }
+}
+
+/**
+ * Provider tiruan yang deterministik untuk pengembangan dan pengujian offline.
+ * Soal disusun dari kalimat-kalimat materi tanpa memanggil model apa pun.
+ */
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    label: 'Mock (offline)',
+    defaultModel: MOCK_MODEL,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      return {
+        content: buildContent(request),
+        model: request.model ?? MOCK_MODEL,
+        provider: 'mock'
+      };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const content = buildContent(request);
+      // Kirim dalam potongan kecil untuk meniru token streaming
+      for (let start = 0; start < content.length; start += MOCK_CHUNK_SIZE) {
+        if (request.signal?.aborted) return;
+        yield content.slice(start, start + MOCK_CHUNK_SIZE);
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      }
+    }
+  };
+}
@@ -0,0 +1,97 @@
+import { CompletionRequest, CompletionResult, LLMError, LLMProvider, ProviderName } from '../types';
+
+interface OpenAICompatibleOptions {
+  name?: ProviderName;
+  label?: string;
+  baseUrl: string; // contoh: http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp)
+  apiKey?: string;
+  defaultModel: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Adapter untuk server yang mengikuti API chat completions OpenAI
+ * (OpenRouter, Ollama, llama.cpp server, LM Studio, vLLM, dll)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const name = options.name ?? 'openai-compatible';
+  const label = options.label ?? 'OpenAI-Compatible';
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    };
+    if (options.apiKey) {
+      headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model ?? options.defaultModel,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new LLMError(name, `${label} API Error: ${errorText || response.statusText}`, response.status);
+    }
+    return response;
+  }
+
+  return {
+    name,
+    label,
+    defaultModel: options.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const response = await post(request, false);
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMError(name, `${label} mengembalikan response tanpa konten`);
+      }
+
+      return { content, model: request.model ?? options.defaultModel, provider: name };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new LLMError(name, `${label} tidak mengirim stream`);
+      }
+
+      // Baca Server-Sent Events: setiap baris "data: {...}" berisi satu delta
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+          try {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) yield delta;
+          } catch {
+            // Abaikan baris yang bukan JSON (komentar keep-alive, dll)
+          }
+        }
+      }
+    }
+  };
+}
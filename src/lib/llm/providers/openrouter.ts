@@ -0,0 +1,21 @@
+import { LLMProvider } from '../types';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+export const OPENROUTER_DEFAULT_MODEL = 'meta-llama/llama-3.2-3b-instruct:free';
+
+/**
+ * Adapter OpenRouter - memakai API OpenAI-compatible dengan header tambahan
+ */
+export function createOpenRouterProvider(apiKey: string, defaultModel = OPENROUTER_DEFAULT_MODEL): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    label: 'OpenRouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey,
+    defaultModel,
+    headers: {
+      'HTTP-Referer': process.env.OPENROUTER_SITE_URL || 'http://localhost:3000',
+      'X-Title': 'ExamCraft AI'
+    }
+  });
+}
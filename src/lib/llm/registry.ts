@@ -0,0 +1,60 @@
+import { LLMError, LLMProvider, ProviderName } from './types';
+import { createOpenRouterProvider } from './providers/openrouter';
+import { createGeminiProvider } from './providers/gemini';
+import { createHuggingFaceProvider } from './providers/huggingface';
+import { createOpenAICompatibleProvider } from './providers/openai-compatible';
+import { createMockProvider } from './providers/mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openrouter', 'gemini', 'huggingface', 'openai-compatible', 'mock'];
+
+/**
+ * Ambil environment variable yang wajib ada untuk sebuah provider
+ */
+function requireEnv(provider: ProviderName, key: string): string {
+  const value = process.env[key];
+  if (!value) {
+    throw new LLMError(provider, `${key} belum diatur untuk provider ${provider}`);
+  }
+  return value;
+}
+
+/**
+ * Buat instance provider berdasarkan nama.
+ *
+ * Environment variable yang dipakai:
+ * - OPENROUTER_API_KEY untuk openrouter
+ * - GEMINI_API_KEY untuk gemini
+ * - HF_TOKEN untuk huggingface
+ * - OPENAI_COMPATIBLE_BASE_URL dan OPENAI_COMPATIBLE_API_KEY (opsional) untuk server lokal
+ */
+export function createProvider(name: ProviderName, defaultModel?: string): LLMProvider {
+  switch (name) {
+    case 'openrouter':
+      return createOpenRouterProvider(requireEnv(name, 'OPENROUTER_API_KEY'), defaultModel);
+    case 'gemini':
+      return createGeminiProvider(requireEnv(name, 'GEMINI_API_KEY'), defaultModel);
+    case 'huggingface':
+      return createHuggingFaceProvider(requireEnv(name, 'HF_TOKEN'), defaultModel);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        defaultModel: defaultModel || 'llama3.2'
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Provider LLM tidak dikenal: ${name}`);
+  }
+}
+
+/**
+ * Pilih provider dari LLM_PROVIDER (default: openrouter) dan LLM_MODEL (opsional)
+ */
+export function getProviderFromEnv(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'openrouter') as ProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`LLM_PROVIDER tidak valid: ${name}. Pilihan: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return createProvider(name, process.env.LLM_MODEL || undefined);
+}
@@ -0,0 +1,51 @@
+import { FallbackExhaustedError } from './fallback';
+import { ModelOutputError } from './types';
+
+/**
+ * Response error bersama untuk route API yang memanggil LLM
+ */
+
+/**
+ * Response saat rantai provider tidak bisa dibaca dari environment
+ */
+export function configErrorResponse(configError: unknown): Response {
+  console.error('❌ LLM provider configuration error:', configError);
+  return Response.json({ error: 'Silahkan Coba Lagi', reason: 'generation-failed' }, { status: 500 });
+}
+
+/**
+ * Response saat pemanggilan model gagal: output tetap tidak valid setelah
+ * ronde perbaikan, semua provider gagal, atau error lain
+ */
+export function providerErrorResponse(providerError: unknown): Response {
+  console.error('❌ LLM Error Details:', providerError);
+  if (providerError instanceof ModelOutputError) {
+    return Response.json(
+      { error: 'Silahkan Coba Lagi', reason: 'generation-failed', validationErrors: providerError.validationErrors },
+      { status: 502 }
+    );
+  }
+  return Response.json(
+    {
+      error: 'Silahkan Coba Lagi',
+      reason: 'generation-failed',
+      attempts: providerError instanceof FallbackExhaustedError ? providerError.failures.length : undefined
+    },
+    { status: providerError instanceof FallbackExhaustedError ? 502 : 500 }
+  );
+}
+
+/**
+ * Response untuk error tak terduga di route `name`
+ */
+export function internalErrorResponse(name: string, error: unknown): Response {
+  console.error(`Error in ${name} API:`, error);
+  return Response.json(
+    {
+      error: 'Silahkan Coba Lagi',
+      reason: 'server-error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Tipe data bersama untuk lapisan provider LLM
+ */
+
+export type ProviderName = 'openrouter' | 'gemini' | 'huggingface' | 'openai-compatible' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Data terstruktur dari permintaan yang diwakili `messages`. Provider model
+ * cukup membaca prompt; provider mock menyusun jawabannya dari data ini supaya
+ * tidak bergantung pada kata-kata prompt.
+ */
+export type CompletionTask =
+  | {
+      type: 'questions';
+      questionType: string;
+      count: number;
+      material: string;
+      offset: number; // jumlah soal yang sudah diminta sebelumnya (ronde lalu dan soal yang dihindari)
+      bloomLevels: string[]; // kode level per soal, boleh kosong
+      objective?: string;
+    }
+  | { type: 'grade-essay'; rubric: { criteria: { name: string; maxScore: number }[]; modelAnswer: string[] }; answer: string }
+  | {
+      type: 'verify-questions';
+      items: { index: number; correctAnswer?: string; pairs?: { right: string }[]; passages: string[] }[];
+    }
+  | {
+      type: 'improve-distractors';
+      items: { index: number; options: Record<string, string>; correctAnswer?: string; replace: string[]; passages: string[] }[];
+    }
+  | {
+      type: 'translate-questions';
+      language: string;
+      items: {
+        index: number;
+        question: string;
+        options?: string[];
+        correctAnswer?: string;
+        pairs?: { left: string; right: string }[];
+        explanation?: string;
+        rubric?: { criteria: { name: string; bands: string[] }[]; modelAnswer: string[] };
+      }[];
+    };
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string; // jika kosong, pakai model default provider
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  task?: CompletionTask;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: ProviderName;
+}
+
+/**
+ * Interface yang harus diimplementasikan setiap adapter provider
+ */
+export interface LLMProvider {
+  name: ProviderName;
+  label: string; // nama yang ditampilkan di metadata response
+  defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<string>; // menghasilkan potongan teks (delta)
+}
+
+/**
+ * Error dari provider LLM. `status` berisi HTTP status jika tersedia.
+ */
+export class LLMError extends Error {
+  provider: ProviderName;
+  status?: number;
+
+  constructor(provider: ProviderName, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * Error ketika output model tetap tidak valid setelah semua ronde perbaikan.
+ * `validationErrors` dikirim ke klien supaya penyebabnya terlihat.
+ */
+export class ModelOutputError extends Error {
+  validationErrors: unknown[];
+
+  constructor(message: string, validationErrors: unknown[]) {
+    super(message);
+    this.name = 'ModelOutputError';
+    this.validationErrors = validationErrors;
+  }
+}
@@ -0,0 +1,103 @@
+import { BloomLevel, LearningObjective, Question } from './types';
+
+/**
+ * Level kognitif Taksonomi Bloom (revisi) dengan kode C1-C6 yang lazim
+ * dipakai di kisi-kisi soal, beserta contoh kata kerja operasionalnya.
+ */
+export const BLOOM_LEVEL_INFO: Record<BloomLevel, { code: string; label: string; verbs: string }> = {
+  remember: { code: 'C1', label: 'Mengingat', verbs: 'menyebutkan, mendefinisikan, mengidentifikasi' },
+  understand: { code: 'C2', label: 'Memahami', verbs: 'menjelaskan, membedakan, memberi contoh' },
+  apply: { code: 'C3', label: 'Menerapkan', verbs: 'menghitung, menggunakan, menerapkan pada situasi baru' },
+  analyze: { code: 'C4', label: 'Menganalisis', verbs: 'menguraikan, membandingkan, menemukan hubungan sebab-akibat' },
+  evaluate: { code: 'C5', label: 'Mengevaluasi', verbs: 'menilai, mengkritik, memberi argumen' },
+  create: { code: 'C6', label: 'Mencipta', verbs: 'merancang, menyusun, merumuskan' }
+};
+
+export const BLOOM_LEVELS = Object.keys(BLOOM_LEVEL_INFO) as BloomLevel[];
+
+/**
+ * Normalisasi level dari nama Inggris, kode (C3) atau label Indonesia
+ */
+export function resolveBloomLevel(value: unknown): BloomLevel | undefined {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.trim().toLowerCase();
+  return BLOOM_LEVELS.find(level => {
+    const info = BLOOM_LEVEL_INFO[level];
+    return level === normalized
+      || info.code.toLowerCase() === normalized.split(/[\s(:-]/)[0]
+      || info.label.toLowerCase() === normalized;
+  });
+}
+
+export function formatBloomLevel(level: BloomLevel): string {
+  const info = BLOOM_LEVEL_INFO[level];
+  return `${info.code} ${info.label}`;
+}
+
+/**
+ * Validasi daftar level dari body request
+ */
+export function parseBloomLevels(raw: unknown): { levels?: BloomLevel[]; error?: string } {
+  if (raw === undefined) return {};
+  if (!Array.isArray(raw)) return { error: 'bloomLevels harus berupa array' };
+  const levels: BloomLevel[] = [];
+  for (const item of raw) {
+    const level = resolveBloomLevel(item);
+    if (!level) {
+      return { error: `level kognitif "${item}" tidak dikenal. Gunakan ${BLOOM_LEVELS.join(', ')} atau C1-C6` };
+    }
+    if (!levels.includes(level)) levels.push(level);
+  }
+  return { levels: levels.length > 0 ? levels : undefined };
+}
+
+/**
+ * Validasi daftar tujuan pembelajaran (KD/CP) dari body request
+ */
+export function parseObjectives(raw: unknown): { objectives?: LearningObjective[]; error?: string } {
+  if (raw === undefined) return {};
+  if (!Array.isArray(raw)) return { error: 'objectives harus berupa array' };
+  const objectives: LearningObjective[] = [];
+  for (const item of raw) {
+    const objective = typeof item === 'string' ? { description: item } : item;
+    if (!objective || typeof objective.description !== 'string' || !objective.description.trim()) {
+      return { error: 'setiap tujuan pembelajaran wajib memiliki "description"' };
+    }
+    if (objective.code !== undefined && typeof objective.code !== 'string') {
+      return { error: 'kode tujuan pembelajaran harus berupa teks' };
+    }
+    objectives.push({ code: objective.code?.trim() || undefined, description: objective.description.trim() });
+  }
+  return { objectives: objectives.length > 0 ? objectives : undefined };
+}
+
+/**
+ * Label tujuan pembelajaran yang ditulis model di field `objective`
+ */
+export function objectiveLabel(objective: LearningObjective): string {
+  return objective.code ?? objective.description;
+}
+
+/**
+ * Bagi jumlah soal ke setiap level secara merata; level awal mendapat sisa
+ */
+export function allocateBloomLevels(count: number, levels: BloomLevel[]): { level: BloomLevel; count: number }[] {
+  const base = Math.floor(count / levels.length);
+  const remainder = count % levels.length;
+  return levels
+    .map((level, index) => ({ level, count: base + (index < remainder ? 1 : 0) }))
+    .filter(entry => entry.count > 0);
+}
+
+/**
+ * Hitung sebaran soal per level kognitif
+ */
+export function countByBloomLevel(questions: Question[]): Partial<Record<BloomLevel, number>> {
+  const counts: Partial<Record<BloomLevel, number>> = {};
+  for (const question of questions) {
+    if (question.bloomLevel) {
+      counts[question.bloomLevel] = (counts[question.bloomLevel] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
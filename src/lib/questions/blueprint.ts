@@ -0,0 +1,233 @@
+import { FallbackResult } from '@/lib/llm';
+import { parseBloomLevels, parseObjectives } from './bloom';
+import { generateQuestionEvents, GenerationOptions, QuestionValidationError } from './generator';
+import { getDefaultSectionTitle, parseOutputLanguage } from './language';
+import {
+  Blueprint,
+  BloomLevel,
+  DEFAULT_POINTS,
+  Difficulty,
+  LearningObjective,
+  OutputLanguage,
+  Question,
+  QUESTION_TYPES,
+  QuestionType
+} from './types';
+
+/**
+ * Ujian campuran berdasarkan blueprint: setiap bagian punya jenis soal,
+ * jumlah, tingkat kesulitan dan poin sendiri, lalu hasilnya digabung
+ * menjadi satu ujian yang dikelompokkan per bagian.
+ */
+
+export const MAX_BLUEPRINT_SECTIONS = 10;
+export const MAX_SECTION_QUESTIONS = 50;
+export const MAX_BLUEPRINT_QUESTIONS = 100;
+
+// Bagian yang besar dibuat bertahap supaya output per prompt tetap pendek
+export const BLUEPRINT_BATCH_SIZE = 10;
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface NormalizedSection {
+  title: string;
+  questionType: QuestionType;
+  questionCount: number;
+  difficulty?: Difficulty; // kosong hanya jika validasi memakai `optionalDifficulty`
+  points: number;
+  bloomLevels?: BloomLevel[];
+  objectives?: LearningObjective[];
+  language?: OutputLanguage;
+}
+
+export interface ExamSection extends NormalizedSection {
+  questions: Question[];
+  error?: string; // bagian yang gagal tidak menggagalkan seluruh ujian
+}
+
+export interface ExamResult {
+  sections: ExamSection[];
+  totalQuestions: number;
+  totalPoints: number;
+  completion: FallbackResult;
+  attempts: number;
+  repairRounds: number;
+  discarded: number;
+  duplicates: number;
+}
+
+export interface BlueprintValidationOptions {
+  language?: OutputLanguage; // berlaku untuk bagian yang tidak menyebut bahasanya sendiri, termasuk judul bawaannya
+  // Bagian tanpa tingkat kesulitan dibiarkan kosong, bukan diisi "medium"
+  optionalDifficulty?: boolean;
+}
+
+export type ExamEvent =
+  | { type: 'question'; sectionIndex: number; index: number; question: Question }
+  | { type: 'done'; result: ExamResult };
+
+/**
+ * Validasi blueprint dari body request dan lengkapi nilai bawaannya.
+ * Penyusunan dari bank memakai `optionalDifficulty` supaya bagian tanpa
+ * tingkat kesulitan boleh mengambil soal dari tingkat mana pun.
+ */
+export function validateBlueprint(
+  raw: unknown,
+  options: BlueprintValidationOptions = {}
+): { sections?: NormalizedSection[]; errors: string[] } {
+  const { language, optionalDifficulty = false } = options;
+  const sections = raw && typeof raw === 'object' ? (raw as Partial<Blueprint>).sections : undefined;
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return { errors: ['blueprint wajib berisi array "sections" yang tidak kosong'] };
+  }
+  if (sections.length > MAX_BLUEPRINT_SECTIONS) {
+    return { errors: [`blueprint maksimal ${MAX_BLUEPRINT_SECTIONS} bagian`] };
+  }
+
+  const errors: string[] = [];
+  const normalized: NormalizedSection[] = [];
+  sections.forEach((section, index) => {
+    const label = `bagian ${index + 1}`;
+    if (!section || typeof section !== 'object') {
+      errors.push(`${label}: harus berupa objek`);
+      return;
+    }
+    const { title, questionType, questionCount, points } = section;
+    const difficulty = section.difficulty ?? (optionalDifficulty ? undefined : 'medium');
+
+    if (!QUESTION_TYPES.includes(questionType)) {
+      errors.push(`${label}: jenis soal "${questionType}" tidak dikenal`);
+    }
+    if (!Number.isInteger(questionCount) || questionCount < 1 || questionCount > MAX_SECTION_QUESTIONS) {
+      errors.push(`${label}: jumlah soal harus antara 1-${MAX_SECTION_QUESTIONS}`);
+    }
+    if (difficulty !== undefined && !DIFFICULTIES.includes(difficulty)) {
+      errors.push(`${label}: tingkat kesulitan harus "easy", "medium" atau "hard"`);
+    }
+    if (points !== undefined && (typeof points !== 'number' || !(points > 0))) {
+      errors.push(`${label}: poin per soal harus lebih dari 0`);
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      errors.push(`${label}: judul harus berupa teks`);
+    }
+    const { levels: bloomLevels, error: bloomError } = parseBloomLevels(section.bloomLevels);
+    if (bloomError) {
+      errors.push(`${label}: ${bloomError}`);
+    }
+    const { objectives, error: objectiveError } = parseObjectives(section.objectives);
+    if (objectiveError) {
+      errors.push(`${label}: ${objectiveError}`);
+    }
+    const { language: sectionLanguage, error: languageError } = parseOutputLanguage(section.language);
+    if (languageError) {
+      errors.push(`${label}: ${languageError}`);
+    }
+
+    normalized.push({
+      title: (typeof title === 'string' && title.trim()) || getDefaultSectionTitle(index, sectionLanguage ?? language),
+      questionType,
+      questionCount,
+      difficulty,
+      points: points ?? DEFAULT_POINTS[questionType],
+      bloomLevels,
+      objectives,
+      language: sectionLanguage ?? language
+    });
+  });
+
+  const total = normalized.reduce((sum, section) => sum + (section.questionCount || 0), 0);
+  if (errors.length === 0 && total > MAX_BLUEPRINT_QUESTIONS) {
+    errors.push(`total soal di blueprint maksimal ${MAX_BLUEPRINT_QUESTIONS}, bukan ${total}`);
+  }
+  return errors.length > 0 ? { errors } : { sections: normalized, errors };
+}
+
+/**
+ * Hasilkan ujian per bagian sebagai event. Bagian diproses berurutan dan soal
+ * yang sudah dibuat di bagian sebelumnya dikirim sebagai daftar yang tidak
+ * boleh diulang, supaya bagian dengan jenis soal sama tidak saling menduplikasi.
+ */
+export async function* generateExamEvents(
+  material: string,
+  blueprintSections: NormalizedSection[],
+  options: GenerationOptions
+): AsyncGenerator<ExamEvent> {
+  const sections: ExamSection[] = [];
+  const generated: string[] = [];
+  let completion: FallbackResult | undefined;
+  let attempts = 0;
+  let discarded = 0;
+  let duplicates = 0;
+  let repairRounds = 0;
+  let lastError: unknown;
+
+  for (const [sectionIndex, section] of blueprintSections.entries()) {
+    const examSection: ExamSection = { ...section, questions: [] };
+    sections.push(examSection);
+
+    try {
+      while (examSection.questions.length < section.questionCount) {
+        const batchCount = Math.min(BLUEPRINT_BATCH_SIZE, section.questionCount - examSection.questions.length);
+        const batchRequest = {
+          material,
+          questionType: section.questionType,
+          questionCount: batchCount,
+          difficulty: section.difficulty,
+          bloomLevels: section.bloomLevels,
+          objectives: section.objectives,
+          language: section.language
+        };
+        let produced = 0;
+
+        for await (const event of generateQuestionEvents(batchRequest, { ...options, avoidQuestions: [...generated] })) {
+          if (event.type === 'question') {
+            examSection.questions.push(event.question);
+            generated.push(event.question.question);
+            produced++;
+            yield { type: 'question', sectionIndex, index: examSection.questions.length - 1, question: event.question };
+          } else {
+            completion = event.result.completion;
+            attempts += event.result.attempts;
+            discarded += event.result.discarded;
+            duplicates += event.result.duplicates;
+            repairRounds = Math.max(repairRounds, event.result.repairRounds);
+          }
+        }
+        // Model tidak lagi menghasilkan soal baru; hentikan daripada mengulang terus
+        if (produced < batchCount) break;
+      }
+      if (examSection.questions.length < section.questionCount) {
+        examSection.error = `hanya ${examSection.questions.length} dari ${section.questionCount} soal yang valid`;
+      }
+    } catch (sectionError) {
+      if (options.signal?.aborted) throw sectionError;
+      console.warn(`⚠️ ${section.title} gagal:`, sectionError);
+      examSection.error = sectionError instanceof Error ? sectionError.message : 'Unknown error';
+      lastError = sectionError;
+    }
+  }
+
+  const totalQuestions = sections.reduce((sum, section) => sum + section.questions.length, 0);
+  if (totalQuestions === 0 || !completion) {
+    throw lastError ?? new QuestionValidationError([]);
+  }
+  const totalPoints = sections.reduce((sum, section) => sum + section.questions.length * section.points, 0);
+  yield {
+    type: 'done',
+    result: { sections, totalQuestions, totalPoints, completion, attempts, repairRounds, discarded, duplicates }
+  };
+}
+
+/**
+ * Versi non-streaming: tunggu sampai semua bagian selesai
+ */
+export async function generateExam(
+  material: string,
+  sections: NormalizedSection[],
+  options: GenerationOptions
+): Promise<ExamResult> {
+  for await (const event of generateExamEvents(material, sections, options)) {
+    if (event.type === 'done') return event.result;
+  }
+  throw new Error('Generator berhenti tanpa hasil');
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { LLMProvider, RetryPolicy } from '@/lib/llm';
+import { createMockProvider } from '@/lib/llm/providers/mock';
+import { allocateQuestions, chunkMaterial, isHeading } from './chunking';
+import { generateQuestions } from './generator';
+
+const policy: RetryPolicy = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000 };
+
+function paragraph(topic: string, sentences: number): string {
+  return Array.from({ length: sentences }, (_, index) => `${topic} memiliki ciri penting nomor ${index + 1} yang dibahas di kelas.`).join(' ');
+}
+
+const MATERIAL = [
+  'BAB 1 Fotosintesis',
+  'Fotosintesis adalah proses tumbuhan hijau membuat makanan sendiri dengan bantuan cahaya. ' +
+    'Klorofil pada daun menyerap energi cahaya matahari untuk memecah molekul air. ' +
+    'Hasil akhirnya berupa glukosa yang disimpan sebagai cadangan makanan tumbuhan.',
+  'BAB 2 Respirasi',
+  'Respirasi sel memecah glukosa menjadi energi yang dapat dipakai oleh makhluk hidup. ' +
+    'Mitokondria menjadi tempat utama berlangsungnya tahap akhir respirasi aerob. ' +
+    'Karbon dioksida dan uap air dilepaskan sebagai sisa dari proses tersebut.',
+  'BAB 3 Transpirasi',
+  'Transpirasi adalah penguapan air dari permukaan daun melalui stomata yang terbuka. ' +
+    'Suhu udara yang tinggi dan angin kencang mempercepat laju penguapan tersebut. ' +
+    'Aliran transpirasi ikut mengangkut mineral dari akar menuju bagian atas tanaman.'
+].join('\n\n');
+
+describe('isHeading', () => {
+  it.each(['# Pendahuluan', 'BAB IV', '1.2 Reaksi Terang', 'SISTEM PENCERNAAN'])('mengenali "%s" sebagai heading', line => {
+    expect(isHeading(line)).toBe(true);
+  });
+
+  it.each(['1. Siswa menjelaskan proses fotosintesis secara lengkap dan runtut.', 'Kalimat biasa.', 'CATATAN:'])('tidak menganggap "%s" sebagai heading', line => {
+    expect(isHeading(line)).toBe(false);
+  });
+});
+
+describe('chunkMaterial', () => {
+  it('tidak memecah materi yang muat dalam satu chunk', () => {
+    expect(chunkMaterial(MATERIAL, MATERIAL.length)).toEqual([{ index: 0, text: MATERIAL }]);
+  });
+
+  it('memecah di batas heading dan mencatat heading setiap chunk', () => {
+    const chunks = chunkMaterial(MATERIAL, 300);
+
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['BAB 1 Fotosintesis', 'BAB 2 Respirasi', 'BAB 3 Transpirasi']);
+    expect(chunks.every(chunk => chunk.text.length <= 300)).toBe(true);
+  });
+
+  it('menggabungkan section kecil yang berurutan selama masih muat', () => {
+    const chunks = chunkMaterial(MATERIAL, 600);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toContain('BAB 1 Fotosintesis');
+    expect(chunks[0].text).toContain('BAB 2 Respirasi');
+    expect(chunks[0].heading).toBe('BAB 1 Fotosintesis');
+  });
+
+  it('menandai lanjutan section yang dipecah per paragraf', () => {
+    const text = ['BAB 1 Panjang', paragraph('Bagian awal', 3), paragraph('Bagian akhir', 3)].join('\n\n');
+    const chunks = chunkMaterial(text, 250);
+
+    expect(chunks.map(chunk => chunk.heading)).toEqual(['BAB 1 Panjang', 'BAB 1 Panjang (lanjutan)']);
+    expect(chunks[1].text.startsWith('BAB 1 Panjang')).toBe(true);
+  });
+
+  it('memotong kalimat yang lebih panjang dari batas', () => {
+    const chunks = chunkMaterial('x'.repeat(250), 100);
+
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([100, 100, 50]);
+  });
+});
+
+describe('allocateQuestions', () => {
+  const chunks = [300, 100, 100].map((length, index) => ({ index, text: 'a'.repeat(length) }));
+
+  it('membagi soal sebanding panjang chunk dengan minimal satu soal per chunk', () => {
+    // Sisa 7 soal dibagi 4,2 : 1,4 : 1,4; satu soal sisa pembulatan jatuh ke sisa terbesar pertama
+    const allocation = allocateQuestions(chunks, 10);
+
+    expect(allocation).toEqual([5, 3, 2]);
+    expect(allocation.reduce((sum, count) => sum + count, 0)).toBe(10);
+  });
+
+  it('menyebar soal merata jika jumlahnya kurang dari jumlah chunk', () => {
+    expect(allocateQuestions(chunks, 1)).toEqual([0, 1, 0]);
+    expect(allocateQuestions(chunks, 2)).toEqual([1, 0, 1]);
+  });
+});
+
+describe('penggabungan hasil per chunk', () => {
+  it('menggabungkan soal semua chunk dan mencatat chunk asalnya', async () => {
+    const result = await generateQuestions(
+      { material: MATERIAL, questionType: 'essay', questionCount: 3 },
+      { chain: [{ provider: createMockProvider(), model: 'mock' }], policy, chunkMaxChars: 300 }
+    );
+
+    expect(result.questions.map(question => question.source?.heading)).toEqual(['BAB 1 Fotosintesis', 'BAB 2 Respirasi', 'BAB 3 Transpirasi']);
+    expect(result.chunks.map(chunk => [chunk.requestedCount, chunk.returnedCount])).toEqual([[1, 1], [1, 1], [1, 1]]);
+  });
+
+  it('tetap mengembalikan soal dari chunk lain jika satu chunk gagal', async () => {
+    const mock = createMockProvider();
+    const failing: LLMProvider = {
+      ...mock,
+      async complete(request) {
+        const material = request.task?.type === 'questions' ? request.task.material : '';
+        if (material.includes('Respirasi')) throw new Error('provider mati');
+        return mock.complete(request);
+      }
+    };
+
+    const result = await generateQuestions(
+      { material: MATERIAL, questionType: 'true-false', questionCount: 3 },
+      { chain: [{ provider: failing, model: 'mock' }], policy, chunkMaxChars: 300 }
+    );
+
+    expect(result.questions).toHaveLength(2);
+    expect(result.chunks[1]).toMatchObject({ heading: 'BAB 2 Respirasi', returnedCount: 0 });
+    expect(result.chunks[1].error).toBeDefined();
+  });
+});
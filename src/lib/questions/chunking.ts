@@ -0,0 +1,178 @@
+/**
+ * Pemecahan materi panjang menjadi beberapa bagian (chunk) berdasarkan
+ * heading dan paragraf, supaya setiap prompt muat di konteks model.
+ */
+
+export const DEFAULT_CHUNK_MAX_CHARS = 6000;
+
+export interface MaterialChunk {
+  index: number;
+  heading?: string; // heading pertama di chunk, jika ada
+  text: string;
+}
+
+interface Section {
+  heading?: string;
+  paragraphs: string[];
+}
+
+/**
+ * Baca batas ukuran chunk dari MATERIAL_CHUNK_CHARS
+ */
+export function getChunkMaxCharsFromEnv(): number {
+  const value = parseInt(process.env.MATERIAL_CHUNK_CHARS || '', 10);
+  return Number.isFinite(value) && value >= 500 ? value : DEFAULT_CHUNK_MAX_CHARS;
+}
+
+/**
+ * Deteksi baris heading: markdown (#), BAB/Chapter, penomoran (1.2 Judul)
+ * atau baris pendek berhuruf kapital semua
+ */
+export function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 80) return false;
+  if (/^#{1,6}\s+\S/.test(trimmed)) return true;
+  if (/^(BAB|Bab|CHAPTER|Chapter|BAGIAN|Bagian)\s+([IVXLC]+|\d+)\b/.test(trimmed)) return true;
+  // Penomoran pendek seperti "1.2 Reaksi Terang"; item daftar bernomor biasanya lebih panjang
+  if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(trimmed) && !/[.:;,]$/.test(trimmed) && trimmed.split(/\s+/).length <= 8) return true;
+  return /[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase() && trimmed.split(/\s+/).length <= 10 && !/[.:;,]$/.test(trimmed);
+}
+
+/**
+ * Kelompokkan baris menjadi section (heading + paragraf-paragrafnya)
+ */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [{ paragraphs: [] }];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      sections[sections.length - 1].paragraphs.push(paragraph.join('\n'));
+      paragraph = [];
+    }
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!line.trim()) {
+      flush();
+    } else if (isHeading(line)) {
+      flush();
+      sections.push({ heading: line.trim().replace(/^#+\s*/, ''), paragraphs: [] });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return sections.filter(section => section.heading || section.paragraphs.length > 0);
+}
+
+/**
+ * Pecah paragraf yang terlalu panjang berdasarkan kalimat
+ */
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      parts.push(current);
+      current = '';
+    }
+    // Kalimat yang lebih panjang dari batas dipotong paksa
+    for (let start = 0; start < sentence.length; start += maxChars) {
+      const piece = sentence.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        parts.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Pecah materi menjadi chunk maksimal `maxChars` karakter. Batas heading
+ * diutamakan; section kecil yang berurutan digabung, section besar dipecah per paragraf.
+ */
+export function chunkMaterial(text: string, maxChars = DEFAULT_CHUNK_MAX_CHARS): MaterialChunk[] {
+  if (text.length <= maxChars) {
+    return [{ index: 0, text }];
+  }
+
+  // Satu unit = potongan section yang muat dalam satu chunk
+  const units: { heading?: string; text: string }[] = [];
+  for (const section of splitSections(text)) {
+    const headingLine = section.heading ? `${section.heading}\n\n` : '';
+    let current = headingLine;
+    let continued = false;
+
+    const pushUnit = () => {
+      if (current.trim()) {
+        units.push({
+          heading: section.heading ? `${section.heading}${continued ? ' (lanjutan)' : ''}` : undefined,
+          text: current.trim()
+        });
+        continued = true;
+      }
+    };
+
+    for (const paragraph of section.paragraphs.flatMap(item => splitLongParagraph(item, maxChars - headingLine.length))) {
+      if (current.length + paragraph.length + 2 > maxChars && current !== headingLine) {
+        pushUnit();
+        current = headingLine;
+      }
+      current += `${paragraph}\n\n`;
+    }
+    pushUnit();
+  }
+
+  // Gabungkan unit kecil yang berurutan selama masih muat
+  const chunks: MaterialChunk[] = [];
+  for (const unit of units) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + unit.text.length + 2 <= maxChars) {
+      last.text += `\n\n${unit.text}`;
+      last.heading = last.heading ?? unit.heading;
+    } else {
+      chunks.push({ index: chunks.length, heading: unit.heading, text: unit.text });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Bagi jumlah soal ke setiap chunk sebanding panjang teksnya (metode sisa terbesar).
+ * Jika soal lebih sedikit dari chunk, soal disebar merata di sepanjang dokumen.
+ */
+export function allocateQuestions(chunks: MaterialChunk[], total: number): number[] {
+  if (chunks.length === 0) return [];
+
+  if (total < chunks.length) {
+    const allocation = chunks.map(() => 0);
+    for (let i = 0; i < total; i++) {
+      allocation[Math.floor(((i + 0.5) * chunks.length) / total)]++;
+    }
+    return allocation;
+  }
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  // Setiap chunk mendapat minimal satu soal agar seluruh dokumen tercakup
+  const remaining = total - chunks.length;
+  const shares = chunks.map(chunk => (chunk.text.length / totalChars) * remaining);
+  const allocation = shares.map(share => 1 + Math.floor(share));
+
+  let leftover = total - allocation.reduce((sum, count) => sum + count, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    allocation[index]++;
+    leftover--;
+  }
+  return allocation;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDistractors, createMaterialVocabulary, WEAK_DISTRACTOR_SCORE } from './distractor-analysis';
+
+const MATERIAL = 'Fotosintesis terjadi di kloroplas daun. Klorofil menyerap cahaya matahari, ' +
+  'lalu air dan karbon dioksida diubah menjadi glukosa dan oksigen. Respirasi terjadi di mitokondria.';
+
+const rules = (analysis: ReturnType<typeof analyzeDistractors>) => analysis.issues.map(issue => issue.rule);
+
+describe('analyzeDistractors', () => {
+  it('tidak menemukan masalah pada pengecoh yang homogen dan berkaitan dengan materi', () => {
+    const analysis = analyzeDistractors({
+      question: 'Di bagian sel manakah fotosintesis terjadi?',
+      options: ['Kloroplas', 'Mitokondria', 'Klorofil', 'Daun'],
+      correctAnswer: 'Kloroplas'
+    }, createMaterialVocabulary(MATERIAL));
+
+    expect(analysis).toEqual({ score: 1, issues: [], weakOptions: [] });
+  });
+
+  it('menandai pengecoh pengisi dan yang tidak berkaitan dengan materi', () => {
+    const analysis = analyzeDistractors({
+      question: 'Di bagian sel manakah fotosintesis terjadi?',
+      options: ['Kloroplas', 'Mitokondria', 'Pengecoh 1', 'Gunung berapi'],
+      correctAnswer: 'Kloroplas'
+    }, createMaterialVocabulary(MATERIAL));
+
+    expect(rules(analysis)).toEqual(['plausibility']);
+    expect(analysis.weakOptions).toEqual([2, 3]);
+    expect(analysis.score).toBe(0.6);
+    expect(analysis.score).toBeLessThan(WEAK_DISTRACTOR_SCORE);
+  });
+
+  it('tidak pernah menandai kunci jawaban sebagai opsi tumpang tindih', () => {
+    const analysis = analyzeDistractors({
+      question: 'Apa hasil fotosintesis?',
+      options: ['Glukosa', 'Glukosa dan oksigen', 'Karbon dioksida', 'Air'],
+      correctAnswer: 'Glukosa dan oksigen'
+    });
+
+    expect(analysis.issues.find(issue => issue.rule === 'overlap')?.options).toEqual([0]);
+    expect(analysis.weakOptions).not.toContain(1);
+  });
+
+  it('menandai kunci yang jauh lebih panjang dan bentuk opsi yang tidak seragam', () => {
+    const longKey = analyzeDistractors({
+      question: 'Apa fungsi klorofil?',
+      options: ['Akar', 'Menyerap cahaya matahari untuk fotosintesis', 'Batang', 'Bunga'],
+      correctAnswer: 'Menyerap cahaya matahari untuk fotosintesis'
+    });
+    expect(rules(longKey)).toContain('length');
+    expect(longKey.weakOptions).toEqual([0, 2, 3]);
+
+    const format = analyzeDistractors({
+      question: 'Berapa jumlah kromosom manusia?',
+      options: ['46', '23', 'dua puluh', '48'],
+      correctAnswer: '46'
+    });
+    expect(format.issues).toEqual([expect.objectContaining({ rule: 'format', options: [2] })]);
+  });
+
+  it('menandai opsi "semua benar" dan ketidaksesuaian artikel bahasa Inggris', () => {
+    const pinned = analyzeDistractors({
+      question: 'Which organelle performs photosynthesis?',
+      options: ['Chloroplast', 'Nucleus', 'Ribosome', 'All of the above'],
+      correctAnswer: 'Chloroplast'
+    });
+    expect(pinned.issues.find(issue => issue.rule === 'all-none')?.options).toEqual([3]);
+
+    const article = analyzeDistractors({
+      question: 'Photosynthesis takes place in an',
+      options: ['Organelle', 'Cell wall', 'Enzyme', 'Ion'],
+      correctAnswer: 'Organelle'
+    });
+    expect(article.issues.find(issue => issue.rule === 'format')?.options).toEqual([1]);
+  });
+});
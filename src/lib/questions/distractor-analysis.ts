@@ -0,0 +1,189 @@
+import { optionLetter } from '@/lib/export/layout';
+import { isPinnedOption } from './shuffle';
+import { stem } from './similarity';
+import { tokenize } from './text';
+import { Question } from './types';
+
+/**
+ * Analisis kualitas pengecoh (distraktor) soal pilihan ganda berdasarkan
+ * kaidah penulisan butir soal: opsi tidak tumpang tindih, panjang opsi
+ * homogen, bentuk opsi seragam, tanpa "semua benar" / "tidak ada yang benar",
+ * dan pengecoh masuk akal (berkaitan dengan materi). Kesesuaian opsi dengan
+ * pokok soal hanya diperiksa untuk artikel "a"/"an" di akhir pokok soal
+ * berbahasa Inggris; tata bahasa pokok soal berbahasa Indonesia tidak dicek.
+ * Modul ini tidak memanggil LLM sehingga bisa dipakai di browser; pembuatan
+ * ulang pengecoh lemah ada di distractors.ts.
+ */
+
+export const WEAK_DISTRACTOR_SCORE = 0.7; // di bawah ini soal disarankan diperbaiki
+
+const OVERLAP_SIMILARITY = 0.8;
+const LONG_KEY_RATIO = 1.5; // kunci lebih panjang 1,5x dari pengecoh terpanjang
+const MIN_LENGTH_GAP = 10; // selisih karakter minimal sebelum panjang dianggap mencolok
+
+const PENALTIES: Record<DistractorRule, number> = {
+  overlap: 0.25,
+  length: 0.15,
+  format: 0.1,
+  'all-none': 0.2,
+  plausibility: 0.2
+};
+
+// Pengecoh pengisi yang jelas bukan jawaban, mis. "Pernyataan pengecoh 1"
+const FILLER_PATTERN = /(pengecoh|distraktor|distractor|lorem ipsum)|^(opsi|pilihan|option)\s*\d+$|^[-.?\s]*$/i;
+const NUMERIC_PATTERN = /^[-+]?(rp\.?\s*)?\d/i;
+
+export type DistractorRule = 'overlap' | 'length' | 'format' | 'all-none' | 'plausibility';
+
+export interface DistractorIssue {
+  rule: DistractorRule;
+  message: string;
+  options: number[]; // indeks opsi yang bermasalah
+}
+
+export interface DistractorAnalysis {
+  score: number; // 0-1, makin tinggi makin baik
+  issues: DistractorIssue[];
+  weakOptions: number[]; // indeks pengecoh yang sebaiknya diganti; kunci jawaban tidak pernah termasuk
+}
+
+export interface DistractorImprovement {
+  id: string;
+  question: Question; // soal dengan pengecoh baru, atau soal lama jika tidak diperbaiki
+  analysis: DistractorAnalysis;
+  previousAnalysis: DistractorAnalysis;
+  improved: boolean;
+}
+
+function stems(text: string): Set<string> {
+  return new Set(tokenize(text).map(stem));
+}
+
+/**
+ * Kata dasar materi, untuk menilai apakah pengecoh berkaitan dengan materi
+ */
+export function createMaterialVocabulary(material: string): Set<string> {
+  return stems(material);
+}
+
+function isOverlapping(a: string, b: string): boolean {
+  const [stemsA, stemsB] = [stems(a), stems(b)];
+  if (stemsA.size === 0 || stemsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+  let shared = 0;
+  stemsA.forEach(term => {
+    if (stemsB.has(term)) shared++;
+  });
+  // Salah satu opsi memuat seluruh isi opsi lain, atau keduanya hampir sama
+  return shared === Math.min(stemsA.size, stemsB.size) || (2 * shared) / (stemsA.size + stemsB.size) >= OVERLAP_SIMILARITY;
+}
+
+function startsUpperCase(text: string): boolean | undefined {
+  const first = text.trim().charAt(0);
+  return first.toLowerCase() === first.toUpperCase() ? undefined : first === first.toUpperCase();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Periksa opsi soal pilihan ganda. `vocabulary` (kata dasar materi) dipakai
+ * untuk menilai apakah pengecoh masuk akal; tanpa itu hanya pokok soal yang
+ * dipakai sebagai pembanding.
+ */
+export function analyzeDistractors(question: Pick<Question, 'question' | 'options' | 'correctAnswer'>, vocabulary?: Set<string>): DistractorAnalysis {
+  const options = question.options ?? [];
+  const key = options.findIndex(option => option === question.correctAnswer);
+  const distractors = options.map((_, index) => index).filter(index => index !== key);
+  const issues: DistractorIssue[] = [];
+  const addIssue = (rule: DistractorRule, message: string, flagged: number[]) => {
+    issues.push({ rule, message, options: flagged });
+  };
+
+  // Opsi tumpang tindih: yang ditandai selalu pengecoh, bukan kunci
+  options.forEach((option, i) => {
+    options.slice(i + 1).forEach((other, offset) => {
+      const j = i + 1 + offset;
+      if (!isOverlapping(option, other)) return;
+      const flagged = j === key ? i : j;
+      addIssue('overlap', `opsi ${optionLetter(flagged)} tumpang tindih dengan opsi ${optionLetter(flagged === i ? j : i)}`, [flagged]);
+    });
+  });
+
+  // Panjang opsi: kunci yang jauh lebih panjang menjadi petunjuk jawaban
+  const lengths = options.map(option => option.trim().length);
+  if (key >= 0 && distractors.length > 0) {
+    const longestDistractor = Math.max(...distractors.map(index => lengths[index]));
+    if (lengths[key] >= LONG_KEY_RATIO * longestDistractor && lengths[key] - longestDistractor >= MIN_LENGTH_GAP) {
+      addIssue('length', 'kunci jawaban jauh lebih panjang dari semua pengecoh sehingga mudah ditebak',
+        distractors.filter(index => lengths[index] < lengths[key] / LONG_KEY_RATIO));
+    }
+  }
+  const middle = median(lengths);
+  const outliers = distractors.filter(index =>
+    Math.abs(lengths[index] - middle) >= MIN_LENGTH_GAP && (lengths[index] > 2.5 * middle || lengths[index] < 0.4 * middle));
+  if (outliers.length > 0) {
+    addIssue('length', `panjang opsi ${outliers.map(optionLetter).join(', ')} sangat berbeda dari opsi lain`, outliers);
+  }
+
+  // Bentuk opsi mengikuti kunci jawaban: angka, huruf awal dan tanda baca akhir
+  if (key >= 0) {
+    const keyOption = options[key].trim();
+    const keyNumeric = NUMERIC_PATTERN.test(keyOption);
+    const keyUpper = startsUpperCase(keyOption);
+    const keyPeriod = keyOption.endsWith('.');
+    const mismatched = distractors.filter(index => {
+      const option = options[index].trim();
+      const upper = startsUpperCase(option);
+      return NUMERIC_PATTERN.test(option) !== keyNumeric ||
+        (upper !== undefined && keyUpper !== undefined && upper !== keyUpper) ||
+        option.endsWith('.') !== keyPeriod;
+    });
+    if (mismatched.length > 0) {
+      addIssue('format', `bentuk opsi ${mismatched.map(optionLetter).join(', ')} tidak seragam dengan opsi lain (angka, huruf kapital atau tanda titik)`, mismatched);
+    }
+  }
+  // Pokok soal berbahasa Inggris yang diakhiri "a"/"an" menentukan bunyi awal opsi
+  const article = question.question.trim().match(/\b(a|an)\s*(\.{3}|_+)?$/i)?.[1].toLowerCase();
+  if (article) {
+    const disagreeing = options.map((option, index) => ({ option, index }))
+      .filter(({ option }) => /^[aeiou]/i.test(option.trim()) !== (article === 'an'))
+      .map(({ index }) => index);
+    const flagged = disagreeing.filter(index => index !== key);
+    if (disagreeing.length > 0) {
+      addIssue('format', `opsi ${disagreeing.map(optionLetter).join(', ')} tidak sesuai dengan kata "${article}" di akhir pokok soal`, flagged);
+    }
+  }
+
+  // "Semua benar" / "Tidak ada yang benar"
+  const pinned = options.map((option, index) => ({ option, index })).filter(({ option }) => isPinnedOption(option));
+  pinned.forEach(({ option, index }) => {
+    addIssue('all-none', index === key
+      ? `kunci "${option}" bisa dijawab hanya dengan mengenali dua opsi benar; gunakan satu jawaban yang tepat`
+      : `hindari opsi "${option}"; opsi ini mudah dicoret jika satu opsi lain sudah jelas salah`, index === key ? [] : [index]);
+  });
+
+  // Pengecoh yang tidak masuk akal: teks pengisi atau tidak berkaitan dengan materi maupun soal
+  const context = new Set([...(vocabulary ?? []), ...stems(question.question), ...(key >= 0 ? stems(options[key]) : [])]);
+  const implausible = distractors.filter(index => {
+    const option = options[index].trim();
+    if (FILLER_PATTERN.test(option)) return true;
+    if (!vocabulary || NUMERIC_PATTERN.test(option) || isPinnedOption(option)) return false;
+    const terms = stems(option);
+    return terms.size > 0 && Array.from(terms).every(term => !context.has(term));
+  });
+  if (implausible.length > 0) {
+    addIssue('plausibility', `pengecoh ${implausible.map(optionLetter).join(', ')} tidak berkaitan dengan materi atau soal sehingga mudah dicoret`, implausible);
+  }
+
+  const penalty = issues.reduce((sum, issue) => sum + PENALTIES[issue.rule] * Math.max(1, issue.options.length), 0);
+  return {
+    score: Math.round(Math.max(0, 1 - penalty) * 100) / 100,
+    issues,
+    weakOptions: Array.from(new Set(issues.flatMap(issue => issue.options))).sort((a, b) => a - b)
+  };
+}
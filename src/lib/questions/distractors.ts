@@ -0,0 +1,218 @@
+import { optionLetter } from '@/lib/export/layout';
+import { ChatMessage, completeWithFallback, FallbackResult, FallbackTarget, ModelOutputError, RetryPolicy } from '@/lib/llm';
+import { analyzeDistractors, createMaterialVocabulary, DistractorAnalysis, DistractorImprovement } from './distractor-analysis';
+import { findRelevantPassages } from './grounding';
+import { createQuestionId } from './shuffle';
+import { Question } from './types';
+import { parseAIResponse } from './validation';
+
+/**
+ * Pembuatan ulang pengecoh lemah dengan LLM tanpa mengubah pokok soal dan
+ * kunci jawaban. Analisis pengecohnya ada di distractor-analysis.ts.
+ */
+
+export const MAX_DISTRACTOR_REPAIR_ROUNDS = 1;
+
+const IMPROVE_BATCH_SIZE = 10;
+const IMPROVE_PASSAGES = 3;
+const TOKENS_PER_ITEM = 200;
+const MIN_MAX_TOKENS = 600;
+
+export interface ImproveOptions {
+  chain: FallbackTarget[];
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  maxRepairRounds?: number;
+}
+
+/**
+ * Error ketika output LLM tetap tidak valid setelah ronde perbaikan
+ */
+export class DistractorImprovementError extends ModelOutputError {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super('Model tidak menghasilkan pengecoh pengganti yang valid', errors);
+    this.name = 'DistractorImprovementError';
+    this.errors = errors;
+  }
+}
+
+const IMPROVE_JSON_TEMPLATE = `{
+  "items": [
+    {
+      "index": 0,
+      "replacements": [
+        { "option": "B", "text": "pengecoh pengganti" }
+      ]
+    }
+  ]
+}`;
+
+interface ImproveEntry {
+  question: Question;
+  analysis: DistractorAnalysis;
+  passages: string[];
+}
+
+/**
+ * Data soal untuk perbaikan pengecoh. Pokok soal, kunci dan pengecoh yang baik
+ * disertakan sebagai konteks; hanya opsi yang disebut di "replace" yang diganti.
+ */
+function createImproveItems(entries: ImproveEntry[]) {
+  return entries.map(({ question, analysis, passages }, index) => ({
+    index,
+    question: question.question,
+    options: Object.fromEntries((question.options ?? []).map((option, optionIndex) => [optionLetter(optionIndex), option])),
+    correctAnswer: question.correctAnswer,
+    replace: analysis.weakOptions.map(optionLetter),
+    issues: analysis.issues.map(issue => issue.message),
+    passages
+  }));
+}
+
+/**
+ * Prompt perbaikan pengecoh
+ */
+function createImprovePrompt(items: ReturnType<typeof createImproveItems>): string {
+  let prompt = `Perbaiki pengecoh (opsi salah) soal pilihan ganda berikut. Ganti hanya opsi yang disebut di "replace"; jangan ubah pokok soal, kunci jawaban atau opsi lain.\n\n`;
+  prompt += `Soal (JSON):\n${JSON.stringify(items)}\n\n`;
+  prompt += `Pengecoh pengganti harus:\n`;
+  prompt += `- salah menurut materi, tetapi masuk akal bagi siswa yang belum menguasai materi (gunakan istilah dari "passages"),\n`;
+  prompt += `- sejenis dan sepanjang kira-kira sama dengan kunci jawaban, dengan bentuk yang sama (huruf awal, tanda baca, angka),\n`;
+  prompt += `- tidak sama atau tumpang tindih dengan opsi lain,\n`;
+  prompt += `- bukan "semua jawaban benar" atau "tidak ada jawaban yang benar".\n\n`;
+  prompt += `Gunakan struktur JSON berikut dengan satu entri untuk setiap soal, urut sesuai "index":\n${IMPROVE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+function createImproveRepairPrompt(errors: string[]): string {
+  let prompt = `Output sebelumnya tidak lolos validasi:\n${errors.map(error => `- ${error}`).join('\n')}\n\n`;
+  prompt += `Ulangi dengan memperbaiki kesalahan di atas. Gunakan struktur JSON berikut:\n${IMPROVE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+/**
+ * Validasi output LLM dan terapkan pengecoh pengganti. Setiap opsi yang
+ * diminta harus diganti dengan teks baru yang tidak sama dengan opsi lain.
+ */
+function applyReplacements(raw: unknown, entries: ImproveEntry[]): { options?: string[][]; errors: string[] } {
+  const item = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(item.items)) {
+    return { errors: ['output harus berupa objek dengan array "items"'] };
+  }
+  const items = item.items.map(entry => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {}));
+
+  const errors: string[] = [];
+  const results = entries.map(({ question, analysis }, index) => {
+    const entry = items.find(candidate => candidate.index === index) ?? items[index];
+    const options = [...(question.options ?? [])];
+    const replacements = Array.isArray(entry?.replacements) ? entry.replacements as Record<string, unknown>[] : [];
+    for (const optionIndex of analysis.weakOptions) {
+      const replacement = replacements.find(candidate => {
+        const option = typeof candidate?.option === 'string' ? candidate.option.trim().toUpperCase() : candidate?.option;
+        return option === optionLetter(optionIndex) || option === optionIndex;
+      });
+      const text = typeof replacement?.text === 'string' ? replacement.text.trim() : '';
+      if (!text) {
+        errors.push(`soal index ${index}: pengganti opsi ${optionLetter(optionIndex)} belum ada`);
+        continue;
+      }
+      options[optionIndex] = text;
+    }
+    const lowered = options.map(option => option.toLowerCase());
+    if (new Set(lowered).size !== lowered.length) {
+      errors.push(`soal index ${index}: opsi tidak boleh ada yang sama`);
+    }
+    return options;
+  });
+  return errors.length > 0 ? { errors } : { options: results, errors };
+}
+
+/**
+ * Minta LLM mengganti pengecoh lemah untuk satu kelompok soal, dengan ronde
+ * perbaikan seperti penilaian kesesuaian
+ */
+async function improveBatch(entries: ImproveEntry[], options: ImproveOptions): Promise<{ options: string[][]; completion: FallbackResult; attempts: number }> {
+  const maxRepairRounds = options.maxRepairRounds ?? MAX_DISTRACTOR_REPAIR_ROUNDS;
+  const items = createImproveItems(entries);
+  const messages: ChatMessage[] = [{ role: 'user', content: createImprovePrompt(items) }];
+  let attempts = 0;
+  let errors: string[] = [];
+
+  for (let round = 0; round <= maxRepairRounds; round++) {
+    const completion = await completeWithFallback(options.chain, {
+      messages,
+      maxTokens: Math.max(MIN_MAX_TOKENS, entries.length * TOKENS_PER_ITEM),
+      temperature: 0.7,
+      signal: options.signal,
+      task: { type: 'improve-distractors', items }
+    }, options.policy);
+    attempts += completion.attempts;
+
+    try {
+      const result = applyReplacements(parseAIResponse(completion.content), entries);
+      if (result.options) {
+        return { options: result.options, completion, attempts };
+      }
+      errors = result.errors;
+    } catch (parseError) {
+      errors = [parseError instanceof Error ? parseError.message : 'JSON tidak valid'];
+    }
+
+    console.warn(`⚠️ Pengecoh pengganti tidak valid, ronde ${round + 1}:\n${errors.join('\n')}`);
+    if (round === maxRepairRounds) break;
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: createImproveRepairPrompt(errors) }
+    );
+  }
+  throw new DistractorImprovementError(errors);
+}
+
+/**
+ * Perbaiki pengecoh lemah. Hanya soal yang perlu diperbaiki yang dikirim ke
+ * LLM; pengecoh baru dipakai jika skor analisisnya tidak turun.
+ */
+export async function improveDistractors(
+  items: { id: string; question: Question }[],
+  material: string | undefined,
+  options: ImproveOptions
+): Promise<{ results: DistractorImprovement[]; completion?: FallbackResult; attempts: number }> {
+  const vocabulary = material ? createMaterialVocabulary(material) : undefined;
+  const analyses = items.map(item => analyzeDistractors(item.question, vocabulary));
+  const weak = items.map((_, index) => index).filter(index => analyses[index].weakOptions.length > 0);
+  const passages = material
+    ? findRelevantPassages(material, weak.map(index => `${items[index].question.question} ${items[index].question.correctAnswer ?? ''}`), IMPROVE_PASSAGES)
+    : weak.map(() => []);
+
+  const results: DistractorImprovement[] = items.map((item, index) => ({
+    id: item.id,
+    question: item.question,
+    analysis: analyses[index],
+    previousAnalysis: analyses[index],
+    improved: false
+  }));
+  let completion: FallbackResult | undefined;
+  let attempts = 0;
+
+  for (let start = 0; start < weak.length; start += IMPROVE_BATCH_SIZE) {
+    const batch = weak.slice(start, start + IMPROVE_BATCH_SIZE);
+    const entries = batch.map((index, offset) => ({ question: items[index].question, analysis: analyses[index], passages: passages[start + offset] }));
+    const improved = await improveBatch(entries, options);
+    completion = improved.completion;
+    attempts += improved.attempts;
+
+    batch.forEach((index, offset) => {
+      const { question } = items[index];
+      const candidate = { ...question, options: improved.options[offset] };
+      const analysis = analyzeDistractors(candidate, vocabulary);
+      if (analysis.score >= analyses[index].score) {
+        results[index] = { ...results[index], question: { ...candidate, id: createQuestionId(candidate) }, analysis, improved: true };
+      }
+    });
+  }
+  return { results, completion, attempts };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ESSAY_ANSWER_LENGTH, overrideCriterionScore, validateEssayGrade, validateGradeRequest } from './essay-scoring';
+import { EssayRubric } from './types';
+
+const RUBRIC: EssayRubric = {
+  criteria: [
+    {
+      name: 'Ketepatan konsep',
+      maxScore: 4,
+      bands: [{ score: 4, description: 'Konsep tepat dan lengkap' }, { score: 0, description: 'Konsep keliru' }]
+    },
+    {
+      name: 'Kejelasan',
+      maxScore: 2,
+      bands: [{ score: 2, description: 'Runtut dan jelas' }, { score: 0, description: 'Sulit dipahami' }]
+    }
+  ],
+  modelAnswer: ['Air menguap, mengembun menjadi awan, lalu turun sebagai hujan']
+};
+
+const ANSWER = 'Air laut menguap karena panas matahari, lalu mengembun dan turun sebagai hujan.';
+
+describe('validateGradeRequest', () => {
+  it('merapikan request yang valid', () => {
+    const { request, errors } = validateGradeRequest({ question: ' Jelaskan siklus air. ', rubric: RUBRIC, answer: ` ${ANSWER} ` });
+
+    expect(errors).toEqual([]);
+    expect(request).toEqual({ question: 'Jelaskan siklus air.', rubric: RUBRIC, answer: ANSWER });
+  });
+
+  it('menolak jawaban kosong, terlalu panjang atau rubrik tidak valid', () => {
+    expect(validateGradeRequest({ question: 'Soal?', rubric: RUBRIC, answer: '  ' }).errors).toHaveLength(1);
+    expect(validateGradeRequest({ question: 'Soal?', rubric: RUBRIC, answer: 'a'.repeat(MAX_ESSAY_ANSWER_LENGTH + 1) }).errors)
+      .toEqual([`"answer" maksimal ${MAX_ESSAY_ANSWER_LENGTH} karakter`]);
+
+    const { request, errors } = validateGradeRequest({ question: 'Soal?', rubric: { criteria: [] }, answer: ANSWER });
+    expect(request).toBeUndefined();
+    expect(errors.length).toBeGreaterThan(0);
+  });
+});
+
+describe('validateEssayGrade', () => {
+  it('mencocokkan kriteria berdasarkan nama dan membulatkan skor ke 0,5', () => {
+    const { grade, errors } = validateEssayGrade({
+      criteria: [
+        { name: 'kejelasan', score: '1.8', justification: 'Cukup runtut.' },
+        { name: 'Ketepatan konsep', score: 3.2, justification: ' Menyebut penguapan dan pengembunan. ' }
+      ],
+      feedback: ' Tambahkan proses presipitasi. '
+    }, RUBRIC);
+
+    expect(errors).toEqual([]);
+    expect(grade).toEqual({
+      criteria: [
+        { name: 'Ketepatan konsep', score: 3, maxScore: 4, justification: 'Menyebut penguapan dan pengembunan.' },
+        { name: 'Kejelasan', score: 2, maxScore: 2, justification: 'Cukup runtut.' }
+      ],
+      score: 5,
+      maxScore: 6,
+      feedback: 'Tambahkan proses presipitasi.',
+      overridden: false
+    });
+  });
+
+  it('memakai urutan kriteria jika nama dari model berbeda', () => {
+    const { grade } = validateEssayGrade({
+      criteria: [
+        { name: 'Konsep', score: 4, justification: 'Tepat.' },
+        { name: 'Bahasa', score: 1, justification: 'Kurang runtut.' }
+      ]
+    }, RUBRIC);
+
+    expect(grade?.criteria.map(criterion => [criterion.name, criterion.score])).toEqual([['Ketepatan konsep', 4], ['Kejelasan', 1]]);
+    expect(grade?.feedback).toBe('');
+  });
+
+  it('menolak skor di luar rentang, alasan kosong dan kriteria yang hilang', () => {
+    expect(validateEssayGrade([], RUBRIC).errors).toEqual(['output harus berupa objek dengan array "criteria"']);
+    expect(validateEssayGrade({
+      criteria: [
+        { name: 'Ketepatan konsep', score: 5, justification: 'Sangat baik.' },
+        { name: 'Kejelasan', score: 1, justification: '' }
+      ]
+    }, RUBRIC).errors).toEqual([
+      'kriteria "Ketepatan konsep": "score" harus bilangan 0-4',
+      'kriteria "Kejelasan": "justification" wajib berisi alasan skor'
+    ]);
+    expect(validateEssayGrade({ criteria: [{ name: 'Ketepatan konsep', score: 2, justification: 'Sebagian.' }] }, RUBRIC).errors)
+      .toEqual(['kriteria "Kejelasan" belum dinilai']);
+  });
+});
+
+describe('overrideCriterionScore', () => {
+  const { grade } = validateEssayGrade({
+    criteria: [
+      { name: 'Ketepatan konsep', score: 3, justification: 'Sebagian besar tepat.' },
+      { name: 'Kejelasan', score: 2, justification: 'Runtut.' }
+    ]
+  }, RUBRIC);
+
+  it('menyimpan skor model dan menghitung ulang total', () => {
+    const overridden = overrideCriterionScore(grade!, 0, 4);
+
+    expect(overridden.criteria[0]).toMatchObject({ score: 4, aiScore: 3 });
+    expect(overridden).toMatchObject({ score: 6, maxScore: 6, overridden: true });
+  });
+
+  it('membatasi skor ke rentang kriteria', () => {
+    expect(overrideCriterionScore(grade!, 1, 7).criteria[1].score).toBe(2);
+    expect(overrideCriterionScore(grade!, 1, -1).criteria[1].score).toBe(0);
+    expect(overrideCriterionScore(grade!, 1, NaN).criteria[1].score).toBe(0);
+  });
+
+  it('menghapus tanda perubahan jika skor dikembalikan ke skor model', () => {
+    const restored = overrideCriterionScore(overrideCriterionScore(grade!, 0, 1), 0, 3);
+
+    expect(restored.criteria[0]).not.toHaveProperty('aiScore');
+    expect(restored).toMatchObject({ score: 5, overridden: false });
+  });
+});
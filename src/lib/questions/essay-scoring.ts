@@ -0,0 +1,120 @@
+import { EssayRubric } from './types';
+import { validateRubric } from './validation';
+
+/**
+ * Skor penilaian esai berdasarkan rubrik: validasi request dan output model,
+ * penjumlahan skor, dan perubahan skor oleh guru. Modul ini tidak memanggil
+ * LLM sehingga bisa dipakai di browser; pemanggilan model ada di essay-grading.ts.
+ */
+
+export const MAX_ESSAY_ANSWER_LENGTH = 10000;
+
+export interface EssayGradeRequest {
+  question: string;
+  rubric: EssayRubric;
+  answer: string;
+}
+
+export interface CriterionScore {
+  name: string;
+  score: number;
+  maxScore: number;
+  justification: string;
+  aiScore?: number; // skor asli dari model jika sudah diubah guru
+}
+
+export interface EssayGrade {
+  criteria: CriterionScore[];
+  score: number;
+  maxScore: number;
+  feedback: string; // umpan balik umum untuk siswa
+  overridden: boolean; // true jika ada skor yang diubah guru
+}
+
+/**
+ * Validasi body request penilaian
+ */
+export function validateGradeRequest(raw: { question?: unknown; rubric?: unknown; answer?: unknown }): { request?: EssayGradeRequest; errors: string[] } {
+  const errors: string[] = [];
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    errors.push('"question" wajib berisi teks soal');
+  }
+  if (typeof raw.answer !== 'string' || !raw.answer.trim()) {
+    errors.push('"answer" wajib berisi jawaban siswa');
+  } else if (raw.answer.length > MAX_ESSAY_ANSWER_LENGTH) {
+    errors.push(`"answer" maksimal ${MAX_ESSAY_ANSWER_LENGTH} karakter`);
+  }
+  const rubric = validateRubric(raw.rubric, errors);
+  if (errors.length > 0 || !rubric) return { errors };
+  return { request: { question: (raw.question as string).trim(), rubric, answer: (raw.answer as string).trim() }, errors };
+}
+
+function sumScores(criteria: CriterionScore[]): Pick<EssayGrade, 'score' | 'maxScore'> {
+  return {
+    score: criteria.reduce((sum, criterion) => sum + criterion.score, 0),
+    maxScore: criteria.reduce((sum, criterion) => sum + criterion.maxScore, 0)
+  };
+}
+
+/**
+ * Validasi output model terhadap rubrik. Kriteria dicocokkan berdasarkan nama,
+ * atau urutannya jika model menulis nama yang berbeda. Skor dibulatkan ke 0,5.
+ */
+export function validateEssayGrade(raw: unknown, rubric: EssayRubric): { grade?: EssayGrade; errors: string[] } {
+  const item = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(item.criteria)) {
+    return { errors: ['output harus berupa objek dengan array "criteria"'] };
+  }
+  const entries = item.criteria.map(entry => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {}));
+
+  const errors: string[] = [];
+  const criteria: CriterionScore[] = [];
+  rubric.criteria.forEach((criterion, index) => {
+    const entry = entries.find(candidate => typeof candidate.name === 'string' && candidate.name.trim().toLowerCase() === criterion.name.toLowerCase())
+      ?? entries[index];
+    if (!entry) {
+      errors.push(`kriteria "${criterion.name}" belum dinilai`);
+      return;
+    }
+    const score = typeof entry.score === 'string' ? parseFloat(entry.score) : entry.score;
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > criterion.maxScore) {
+      errors.push(`kriteria "${criterion.name}": "score" harus bilangan 0-${criterion.maxScore}`);
+      return;
+    }
+    if (typeof entry.justification !== 'string' || !entry.justification.trim()) {
+      errors.push(`kriteria "${criterion.name}": "justification" wajib berisi alasan skor`);
+      return;
+    }
+    criteria.push({
+      name: criterion.name,
+      score: Math.round(score * 2) / 2,
+      maxScore: criterion.maxScore,
+      justification: entry.justification.trim()
+    });
+  });
+  if (errors.length > 0) return { errors };
+
+  const feedback = typeof item.feedback === 'string' ? item.feedback.trim() : '';
+  return { grade: { criteria, ...sumScores(criteria), feedback, overridden: false }, errors };
+}
+
+/**
+ * Skor kriteria diubah guru. Skor asli model disimpan di `aiScore`; mengisi
+ * kembali skor yang sama dengan skor model menghapus tanda perubahan.
+ */
+export function overrideCriterionScore(grade: EssayGrade, index: number, score: number): EssayGrade {
+  const criteria = grade.criteria.map((criterion, criterionIndex) => {
+    if (criterionIndex !== index) return criterion;
+    const aiScore = criterion.aiScore ?? criterion.score;
+    const clamped = Math.min(Math.max(Number.isFinite(score) ? score : 0, 0), criterion.maxScore);
+    return clamped === aiScore
+      ? { name: criterion.name, score: clamped, maxScore: criterion.maxScore, justification: criterion.justification }
+      : { ...criterion, score: clamped, aiScore };
+  });
+  return {
+    ...grade,
+    criteria,
+    ...sumScores(criteria),
+    overridden: criteria.some(criterion => criterion.aiScore !== undefined)
+  };
+}
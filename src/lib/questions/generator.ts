@@ -0,0 +1,364 @@
+import {
+  ChatMessage,
+  completeWithFallback,
+  CompletionTask,
+  FallbackResult,
+  FallbackTarget,
+  ModelOutputError,
+  RetryPolicy,
+  streamWithFallback
+} from '@/lib/llm';
+import { allocateBloomLevels, BLOOM_LEVEL_INFO, objectiveLabel } from './bloom';
+import { allocateQuestions, chunkMaterial, DEFAULT_CHUNK_MAX_CHARS } from './chunking';
+import { resolveSourcePage, splitByPageMarkers } from './pages';
+import { createPrompt, getJsonTemplate, getQuestionRules, getTargetInstructions } from './prompt';
+import { createQuestionId } from './shuffle';
+import { createSimilarityProfile, findMostSimilar, SimilarityProfile } from './similarity';
+import { QuestionStreamParser } from './stream-parser';
+import { GenerateRequest, Question } from './types';
+import {
+  formatValidationIssues,
+  parseAIResponse,
+  validateQuestion,
+  validateQuestionResponse,
+  ValidationIssue
+} from './validation';
+
+export const MAX_REPAIR_ROUNDS = 2;
+
+// Perkiraan token per soal, supaya set soal yang besar tidak terpotong
+const TOKENS_PER_QUESTION = 350;
+const TOKENS_PER_ESSAY = 900; // esai menyertakan rubrik
+const MIN_MAX_TOKENS = 1000;
+
+export interface GenerationOptions {
+  chain: FallbackTarget[];
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  maxRepairRounds?: number;
+  stream?: boolean; // pakai streaming provider agar soal bisa dikirim satu per satu
+  chunkMaxChars?: number; // materi lebih panjang dari ini dipecah menjadi beberapa chunk
+  avoidQuestions?: string[]; // soal yang sudah ada (mis. dari bagian ujian lain) dan tidak boleh diulang
+}
+
+export interface ChunkSummary {
+  index: number;
+  heading?: string;
+  charCount: number;
+  requestedCount: number;
+  returnedCount: number;
+  error?: string;
+}
+
+export interface GenerationResult {
+  questions: Question[];
+  completion: FallbackResult; // completion terakhir, untuk metadata model/provider
+  attempts: number; // total percobaan ke provider di semua ronde
+  repairRounds: number;
+  discarded: number; // jumlah soal tidak valid yang dibuang
+  duplicates: number; // jumlah soal kembar atau hampir kembar yang dibuang
+  chunks: ChunkSummary[];
+}
+
+export type GenerationEvent =
+  | { type: 'question'; question: Question; index: number }
+  | { type: 'done'; result: GenerationResult };
+
+/**
+ * Error ketika tidak ada satu pun soal valid setelah semua ronde perbaikan
+ */
+export class QuestionValidationError extends ModelOutputError {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super('Model tidak menghasilkan soal yang valid', issues);
+    this.name = 'QuestionValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Prompt lanjutan yang meminta model memperbaiki output sebelumnya
+ */
+function createRepairPrompt(request: GenerateRequest, issues: ValidationIssue[], missing: number): string {
+  let prompt = `Output sebelumnya tidak lolos validasi:\n${formatValidationIssues(issues)}\n\n`;
+  prompt += `Buat ${missing} soal pengganti yang memperbaiki kesalahan di atas, berdasarkan materi yang sama. `;
+  const rules = getQuestionRules(request.questionType);
+  if (rules) {
+    prompt += `${rules} `;
+  }
+  prompt += `${getTargetInstructions(request, missing)}\n`;
+  prompt += `Gunakan struktur JSON berikut:\n${getJsonTemplate(request)}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+/**
+ * Data terstruktur satu ronde pembuatan soal, dikirim bersama prompt.
+ * `offset` menggeser soal yang disusun provider mock supaya tidak berulang.
+ */
+function createQuestionTask(request: GenerateRequest, count: number, offset: number): CompletionTask {
+  return {
+    type: 'questions',
+    questionType: request.questionType,
+    count,
+    material: request.material,
+    offset,
+    bloomLevels: request.bloomLevels
+      ? allocateBloomLevels(count, request.bloomLevels).flatMap(({ level, count: levelCount }) => Array<string>(levelCount).fill(BLOOM_LEVEL_INFO[level].code))
+      : [],
+    objective: request.objectives ? objectiveLabel(request.objectives[0]) : undefined
+  };
+}
+
+/**
+ * Hasilkan soal untuk satu materi (atau satu chunk) sebagai event. Setiap soal
+ * divalidasi terhadap skema; jika ada yang tidak valid, mirip soal lain, atau
+ * jumlahnya kurang, model diminta memperbaiki dengan menyertakan daftar
+ * kesalahan, maksimal `maxRepairRounds` kali. Hanya soal valid yang dikirim.
+ */
+async function* generateForMaterial(request: GenerateRequest, options: GenerationOptions): AsyncGenerator<GenerationEvent> {
+  const maxRepairRounds = options.maxRepairRounds ?? MAX_REPAIR_ROUNDS;
+  const avoid = options.avoidQuestions ?? [];
+  const messages: ChatMessage[] = [{ role: 'user', content: createPrompt(request, avoid) }];
+  const questions: Question[] = [];
+  const profiles: SimilarityProfile[] = [];
+  // Soal yang harus dihindari hanya berupa teks soal, jadi dibandingkan tanpa kunci jawaban
+  const avoidProfiles = avoid.map(question => createSimilarityProfile({ question }));
+  let attempts = 0;
+  let discarded = 0;
+  let duplicates = 0;
+  let lastIssues: ValidationIssue[] = [];
+  let completion: FallbackResult | undefined;
+  let requested = avoid.length;
+
+  // Alasan penolakan jika soal kembar atau hampir kembar dengan soal yang sudah ada
+  const findDuplicate = (question: Question): string | undefined => {
+    const profile = createSimilarityProfile(question);
+    const existing = findMostSimilar(profile, profiles);
+    if (existing) return `soal terlalu mirip dengan soal "${questions[existing.index].question}"; buat soal tentang fakta atau konsep lain`;
+    const avoided = findMostSimilar(createSimilarityProfile({ question: question.question }), avoidProfiles);
+    if (avoided) return `soal terlalu mirip dengan soal yang sudah ada "${avoid[avoided.index]}"; buat soal tentang fakta atau konsep lain`;
+    return undefined;
+  };
+
+  // Terima soal valid; soal kembar dicatat supaya model diminta menggantinya
+  const accept = (question: Question, index: number, duplicateIssues: ValidationIssue[]): boolean => {
+    if (questions.length >= request.questionCount) return false;
+    const duplicate = findDuplicate(question);
+    if (duplicate) {
+      duplicateIssues.push({ index, errors: [duplicate] });
+      return false;
+    }
+    question.id = createQuestionId(question);
+    questions.push(question);
+    profiles.push(createSimilarityProfile(question));
+    return true;
+  };
+
+  for (let round = 0; round <= maxRepairRounds; round++) {
+    const missingBefore = request.questionCount - questions.length;
+    const completionRequest = {
+      messages,
+      maxTokens: Math.max(MIN_MAX_TOKENS, missingBefore * (request.questionType === 'essay' ? TOKENS_PER_ESSAY : TOKENS_PER_QUESTION)),
+      temperature: 0.7,
+      signal: options.signal,
+      task: createQuestionTask(request, missingBefore, requested)
+    };
+    requested += missingBefore;
+    let issues: ValidationIssue[] = [];
+    const duplicateIssues: ValidationIssue[] = [];
+    let content = '';
+    let roundCompletion: FallbackResult | undefined;
+
+    if (options.stream) {
+      const parser = new QuestionStreamParser();
+      let itemIndex = 0;
+      try {
+        for await (const chunk of streamWithFallback(options.chain, completionRequest, options.policy)) {
+          if (chunk.type === 'done') {
+            roundCompletion = chunk.result;
+            continue;
+          }
+          content += chunk.text;
+          for (const raw of parser.push(chunk.text)) {
+            const result = validateQuestion(raw, request.questionType, request);
+            if (!result.question) {
+              issues.push({ index: itemIndex, errors: result.errors });
+            } else if (accept(result.question, itemIndex, duplicateIssues)) {
+              yield { type: 'question', question: result.question, index: questions.length - 1 };
+            }
+            itemIndex++;
+          }
+        }
+        if (itemIndex === 0) {
+          // Parser tidak menemukan array soal; pakai parse biasa agar kesalahannya tercatat
+          parseAIResponse(content);
+          issues.push({ index: -1, errors: ['output harus berupa objek dengan array "questions"'] });
+        }
+      } catch (streamError) {
+        // Stream yang putus setelah sebagian soal terkirim diperlakukan seperti output tidak lengkap
+        if (options.signal?.aborted || !content) throw streamError;
+        issues.push({ index: -1, errors: [streamError instanceof Error ? streamError.message : 'stream terputus'] });
+      }
+    } else {
+      roundCompletion = await completeWithFallback(options.chain, completionRequest, options.policy);
+      content = roundCompletion.content;
+      try {
+        const result = validateQuestionResponse(parseAIResponse(content), request.questionType, request);
+        issues = result.issues;
+        // Nomor soal di output model, supaya pesan perbaikan menunjuk soal yang benar
+        const invalid = new Set(issues.map(issue => issue.index));
+        let itemIndex = 0;
+        for (const question of result.valid) {
+          while (invalid.has(itemIndex)) itemIndex++;
+          if (accept(question, itemIndex++, duplicateIssues)) {
+            yield { type: 'question', question, index: questions.length - 1 };
+          }
+        }
+      } catch (parseError) {
+        issues = [{ index: -1, errors: [parseError instanceof Error ? parseError.message : 'JSON tidak valid'] }];
+      }
+    }
+
+    if (roundCompletion) {
+      completion = roundCompletion;
+      attempts += roundCompletion.attempts;
+    }
+    discarded += issues.filter(issue => issue.index >= 0).length;
+    duplicates += duplicateIssues.length;
+    issues = [...issues, ...duplicateIssues];
+    lastIssues = issues;
+
+    const missing = request.questionCount - questions.length;
+    if (missing <= 0 && completion) {
+      yield { type: 'done', result: { questions, completion, attempts, repairRounds: round, discarded, duplicates, chunks: [] } };
+      return;
+    }
+    if (round === maxRepairRounds) break;
+
+    if (issues.length === 0) {
+      issues = [{ index: -1, errors: [`jumlah soal kurang ${missing} dari yang diminta`] }];
+    }
+    console.warn(`⚠️ Validasi gagal, ronde perbaikan ${round + 1}:\n${formatValidationIssues(issues)}`);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: createRepairPrompt(request, issues, missing) }
+    );
+  }
+
+  if (questions.length === 0 || !completion) {
+    throw new QuestionValidationError(lastIssues);
+  }
+  yield { type: 'done', result: { questions, completion, attempts, repairRounds: maxRepairRounds, discarded, duplicates, chunks: [] } };
+}
+
+/**
+ * Hasilkan soal sebagai event. Materi yang panjang dipecah menjadi chunk
+ * (map), setiap chunk mendapat bagian soal sebanding panjangnya, lalu hasilnya
+ * digabung menjadi satu set (reduce). Setiap soal mencatat chunk asalnya.
+ */
+export async function* generateQuestionEvents(request: GenerateRequest, options: GenerationOptions): AsyncGenerator<GenerationEvent> {
+  const chunks = chunkMaterial(request.material, options.chunkMaxChars ?? DEFAULT_CHUNK_MAX_CHARS);
+  // Halaman sumber dicek terhadap seluruh materi, bukan per chunk
+  const pages = splitByPageMarkers(request.material);
+
+  if (chunks.length === 1) {
+    for await (const event of generateForMaterial(request, options)) {
+      if (event.type === 'done') {
+        const { result } = event;
+        yield {
+          type: 'done',
+          result: {
+            ...result,
+            questions: result.questions.map(question => resolveSourcePage(question, pages)),
+            chunks: [{
+              index: 0,
+              charCount: request.material.length,
+              requestedCount: request.questionCount,
+              returnedCount: result.questions.length
+            }]
+          }
+        };
+      } else {
+        yield { ...event, question: resolveSourcePage(event.question, pages) };
+      }
+    }
+    return;
+  }
+
+  const allocation = allocateQuestions(chunks, request.questionCount);
+  console.log(`📚 Materi dipecah menjadi ${chunks.length} chunk, alokasi soal: ${allocation.join(', ')}`);
+
+  const questions: Question[] = [];
+  const profiles: SimilarityProfile[] = [];
+  const summaries: ChunkSummary[] = [];
+  let completion: FallbackResult | undefined;
+  let attempts = 0;
+  let discarded = 0;
+  let duplicates = 0;
+  let repairRounds = 0;
+  let lastError: unknown;
+
+  // Chunk diproses berurutan supaya tidak membanjiri provider dengan request paralel
+  for (const chunk of chunks) {
+    const summary: ChunkSummary = {
+      index: chunk.index,
+      heading: chunk.heading,
+      charCount: chunk.text.length,
+      requestedCount: allocation[chunk.index],
+      returnedCount: 0
+    };
+    summaries.push(summary);
+    if (summary.requestedCount === 0) continue;
+
+    const source = { chunkIndex: chunk.index, heading: chunk.heading };
+    try {
+      const chunkRequest = { ...request, material: chunk.text, questionCount: summary.requestedCount };
+      // Soal dari chunk sebelumnya ikut dihindari supaya soal mirip langsung diganti model
+      const avoidQuestions = [...(options.avoidQuestions ?? []), ...questions.map(question => question.question)];
+      for await (const event of generateForMaterial(chunkRequest, { ...options, avoidQuestions })) {
+        if (event.type === 'question') {
+          // Soal yang tetap mirip soal chunk lain dibuang saat penggabungan
+          const profile = createSimilarityProfile(event.question);
+          if (findMostSimilar(profile, profiles)) {
+            duplicates++;
+            continue;
+          }
+          const question = resolveSourcePage({ ...event.question, source }, pages);
+          questions.push(question);
+          profiles.push(profile);
+          summary.returnedCount++;
+          yield { type: 'question', question, index: questions.length - 1 };
+        } else {
+          completion = event.result.completion;
+          attempts += event.result.attempts;
+          discarded += event.result.discarded;
+          duplicates += event.result.duplicates;
+          repairRounds = Math.max(repairRounds, event.result.repairRounds);
+        }
+      }
+    } catch (chunkError) {
+      if (options.signal?.aborted) throw chunkError;
+      // Chunk yang gagal tidak menggagalkan seluruh dokumen
+      console.warn(`⚠️ Chunk ${chunk.index + 1} gagal:`, chunkError);
+      summary.error = chunkError instanceof Error ? chunkError.message : 'Unknown error';
+      lastError = chunkError;
+    }
+  }
+
+  if (questions.length === 0 || !completion) {
+    throw lastError ?? new QuestionValidationError([]);
+  }
+  yield { type: 'done', result: { questions, completion, attempts, repairRounds, discarded, duplicates, chunks: summaries } };
+}
+
+/**
+ * Versi non-streaming: tunggu sampai semua soal selesai divalidasi
+ */
+export async function generateQuestions(request: GenerateRequest, options: GenerationOptions): Promise<GenerationResult> {
+  for await (const event of generateQuestionEvents(request, options)) {
+    if (event.type === 'done') return event.result;
+  }
+  throw new Error('Generator berhenti tanpa hasil');
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { GradedItem, gradeAnswer, gradeQuiz, normalizeAnswer } from './grading';
+
+const MULTIPLE_CHOICE: GradedItem = {
+  type: 'multiple-choice',
+  question: { question: 'Ibu kota Indonesia?', options: ['Bandung', 'Jakarta', 'Surabaya', 'Medan'], correctAnswer: 'Jakarta' }
+};
+
+const SHORT_ANSWER: GradedItem = {
+  type: 'short-answer',
+  question: { question: 'Proses tumbuhan membuat makanan?', correctAnswer: 'Fotosintesis' },
+  points: 2
+};
+
+// Pilihan menjodohkan diurutkan: A. Jakarta, B. Paris, C. Tokyo
+const MATCHING: GradedItem = {
+  type: 'matching',
+  question: {
+    question: 'Jodohkan negara dengan ibu kotanya.',
+    pairs: [
+      { left: 'Indonesia', right: 'Jakarta' },
+      { left: 'Jepang', right: 'Tokyo' },
+      { left: 'Prancis', right: 'Paris' }
+    ]
+  },
+  points: 3
+};
+
+const ESSAY: GradedItem = {
+  type: 'essay',
+  question: { question: 'Jelaskan siklus air.' },
+  points: 4
+};
+
+describe('normalizeAnswer', () => {
+  it('mengabaikan huruf besar, spasi ganda dan tanda baca di ujung', () => {
+    expect(normalizeAnswer('  "Foto   Sintesis."  ')).toBe('foto sintesis');
+    expect(normalizeAnswer('（Ｆｏｔｏ）')).toBe('foto');
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('mencocokkan pilihan ganda persis dengan kunci', () => {
+    expect(gradeAnswer(MULTIPLE_CHOICE, 'Jakarta')).toEqual({ status: 'correct', score: 1, maxScore: 1, expected: 'B. Jakarta' });
+    expect(gradeAnswer(MULTIPLE_CHOICE, 'jakarta').status).toBe('incorrect');
+    expect(gradeAnswer(MULTIPLE_CHOICE, '   ').status).toBe('unanswered');
+  });
+
+  it('membandingkan jawaban singkat setelah dinormalisasi', () => {
+    expect(gradeAnswer(SHORT_ANSWER, ' fotosintesis! ')).toMatchObject({ status: 'correct', score: 2 });
+    expect(gradeAnswer(SHORT_ANSWER, 'respirasi')).toMatchObject({ status: 'incorrect', score: 0, maxScore: 2 });
+  });
+
+  it('menilai menjodohkan per pasangan', () => {
+    expect(gradeAnswer(MATCHING, ['A', 'C', 'B'])).toMatchObject({ status: 'correct', score: 3, expected: '1-A, 2-C, 3-B' });
+    expect(gradeAnswer(MATCHING, ['A', 'B', ''])).toMatchObject({ status: 'partial', score: 1 });
+    expect(gradeAnswer(MATCHING, ['B', 'A', 'C'])).toMatchObject({ status: 'incorrect', score: 0 });
+    expect(gradeAnswer(MATCHING, ['', '', '']).status).toBe('unanswered');
+  });
+
+  it('menunggu penilaian guru untuk esai sampai rubrik dinilai', () => {
+    expect(gradeAnswer(ESSAY, 'Air menguap lalu mengembun.')).toMatchObject({ status: 'manual', score: 0, maxScore: 4 });
+    expect(gradeAnswer(ESSAY, 'Air menguap lalu mengembun.', 0.625)).toMatchObject({ status: 'partial', score: 2.5 });
+    expect(gradeAnswer(ESSAY, 'Air menguap lalu mengembun.', 1).status).toBe('correct');
+    expect(gradeAnswer(ESSAY, 'Tidak tahu', 0).status).toBe('incorrect');
+  });
+});
+
+describe('gradeQuiz', () => {
+  it('menjumlahkan skor dan memisahkan poin esai yang belum dinilai', () => {
+    const items = [MULTIPLE_CHOICE, SHORT_ANSWER, MATCHING, ESSAY];
+    const result = gradeQuiz(items, { 0: 'Jakarta', 2: ['A', 'B', 'B'], 3: 'Air menguap.' });
+
+    expect(result.results.map(item => item.status)).toEqual(['correct', 'unanswered', 'partial', 'manual']);
+    expect(result).toMatchObject({ score: 3, maxScore: 6, manualScore: 4 });
+    expect(result.counts).toEqual({ correct: 1, partial: 1, incorrect: 0, unanswered: 1, manual: 1 });
+  });
+
+  it('memasukkan esai yang sudah dinilai ke skor', () => {
+    const result = gradeQuiz([MULTIPLE_CHOICE, ESSAY], { 0: 'Bandung', 1: 'Air menguap.' }, { 1: 0.5 });
+
+    expect(result).toMatchObject({ score: 2, maxScore: 5, manualScore: 0 });
+    expect(result.counts.partial).toBe(1);
+  });
+});
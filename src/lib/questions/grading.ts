@@ -0,0 +1,112 @@
+import { getAnswerKey, getMatchingChoices, optionLetter } from '@/lib/export/layout';
+import { Question, QuestionType } from './types';
+
+/**
+ * Penilaian otomatis mode kuis. Pilihan ganda dan benar/salah dicocokkan
+ * persis dengan `correctAnswer`; isian dan jawaban singkat dibandingkan
+ * setelah dinormalisasi (huruf besar/kecil, spasi, tanda baca di ujung);
+ * menjodohkan dinilai per pasangan. Esai dinilai dengan rubrik lewat
+ * /api/grade-essay; sebelum dinilai statusnya "manual".
+ */
+
+// Jawaban siswa: teks/opsi terpilih, atau huruf pilihan per baris untuk menjodohkan
+export type QuizAnswer = string | string[];
+
+export type AnswerStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'manual';
+
+export interface AnswerResult {
+  status: AnswerStatus;
+  score: number;
+  maxScore: number;
+  expected: string; // kunci jawaban untuk ditampilkan
+}
+
+export interface GradedItem {
+  question: Pick<Question, 'question' | 'options' | 'correctAnswer' | 'pairs'>;
+  type: QuestionType;
+  points?: number; // bawaan 1
+}
+
+export interface QuizResult {
+  results: AnswerResult[];
+  score: number;
+  maxScore: number; // hanya soal yang dinilai otomatis
+  manualScore: number; // poin esai yang menunggu penilaian guru
+  counts: Record<AnswerStatus, number>;
+}
+
+/**
+ * Bentuk baku jawaban teks untuk dibandingkan
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'“‘(]+|["'”’).,;:!?]+$/g, '')
+    .trim();
+}
+
+export function isAnswered(answer: QuizAnswer | undefined): boolean {
+  if (Array.isArray(answer)) return answer.some(choice => choice !== '');
+  return typeof answer === 'string' && answer.trim() !== '';
+}
+
+/**
+ * Nilai satu jawaban. `essayRatio` (0-1) adalah skor rubrik esai dibagi skor
+ * maksimalnya, jika esai sudah dinilai.
+ */
+export function gradeAnswer(item: GradedItem, answer: QuizAnswer | undefined, essayRatio?: number): AnswerResult {
+  const { question, type } = item;
+  const points = item.points ?? 1;
+  const expected = type === 'essay' ? '' : getAnswerKey(question, type);
+  const result = (status: AnswerStatus, score = 0): AnswerResult => ({ status, score, maxScore: points, expected });
+
+  if (!isAnswered(answer)) {
+    return result('unanswered');
+  }
+  if (type === 'essay') {
+    if (essayRatio === undefined) return result('manual');
+    const score = Math.round(points * essayRatio * 100) / 100;
+    return result(essayRatio >= 1 ? 'correct' : essayRatio > 0 ? 'partial' : 'incorrect', score);
+  }
+
+  if (type === 'matching') {
+    const pairs = question.pairs ?? [];
+    const choices = getMatchingChoices(pairs);
+    const selected = Array.isArray(answer) ? answer : [];
+    const correctCount = pairs.filter((pair, index) => selected[index] === optionLetter(choices.indexOf(pair.right))).length;
+    if (correctCount === pairs.length) return result('correct', points);
+    // Nilai parsial per pasangan, dibulatkan dua desimal
+    const score = Math.round((points * correctCount / Math.max(pairs.length, 1)) * 100) / 100;
+    return result(correctCount > 0 ? 'partial' : 'incorrect', score);
+  }
+
+  const text = Array.isArray(answer) ? answer.join(' ') : answer ?? '';
+  const correct = type === 'fill-in-the-blank' || type === 'short-answer'
+    ? normalizeAnswer(text) === normalizeAnswer(question.correctAnswer ?? '')
+    : text === question.correctAnswer;
+  return correct ? result('correct', points) : result('incorrect');
+}
+
+/**
+ * Nilai semua soal; `answers` dan `essayRatios` diindeks dengan urutan soal
+ */
+export function gradeQuiz(items: GradedItem[], answers: Record<number, QuizAnswer>, essayRatios: Record<number, number> = {}): QuizResult {
+  const results = items.map((item, index) => gradeAnswer(item, answers[index], essayRatios[index]));
+  const counts: Record<AnswerStatus, number> = { correct: 0, partial: 0, incorrect: 0, unanswered: 0, manual: 0 };
+  let score = 0;
+  let maxScore = 0;
+  let manualScore = 0;
+  for (const result of results) {
+    counts[result.status]++;
+    if (result.status === 'manual') {
+      manualScore += result.maxScore;
+    } else {
+      score += result.score;
+      maxScore += result.maxScore;
+    }
+  }
+  return { results, score: Math.round(score * 100) / 100, maxScore, manualScore, counts };
+}
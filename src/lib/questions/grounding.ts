@@ -0,0 +1,549 @@
+import { ChatMessage, completeWithFallback, FallbackResult, FallbackTarget, ModelOutputError, RetryPolicy } from '@/lib/llm';
+import { getQuestionTypeLabel } from './prompt';
+import { Question, QuestionType } from './types';
+import { tokenize } from './text';
+import { parseAIResponse } from './validation';
+
+/**
+ * Pemeriksaan kesesuaian soal dengan materi sumber (grounding). Klaim setiap
+ * soal (pertanyaan + kunci jawaban, lalu penjelasan) dicocokkan dengan
+ * kalimat-kalimat materi: kata dibobot IDF sehingga istilah yang tidak ada di
+ * materi menurunkan skor, dan kata berimbuhan dicocokkan lewat trigram huruf.
+ * Hasilnya bisa diperkuat penilaian LLM yang hanya melihat kutipan materi.
+ */
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+export const MAX_GROUNDING_MATERIAL_LENGTH = 300000;
+export const MAX_JUDGE_REPAIR_ROUNDS = 1;
+
+const JUDGE_BATCH_SIZE = 10;
+const JUDGE_PASSAGES = 3; // kutipan materi per soal yang dikirim ke LLM
+const TOKENS_PER_VERDICT = 150;
+const MIN_MAX_TOKENS = 600;
+const MAX_EVIDENCE_LENGTH = 300;
+const MIN_FUZZY_LENGTH = 5;
+const TRIGRAM_SIMILARITY = 0.75;
+const COMMON_TRIGRAM_RATIO = 0.05; // trigram yang dimiliki lebih dari 5% kosakata tidak dihitung satu per satu
+const SUSPECT_KEY_CONFIDENCE = 0.4; // batas atas keyakinan jika kunci jawaban diduga tertukar
+
+export interface GroundingItem {
+  id: string;
+  questionType: QuestionType;
+  question: Question;
+}
+
+export interface JudgeVerdict {
+  supported: boolean; // isi soal dan penjelasan didukung materi
+  answerCorrect: boolean; // kunci jawaban benar menurut materi
+  confidence: number; // 0-1, keyakinan soal dan kuncinya benar
+  evidence?: string; // kutipan materi, sudah dicek ada di materi
+  reason: string;
+}
+
+export interface GroundingResult {
+  id: string;
+  confidence: number; // 0-1, gabungan skor teks dan (jika ada) penilaian LLM
+  lexicalScore: number; // 0-1, kecocokan klaim dengan kalimat materi
+  evidence?: string; // kutipan materi yang paling mendukung kunci jawaban
+  flagged: boolean;
+  suspectKey: boolean; // kunci jawaban diduga salah, dari kecocokan teks atau penilaian LLM
+  reasons: string[];
+  judge?: JudgeVerdict;
+}
+
+export interface JudgeOptions {
+  chain: FallbackTarget[];
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  maxRepairRounds?: number;
+}
+
+export interface GroundingReport {
+  results: GroundingResult[];
+  flaggedCount: number;
+  averageConfidence: number;
+  judged: boolean;
+  judgeError?: string; // LLM gagal; hasil hanya dari kecocokan teks
+  completion?: FallbackResult;
+  attempts: number;
+}
+
+/**
+ * Error ketika output LLM penilai tetap tidak valid setelah ronde perbaikan
+ */
+export class GroundingJudgeError extends ModelOutputError {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super('Model tidak menghasilkan penilaian kesesuaian yang valid', errors);
+    this.name = 'GroundingJudgeError';
+    this.errors = errors;
+  }
+}
+
+interface MaterialIndex {
+  passages: string[]; // satu kalimat atau dua kalimat berurutan
+  postings: Map<string, number[]>; // kata -> indeks passage yang memuatnya
+  documentFrequency: Map<string, number>; // kata -> jumlah kalimat yang memuatnya
+  trigramIndex: Map<string, string[]>; // trigram -> kata materi yang memuatnya
+  trigramCounts: Map<string, number>; // kata materi -> jumlah trigramnya
+  sentenceCount: number;
+  similarCache: Map<string, string[]>;
+}
+
+interface PassageMatch {
+  score: number; // 0-1, porsi bobot kata klaim yang ada di passage
+  passages: number[]; // indeks passage terbaik, urut skor
+}
+
+function trigrams(token: string): Set<string> {
+  const padded = ` ${token} `;
+  const grams = new Set<string>();
+  for (let index = 0; index < padded.length - 2; index++) {
+    grams.add(padded.slice(index, index + 3));
+  }
+  return grams;
+}
+
+/**
+ * Kata dianggap sama jika identik, salah satunya memuat yang lain
+ * (mis. "fotosintesis" dan "berfotosintesis") atau trigramnya sangat mirip.
+ * `shared` = jumlah trigram yang sama, dihitung lewat indeks trigram.
+ */
+function isSimilarToken(a: string, b: string, shared: number, gramsA: number, gramsB: number): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH) return false;
+  // Kata yang memuat kata lain pasti berbagi semua trigram bagian dalamnya
+  if (shared >= Math.min(a.length, b.length) - 2 && (a.includes(b) || b.includes(a))) return true;
+  return (2 * shared) / (gramsA + gramsB) >= TRIGRAM_SIMILARITY;
+}
+
+/**
+ * Pecah materi menjadi kalimat. Penanda [Halaman N] dibuang supaya tidak
+ * ikut terkutip sebagai bukti.
+ */
+function splitSentences(material: string): string[] {
+  return (material.replace(/\[Halaman \d+\]/g, '\n').match(/[^.!?\n]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => tokenize(sentence).length > 0);
+}
+
+function buildMaterialIndex(material: string): MaterialIndex {
+  const sentences = splitSentences(material);
+  const passages = [...sentences, ...sentences.slice(1).map((sentence, index) => `${sentences[index]} ${sentence}`)];
+  const documentFrequency = new Map<string, number>();
+  sentences.forEach(sentence => {
+    new Set(tokenize(sentence)).forEach(token => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1));
+  });
+  const postings = new Map<string, number[]>();
+  passages.forEach((passage, index) => {
+    new Set(tokenize(passage)).forEach(token => {
+      const list = postings.get(token);
+      if (list) list.push(index);
+      else postings.set(token, [index]);
+    });
+  });
+  const trigramIndex = new Map<string, string[]>();
+  const trigramCounts = new Map<string, number>();
+  documentFrequency.forEach((_, token) => {
+    const grams = trigrams(token);
+    trigramCounts.set(token, grams.size);
+    grams.forEach(gram => {
+      const list = trigramIndex.get(gram);
+      if (list) list.push(token);
+      else trigramIndex.set(gram, [token]);
+    });
+  });
+  return { passages, postings, documentFrequency, trigramIndex, trigramCounts, sentenceCount: sentences.length, similarCache: new Map() };
+}
+
+/**
+ * Kata materi yang mirip dengan `token`. Kandidat dikumpulkan lewat trigram
+ * yang jarang; trigram umum (mis. akhiran "-an") dianggap sama dulu sebagai
+ * batas atas, lalu kandidat yang lolos dihitung ulang secara pasti.
+ */
+function findSimilarTokens(index: MaterialIndex, token: string): string[] {
+  const cached = index.similarCache.get(token);
+  if (cached) return cached;
+  const grams = trigrams(token);
+  const commonLimit = Math.max(50, index.documentFrequency.size * COMMON_TRIGRAM_RATIO);
+  const shared = new Map<string, number>();
+  let common = 0;
+  grams.forEach(gram => {
+    const candidates = index.trigramIndex.get(gram) ?? [];
+    if (candidates.length > commonLimit) {
+      common++;
+      return;
+    }
+    candidates.forEach(candidate => shared.set(candidate, (shared.get(candidate) ?? 0) + 1));
+  });
+  const similar = Array.from(shared.entries())
+    .filter(([candidate, count]) => {
+      const candidateGrams = index.trigramCounts.get(candidate) ?? 0;
+      if (!isSimilarToken(token, candidate, count + common, grams.size, candidateGrams)) return false;
+      if (common === 0) return true;
+      const exact = Array.from(trigrams(candidate)).filter(gram => grams.has(gram)).length;
+      return isSimilarToken(token, candidate, exact, grams.size, candidateGrams);
+    })
+    .map(([candidate]) => candidate);
+  if (index.documentFrequency.has(token) && !similar.includes(token)) similar.push(token);
+  index.similarCache.set(token, similar);
+  return similar;
+}
+
+/**
+ * Cari passage yang paling mendukung sebuah klaim. Bobot kata = IDF; kata
+ * yang tidak ada di materi mendapat bobot tertinggi.
+ */
+function matchClaim(index: MaterialIndex, text: string, limit = 1): PassageMatch {
+  const tokens = Array.from(new Set(tokenize(text)));
+  if (tokens.length === 0 || index.passages.length === 0) return { score: 0, passages: [] };
+
+  const scores = new Map<number, number>();
+  let total = 0;
+  tokens.forEach(token => {
+    const similar = findSimilarTokens(index, token);
+    const frequency = similar.reduce((max, candidate) => Math.max(max, index.documentFrequency.get(candidate) ?? 0), 0);
+    const weight = Math.log(1 + index.sentenceCount / (1 + frequency));
+    total += weight;
+    const hits = new Set(similar.flatMap(candidate => index.postings.get(candidate) ?? []));
+    hits.forEach(passage => scores.set(passage, (scores.get(passage) ?? 0) + weight));
+  });
+
+  // Skor sama: utamakan passage yang lebih pendek (satu kalimat)
+  const ranked = Array.from(scores.entries()).sort((a, b) =>
+    b[1] - a[1] || index.passages[a[0]].length - index.passages[b[0]].length
+  );
+  return {
+    score: ranked.length > 0 && total > 0 ? Math.min(1, ranked[0][1] / total) : 0,
+    passages: ranked.slice(0, limit).map(([passage]) => passage)
+  };
+}
+
+/**
+ * Klaim yang harus didukung materi: pertanyaan beserta kunci jawabannya
+ * (`answer` dicek terpisah), per pasangan untuk menjodohkan dan per poin
+ * jawaban ideal untuk esai
+ */
+function getClaims(item: GroundingItem): { text: string; answer?: string }[] {
+  const { question, questionType } = item;
+  const answer = question.correctAnswer ?? '';
+  switch (questionType) {
+    case 'multiple-choice':
+    case 'short-answer':
+      return [{ text: `${question.question} ${answer}`, answer }];
+    case 'fill-in-the-blank':
+      return [{ text: question.question.replace(/_{3,}/g, answer), answer }];
+    case 'true-false':
+      return [{ text: question.question }];
+    case 'matching':
+      return (question.pairs ?? []).map(pair => ({ text: `${pair.left} ${pair.right}`, answer: pair.right }));
+    case 'essay': {
+      const points = question.rubric?.modelAnswer ?? [];
+      return points.length > 0 ? points.map(point => ({ text: point })) : [{ text: question.question }];
+    }
+  }
+}
+
+function quote(passage: string | undefined): string | undefined {
+  if (!passage) return undefined;
+  return passage.length > MAX_EVIDENCE_LENGTH ? `${passage.slice(0, MAX_EVIDENCE_LENGTH).trimEnd()}…` : passage;
+}
+
+function round(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+}
+
+/**
+ * Skor kesesuaian satu soal berdasarkan kecocokan teks saja
+ */
+function checkItem(index: MaterialIndex, item: GroundingItem): GroundingResult {
+  const { question, questionType } = item;
+  const reasons: string[] = [];
+  const claims = getClaims(item).map(claim => ({ ...claim, match: matchClaim(index, claim.text) }));
+  const answerScore = claims.reduce((sum, claim) => sum + claim.match.score, 0) / Math.max(1, claims.length);
+  const best = claims.reduce<(typeof claims)[number] | undefined>((top, claim) => (!top || claim.match.score > top.match.score ? claim : top), undefined);
+  let penalty = 0;
+  let suspectKey = false;
+
+  if (answerScore < LOW_CONFIDENCE_THRESHOLD) {
+    reasons.push('sebagian besar isi soal tidak ditemukan di materi');
+  }
+  // Kunci jawaban yang tidak muncul di materi mana pun patut dicurigai karangan model
+  const missingAnswers = claims.filter(claim => claim.answer && tokenize(claim.answer).length > 0 && matchClaim(index, claim.answer).score < 0.5);
+  if (missingAnswers.length > 0) {
+    reasons.push(questionType === 'matching'
+      ? `${missingAnswers.length} pasangan kolom kanan tidak ditemukan di materi`
+      : `kunci jawaban "${missingAnswers[0].answer}" tidak ditemukan di materi`);
+    penalty += 0.2;
+  }
+
+  // Opsi pengecoh yang lebih didukung materi daripada kunci: kemungkinan kunci tertukar
+  if (questionType === 'multiple-choice' && question.options) {
+    const rival = question.options
+      .filter(option => option !== question.correctAnswer)
+      .map(option => ({ option, score: matchClaim(index, `${question.question} ${option}`).score }))
+      .sort((a, b) => b.score - a.score)[0];
+    if (rival && rival.score > answerScore + 0.1) {
+      reasons.push(`opsi "${rival.option}" lebih didukung materi daripada kunci jawaban`);
+      suspectKey = true;
+    }
+  }
+
+  if (questionType === 'true-false' && question.correctAnswer === 'Salah' && answerScore >= 0.95) {
+    reasons.push('pernyataan sama dengan isi materi, tetapi kuncinya "Salah"');
+    suspectKey = true;
+  }
+
+  let explanationScore = answerScore;
+  if (question.explanation && tokenize(question.explanation).length >= 3) {
+    explanationScore = matchClaim(index, question.explanation).score;
+    if (explanationScore < 0.4) {
+      reasons.push('penjelasan memuat hal yang tidak ada di materi');
+    }
+  }
+
+  const lexicalScore = round(0.7 * answerScore + 0.3 * explanationScore);
+  const confidence = round(suspectKey ? Math.min(lexicalScore - penalty, SUSPECT_KEY_CONFIDENCE) : lexicalScore - penalty);
+  return {
+    id: item.id,
+    confidence,
+    lexicalScore,
+    evidence: quote(best?.match.passages[0] !== undefined ? index.passages[best.match.passages[0]] : undefined),
+    flagged: suspectKey || confidence < LOW_CONFIDENCE_THRESHOLD,
+    suspectKey,
+    reasons
+  };
+}
+
+/**
+ * Periksa semua soal dengan kecocokan teks, tanpa memanggil LLM
+ */
+export function checkLexicalGrounding(material: string, items: GroundingItem[]): GroundingResult[] {
+  const index = buildMaterialIndex(material);
+  return items.map(item => checkItem(index, item));
+}
+
+const JUDGE_JSON_TEMPLATE = `{
+  "verdicts": [
+    { "index": 0, "supported": true, "answerCorrect": true, "confidence": 0.9, "evidence": "kutipan persis dari materi", "reason": "alasan singkat" }
+  ]
+}`;
+
+/**
+ * Data soal yang dinilai LLM. Setiap soal disertai kutipan materi yang paling
+ * relevan (bukan seluruh materi).
+ */
+function createJudgeEntries(index: MaterialIndex, items: GroundingItem[]) {
+  return items.map((item, itemIndex) => {
+    const { question } = item;
+    const passages = matchClaim(index, getClaims(item).map(claim => claim.text).join(' '), JUDGE_PASSAGES).passages;
+    return {
+      index: itemIndex,
+      type: getQuestionTypeLabel(item.questionType),
+      question: question.question,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      pairs: question.pairs,
+      modelAnswer: question.rubric?.modelAnswer,
+      explanation: question.explanation,
+      passages: passages.map(passage => index.passages[passage])
+    };
+  });
+}
+
+/**
+ * Prompt LLM penilai. Data soal ditulis sebagai JSON satu baris.
+ */
+function createJudgePrompt(entries: ReturnType<typeof createJudgeEntries>): string {
+  let prompt = `Periksa apakah setiap soal berikut benar menurut materi sumber. Setiap soal disertai kutipan materi yang paling relevan di "passages".\n\n`;
+  prompt += `Soal (JSON):\n${JSON.stringify(entries)}\n\n`;
+  prompt += `Untuk setiap soal tentukan:\n`;
+  prompt += `- "supported": apakah isi soal dan penjelasannya didukung kutipan materi (bukan fakta karangan),\n`;
+  prompt += `- "answerCorrect": apakah kunci jawaban (atau pasangan/poin jawaban ideal) benar menurut kutipan materi,\n`;
+  prompt += `- "confidence": keyakinan 0-1 bahwa soal dan kunci jawabannya benar dan didukung materi,\n`;
+  prompt += `- "evidence": kalimat yang disalin persis dari "passages" yang mendukung atau membantah kunci jawaban, kosongkan jika tidak ada,\n`;
+  prompt += `- "reason": alasan singkat.\n`;
+  prompt += `Gunakan hanya kutipan materi, bukan pengetahuan umum.\n\n`;
+  prompt += `Gunakan struktur JSON berikut dengan satu entri untuk setiap soal, urut sesuai "index":\n${JUDGE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+function createJudgeRepairPrompt(errors: string[]): string {
+  let prompt = `Output sebelumnya tidak lolos validasi:\n${errors.map(error => `- ${error}`).join('\n')}\n\n`;
+  prompt += `Ulangi penilaian dengan memperbaiki kesalahan di atas. Gunakan struktur JSON berikut:\n${JUDGE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+function normalizeForSearch(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Validasi output LLM penilai: satu verdict untuk setiap soal. Kutipan yang
+ * tidak benar-benar ada di materi dibuang.
+ */
+export function validateJudgeVerdicts(raw: unknown, count: number, material: string): { verdicts?: JudgeVerdict[]; errors: string[] } {
+  const item = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(item.verdicts)) {
+    return { errors: ['output harus berupa objek dengan array "verdicts"'] };
+  }
+  const entries = item.verdicts.map(entry => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {}));
+  const searchable = normalizeForSearch(material);
+
+  const errors: string[] = [];
+  const verdicts: JudgeVerdict[] = [];
+  for (let index = 0; index < count; index++) {
+    const entry = entries.find(candidate => candidate.index === index) ?? entries[index];
+    if (!entry) {
+      errors.push(`soal index ${index} belum dinilai`);
+      continue;
+    }
+    const confidence = typeof entry.confidence === 'string' ? parseFloat(entry.confidence) : entry.confidence;
+    if (typeof entry.supported !== 'boolean' || typeof entry.answerCorrect !== 'boolean') {
+      errors.push(`soal index ${index}: "supported" dan "answerCorrect" harus true atau false`);
+      continue;
+    }
+    if (typeof confidence !== 'number' || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+      errors.push(`soal index ${index}: "confidence" harus bilangan 0-1`);
+      continue;
+    }
+    const evidence = typeof entry.evidence === 'string' ? entry.evidence.trim() : '';
+    verdicts.push({
+      supported: entry.supported,
+      answerCorrect: entry.answerCorrect,
+      confidence,
+      evidence: evidence && searchable.includes(normalizeForSearch(evidence)) ? quote(evidence) : undefined,
+      reason: typeof entry.reason === 'string' ? entry.reason.trim() : ''
+    });
+  }
+  return errors.length > 0 ? { errors } : { verdicts, errors };
+}
+
+/**
+ * Nilai satu kelompok soal dengan LLM, dengan ronde perbaikan seperti penilaian esai
+ */
+async function judgeBatch(
+  index: MaterialIndex,
+  material: string,
+  items: GroundingItem[],
+  options: JudgeOptions
+): Promise<{ verdicts: JudgeVerdict[]; completion: FallbackResult; attempts: number }> {
+  const maxRepairRounds = options.maxRepairRounds ?? MAX_JUDGE_REPAIR_ROUNDS;
+  const entries = createJudgeEntries(index, items);
+  const messages: ChatMessage[] = [{ role: 'user', content: createJudgePrompt(entries) }];
+  let attempts = 0;
+  let errors: string[] = [];
+
+  for (let round = 0; round <= maxRepairRounds; round++) {
+    const completion = await completeWithFallback(options.chain, {
+      messages,
+      maxTokens: Math.max(MIN_MAX_TOKENS, items.length * TOKENS_PER_VERDICT),
+      temperature: 0.1,
+      signal: options.signal,
+      task: { type: 'verify-questions', items: entries }
+    }, options.policy);
+    attempts += completion.attempts;
+
+    try {
+      const result = validateJudgeVerdicts(parseAIResponse(completion.content), items.length, material);
+      if (result.verdicts) {
+        return { verdicts: result.verdicts, completion, attempts };
+      }
+      errors = result.errors;
+    } catch (parseError) {
+      errors = [parseError instanceof Error ? parseError.message : 'JSON tidak valid'];
+    }
+
+    console.warn(`⚠️ Penilaian kesesuaian tidak valid, ronde ${round + 1}:\n${errors.join('\n')}`);
+    if (round === maxRepairRounds) break;
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: createJudgeRepairPrompt(errors) }
+    );
+  }
+  throw new GroundingJudgeError(errors);
+}
+
+/**
+ * Gabungkan skor teks dengan penilaian LLM. Kunci yang diduga salah, baik
+ * oleh kecocokan teks maupun oleh LLM, selalu ditandai.
+ */
+function applyVerdict(result: GroundingResult, verdict: JudgeVerdict): GroundingResult {
+  const reasons = [...result.reasons];
+  if (!verdict.supported) {
+    reasons.push(`AI: isi soal tidak didukung materi${verdict.reason ? ` (${verdict.reason})` : ''}`);
+  }
+  if (!verdict.answerCorrect) {
+    reasons.push(`AI: kunci jawaban kemungkinan salah${verdict.reason ? ` (${verdict.reason})` : ''}`);
+  }
+  const suspectKey = result.suspectKey || !verdict.answerCorrect;
+  const combined = 0.4 * result.confidence + 0.6 * verdict.confidence;
+  const confidence = round(suspectKey ? Math.min(combined, SUSPECT_KEY_CONFIDENCE) : combined);
+  return {
+    ...result,
+    confidence,
+    evidence: verdict.evidence ?? result.evidence,
+    flagged: suspectKey || confidence < LOW_CONFIDENCE_THRESHOLD,
+    suspectKey,
+    reasons,
+    judge: verdict
+  };
+}
+
+function summarize(results: GroundingResult[]): Pick<GroundingReport, 'flaggedCount' | 'averageConfidence'> {
+  return {
+    flaggedCount: results.filter(result => result.flagged).length,
+    averageConfidence: round(results.reduce((sum, result) => sum + result.confidence, 0) / Math.max(1, results.length))
+  };
+}
+
+/**
+ * Kutipan materi yang paling relevan untuk setiap teks, untuk prompt LLM lain
+ * yang tidak perlu membaca seluruh materi
+ */
+export function findRelevantPassages(material: string, texts: string[], limit = JUDGE_PASSAGES): string[][] {
+  const index = buildMaterialIndex(material);
+  return texts.map(text => matchClaim(index, text, limit).passages.map(passage => index.passages[passage]));
+}
+
+/**
+ * Periksa kesesuaian soal dengan materi. Dengan `judge`, soal juga dinilai
+ * LLM per kelompok; jika LLM gagal, hasil kecocokan teks tetap dikembalikan
+ * beserta `judgeError`.
+ */
+export async function verifyGrounding(material: string, items: GroundingItem[], judge?: JudgeOptions): Promise<GroundingReport> {
+  const index = buildMaterialIndex(material);
+  const lexical = items.map(item => checkItem(index, item));
+  if (!judge) {
+    return { results: lexical, ...summarize(lexical), judged: false, attempts: 0 };
+  }
+
+  const results = [...lexical];
+  let completion: FallbackResult | undefined;
+  let attempts = 0;
+  try {
+    for (let start = 0; start < items.length; start += JUDGE_BATCH_SIZE) {
+      const batch = await judgeBatch(index, material, items.slice(start, start + JUDGE_BATCH_SIZE), judge);
+      batch.verdicts.forEach((verdict, offset) => {
+        results[start + offset] = applyVerdict(lexical[start + offset], verdict);
+      });
+      completion = batch.completion;
+      attempts += batch.attempts;
+    }
+  } catch (judgeError) {
+    if (judge.signal?.aborted) throw judgeError;
+    console.warn('⚠️ Penilaian kesesuaian dengan LLM gagal:', judgeError);
+    return {
+      results: lexical,
+      ...summarize(lexical),
+      judged: false,
+      judgeError: judgeError instanceof Error ? judgeError.message : 'Unknown error',
+      completion,
+      attempts
+    };
+  }
+  return { results, ...summarize(results), judged: true, completion, attempts };
+}
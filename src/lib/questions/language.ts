@@ -0,0 +1,57 @@
+import { OutputLanguage } from './types';
+
+/**
+ * Bahasa isi soal. Bahasa soal dipilih terpisah dari bahasa materi, mis.
+ * materi berbahasa Indonesia untuk soal berbahasa Inggris di kelas bilingual.
+ * Kunci soal benar/salah tetap "Benar"/"Salah" di semua bahasa supaya
+ * penilaian dan export tidak bergantung pada bahasa soal.
+ */
+export const OUTPUT_LANGUAGE_INFO: Record<OutputLanguage, {
+  label: string;
+  promptName: string;
+  sectionLabel: string;
+  sectionLetters?: string; // urutan huruf bagian; bawaan A-Z
+  rtl?: boolean;
+}> = {
+  id: { label: 'Bahasa Indonesia', promptName: 'bahasa Indonesia', sectionLabel: 'Bagian' },
+  en: { label: 'English', promptName: 'bahasa Inggris (English)', sectionLabel: 'Section' },
+  ar: { label: 'العربية', promptName: 'bahasa Arab (العربية)', sectionLabel: 'القسم', sectionLetters: 'أبجدهوزحطي', rtl: true },
+  jv: { label: 'Basa Jawa', promptName: 'bahasa Jawa', sectionLabel: 'Perangan' },
+  su: { label: 'Basa Sunda', promptName: 'bahasa Sunda', sectionLabel: 'Bagian' }
+};
+
+export const OUTPUT_LANGUAGES = Object.keys(OUTPUT_LANGUAGE_INFO) as OutputLanguage[];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = 'id';
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && OUTPUT_LANGUAGES.includes(value as OutputLanguage);
+}
+
+/**
+ * Judul bawaan bagian ujian ("Bagian A", "Section B", ...). Judul ini ikut
+ * masuk ke naskah dan export LMS, jadi mengikuti bahasa soal.
+ */
+export function getDefaultSectionTitle(index: number, language: OutputLanguage = DEFAULT_OUTPUT_LANGUAGE): string {
+  const { sectionLabel, sectionLetters } = OUTPUT_LANGUAGE_INFO[language];
+  return `${sectionLabel} ${sectionLetters?.[index] ?? String.fromCharCode(65 + index)}`;
+}
+
+/**
+ * Validasi bahasa dari body request
+ */
+export function parseOutputLanguage(raw: unknown): { language?: OutputLanguage; error?: string } {
+  if (raw === undefined) return {};
+  if (!isOutputLanguage(raw)) {
+    return { error: `bahasa "${raw}" tidak dikenal. Gunakan salah satu dari: ${OUTPUT_LANGUAGES.join(', ')}` };
+  }
+  return { language: raw };
+}
+
+/**
+ * Instruksi bahasa untuk prompt pembuatan soal
+ */
+export function getLanguageInstruction(language: OutputLanguage): string {
+  return `Tulis seluruh isi soal (pertanyaan, opsi, kunci jawaban, pasangan, penjelasan dan rubrik) dalam ${OUTPUT_LANGUAGE_INFO[language].promptName}, ` +
+    'meskipun materinya ditulis dalam bahasa lain. Nama field JSON tetap seperti contoh, dan "correctAnswer" soal benar/salah tetap "Benar" atau "Salah".';
+}
@@ -0,0 +1,77 @@
+import { Question } from './types';
+
+/**
+ * Penanda halaman di dalam teks materi, satu baris tersendiri: `[Halaman 3]`.
+ * Disisipkan UI saat materi berasal dari dokumen berhalaman (PDF, PPTX)
+ * supaya soal bisa mencantumkan halaman sumbernya.
+ */
+const PAGE_MARKER = /^\[Halaman (\d+)\]$/gm;
+
+export interface PageSegment {
+  page: number;
+  text: string;
+}
+
+export function formatPageMarker(page: number): string {
+  return `[Halaman ${page}]`;
+}
+
+export function hasPageMarkers(material: string): boolean {
+  return new RegExp(PAGE_MARKER.source, 'm').test(material);
+}
+
+/**
+ * Pecah materi menjadi segmen per halaman berdasarkan penanda
+ */
+export function splitByPageMarkers(material: string): PageSegment[] {
+  const markers = Array.from(material.matchAll(new RegExp(PAGE_MARKER.source, 'gm')));
+  return markers.map((marker, index) => {
+    const start = marker.index! + marker[0].length;
+    const end = index + 1 < markers.length ? markers[index + 1].index! : material.length;
+    return { page: parseInt(marker[1], 10), text: material.slice(start, end) };
+  });
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []);
+}
+
+/**
+ * Tebak halaman sumber dari kemiripan kata antara soal (beserta jawaban dan
+ * penjelasannya) dengan teks setiap halaman
+ */
+export function inferSourcePage(question: Question, segments: PageSegment[]): number | undefined {
+  const pairs = question.pairs?.flatMap(pair => [pair.left, pair.right]) ?? [];
+  const words = tokenize([question.question, question.correctAnswer, question.explanation, ...pairs].filter(Boolean).join(' '));
+  let best: { page: number; score: number } | undefined;
+
+  for (const segment of segments) {
+    const pageWords = tokenize(segment.text);
+    let overlap = 0;
+    for (const word of words) {
+      if (pageWords.has(word)) overlap++;
+    }
+    if (overlap > 0 && (!best || overlap > best.score)) {
+      best = { page: segment.page, score: overlap };
+    }
+  }
+  return best?.page;
+}
+
+/**
+ * Pastikan `sourcePage` menunjuk ke halaman yang ada di materi.
+ * Nilai dari model dipakai jika valid, selain itu ditebak dari isi soal.
+ */
+export function resolveSourcePage(question: Question, segments: PageSegment[]): Question {
+  if (segments.length === 0) {
+    if (question.sourcePage === undefined) return question;
+    const rest = { ...question };
+    delete rest.sourcePage;
+    return rest;
+  }
+  if (question.sourcePage !== undefined && segments.some(segment => segment.page === question.sourcePage)) {
+    return question;
+  }
+  const inferred = inferSourcePage(question, segments);
+  return { ...question, sourcePage: inferred };
+}
@@ -0,0 +1,224 @@
+import { allocateBloomLevels, BLOOM_LEVEL_INFO, objectiveLabel } from './bloom';
+import { getLanguageInstruction } from './language';
+import { hasPageMarkers } from './pages';
+import { GenerateRequest, QuestionType } from './types';
+import {
+  MATCHING_MAX_PAIRS,
+  MATCHING_MIN_PAIRS,
+  MC_OPTION_COUNT,
+  RUBRIC_MAX_CRITERIA,
+  RUBRIC_MAX_SCORE,
+  RUBRIC_MIN_CRITERIA,
+  SHORT_ANSWER_MAX_WORDS
+} from './validation';
+
+// Batas jumlah soal lama yang disebut di prompt supaya prompt tidak membengkak
+const MAX_AVOID_QUESTIONS = 30;
+
+/**
+ * Fungsi untuk membuat prompt berdasarkan jenis soal. `avoidQuestions` berisi
+ * soal yang sudah dibuat sebelumnya dan tidak boleh diulang.
+ */
+export function createPrompt(request: GenerateRequest, avoidQuestions: string[] = []): string {
+  const { material, questionType, questionCount, difficulty = 'medium' } = request;
+  const withPages = hasPageMarkers(material);
+  
+  let prompt = `Berdasarkan materi pembelajaran berikut, buat ${questionCount} soal ${getQuestionTypeLabel(questionType)} dengan tingkat kesulitan ${difficulty}.\n\n`;
+  prompt += `Materi:\n${material}\n\n`;
+  prompt += `Buat soal dalam format JSON yang valid dengan struktur berikut:\n`;
+  prompt += getJsonTemplate(request);
+  const rules = getQuestionRules(questionType);
+  if (rules) {
+    prompt += `\n\n${rules}`;
+  }
+  prompt += `\n\n${getTargetInstructions(request, questionCount)}`;
+  if (request.language) {
+    prompt += `\n\n${getLanguageInstruction(request.language)}`;
+  }
+  if (questionCount > 1) {
+    prompt += `\n\nSetiap soal harus menguji fakta atau konsep yang berbeda. Jangan membuat dua soal yang menanyakan hal yang sama dengan kalimat berbeda.`;
+  }
+  if (withPages) {
+    prompt += `\n\nMateri diberi penanda [Halaman N]. Isi field "sourcePage" dengan nomor halaman tempat jawaban soal ditemukan.`;
+  }
+  if (avoidQuestions.length > 0) {
+    const listed = avoidQuestions.slice(-MAX_AVOID_QUESTIONS).map(question => `- ${question}`).join('\n');
+    prompt += `\n\nJangan mengulang soal yang sudah ada berikut:\n${listed}`;
+  }
+  prompt += `\n\nPastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  
+  return prompt;
+}
+
+/**
+ * Instruksi level kognitif (Taksonomi Bloom) dan tujuan pembelajaran.
+ * Setiap soal selalu diminta menandai levelnya; jika request menyebut level,
+ * jumlah soal dibagi merata ke level-level tersebut.
+ */
+export function getTargetInstructions(request: GenerateRequest, count: number): string {
+  const { bloomLevels, objectives } = request;
+  let instructions = '';
+  if (bloomLevels) {
+    const distribution = allocateBloomLevels(count, bloomLevels)
+      .map(({ level, count: levelCount }) => {
+        const info = BLOOM_LEVEL_INFO[level];
+        return `- ${levelCount} soal ${info.code} (${info.label}), gunakan kata kerja seperti ${info.verbs}`;
+      })
+      .join('\n');
+    instructions += `Susun soal sesuai level kognitif Taksonomi Bloom berikut:\n${distribution}\n`;
+  }
+  instructions += `Isi field "bloomLevel" dengan kode level kognitif (C1-C6) yang diukur setiap soal.`;
+
+  if (objectives) {
+    const listed = objectives
+      .map(objective => (objective.code ? `- ${objective.code}: ${objective.description}` : `- ${objective.description}`))
+      .join('\n');
+    instructions += `\n\nSetiap soal harus mengukur salah satu tujuan pembelajaran berikut:\n${listed}\n`;
+    instructions += `Isi field "objective" dengan ${objectives.every(objective => objective.code) ? 'kode' : 'teks'} tujuan yang diukur.`;
+  }
+  return instructions;
+}
+
+/**
+ * Contoh struktur JSON untuk setiap jenis soal, ditambah field penanda
+ * (level kognitif, tujuan pembelajaran, halaman) sesuai request
+ */
+export function getJsonTemplate(request: GenerateRequest): string {
+  const fields = [`"bloomLevel": "${request.bloomLevels ? BLOOM_LEVEL_INFO[request.bloomLevels[0]].code : 'C2'}"`];
+  if (request.objectives) {
+    fields.push(`"objective": ${JSON.stringify(objectiveLabel(request.objectives[0]))}`);
+  }
+  if (hasPageMarkers(request.material)) {
+    fields.push('"sourcePage": 1');
+  }
+  const template = getBaseJsonTemplate(request.questionType);
+  return template.replace(/\n    \}\n  \]/, `,\n      ${fields.join(',\n      ')}\n    }\n  ]`);
+}
+
+function getBaseJsonTemplate(questionType: QuestionType): string {
+  switch (questionType) {
+    case 'multiple-choice':
+      return `{
+  "questions": [
+    {
+      "question": "pertanyaan",
+      "options": ["opsi A", "opsi B", "opsi C", "opsi D"],
+      "correctAnswer": "opsi yang benar",
+      "explanation": "penjelasan singkat"
+    }
+  ]
+}`;
+    case 'essay':
+      return `{
+  "questions": [
+    {
+      "question": "pertanyaan esai yang memerlukan jawaban panjang",
+      "explanation": "ringkasan hal yang dinilai",
+      "rubric": {
+        "criteria": [
+          {
+            "name": "nama kriteria, misalnya Ketepatan konsep",
+            "maxScore": 4,
+            "bands": [
+              { "score": 4, "description": "ciri jawaban yang mendapat skor 4" },
+              { "score": 2, "description": "ciri jawaban yang mendapat skor 2" },
+              { "score": 0, "description": "ciri jawaban yang mendapat skor 0" }
+            ]
+          }
+        ],
+        "modelAnswer": ["poin jawaban ideal 1", "poin jawaban ideal 2"]
+      }
+    }
+  ]
+}`;
+    case 'true-false':
+      return `{
+  "questions": [
+    {
+      "question": "pernyataan yang dinilai benar atau salah",
+      "correctAnswer": "Benar",
+      "explanation": "alasan pernyataan tersebut benar atau salah"
+    }
+  ]
+}`;
+    case 'fill-in-the-blank':
+      return `{
+  "questions": [
+    {
+      "question": "kalimat dengan bagian rumpang yang ditandai _____",
+      "correctAnswer": "kata atau frasa pengisi bagian rumpang",
+      "explanation": "penjelasan singkat"
+    }
+  ]
+}`;
+    case 'matching':
+      return `{
+  "questions": [
+    {
+      "question": "instruksi, misalnya: Jodohkan istilah di kolom kiri dengan pengertian yang tepat di kolom kanan",
+      "pairs": [
+        { "left": "istilah 1", "right": "pasangan istilah 1" },
+        { "left": "istilah 2", "right": "pasangan istilah 2" },
+        { "left": "istilah 3", "right": "pasangan istilah 3" },
+        { "left": "istilah 4", "right": "pasangan istilah 4" }
+      ],
+      "explanation": "penjelasan singkat"
+    }
+  ]
+}`;
+    case 'short-answer':
+      return `{
+  "questions": [
+    {
+      "question": "pertanyaan yang dijawab dengan satu kata atau frasa pendek",
+      "correctAnswer": "jawaban singkat",
+      "explanation": "penjelasan singkat"
+    }
+  ]
+}`;
+  }
+}
+
+/**
+ * Aturan tambahan per jenis soal, dipakai di prompt awal dan prompt perbaikan
+ */
+export function getQuestionRules(questionType: QuestionType): string {
+  switch (questionType) {
+    case 'multiple-choice':
+      return `Setiap soal wajib memiliki tepat ${MC_OPTION_COUNT} opsi yang berbeda dan "correctAnswer" harus sama persis dengan teks salah satu opsi.`;
+    case 'essay':
+      return `Setiap soal wajib memiliki "rubric" dengan ${RUBRIC_MIN_CRITERIA}-${RUBRIC_MAX_CRITERIA} kriteria berbeda. ` +
+        `"maxScore" setiap kriteria berupa bilangan bulat 1-${RUBRIC_MAX_SCORE}, dan "bands" berisi minimal 2 rentang skor dari "maxScore" sampai 0 beserta ciri jawabannya. ` +
+        '"modelAnswer" berisi poin-poin yang harus ada pada jawaban ideal.';
+    case 'true-false':
+      return 'Setiap soal berupa pernyataan, dan "correctAnswer" hanya boleh "Benar" atau "Salah". Buat campuran pernyataan benar dan salah.';
+    case 'fill-in-the-blank':
+      return 'Setiap soal berupa kalimat dengan tepat satu bagian rumpang yang ditulis "_____". "correctAnswer" berisi kata atau frasa yang mengisi rumpang tersebut.';
+    case 'matching':
+      return `Setiap soal memiliki ${MATCHING_MIN_PAIRS} sampai ${MATCHING_MAX_PAIRS} pasangan di "pairs". Isi kolom kiri dan kolom kanan tidak boleh ada yang sama.`;
+    case 'short-answer':
+      return `"correctAnswer" berisi jawaban singkat, paling banyak ${SHORT_ANSWER_MAX_WORDS} kata.`;
+  }
+}
+
+/**
+ * Label jenis soal dalam bahasa Indonesia untuk prompt
+ */
+export function getQuestionTypeLabel(type: string): string {
+  switch (type) {
+    case 'multiple-choice':
+      return 'pilihan ganda';
+    case 'essay':
+      return 'esai';
+    case 'true-false':
+      return 'benar/salah';
+    case 'fill-in-the-blank':
+      return 'isian (melengkapi kalimat rumpang)';
+    case 'matching':
+      return 'menjodohkan';
+    case 'short-answer':
+      return 'jawaban singkat';
+    default:
+      return 'umum';
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createQuestionId, createRandom, isPinnedOption, shuffleOptionOrder, shuffleQuestions } from './shuffle';
+import { Question } from './types';
+
+const QUESTIONS: Question[] = Array.from({ length: 8 }, (_, index) => ({
+  question: `Soal nomor ${index + 1}?`,
+  options: ['Merkurius', 'Venus', 'Bumi', 'Mars'],
+  correctAnswer: ['Merkurius', 'Venus', 'Bumi', 'Mars'][index % 4]
+}));
+
+describe('createRandom', () => {
+  it('menghasilkan deret yang sama untuk seed yang sama', () => {
+    const first = createRandom('paket-a');
+    const second = createRandom('paket-a');
+    const other = createRandom('paket-b');
+
+    const values = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(Array.from({ length: 5 }, () => other())).not.toEqual(values);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe('shuffleOptionOrder', () => {
+  it('menjaga opsi "semua/tidak ada" di posisi terakhir', () => {
+    const options = ['Merah', 'Biru', 'Hijau', 'Semua jawaban benar'];
+
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const order = shuffleOptionOrder(options, createRandom(seed));
+      expect(order[3]).toBe(3);
+      expect([...order].sort()).toEqual([0, 1, 2, 3]);
+    }
+  });
+
+  it('tidak mengacak opsi yang merujuk huruf opsi lain', () => {
+    expect(shuffleOptionOrder(['Satu', 'Dua', 'Tiga', 'A dan B benar'], createRandom('x'))).toEqual([0, 1, 2, 3]);
+  });
+
+  it.each(['Semua pernyataan di atas benar', 'Tidak ada jawaban yang benar', 'None of the above'])('mengenali "%s" sebagai opsi yang dipatok', option => {
+    expect(isPinnedOption(option)).toBe(true);
+  });
+});
+
+describe('shuffleQuestions', () => {
+  it('selalu menghasilkan urutan yang sama untuk seed yang sama', () => {
+    const first = shuffleQuestions(QUESTIONS, { seed: 42 });
+    const second = shuffleQuestions(QUESTIONS, { seed: 42 });
+
+    expect(second).toEqual(first);
+    expect(first.map(item => item.canonicalIndex)).not.toEqual(QUESTIONS.map((_, index) => index));
+  });
+
+  it('memetakan setiap soal ke soal asli dan kunci jawabannya', () => {
+    for (const item of shuffleQuestions(QUESTIONS, { seed: 'ujian' })) {
+      const original = QUESTIONS[item.canonicalIndex];
+      expect(item.canonicalId).toBe(createQuestionId(original));
+      expect(item.optionOrder?.map(index => original.options![index])).toEqual(item.question.options);
+      expect(item.question.options![item.correctOption!]).toBe(original.correctAnswer);
+    }
+  });
+
+  it('tidak mengubah soal aslinya', () => {
+    const snapshot = structuredClone(QUESTIONS);
+    shuffleQuestions(QUESTIONS, { seed: 7 });
+
+    expect(QUESTIONS).toEqual(snapshot);
+  });
+
+  it('mengacak soal hanya di dalam grupnya', () => {
+    const shuffled = shuffleQuestions(QUESTIONS, { seed: 3, groupOf: (_, index) => (index < 4 ? 0 : 1) });
+
+    expect(shuffled.slice(0, 4).every(item => item.canonicalIndex < 4)).toBe(true);
+    expect(shuffled.slice(4).every(item => item.canonicalIndex >= 4)).toBe(true);
+  });
+
+  it('bisa mempertahankan urutan soal dan opsi', () => {
+    const shuffled = shuffleQuestions(QUESTIONS, { seed: 1, shuffleQuestions: false, shuffleOptions: false });
+
+    expect(shuffled.map(item => item.question)).toEqual(QUESTIONS);
+    expect(shuffled.map(item => item.correctOption)).toEqual([0, 1, 2, 3, 0, 1, 2, 3]);
+  });
+
+  it('memakai ID kanonik soal terjemahan', () => {
+    const [translated] = shuffleQuestions([{ ...QUESTIONS[0], question: 'Question one?', canonicalId: 'q-asli' }], { seed: 1 });
+
+    expect(translated.canonicalId).toBe('q-asli');
+  });
+});
@@ -0,0 +1,144 @@
+import { Question } from './types';
+
+/**
+ * Pengacak soal dan opsi dengan seed. Seed yang sama selalu menghasilkan
+ * urutan yang sama, dan setiap soal hasil acak menyimpan pemetaan ke soal
+ * aslinya (ID kanonik dan urutan opsi) supaya kunci jawaban dan analisis
+ * butir soal tetap bisa dicocokkan antar paket.
+ */
+
+// Opsi yang harus tetap di posisi terakhir, misalnya "Semua jawaban benar"
+export const PINNED_OPTION_PATTERNS: RegExp[] = [
+  /^(semua|seluruh)\s+(jawaban|pilihan|opsi|pernyataan)?\s*(di\s+atas\s+)?(benar|salah|tepat)\b/i,
+  /^(semua|seluruh)\s+(jawaban|pilihan|opsi|pernyataan)\s+(di\s+atas|tersebut)\b/i,
+  /^tidak\s+ada\s+(jawaban|pilihan|opsi)?\s*(yang\s+)?(benar|tepat|salah)\b/i,
+  /^(all|none)\s+of\s+the\s+(above|options)\b/i
+];
+
+// Opsi yang merujuk huruf opsi lain ("A dan B benar"); urutannya tidak boleh diubah
+const LETTER_REFERENCE_PATTERN = /^(jawaban\s+)?[A-E]\s*(,|dan|&|serta|and)\s*[A-E]\b/i;
+
+export interface ShuffleOptions<T extends Question = Question> {
+  seed: string | number;
+  shuffleQuestions?: boolean; // default true
+  shuffleOptions?: boolean; // default true
+  // Soal dengan kunci grup berbeda (misalnya bagian ujian) tidak dicampur
+  groupOf?: (question: T, index: number) => number;
+}
+
+export interface ShuffledQuestion<T extends Question = Question> {
+  canonicalId: string;
+  canonicalIndex: number; // posisi soal di urutan asli
+  question: T; // salinan soal dengan opsi yang sudah diacak
+  optionOrder?: number[]; // optionOrder[posisi baru] = indeks opsi asli
+  correctOption?: number; // indeks jawaban benar di urutan baru
+}
+
+export function isPinnedOption(option: string): boolean {
+  const text = option.trim();
+  return PINNED_OPTION_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Hash FNV-1a 32-bit dari teks atau angka
+ */
+export function hashText(value: string | number): number {
+  const text = String(value);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * ID kanonik soal dari teks soal beserta opsi/pasangannya, sehingga soal
+ * yang sama selalu mendapat ID yang sama
+ */
+export function createQuestionId(question: Question): string {
+  const content = JSON.stringify([question.question, question.options ?? null, question.pairs ?? null]);
+  return `q-${hashText(content).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * ID soal asli: untuk soal terjemahan diambil dari `canonicalId`, selain itu
+ * dari ID soal itu sendiri
+ */
+export function getCanonicalId(question: Question): string {
+  return question.canonicalId ?? question.id ?? createQuestionId(question);
+}
+
+/**
+ * Generator angka acak deterministik (mulberry32)
+ */
+export function createRandom(seed: string | number): () => number {
+  let state = hashText(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates
+function shuffleInPlace<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Urutan baru untuk opsi: opsi biasa diacak, opsi yang dipatok tetap di
+ * akhir dengan urutan aslinya. Opsi yang merujuk huruf lain membuat semua
+ * opsi soal itu tidak diacak.
+ */
+export function shuffleOptionOrder(options: string[], random: () => number): number[] {
+  const identity = options.map((_, index) => index);
+  if (options.some(option => LETTER_REFERENCE_PATTERN.test(option.trim()))) {
+    return identity;
+  }
+  const pinned = identity.filter(index => isPinnedOption(options[index]));
+  const free = identity.filter(index => !pinned.includes(index));
+  return [...shuffleInPlace(free, random), ...pinned];
+}
+
+/**
+ * Acak urutan soal (per grup) dan urutan opsi pilihan ganda
+ */
+export function shuffleQuestions<T extends Question>(questions: T[], options: ShuffleOptions<T>): ShuffledQuestion<T>[] {
+  const { shuffleQuestions: reorder = true, shuffleOptions: reorderOptions = true, groupOf = () => 0 } = options;
+  const random = createRandom(options.seed);
+
+  // Grup tetap berurutan sesuai kemunculan pertamanya
+  const groups = new Map<number, number[]>();
+  questions.forEach((question, index) => {
+    const group = groupOf(question, index);
+    groups.set(group, [...(groups.get(group) ?? []), index]);
+  });
+  const order = Array.from(groups.values()).flatMap(indexes => (reorder ? shuffleInPlace([...indexes], random) : indexes));
+
+  return order.map(canonicalIndex => {
+    const original = questions[canonicalIndex];
+    const canonicalId = getCanonicalId(original);
+    if (!original.options) {
+      return { canonicalId, canonicalIndex, question: original };
+    }
+    const optionOrder = reorderOptions
+      ? shuffleOptionOrder(original.options, random)
+      : original.options.map((_, index) => index);
+    const shuffledOptions = optionOrder.map(index => original.options![index]);
+    const correctOption = original.correctAnswer !== undefined ? shuffledOptions.indexOf(original.correctAnswer) : -1;
+    return {
+      canonicalId,
+      canonicalIndex,
+      question: { ...original, options: shuffledOptions },
+      optionOrder,
+      correctOption: correctOption >= 0 ? correctOption : undefined
+    };
+  });
+}
@@ -0,0 +1,131 @@
+import { tokenize } from './text';
+import { Question } from './types';
+
+/**
+ * Deteksi soal kembar dan hampir kembar. Teks soal dinormalisasi, setiap kata
+ * dipotong imbuhannya secara ringan (mis. "menyerap" dan "diserap" menjadi
+ * "serap"), lalu himpunan katanya dibandingkan dengan koefisien Dice. Soal
+ * yang kunci jawabannya sama mendapat tambahan skor karena kemungkinan besar
+ * menguji fakta yang sama dengan kalimat berbeda.
+ */
+
+export const DUPLICATE_THRESHOLD = 0.6;
+
+const ANSWER_MATCH_BONUS = 0.25;
+const MIN_STEM_LENGTH = 4;
+
+// Awalan dan penggantinya (peluluhan "meny-"/"peny-" kembali ke "s")
+const PREFIXES: [string, string][] = [
+  ['meny', 's'], ['peny', 's'], ['meng', ''], ['peng', ''], ['mem', ''], ['pem', ''], ['men', ''], ['pen', ''],
+  ['ber', ''], ['ter', ''], ['per', ''], ['me', ''], ['pe', ''], ['di', ''], ['ke', ''], ['se', '']
+];
+const SUFFIXES = ['nya', 'kan', 'an'];
+
+// Kunci benar/salah tidak membedakan fakta yang diuji
+const GENERIC_ANSWERS = new Set(['benar', 'salah', 'true', 'false']);
+
+export interface SimilarityProfile {
+  text: string; // teks soal ternormalisasi, untuk mengenali soal yang persis sama
+  terms: Set<string>; // kata dasar dari teks soal, kunci jawaban dan pasangan
+  answer?: string; // kunci jawaban ternormalisasi jika kunci menentukan fakta
+}
+
+export interface DuplicateCluster {
+  members: number[]; // indeks soal, urut; anggota pertama dianggap soal asli
+  similarity: number; // kemiripan tertinggi antar anggota, 0-1
+}
+
+/**
+ * Potong imbuhan umum bahasa Indonesia secara ringan; bukan stemmer lengkap
+ */
+export function stem(token: string): string {
+  let word = token;
+  const suffix = SUFFIXES.find(item => word.endsWith(item) && word.length - item.length >= MIN_STEM_LENGTH);
+  if (suffix) word = word.slice(0, -suffix.length);
+  const prefix = PREFIXES.find(([item, replacement]) => word.startsWith(item) && word.length - item.length + replacement.length >= MIN_STEM_LENGTH);
+  if (prefix) word = prefix[1] + word.slice(prefix[0].length);
+  return word;
+}
+
+function normalize(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+/**
+ * Profil pembanding satu soal. Soal menjodohkan dibandingkan dari pasangannya
+ * karena kalimat perintahnya hampir selalu sama; opsi pilihan ganda tidak ikut
+ * karena pengecoh soal yang sama bisa berbeda.
+ */
+export function createSimilarityProfile(question: Pick<Question, 'question' | 'correctAnswer' | 'pairs'>): SimilarityProfile {
+  const answer = question.correctAnswer ? normalize(question.correctAnswer) : '';
+  const parts = question.pairs && question.pairs.length > 0
+    ? question.pairs.flatMap(pair => [pair.left, pair.right])
+    : [question.question, question.correctAnswer ?? ''];
+  return {
+    text: question.pairs && question.pairs.length > 0 ? normalize(parts.join(' ')) : normalize(question.question),
+    terms: new Set(parts.flatMap(part => tokenize(part).map(stem))),
+    answer: answer && !GENERIC_ANSWERS.has(answer) ? answer : undefined
+  };
+}
+
+/**
+ * Kemiripan dua soal, 0-1
+ */
+export function getSimilarity(a: SimilarityProfile, b: SimilarityProfile): number {
+  if (a.text === b.text && (a.answer === b.answer || !a.answer || !b.answer)) return 1;
+  if (a.terms.size === 0 || b.terms.size === 0) return 0;
+  let shared = 0;
+  a.terms.forEach(term => {
+    if (b.terms.has(term)) shared++;
+  });
+  const dice = (2 * shared) / (a.terms.size + b.terms.size);
+  return a.answer && a.answer === b.answer ? Math.min(1, dice + ANSWER_MATCH_BONUS) : dice;
+}
+
+/**
+ * Indeks profil pembanding yang paling mirip dengan `profile`, jika kemiripannya
+ * mencapai ambang
+ */
+export function findMostSimilar(
+  profile: SimilarityProfile,
+  candidates: SimilarityProfile[],
+  threshold = DUPLICATE_THRESHOLD
+): { index: number; similarity: number } | undefined {
+  let best: { index: number; similarity: number } | undefined;
+  candidates.forEach((candidate, index) => {
+    const similarity = getSimilarity(profile, candidate);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) best = { index, similarity };
+  });
+  return best;
+}
+
+/**
+ * Kelompokkan soal yang saling mirip. Soal A mirip B dan B mirip C masuk satu
+ * kelompok meskipun A dan C tidak langsung mirip.
+ */
+export function findDuplicateClusters(profiles: SimilarityProfile[], threshold = DUPLICATE_THRESHOLD): DuplicateCluster[] {
+  const parent = profiles.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const best = new Map<number, number>();
+
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const similarity = getSimilarity(profiles[i], profiles[j]);
+      if (similarity < threshold) continue;
+      const [rootI, rootJ] = [find(i), find(j)];
+      const root = Math.min(rootI, rootJ);
+      const merged = Math.max(similarity, best.get(rootI) ?? 0, best.get(rootJ) ?? 0);
+      parent[Math.max(rootI, rootJ)] = root;
+      best.set(root, merged);
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  profiles.forEach((_, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), index]);
+  });
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({ members, similarity: best.get(root) ?? threshold }));
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionStreamParser } from './stream-parser';
+
+// Kirim `text` ke parser dalam potongan sepanjang `size` karakter
+function feed(text: string, size: number): unknown[][] {
+  const parser = new QuestionStreamParser();
+  const batches: unknown[][] = [];
+  for (let start = 0; start < text.length; start += size) {
+    batches.push(parser.push(text.slice(start, start + size)));
+  }
+  return batches;
+}
+
+const OUTPUT = JSON.stringify({
+  questions: [
+    { question: 'Apa arti "{" dalam JSON?', options: ['[', ']', '{', '}'], correctAnswer: '{' },
+    { question: 'Garis miring \\ dan kutip \\" tetap utuh', pairs: [{ left: 'a', right: 'b' }] }
+  ]
+});
+
+describe('QuestionStreamParser', () => {
+  it.each([1, 7, OUTPUT.length])('mengembalikan setiap soal utuh dengan potongan %i karakter', size => {
+    expect(feed(OUTPUT, size).flat()).toEqual(JSON.parse(OUTPUT).questions);
+  });
+
+  it('mengirim soal begitu kurung penutupnya diterima', () => {
+    const parser = new QuestionStreamParser();
+    const firstEnd = OUTPUT.indexOf('},{') + 1;
+
+    expect(parser.push(OUTPUT.slice(0, firstEnd - 1))).toEqual([]);
+    expect(parser.push(OUTPUT.slice(firstEnd - 1, firstEnd))).toHaveLength(1);
+    expect(parser.push(OUTPUT.slice(firstEnd))).toHaveLength(1);
+  });
+
+  it('melewati teks pembuka dan code fence sebelum JSON', () => {
+    expect(feed('Berikut soalnya:\n```json\n[{"question":"Satu"}]\n```', 5).flat()).toEqual([{ question: 'Satu' }]);
+  });
+
+  it('tidak mengembalikan objek bersarang sebagai soal terpisah', () => {
+    const text = '{"questions":[{"question":"Q","rubric":{"criteria":[{"name":"A"}]}}]}';
+
+    expect(feed(text, 3).flat()).toEqual([{ question: 'Q', rubric: { criteria: [{ name: 'A' }] } }]);
+  });
+
+  it('tidak mengembalikan soal yang belum selesai saat stream terputus', () => {
+    expect(feed('{"questions":[{"question":"Satu"},{"question":"Du', 4).flat()).toEqual([{ question: 'Satu' }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Parser inkremental untuk output JSON `{"questions": [ {...}, {...} ]}` yang
+ * datang sepotong-sepotong. Setiap objek soal dikembalikan begitu kurung
+ * kurawal penutupnya diterima, tanpa menunggu seluruh JSON selesai.
+ */
+export class QuestionStreamParser {
+  private text = '';
+  private position = 0;
+  private started = false;
+  private inString = false;
+  private escaped = false;
+  private stack: string[] = [];
+  private objectStart = -1;
+
+  /**
+   * Tambahkan potongan teks baru, kembalikan objek soal yang sudah lengkap
+   */
+  push(chunk: string): unknown[] {
+    this.text += chunk;
+    const completed: unknown[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      // Lewati teks pembuka seperti ```json sampai ketemu awal JSON
+      if (!this.started) {
+        if (char !== '{' && char !== '[') continue;
+        this.started = true;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          break;
+        case '{':
+        case '[':
+          // Objek soal adalah objek yang langsung berada di dalam array
+          // (root array, atau array "questions" di dalam root object)
+          if (char === '{' && this.isInsideQuestionArray()) {
+            this.objectStart = this.position;
+          }
+          this.stack.push(char);
+          break;
+        case '}':
+        case ']':
+          this.stack.pop();
+          if (char === '}' && this.objectStart !== -1 && this.isInsideQuestionArray()) {
+            try {
+              completed.push(JSON.parse(this.text.slice(this.objectStart, this.position + 1)));
+            } catch {
+              // Objek rusak dilewati; validasi akhir akan mencatat kekurangannya
+            }
+            this.objectStart = -1;
+          }
+          break;
+      }
+    }
+
+    return completed;
+  }
+
+  private isInsideQuestionArray(): boolean {
+    const top = this.stack[this.stack.length - 1];
+    return top === '[' && this.stack.length <= 2;
+  }
+}
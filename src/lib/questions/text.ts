@@ -0,0 +1,31 @@
+/**
+ * Normalisasi teks yang dipakai bersama pemeriksaan kesesuaian dengan materi
+ * dan deteksi soal mirip: huruf kecil, tanpa diakritik, tanpa kata umum.
+ */
+
+// Kata umum (dan kata perintah soal) yang tidak menentukan isi klaim
+const STOPWORDS = new Set([
+  'yang', 'dan', 'di', 'ke', 'dari', 'untuk', 'dengan', 'pada', 'adalah', 'ini', 'itu', 'dalam', 'atau',
+  'oleh', 'sebagai', 'akan', 'tidak', 'juga', 'dapat', 'karena', 'para', 'bagi', 'tersebut', 'merupakan',
+  'ada', 'telah', 'sudah', 'secara', 'maka', 'jika', 'agar', 'seperti', 'lebih', 'hal', 'antara', 'serta',
+  'bahwa', 'saat', 'setiap', 'apa', 'apakah', 'manakah', 'mana', 'berikut', 'bagaimana', 'mengapa', 'siapa',
+  'kapan', 'berapa', 'yaitu', 'ialah', 'sebutkan', 'jelaskan', 'tuliskan', 'pernyataan', 'benar', 'salah',
+  'tepat', 'paling', 'kata', 'materi', 'soal', 'jawaban', 'hilang', 'nya', 'pun', 'lah',
+  'the', 'a', 'an', 'of', 'to', 'in', 'is', 'are', 'and', 'or', 'for', 'on', 'with', 'by', 'as', 'be',
+  'that', 'this', 'which', 'what', 'it', 'its', 'was', 'were'
+]);
+
+// Spasi dan tanda baca ASCII, Latin-1, umum Unicode, CJK dan Arab
+const TOKEN_SEPARATOR = /[\s!-\/:-@[-`{-~\u00a0-\u00bf\u2000-\u206f\u3000-\u303f\u060c\u061b\u061f\u06d4]+/;
+
+/**
+ * Pecah teks menjadi kata bermakna (minimal dua huruf, bukan kata umum)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(TOKEN_SEPARATOR)
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token));
+}
@@ -0,0 +1,259 @@
+import { ChatMessage, completeWithFallback, FallbackResult, FallbackTarget, ModelOutputError, RetryPolicy } from '@/lib/llm';
+import { OUTPUT_LANGUAGE_INFO } from './language';
+import { getQuestionTypeLabel } from './prompt';
+import { createQuestionId, getCanonicalId } from './shuffle';
+import { OutputLanguage, Question, QuestionType } from './types';
+import { parseAIResponse, validateQuestion } from './validation';
+
+/**
+ * Terjemahan set soal ke bahasa lain. Model hanya menerjemahkan teks;
+ * struktur soal diambil dari soal asli sehingga kunci jawaban tetap sejajar:
+ * kunci pilihan ganda mengikuti posisi opsinya, urutan pasangan menjodohkan
+ * dan skor rubrik tidak berubah, dan kunci benar/salah tetap "Benar"/"Salah".
+ */
+
+export const MAX_TRANSLATION_REPAIR_ROUNDS = 1;
+
+const TRANSLATE_BATCH_SIZE = 10;
+const TOKENS_PER_ITEM = 500;
+const MIN_MAX_TOKENS = 1000;
+
+export interface TranslationItem {
+  questionType: QuestionType;
+  question: Question;
+}
+
+export interface TranslateOptions {
+  chain: FallbackTarget[];
+  policy: RetryPolicy;
+  signal?: AbortSignal;
+  maxRepairRounds?: number;
+}
+
+/**
+ * Error ketika output LLM tetap tidak valid setelah ronde perbaikan
+ */
+export class TranslationError extends ModelOutputError {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super('Model tidak menghasilkan terjemahan soal yang valid', errors);
+    this.name = 'TranslationError';
+    this.errors = errors;
+  }
+}
+
+const TRANSLATE_JSON_TEMPLATE = `{
+  "items": [
+    {
+      "index": 0,
+      "question": "terjemahan pertanyaan",
+      "options": ["terjemahan opsi A", "terjemahan opsi B", "terjemahan opsi C", "terjemahan opsi D"],
+      "correctAnswer": "terjemahan kunci jawaban",
+      "pairs": [{ "left": "terjemahan kiri", "right": "terjemahan kanan" }],
+      "explanation": "terjemahan penjelasan",
+      "rubric": { "criteria": [{ "name": "terjemahan nama kriteria", "bands": ["terjemahan deskripsi skor"] }], "modelAnswer": ["terjemahan poin"] }
+    }
+  ]
+}`;
+
+/**
+ * Bagian soal yang perlu diterjemahkan. Kunci pilihan ganda dan benar/salah
+ * tidak dikirim karena diturunkan dari soal asli.
+ */
+function getTranslatableFields({ questionType, question }: TranslationItem, index: number) {
+  return {
+    index,
+    type: getQuestionTypeLabel(questionType),
+    question: question.question,
+    options: question.options,
+    correctAnswer: questionType === 'fill-in-the-blank' || questionType === 'short-answer' ? question.correctAnswer : undefined,
+    pairs: question.pairs,
+    explanation: question.explanation,
+    rubric: question.rubric && {
+      criteria: question.rubric.criteria.map(criterion => ({ name: criterion.name, bands: criterion.bands.map(band => band.description) })),
+      modelAnswer: question.rubric.modelAnswer
+    }
+  };
+}
+
+function createTranslatePrompt(fields: ReturnType<typeof getTranslatableFields>[], language: OutputLanguage): string {
+  let prompt = `Terjemahkan soal ujian berikut ke dalam ${OUTPUT_LANGUAGE_INFO[language].promptName}.\n\n`;
+  prompt += `Soal (JSON):\n${JSON.stringify(fields)}\n\n`;
+  prompt += `Aturan terjemahan:\n`;
+  prompt += `- terjemahkan setiap teks dengan makna yang sama; jangan menambah, menghapus atau menukar urutan opsi, pasangan, kriteria, deskripsi skor maupun poin jawaban,\n`;
+  prompt += `- opsi yang berbeda harus tetap berbeda setelah diterjemahkan,\n`;
+  prompt += `- penanda rumpang "_____" tetap ditulis apa adanya,\n`;
+  prompt += `- istilah teknis, rumus, angka, nama orang dan nama tempat tidak diubah jika tidak punya padanan yang lazim,\n`;
+  prompt += `- field yang tidak ada di soal asli tidak perlu ditulis.\n\n`;
+  prompt += `Gunakan struktur JSON berikut dengan satu entri untuk setiap soal, urut sesuai "index":\n${TRANSLATE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+function createTranslateRepairPrompt(errors: string[]): string {
+  let prompt = `Output sebelumnya tidak lolos validasi:\n${errors.map(error => `- ${error}`).join('\n')}\n\n`;
+  prompt += `Ulangi dengan memperbaiki kesalahan di atas. Gunakan struktur JSON berikut:\n${TRANSLATE_JSON_TEMPLATE}\n\n`;
+  prompt += `Pastikan output adalah JSON yang valid dan bisa di-parse. Jangan tambahkan teks lain di luar JSON.`;
+  return prompt;
+}
+
+function readText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readTexts(value: unknown, expected: number): string[] | undefined {
+  if (!Array.isArray(value) || value.length !== expected) return undefined;
+  const texts = value.map(readText);
+  return texts.every((text): text is string => text !== undefined) ? texts : undefined;
+}
+
+/**
+ * Gabungkan terjemahan dengan struktur soal asli. Jumlah opsi, pasangan dan
+ * kriteria harus sama persis; hasilnya divalidasi ulang dengan aturan soal.
+ */
+function mergeTranslation(raw: Record<string, unknown> | undefined, { questionType, question }: TranslationItem): { question?: Question; errors: string[] } {
+  const errors: string[] = [];
+  const merged: Question = { ...question, question: readText(raw?.question) ?? '' };
+  if (!merged.question) errors.push('"question" wajib diisi');
+
+  if (question.options) {
+    const options = readTexts(raw?.options, question.options.length);
+    if (!options) {
+      errors.push(`"options" harus berisi ${question.options.length} opsi sesuai urutan asli`);
+    } else {
+      merged.options = options;
+      // Kunci mengikuti posisi opsi yang benar di soal asli
+      const keyIndex = question.options.indexOf(question.correctAnswer ?? '');
+      if (keyIndex >= 0) merged.correctAnswer = options[keyIndex];
+    }
+  }
+  if (questionType === 'fill-in-the-blank' || questionType === 'short-answer') {
+    merged.correctAnswer = readText(raw?.correctAnswer);
+    if (!merged.correctAnswer) errors.push('"correctAnswer" wajib diisi');
+  }
+  if (question.pairs) {
+    const pairs = Array.isArray(raw?.pairs) && raw.pairs.length === question.pairs.length
+      ? raw.pairs.map(pair => ({ left: readText(pair?.left), right: readText(pair?.right) }))
+      : [];
+    if (pairs.length === 0 || pairs.some(pair => !pair.left || !pair.right)) {
+      errors.push(`"pairs" harus berisi ${question.pairs.length} pasangan sesuai urutan asli`);
+    } else {
+      merged.pairs = pairs as { left: string; right: string }[];
+    }
+  }
+  if (question.explanation) {
+    merged.explanation = readText(raw?.explanation) ?? question.explanation;
+  }
+  if (question.rubric) {
+    const rubric = raw?.rubric && typeof raw.rubric === 'object' ? (raw.rubric as Record<string, unknown>) : {};
+    const criteria = Array.isArray(rubric.criteria) && rubric.criteria.length === question.rubric.criteria.length ? rubric.criteria : undefined;
+    const modelAnswer = readTexts(rubric.modelAnswer, question.rubric.modelAnswer.length);
+    const translatedCriteria = criteria && question.rubric.criteria.map((criterion, criterionIndex) => {
+      const name = readText(criteria[criterionIndex]?.name);
+      const bands = readTexts(criteria[criterionIndex]?.bands, criterion.bands.length);
+      return name && bands ? { ...criterion, name, bands: criterion.bands.map((band, bandIndex) => ({ ...band, description: bands[bandIndex] })) } : undefined;
+    });
+    if (!modelAnswer || !translatedCriteria || translatedCriteria.some(criterion => !criterion)) {
+      errors.push('"rubric" harus berisi kriteria, deskripsi skor dan poin jawaban dengan jumlah dan urutan yang sama seperti soal asli');
+    } else {
+      merged.rubric = { criteria: translatedCriteria as NonNullable<Question['rubric']>['criteria'], modelAnswer };
+    }
+  }
+  if (errors.length > 0) return { errors };
+
+  const { question: validated, errors: validationErrors } = validateQuestion(merged, questionType);
+  if (!validated) return { errors: validationErrors };
+  // Asal soal dan tujuan pembelajaran tidak ikut divalidasi ulang, jadi disalin dari soal asli
+  return { question: { ...validated, source: question.source, objective: question.objective }, errors: [] };
+}
+
+function mergeTranslations(raw: unknown, items: TranslationItem[]): { questions?: Question[]; errors: string[] } {
+  const output = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  if (!Array.isArray(output.items)) {
+    return { errors: ['output harus berupa objek dengan array "items"'] };
+  }
+  const entries = output.items.map(entry => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : undefined));
+
+  const errors: string[] = [];
+  const questions = items.map((item, index) => {
+    const entry = entries.find(candidate => candidate?.index === index) ?? entries[index];
+    const merged = mergeTranslation(entry, item);
+    errors.push(...merged.errors.map(error => `soal index ${index}: ${error}`));
+    return merged.question;
+  });
+  return errors.length > 0 ? { errors } : { questions: questions as Question[], errors };
+}
+
+/**
+ * Terjemahkan satu kelompok soal, dengan ronde perbaikan jika output tidak valid
+ */
+async function translateBatch(
+  items: TranslationItem[],
+  language: OutputLanguage,
+  options: TranslateOptions
+): Promise<{ questions: Question[]; completion: FallbackResult; attempts: number }> {
+  const maxRepairRounds = options.maxRepairRounds ?? MAX_TRANSLATION_REPAIR_ROUNDS;
+  const fields = items.map(getTranslatableFields);
+  const messages: ChatMessage[] = [{ role: 'user', content: createTranslatePrompt(fields, language) }];
+  let attempts = 0;
+  let errors: string[] = [];
+
+  for (let round = 0; round <= maxRepairRounds; round++) {
+    const completion = await completeWithFallback(options.chain, {
+      messages,
+      maxTokens: Math.max(MIN_MAX_TOKENS, items.length * TOKENS_PER_ITEM),
+      temperature: 0.2,
+      signal: options.signal,
+      task: { type: 'translate-questions', language, items: fields }
+    }, options.policy);
+    attempts += completion.attempts;
+
+    try {
+      const result = mergeTranslations(parseAIResponse(completion.content), items);
+      if (result.questions) {
+        return { questions: result.questions, completion, attempts };
+      }
+      errors = result.errors;
+    } catch (parseError) {
+      errors = [parseError instanceof Error ? parseError.message : 'JSON tidak valid'];
+    }
+
+    console.warn(`⚠️ Terjemahan soal tidak valid, ronde ${round + 1}:\n${errors.join('\n')}`);
+    if (round === maxRepairRounds) break;
+    messages.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: createTranslateRepairPrompt(errors) }
+    );
+  }
+  throw new TranslationError(errors);
+}
+
+/**
+ * Terjemahkan soal ke `language`. Soal hasil terjemahan mendapat ID baru
+ * karena isinya berubah (supaya bisa disimpan di bank berdampingan dengan
+ * soal aslinya), sedangkan `canonicalId` tetap menunjuk ke ID soal asli.
+ * Urutan soal sama dengan `items`.
+ */
+export async function translateQuestions(
+  items: TranslationItem[],
+  language: OutputLanguage,
+  options: TranslateOptions
+): Promise<{ questions: Question[]; completion?: FallbackResult; attempts: number }> {
+  const questions: Question[] = [];
+  let completion: FallbackResult | undefined;
+  let attempts = 0;
+
+  for (let start = 0; start < items.length; start += TRANSLATE_BATCH_SIZE) {
+    const batch = items.slice(start, start + TRANSLATE_BATCH_SIZE);
+    const translated = await translateBatch(batch, language, options);
+    completion = translated.completion;
+    attempts += translated.attempts;
+    questions.push(...translated.questions.map((question, index) => ({
+      ...question,
+      id: createQuestionId(question),
+      canonicalId: getCanonicalId(batch[index].question)
+    })));
+  }
+  return { questions, completion, attempts };
+}
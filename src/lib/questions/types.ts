@@ -0,0 +1,128 @@
+/**
+ * Tipe data soal yang dipakai bersama oleh API route dan generator
+ */
+
+export type QuestionType =
+  | 'multiple-choice'
+  | 'essay'
+  | 'true-false'
+  | 'fill-in-the-blank'
+  | 'matching'
+  | 'short-answer';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// Bahasa isi soal, bisa berbeda dari bahasa materi (kode ISO 639-1)
+export type OutputLanguage = 'id' | 'en' | 'ar' | 'jv' | 'su';
+
+// Level kognitif Taksonomi Bloom (revisi), C1-C6
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// Tujuan pembelajaran atau kompetensi kurikulum, mis. KD "3.1" atau kode CP
+export interface LearningObjective {
+  code?: string;
+  description: string;
+}
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple-choice',
+  'essay',
+  'true-false',
+  'fill-in-the-blank',
+  'matching',
+  'short-answer'
+];
+
+// Poin per soal jika bagian tidak menyebutkan poinnya
+export const DEFAULT_POINTS: Record<QuestionType, number> = {
+  'multiple-choice': 1,
+  essay: 10,
+  'true-false': 1,
+  'fill-in-the-blank': 2,
+  matching: 4,
+  'short-answer': 2
+};
+
+// Interface untuk tipe data request
+export interface GenerateRequest {
+  material: string;
+  questionType: QuestionType;
+  questionCount: number;
+  difficulty?: Difficulty;
+  bloomLevels?: BloomLevel[]; // level kognitif yang dituju; soal dibagi merata
+  objectives?: LearningObjective[]; // tujuan pembelajaran yang harus diukur
+  language?: OutputLanguage; // bahasa soal; tanpa ini model mengikuti bahasa prompt
+}
+
+// Satu bagian ujian pada blueprint, mis. 20 soal pilihan ganda mudah @1 poin
+export interface BlueprintSection {
+  title?: string;
+  questionType: QuestionType;
+  questionCount: number;
+  difficulty?: Difficulty;
+  points?: number; // poin per soal
+  bloomLevels?: BloomLevel[];
+  objectives?: LearningObjective[];
+  language?: OutputLanguage; // menimpa bahasa ujian untuk bagian ini
+}
+
+export interface Blueprint {
+  sections: BlueprintSection[];
+}
+
+// Request ujian campuran: satu materi, beberapa bagian dengan jenis soal berbeda
+export interface BlueprintRequest {
+  material: string;
+  blueprint: Blueprint;
+  language?: OutputLanguage;
+}
+
+// Asal soal di materi, diisi saat materi dipecah menjadi beberapa chunk
+export interface QuestionSource {
+  chunkIndex: number;
+  heading?: string;
+}
+
+// Pasangan untuk soal menjodohkan: `left` dijodohkan dengan `right`
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// Satu rentang skor pada kriteria rubrik, mis. skor 3 = "konsep tepat dan lengkap"
+export interface RubricBand {
+  score: number;
+  description: string;
+}
+
+export interface RubricCriterion {
+  name: string;
+  maxScore: number;
+  bands: RubricBand[]; // urut dari skor tertinggi
+}
+
+// Rubrik penilaian soal esai
+export interface EssayRubric {
+  criteria: RubricCriterion[];
+  modelAnswer: string[]; // poin-poin jawaban ideal
+}
+
+export interface Question {
+  id?: string; // ID kanonik dari isi soal, dipakai untuk memetakan paket acak ke soal asli
+  canonicalId?: string; // ID soal sumber untuk soal hasil terjemahan, supaya terjemahan tetap terpetakan ke soal asli
+  question: string;
+  options?: string[]; // untuk pilihan ganda
+  correctAnswer?: string; // untuk pilihan ganda, isian, benar/salah, jawaban singkat
+  pairs?: MatchingPair[]; // untuk menjodohkan
+  explanation?: string; // opsional
+  rubric?: EssayRubric; // untuk esai
+  source?: QuestionSource;
+  sourcePage?: number; // halaman sumber jika materi memiliki penanda [Halaman N]
+  bloomLevel?: BloomLevel;
+  objective?: string; // kode (atau deskripsi) tujuan pembelajaran yang diukur
+}
+
+// Interface untuk tipe data response
+export interface QuestionResponse {
+  questions: Question[];
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { CompletionRequest, LLMProvider, RetryPolicy } from '@/lib/llm';
+import { generateQuestions, QuestionValidationError } from './generator';
+import { parseAIResponse, validateQuestion, validateQuestionResponse, validateRubric } from './validation';
+
+const RUBRIC = {
+  criteria: [
+    { name: 'Konsep', maxScore: 4, bands: [{ score: 0, description: 'Salah' }, { score: 4, description: 'Tepat' }] },
+    { name: 'Contoh', maxScore: 2, bands: [{ score: 2, description: 'Relevan' }, { score: 0, description: 'Tidak ada' }] }
+  ],
+  modelAnswer: 'Fotosintesis menghasilkan glukosa'
+};
+
+describe('validateQuestion', () => {
+  it('menormalisasi jawaban pilihan ganda berupa huruf opsi', () => {
+    const { question, errors } = validateQuestion(
+      { question: ' Ibu kota Indonesia? ', options: ['Bandung', 'Jakarta', 'Medan', 'Surabaya'], correctAnswer: 'B.  Jakarta' },
+      'multiple-choice'
+    );
+
+    expect(errors).toEqual([]);
+    expect(question).toMatchObject({ question: 'Ibu kota Indonesia?', correctAnswer: 'Jakarta' });
+  });
+
+  it('menolak pilihan ganda dengan opsi kembar dan kunci di luar opsi', () => {
+    const { question, errors } = validateQuestion(
+      { question: 'Soal?', options: ['A', 'a', 'B', 'C'], correctAnswer: 'Z' },
+      'multiple-choice'
+    );
+
+    expect(question).toBeUndefined();
+    expect(errors).toEqual(['opsi tidak boleh ada yang sama', '"correctAnswer" ("Z") tidak sama dengan opsi mana pun']);
+  });
+
+  it.each([['true', 'Benar'], ['Salah.', 'Salah'], ['B', 'Benar']])('mengubah jawaban benar/salah "%s" menjadi "%s"', (answer, expected) => {
+    expect(validateQuestion({ question: 'Air mendidih pada 100°C.', correctAnswer: answer }, 'true-false').question?.correctAnswer)
+      .toBe(expected);
+  });
+
+  it('mewajibkan tepat satu bagian rumpang dan menyeragamkan penandanya', () => {
+    expect(validateQuestion({ question: 'Ibu kota ____ adalah ______.', correctAnswer: 'x' }, 'fill-in-the-blank').errors)
+      .toEqual(['kalimat soal harus berisi tepat satu bagian rumpang "_____", bukan 2']);
+    expect(validateQuestion({ question: 'Ibu kota Jawa Barat adalah ___.', correctAnswer: 'Bandung' }, 'fill-in-the-blank').question?.question)
+      .toBe('Ibu kota Jawa Barat adalah _____.');
+  });
+
+  it('menolak pasangan menjodohkan yang kurang atau kembar', () => {
+    const { errors } = validateQuestion(
+      { question: 'Jodohkan', pairs: [{ left: 'A', right: '1' }, { left: 'a', right: '2' }] },
+      'matching'
+    );
+
+    expect(errors).toContain('field "pairs" harus berisi 3-8 pasangan, bukan 2');
+    expect(errors).toContain('isi "left" pada pasangan tidak boleh ada yang sama');
+  });
+
+  it('membatasi panjang jawaban singkat', () => {
+    expect(validateQuestion({ question: 'Sebutkan', correctAnswer: 'satu dua tiga empat lima enam' }, 'short-answer').errors)
+      .toEqual(['"correctAnswer" terlalu panjang, maksimal 5 kata']);
+  });
+
+  it('mewajibkan level kognitif yang diminta', () => {
+    const raw = { question: 'Soal?', correctAnswer: 'Benar', bloomLevel: 'C1' };
+
+    expect(validateQuestion(raw, 'true-false', { bloomLevels: ['apply'] }).errors)
+      .toEqual(['field "bloomLevel" wajib berisi salah satu level: C3']);
+    expect(validateQuestion(raw, 'true-false', { bloomLevels: ['remember'] }).question?.bloomLevel).toBe('remember');
+  });
+});
+
+describe('validateRubric', () => {
+  it('mengurutkan rentang skor dan menerima jawaban ideal berupa teks', () => {
+    const errors: string[] = [];
+    const rubric = validateRubric(RUBRIC, errors);
+
+    expect(errors).toEqual([]);
+    expect(rubric?.criteria[0].bands.map(band => band.score)).toEqual([4, 0]);
+    expect(rubric?.modelAnswer).toEqual(['Fotosintesis menghasilkan glukosa']);
+  });
+
+  it('mewajibkan skor tertinggi sama dengan maxScore', () => {
+    const errors: string[] = [];
+    const criteria = [RUBRIC.criteria[0], { ...RUBRIC.criteria[1], maxScore: 3 }];
+
+    expect(validateRubric({ ...RUBRIC, criteria }, errors)).toBeUndefined();
+    expect(errors).toEqual(['kriteria 2: rentang skor tertinggi harus 3 sesuai "maxScore"']);
+  });
+});
+
+describe('validateQuestionResponse', () => {
+  it('memisahkan soal valid dari soal yang tidak valid beserta nomornya', () => {
+    const result = validateQuestionResponse(
+      { questions: [{ question: 'Satu?', correctAnswer: 'Benar' }, { question: '' }, { question: 'Tiga?', correctAnswer: 'Salah' }] },
+      'true-false'
+    );
+
+    expect(result.valid.map(question => question.question)).toEqual(['Satu?', 'Tiga?']);
+    expect(result.issues.map(issue => issue.index)).toEqual([1]);
+  });
+
+  it('melaporkan output tanpa array questions', () => {
+    expect(validateQuestionResponse({ soal: [] }, 'essay').issues).toEqual([
+      { index: -1, errors: ['output harus berupa objek dengan array "questions"'] }
+    ]);
+  });
+});
+
+describe('parseAIResponse', () => {
+  it('mengambil JSON dari teks yang dibungkus penjelasan atau code fence', () => {
+    expect(parseAIResponse('Berikut soalnya:\n```json\n{"questions": []}\n```')).toEqual({ questions: [] });
+  });
+
+  it('menolak teks tanpa JSON', () => {
+    expect(() => parseAIResponse('maaf, tidak bisa')).toThrow('Response dari AI tidak mengandung JSON yang valid');
+  });
+});
+
+describe('ronde perbaikan', () => {
+  const policy: RetryPolicy = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, timeoutMs: 5000 };
+
+  // Provider yang mengembalikan output sesuai urutan dan mencatat pesan yang diterimanya
+  function scriptedProvider(outputs: unknown[]) {
+    const requests: CompletionRequest[] = [];
+    const provider: LLMProvider = {
+      name: 'mock',
+      label: 'Scripted',
+      defaultModel: 'scripted',
+      async complete(request) {
+        requests.push(request);
+        return { content: JSON.stringify(outputs[requests.length - 1]), model: 'scripted', provider: 'mock' };
+      },
+      async *stream() {
+        throw new Error('tidak dipakai');
+      }
+    };
+    return { provider, requests };
+  }
+
+  const request = { material: 'Air mendidih pada suhu 100 derajat Celsius di permukaan laut.', questionType: 'true-false' as const, questionCount: 2 };
+
+  it('meminta model memperbaiki soal yang tidak valid dan menyertakan kesalahannya', async () => {
+    const { provider, requests } = scriptedProvider([
+      { questions: [{ question: 'Air mendidih pada 100 derajat Celsius.', correctAnswer: 'Benar' }, { question: 'Es mencair pada suhu kamar.', correctAnswer: 'mungkin' }] },
+      { questions: [{ question: 'Titik didih air turun di dataran tinggi.', correctAnswer: 'Benar' }] }
+    ]);
+
+    const result = await generateQuestions(request, { chain: [{ provider, model: 'scripted' }], policy });
+
+    expect(result.questions.map(question => question.question)).toEqual([
+      'Air mendidih pada 100 derajat Celsius.',
+      'Titik didih air turun di dataran tinggi.'
+    ]);
+    expect(result).toMatchObject({ repairRounds: 1, discarded: 1, attempts: 2 });
+    const repairPrompt = requests[1].messages.at(-1)?.content;
+    expect(repairPrompt).toContain('Soal 2: field "correctAnswer" wajib berisi "Benar" atau "Salah"');
+    expect(repairPrompt).toContain('Buat 1 soal pengganti');
+  });
+
+  it('gagal dengan daftar kesalahan jika tidak ada soal valid setelah semua ronde', async () => {
+    const invalid = { questions: [{ question: 'Soal tanpa kunci' }] };
+    const { provider, requests } = scriptedProvider([invalid, invalid]);
+
+    const generation = generateQuestions(request, { chain: [{ provider, model: 'scripted' }], policy, maxRepairRounds: 1 });
+
+    await expect(generation).rejects.toBeInstanceOf(QuestionValidationError);
+    expect(requests).toHaveLength(2);
+  });
+});
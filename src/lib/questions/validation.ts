@@ -0,0 +1,406 @@
+import { BLOOM_LEVEL_INFO, objectiveLabel, resolveBloomLevel } from './bloom';
+import { EssayRubric, GenerateRequest, MatchingPair, Question, QuestionType, RubricBand, RubricCriterion } from './types';
+
+export const MC_OPTION_COUNT = 4;
+export const MATCHING_MIN_PAIRS = 3;
+export const MATCHING_MAX_PAIRS = 8;
+export const SHORT_ANSWER_MAX_WORDS = 5;
+export const BLANK_MARKER = '_____';
+export const RUBRIC_MIN_CRITERIA = 2;
+export const RUBRIC_MAX_CRITERIA = 5;
+export const RUBRIC_MAX_SCORE = 10; // skor maksimal per kriteria
+
+export interface ValidationIssue {
+  index: number; // posisi soal di output model (mulai dari 0)
+  errors: string[];
+}
+
+export interface ValidationResult {
+  valid: Question[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Fungsi untuk membersihkan dan mem-parsing JSON response dari AI
+ */
+export function parseAIResponse(response: string): unknown {
+  try {
+    // Coba parse langsung
+    return JSON.parse(response);
+  } catch {
+    // Jika gagal, coba ekstrak JSON dari string
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[0]);
+      } catch {
+        throw new Error('Gagal mem-parsing response dari AI');
+      }
+    }
+    throw new Error('Response dari AI tidak mengandung JSON yang valid');
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Cocokkan correctAnswer dengan salah satu opsi. Model kecil sering menjawab
+ * dengan huruf ("B") atau "B. teks opsi", jadi keduanya dinormalisasi ke teks opsi.
+ */
+function resolveCorrectOption(answer: string, options: string[]): string | undefined {
+  const normalized = answer.trim();
+  const exact = options.find(option => option === normalized);
+  if (exact) return exact;
+
+  const caseInsensitive = options.find(option => option.toLowerCase() === normalized.toLowerCase());
+  if (caseInsensitive) return caseInsensitive;
+
+  const letterMatch = normalized.match(/^([A-Da-d])(?:[.)]\s*(.*))?$/);
+  if (letterMatch) {
+    const option = options[letterMatch[1].toUpperCase().charCodeAt(0) - 65];
+    if (option && (!letterMatch[2] || letterMatch[2].trim().toLowerCase() === option.toLowerCase())) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Normalisasi jawaban benar/salah. Model sering menjawab "true", "B" atau "Salah."
+ */
+function resolveTrueFalse(answer: string): 'Benar' | 'Salah' | undefined {
+  const normalized = answer.trim().toLowerCase().replace(/[.!]$/, '');
+  if (['benar', 'b', 'true', 'ya'].includes(normalized)) return 'Benar';
+  if (['salah', 's', 'false', 'tidak'].includes(normalized)) return 'Salah';
+  return undefined;
+}
+
+/**
+ * Validasi pasangan soal menjodohkan; kesalahan ditambahkan ke `errors`
+ */
+function validatePairs(value: unknown, errors: string[]): MatchingPair[] {
+  if (!Array.isArray(value)) {
+    errors.push(`field "pairs" wajib berisi array ${MATCHING_MIN_PAIRS}-${MATCHING_MAX_PAIRS} pasangan`);
+    return [];
+  }
+  if (value.length < MATCHING_MIN_PAIRS || value.length > MATCHING_MAX_PAIRS) {
+    errors.push(`field "pairs" harus berisi ${MATCHING_MIN_PAIRS}-${MATCHING_MAX_PAIRS} pasangan, bukan ${value.length}`);
+  }
+  const pairs: MatchingPair[] = [];
+  for (const pair of value) {
+    const item = pair && typeof pair === 'object' ? (pair as Record<string, unknown>) : {};
+    if (!isNonEmptyString(item.left) || !isNonEmptyString(item.right)) {
+      errors.push('setiap pasangan wajib memiliki "left" dan "right" berupa teks');
+      return [];
+    }
+    pairs.push({ left: item.left.trim(), right: item.right.trim() });
+  }
+  for (const side of ['left', 'right'] as const) {
+    if (new Set(pairs.map(pair => pair[side].toLowerCase())).size !== pairs.length) {
+      errors.push(`isi "${side}" pada pasangan tidak boleh ada yang sama`);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Validasi rubrik esai; kesalahan ditambahkan ke `errors`. Rentang skor
+ * diurutkan dari yang tertinggi dan skor tertinggi harus sama dengan
+ * "maxScore" kriteria.
+ */
+export function validateRubric(value: unknown, errors: string[]): EssayRubric | undefined {
+  const rubric = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+  if (!rubric || !Array.isArray(rubric.criteria)) {
+    errors.push(`field "rubric" wajib berisi objek dengan array "criteria" (${RUBRIC_MIN_CRITERIA}-${RUBRIC_MAX_CRITERIA} kriteria)`);
+    return undefined;
+  }
+  const errorCount = errors.length;
+  if (rubric.criteria.length < RUBRIC_MIN_CRITERIA || rubric.criteria.length > RUBRIC_MAX_CRITERIA) {
+    errors.push(`"rubric.criteria" harus berisi ${RUBRIC_MIN_CRITERIA}-${RUBRIC_MAX_CRITERIA} kriteria, bukan ${rubric.criteria.length}`);
+  }
+
+  const criteria: RubricCriterion[] = [];
+  rubric.criteria.forEach((raw, index) => {
+    const item = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+    const label = `kriteria ${index + 1}`;
+    const { maxScore } = item;
+    if (!isNonEmptyString(item.name)) {
+      errors.push(`${label}: field "name" wajib berisi teks`);
+    }
+    if (typeof maxScore !== 'number' || !Number.isInteger(maxScore) || maxScore < 1 || maxScore > RUBRIC_MAX_SCORE) {
+      errors.push(`${label}: "maxScore" harus bilangan bulat 1-${RUBRIC_MAX_SCORE}`);
+      return;
+    }
+    if (!Array.isArray(item.bands) || item.bands.length < 2) {
+      errors.push(`${label}: "bands" wajib berisi minimal 2 rentang skor`);
+      return;
+    }
+    const bands: RubricBand[] = [];
+    for (const band of item.bands) {
+      const entry = band && typeof band === 'object' ? (band as Record<string, unknown>) : {};
+      if (typeof entry.score !== 'number' || !Number.isInteger(entry.score) || entry.score < 0 || entry.score > maxScore) {
+        errors.push(`${label}: skor setiap rentang harus bilangan bulat 0-${maxScore}`);
+        return;
+      }
+      if (!isNonEmptyString(entry.description)) {
+        errors.push(`${label}: setiap rentang skor wajib memiliki "description"`);
+        return;
+      }
+      bands.push({ score: entry.score, description: entry.description.trim() });
+    }
+    bands.sort((a, b) => b.score - a.score);
+    if (new Set(bands.map(band => band.score)).size !== bands.length) {
+      errors.push(`${label}: skor rentang tidak boleh ada yang sama`);
+    } else if (bands[0].score !== maxScore) {
+      errors.push(`${label}: rentang skor tertinggi harus ${maxScore} sesuai "maxScore"`);
+    }
+    if (isNonEmptyString(item.name)) {
+      criteria.push({ name: item.name.trim(), maxScore, bands });
+    }
+  });
+  if (new Set(criteria.map(criterion => criterion.name.toLowerCase())).size !== criteria.length) {
+    errors.push('nama kriteria rubrik tidak boleh ada yang sama');
+  }
+
+  // Satu poin jawaban ideal berupa teks biasa diterima sebagai array satu elemen
+  const modelAnswer = typeof rubric.modelAnswer === 'string' ? [rubric.modelAnswer] : rubric.modelAnswer;
+  if (!Array.isArray(modelAnswer) || modelAnswer.length === 0 || !modelAnswer.every(isNonEmptyString)) {
+    errors.push('"rubric.modelAnswer" wajib berisi array poin jawaban ideal berupa teks');
+    return undefined;
+  }
+  return errors.length === errorCount
+    ? { criteria, modelAnswer: modelAnswer.map(point => point.trim()) }
+    : undefined;
+}
+
+// Target level kognitif dan tujuan pembelajaran dari request
+export type QuestionTargets = Pick<GenerateRequest, 'bloomLevels' | 'objectives'>;
+
+/**
+ * Validasi level kognitif dan tujuan pembelajaran yang ditandai model.
+ * Jika request menyebut target, tanda pada soal wajib ada dan termasuk target.
+ */
+function validateTargets(item: Record<string, unknown>, targets: QuestionTargets, errors: string[]): Pick<Question, 'bloomLevel' | 'objective'> {
+  const bloomLevel = resolveBloomLevel(item.bloomLevel);
+  const { bloomLevels, objectives } = targets;
+  if (bloomLevels && (!bloomLevel || !bloomLevels.includes(bloomLevel))) {
+    const codes = bloomLevels.map(level => BLOOM_LEVEL_INFO[level].code).join(', ');
+    errors.push(`field "bloomLevel" wajib berisi salah satu level: ${codes}`);
+  }
+
+  let objective: string | undefined;
+  if (objectives) {
+    const labels = objectives.map(objectiveLabel);
+    const written = typeof item.objective === 'string' ? item.objective.trim() : '';
+    objective = labels.find(label => label.toLowerCase() === written.toLowerCase())
+      // Model kadang menulis "3.1 Menjelaskan ..." lengkap dengan deskripsinya
+      ?? labels.find(label => written.toLowerCase().startsWith(`${label.toLowerCase()} `))
+      // Hanya satu tujuan: tidak perlu dipilih
+      ?? (labels.length === 1 ? labels[0] : undefined);
+    if (!objective) {
+      errors.push(`field "objective" wajib berisi salah satu tujuan: ${labels.join(', ')}`);
+    }
+  }
+  return { bloomLevel, objective };
+}
+
+/**
+ * Validasi satu soal terhadap skema sesuai jenisnya.
+ * Mengembalikan soal yang sudah dinormalisasi atau daftar kesalahan.
+ */
+export function validateQuestion(
+  raw: unknown,
+  questionType: QuestionType,
+  targets: QuestionTargets = {}
+): { question?: Question; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: ['soal harus berupa objek JSON'] };
+  }
+  const item = raw as Record<string, unknown>;
+
+  if (!isNonEmptyString(item.question)) {
+    errors.push('field "question" wajib berisi teks');
+  }
+  if (item.explanation !== undefined && typeof item.explanation !== 'string') {
+    errors.push('field "explanation" harus berupa teks');
+  }
+  // sourcePage opsional; nilai yang tidak masuk akal cukup diabaikan
+  const sourcePage = typeof item.sourcePage === 'number' && Number.isInteger(item.sourcePage) && item.sourcePage > 0
+    ? item.sourcePage
+    : undefined;
+  const tags = { ...validateTargets(item, targets, errors), sourcePage };
+
+  switch (questionType) {
+    case 'multiple-choice': {
+      const options = item.options;
+      if (!Array.isArray(options)) {
+        errors.push(`field "options" wajib berisi array ${MC_OPTION_COUNT} opsi`);
+        break;
+      }
+      if (options.length !== MC_OPTION_COUNT) {
+        errors.push(`field "options" harus berisi tepat ${MC_OPTION_COUNT} opsi, bukan ${options.length}`);
+      }
+      if (!options.every(isNonEmptyString)) {
+        errors.push('setiap opsi harus berupa teks yang tidak kosong');
+        break;
+      }
+      const trimmed = options.map(option => option.trim());
+      if (new Set(trimmed.map(option => option.toLowerCase())).size !== trimmed.length) {
+        errors.push('opsi tidak boleh ada yang sama');
+      }
+      if (!isNonEmptyString(item.correctAnswer)) {
+        errors.push('field "correctAnswer" wajib diisi dengan teks salah satu opsi');
+        break;
+      }
+      const correct = resolveCorrectOption(item.correctAnswer, trimmed);
+      if (!correct) {
+        errors.push(`"correctAnswer" ("${item.correctAnswer}") tidak sama dengan opsi mana pun`);
+      }
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim(),
+            options: trimmed,
+            correctAnswer: correct,
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+    case 'essay': {
+      if (item.options !== undefined) {
+        errors.push('soal esai tidak boleh memiliki "options"');
+      }
+      const rubric = validateRubric(item.rubric, errors);
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim(),
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            rubric,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+    case 'true-false': {
+      // Opsi "Benar"/"Salah" yang kadang ikut ditulis model cukup diabaikan
+      const correct = isNonEmptyString(item.correctAnswer) ? resolveTrueFalse(item.correctAnswer) : undefined;
+      if (!correct) {
+        errors.push('field "correctAnswer" wajib berisi "Benar" atau "Salah"');
+      }
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim(),
+            correctAnswer: correct,
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+    case 'fill-in-the-blank': {
+      const blanks = isNonEmptyString(item.question) ? item.question.match(/_{3,}/g) ?? [] : [];
+      if (isNonEmptyString(item.question) && blanks.length !== 1) {
+        errors.push(`kalimat soal harus berisi tepat satu bagian rumpang "${BLANK_MARKER}", bukan ${blanks.length}`);
+      }
+      if (!isNonEmptyString(item.correctAnswer)) {
+        errors.push('field "correctAnswer" wajib berisi kata pengisi bagian rumpang');
+      }
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim().replace(/_{3,}/, BLANK_MARKER),
+            correctAnswer: (item.correctAnswer as string).trim(),
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+    case 'matching': {
+      const pairs = validatePairs(item.pairs, errors);
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim(),
+            pairs,
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+    case 'short-answer': {
+      if (item.options !== undefined) {
+        errors.push('soal jawaban singkat tidak boleh memiliki "options"');
+      }
+      if (!isNonEmptyString(item.correctAnswer)) {
+        errors.push('field "correctAnswer" wajib berisi jawaban singkat');
+      } else if (item.correctAnswer.trim().split(/\s+/).length > SHORT_ANSWER_MAX_WORDS) {
+        errors.push(`"correctAnswer" terlalu panjang, maksimal ${SHORT_ANSWER_MAX_WORDS} kata`);
+      }
+      if (errors.length === 0) {
+        return {
+          question: {
+            question: (item.question as string).trim(),
+            correctAnswer: (item.correctAnswer as string).trim(),
+            explanation: isNonEmptyString(item.explanation) ? item.explanation.trim() : undefined,
+            ...tags
+          },
+          errors
+        };
+      }
+      break;
+    }
+  }
+
+  return { errors };
+}
+
+/**
+ * Validasi seluruh output model. Soal yang tidak valid dibuang dan dicatat kesalahannya.
+ */
+export function validateQuestionResponse(raw: unknown, questionType: QuestionType, targets: QuestionTargets = {}): ValidationResult {
+  const questions = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).questions : undefined;
+  if (!Array.isArray(questions)) {
+    return { valid: [], issues: [{ index: -1, errors: ['output harus berupa objek dengan array "questions"'] }] };
+  }
+
+  const valid: Question[] = [];
+  const issues: ValidationIssue[] = [];
+  questions.forEach((item, index) => {
+    const result = validateQuestion(item, questionType, targets);
+    if (result.question) {
+      valid.push(result.question);
+    } else {
+      issues.push({ index, errors: result.errors });
+    }
+  });
+  return { valid, issues };
+}
+
+/**
+ * Ringkas kesalahan validasi menjadi daftar yang bisa dikirim balik ke model
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => `- ${issue.index < 0 ? 'Output' : `Soal ${issue.index + 1}`}: ${issue.errors.join('; ')}`)
+    .join('\n');
+}
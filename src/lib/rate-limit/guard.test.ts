@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enforceQuestionQuota, enforceRateLimit, getClientIdentity, releaseQuestionQuota, setRateLimitStore } from './guard';
+import { createMemoryStore } from './memory-store';
+
+const headers = (entries: Record<string, string>) => new Headers(entries);
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryStore());
+  vi.stubEnv('RATE_LIMIT_ENABLED', 'true');
+  vi.stubEnv('RATE_LIMIT_TRUST_PROXY', '1');
+  vi.stubEnv('RATE_LIMIT_USER_HEADER', '');
+  vi.stubEnv('RATE_LIMIT_CLIENT_IP_HEADER', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getClientIdentity', () => {
+  it('memakai entri X-Forwarded-For yang ditulis proxy tepercaya', () => {
+    const request = headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' });
+    expect(getClientIdentity(request)).toBe('ip:203.0.113.7');
+
+    vi.stubEnv('RATE_LIMIT_TRUST_PROXY', '2');
+    expect(getClientIdentity(headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2' }))).toBe('ip:203.0.113.7');
+  });
+
+  it('tidak mempercayai header klien tanpa konfigurasi proxy', () => {
+    vi.stubEnv('RATE_LIMIT_TRUST_PROXY', '0');
+    expect(getClientIdentity(headers({ 'x-forwarded-for': '203.0.113.7' }))).toBeUndefined();
+  });
+
+  it('mendahulukan header pengguna dan header IP yang diatur', () => {
+    vi.stubEnv('RATE_LIMIT_USER_HEADER', 'x-user-id');
+    vi.stubEnv('RATE_LIMIT_CLIENT_IP_HEADER', 'cf-connecting-ip');
+
+    expect(getClientIdentity(headers({ 'x-user-id': 'guru-1', 'cf-connecting-ip': '198.51.100.1' }))).toBe('user:guru-1');
+    expect(getClientIdentity(headers({ 'cf-connecting-ip': '198.51.100.1', 'x-forwarded-for': '6.6.6.6' }))).toBe('ip:198.51.100.1');
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('mengembalikan 429 dengan Retry-After setelah batas per menit habis', async () => {
+    vi.stubEnv('RATE_LIMIT_GENERATE_PER_MINUTE', '2');
+    const request = headers({ 'x-forwarded-for': '203.0.113.7' });
+
+    expect(await enforceRateLimit(request, 'generate')).toBeUndefined();
+    expect(await enforceRateLimit(request, 'generate')).toBeUndefined();
+    const response = await enforceRateLimit(request, 'generate');
+
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('Retry-After')).toBe('30');
+    expect(await response?.json()).toMatchObject({ reason: 'rate-limit', limit: 2, remaining: 0 });
+    expect(await enforceRateLimit(headers({ 'x-forwarded-for': '203.0.113.8' }), 'generate')).toBeUndefined();
+  });
+
+  it('menolak dengan 503 di production jika identitas tidak bisa ditentukan', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('RATE_LIMIT_TRUST_PROXY', '0');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await enforceRateLimit(headers({}), 'data');
+    expect(response?.status).toBe(503);
+    expect(await response?.json()).toMatchObject({ reason: 'rate-limit-unconfigured' });
+  });
+
+  it('tidak membatasi jika RATE_LIMIT_ENABLED=false', async () => {
+    vi.stubEnv('RATE_LIMIT_ENABLED', 'false');
+    vi.stubEnv('RATE_LIMIT_GENERATE_PER_MINUTE', '1');
+    const request = headers({ 'x-forwarded-for': '203.0.113.7' });
+
+    expect(await enforceRateLimit(request, 'generate')).toBeUndefined();
+    expect(await enforceRateLimit(request, 'generate')).toBeUndefined();
+  });
+});
+
+describe('kuota soal', () => {
+  it('mengembalikan soal yang tidak dihasilkan ke kuota pemanggil', async () => {
+    vi.stubEnv('DAILY_QUESTION_QUOTA', '10');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = headers({ 'x-forwarded-for': '203.0.113.7' });
+
+    expect(await enforceQuestionQuota(request, 8)).toBeUndefined();
+    const rejected = await enforceQuestionQuota(request, 5);
+    expect(rejected?.status).toBe(429);
+    expect(await rejected?.json()).toMatchObject({ reason: 'quota', limit: 10, remaining: 2 });
+
+    // 3 dari 8 soal gagal dibuat
+    await releaseQuestionQuota(request, 3);
+    expect(await enforceQuestionQuota(request, 5)).toBeUndefined();
+    expect((await enforceQuestionQuota(request, 1))?.status).toBe(429);
+  });
+});
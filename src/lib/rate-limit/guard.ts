@@ -0,0 +1,260 @@
+import { consumeDailyQuota, consumeToken, releaseDailyQuota } from './limiter';
+import { createMemoryStore } from './memory-store';
+import { BucketConfig, RateLimitDecision, RateLimitStore } from './types';
+
+/**
+ * Perlindungan route API: batas permintaan per menit untuk setiap kelompok
+ * route, kuota soal harian untuk pembuatan soal dan batas ukuran body.
+ * Semua batas dihitung per IP dari header proxy tepercaya, atau per pengguna
+ * jika header pengguna dari proxy autentikasi diatur (lihat getClientIdentity).
+ *
+ * Environment variable:
+ * - RATE_LIMIT_ENABLED=false mematikan semua batas
+ * - RATE_LIMIT_GENERATE_PER_MINUTE, RATE_LIMIT_EXTRACT_PER_MINUTE, RATE_LIMIT_AI_PER_MINUTE,
+ *   RATE_LIMIT_DATA_PER_MINUTE (0 = tanpa batas)
+ * - DAILY_QUESTION_QUOTA jumlah soal per hari (0 = tanpa kuota)
+ * - MAX_MATERIAL_LENGTH panjang materi maksimum dalam karakter
+ * - RATE_LIMIT_USER_HEADER nama header berisi ID pengguna, mis. `x-user-id`
+ * - RATE_LIMIT_CLIENT_IP_HEADER nama header berisi IP klien yang ditulis proxy, mis. `cf-connecting-ip`
+ * - RATE_LIMIT_TRUST_PROXY jumlah reverse proxy tepercaya di depan aplikasi (default 0)
+ */
+
+export type RateLimitScope = 'generate' | 'extract' | 'ai' | 'data';
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitScope, number> = {
+  generate: 10, // /api/generate-questions
+  extract: 10, // /api/extract-text
+  ai: 30, // route lain yang memanggil LLM: penilaian esai, cek kesesuaian, pengecoh, terjemahan
+  data: 60 // route tanpa LLM yang menerima body: bank soal dan export
+};
+
+const RATE_LIMIT_ENV: Record<RateLimitScope, string> = {
+  generate: 'RATE_LIMIT_GENERATE_PER_MINUTE',
+  extract: 'RATE_LIMIT_EXTRACT_PER_MINUTE',
+  ai: 'RATE_LIMIT_AI_PER_MINUTE',
+  data: 'RATE_LIMIT_DATA_PER_MINUTE'
+};
+
+export const DEFAULT_DAILY_QUESTION_QUOTA = 200;
+
+export const DEFAULT_MAX_MATERIAL_LENGTH = 200000;
+
+// Batas body JSON, cukup untuk materi terpanjang ditambah soal dan opsi lain
+export const MAX_JSON_BODY_BYTES = 2 * 1024 * 1024;
+
+// Panjang ID pengguna dari header dibatasi supaya tidak bisa membuat key yang sangat panjang
+const MAX_IDENTITY_LENGTH = 100;
+
+// Bucket bersama di development jika identitas pemanggil tidak bisa ditentukan
+const UNCONFIGURED_IDENTITY = 'unconfigured';
+
+// Satu store per proses; disimpan di globalThis supaya bucket tidak ter-reset saat hot reload
+const globalForRateLimit = globalThis as unknown as { rateLimitStore?: RateLimitStore; identityWarned?: boolean };
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.rateLimitStore) {
+    globalForRateLimit.rateLimitStore = createMemoryStore();
+  }
+  return globalForRateLimit.rateLimitStore;
+}
+
+/**
+ * Ganti store, mis. dengan penyimpanan bersama untuk beberapa instance
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.rateLimitStore = store;
+}
+
+function readNumberEnv(key: string, fallback: number): number {
+  const value = parseInt(process.env[key] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== 'false';
+}
+
+/**
+ * Bucket untuk sebuah kelompok route: `n` permintaan per menit, boleh
+ * beruntun sampai `n` sekaligus. undefined jika tanpa batas.
+ */
+export function getBucketConfig(scope: RateLimitScope): BucketConfig | undefined {
+  const perMinute = readNumberEnv(RATE_LIMIT_ENV[scope], DEFAULT_RATE_LIMITS[scope]);
+  return perMinute > 0 ? { capacity: perMinute, refillPerMinute: perMinute } : undefined;
+}
+
+export function getDailyQuestionQuota(): number {
+  return readNumberEnv('DAILY_QUESTION_QUOTA', DEFAULT_DAILY_QUESTION_QUOTA);
+}
+
+/**
+ * Panjang materi maksimum (karakter) dari MAX_MATERIAL_LENGTH
+ */
+export function getMaxMaterialLength(): number {
+  return readNumberEnv('MAX_MATERIAL_LENGTH', DEFAULT_MAX_MATERIAL_LENGTH) || DEFAULT_MAX_MATERIAL_LENGTH;
+}
+
+/**
+ * Identitas pemanggil: ID pengguna dari header proxy autentikasi jika
+ * diatur, selain itu alamat IP klien. Route handler tidak menerima alamat
+ * socket, dan header yang bisa diisi klien hanya dipercaya jika diatur:
+ * RATE_LIMIT_USER_HEADER untuk ID pengguna, RATE_LIMIT_CLIENT_IP_HEADER untuk
+ * header IP dari proxy, atau RATE_LIMIT_TRUST_PROXY (jumlah proxy di depan
+ * aplikasi) untuk X-Forwarded-For. undefined jika tidak ada yang diatur.
+ */
+export function getClientIdentity(headers: Headers): string | undefined {
+  const userHeader = process.env.RATE_LIMIT_USER_HEADER?.trim();
+  const userId = userHeader ? headers.get(userHeader)?.trim() : undefined;
+  if (userId) return `user:${userId.slice(0, MAX_IDENTITY_LENGTH)}`;
+
+  const ipHeader = process.env.RATE_LIMIT_CLIENT_IP_HEADER?.trim();
+  const ip = ipHeader
+    ? headers.get(ipHeader)?.trim()
+    : getTrustedProxyCount() > 0 ? readForwardedAddress(headers) : undefined;
+  return ip ? `ip:${ip.slice(0, MAX_IDENTITY_LENGTH)}` : undefined;
+}
+
+/**
+ * Identitas untuk key bucket. Tanpa identitas, semua pemanggil akan berbagi
+ * satu bucket sehingga satu pemanggil bisa menghabiskan batas semua orang:
+ * di production request ditolak dengan 503, di development dipakai satu
+ * bucket bersama. Keduanya dicatat sekali di log server.
+ */
+function resolveIdentity(headers: Headers): string | Response {
+  const identity = getClientIdentity(headers);
+  if (identity) return identity;
+
+  const production = process.env.NODE_ENV === 'production';
+  if (!globalForRateLimit.identityWarned) {
+    globalForRateLimit.identityWarned = true;
+    console.error(
+      `❌ RATE LIMIT - identitas pemanggil tidak bisa ditentukan. Atur RATE_LIMIT_TRUST_PROXY, RATE_LIMIT_CLIENT_IP_HEADER ` +
+        `atau RATE_LIMIT_USER_HEADER sesuai proxy di depan aplikasi, atau RATE_LIMIT_ENABLED=false. ` +
+        (production ? 'Request yang dibatasi ditolak sampai dikonfigurasi.' : 'Di development semua request memakai satu bucket bersama.')
+    );
+  }
+  if (!production) return UNCONFIGURED_IDENTITY;
+  return Response.json(
+    { error: 'Batas permintaan server belum dikonfigurasi. Hubungi administrator.', reason: 'rate-limit-unconfigured' },
+    { status: 503 }
+  );
+}
+
+function getTrustedProxyCount(): number {
+  return readNumberEnv('RATE_LIMIT_TRUST_PROXY', 0);
+}
+
+/**
+ * Alamat klien dari X-Forwarded-For di belakang `n` proxy tepercaya. Setiap
+ * proxy menambahkan alamat pemanggilnya di akhir, jadi entri ke-n dari
+ * belakang adalah alamat yang dilihat proxy terluar; entri sebelumnya bisa
+ * dipalsukan klien.
+ */
+function readForwardedAddress(headers: Headers): string | undefined {
+  const chain = (headers.get('x-forwarded-for') ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (chain.length === 0) return headers.get('x-real-ip')?.trim() || undefined;
+  return chain[Math.max(0, chain.length - getTrustedProxyCount())];
+}
+
+/**
+ * Waktu tunggu dalam bahasa sehari-hari untuk pesan error
+ */
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} detik`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} menit`;
+  return `${Math.ceil(seconds / 3600)} jam`;
+}
+
+/**
+ * Response 429 dengan Retry-After. `reason` membedakan batas per menit dan
+ * kuota harian supaya tampilan bisa menampilkan pesan yang sesuai.
+ */
+function tooManyRequests(decision: RateLimitDecision, reason: 'rate-limit' | 'quota', error: string): Response {
+  return Response.json(
+    { error, reason, retryAfter: decision.retryAfterSeconds, limit: decision.limit, remaining: decision.remaining },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(decision.retryAfterSeconds),
+        'X-RateLimit-Limit': String(decision.limit),
+        'X-RateLimit-Remaining': String(decision.remaining)
+      }
+    }
+  );
+}
+
+/**
+ * Ambil satu token dari bucket pemanggil untuk `scope`. Mengembalikan
+ * response 429 jika batas terlampaui, undefined jika boleh lanjut.
+ */
+export async function enforceRateLimit(headers: Headers, scope: RateLimitScope): Promise<Response | undefined> {
+  const config = getBucketConfig(scope);
+  if (!isRateLimitEnabled() || !config) return undefined;
+
+  const identity = resolveIdentity(headers);
+  if (identity instanceof Response) return identity;
+  const decision = await consumeToken(getRateLimitStore(), `rate:${scope}:${identity}`, config);
+  if (decision.allowed) return undefined;
+
+  console.warn(`⚠️ RATE LIMIT - ${scope} for ${identity}, retry after ${decision.retryAfterSeconds}s`);
+  return tooManyRequests(
+    decision,
+    'rate-limit',
+    `Terlalu banyak permintaan. Silakan coba lagi dalam ${formatWait(decision.retryAfterSeconds)}.`
+  );
+}
+
+/**
+ * Pesan `questionCount` soal dari kuota harian pemanggil. Dipanggil setelah
+ * request lolos validasi supaya request yang ditolak tidak memakan kuota;
+ * soal yang akhirnya tidak dihasilkan dikembalikan dengan releaseQuestionQuota.
+ */
+export async function enforceQuestionQuota(headers: Headers, questionCount: number): Promise<Response | undefined> {
+  const quota = getDailyQuestionQuota();
+  if (!isRateLimitEnabled() || quota === 0) return undefined;
+
+  const identity = resolveIdentity(headers);
+  if (identity instanceof Response) return identity;
+  const decision = await consumeDailyQuota(getRateLimitStore(), `quota:questions:${identity}`, quota, questionCount);
+  if (decision.allowed) return undefined;
+
+  console.warn(`⚠️ QUOTA - ${identity} requested ${questionCount} question(s), ${decision.remaining}/${quota} left`);
+  return tooManyRequests(
+    decision,
+    'quota',
+    `Permintaan ${questionCount} soal melebihi sisa kuota harian (${decision.remaining} dari ${quota} soal). ` +
+      `Kuota direset dalam ${formatWait(decision.retryAfterSeconds)}.`
+  );
+}
+
+/**
+ * Kembalikan soal yang sudah dipesan lewat enforceQuestionQuota tetapi tidak
+ * dihasilkan: generate gagal, dibatalkan, atau menghasilkan lebih sedikit soal
+ */
+export async function releaseQuestionQuota(headers: Headers, questionCount: number): Promise<void> {
+  if (!isRateLimitEnabled() || getDailyQuestionQuota() === 0 || questionCount <= 0) return;
+  const identity = resolveIdentity(headers);
+  if (identity instanceof Response) return;
+  await releaseDailyQuota(getRateLimitStore(), `quota:questions:${identity}`, questionCount);
+}
+
+/**
+ * Tolak body yang lebih besar dari `maxBytes` berdasarkan Content-Length,
+ * sebelum body dibaca. Request tanpa Content-Length (mis. chunked) juga
+ * ditolak karena ukurannya baru diketahui setelah seluruh body dibaca.
+ */
+export function enforceBodySize(headers: Headers, maxBytes: number): Response | undefined {
+  const header = headers.get('content-length')?.trim();
+  if (!header || !/^\d+$/.test(header)) {
+    return Response.json(
+      { error: 'Header Content-Length wajib diisi', reason: 'content-length-required' },
+      { status: 411 }
+    );
+  }
+  if (Number(header) <= maxBytes) return undefined;
+  const limit = Math.floor(maxBytes / (1024 * 1024));
+  return Response.json(
+    { error: `Ukuran request maksimal ${limit}MB`, reason: 'request-too-large', limit },
+    { status: 413 }
+  );
+}
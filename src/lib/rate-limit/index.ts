@@ -0,0 +1,4 @@
+export * from './types';
+export * from './memory-store';
+export * from './limiter';
+export * from './guard';
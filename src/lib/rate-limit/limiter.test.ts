@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { consumeDailyQuota, consumeToken, getNextQuotaReset, refillBucket, releaseDailyQuota } from './limiter';
+import { createMemoryStore } from './memory-store';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// 2026-03-10 08:00 UTC
+const NOW = Date.UTC(2026, 2, 10, 8);
+
+describe('refillBucket', () => {
+  it('mulai penuh untuk bucket baru', () => {
+    expect(refillBucket(undefined, { capacity: 5, refillPerMinute: 5 }, NOW)).toEqual({ tokens: 5, updatedAt: NOW });
+  });
+
+  it('mengisi ulang sebanding dengan waktu yang lewat tanpa melewati kapasitas', () => {
+    const config = { capacity: 10, refillPerMinute: 6 };
+    expect(refillBucket({ tokens: 0, updatedAt: NOW }, config, NOW + 30 * 1000).tokens).toBe(3);
+    expect(refillBucket({ tokens: 8, updatedAt: NOW }, config, NOW + 5 * MINUTE_MS).tokens).toBe(10);
+    // Jam mundur tidak mengurangi token
+    expect(refillBucket({ tokens: 4, updatedAt: NOW }, config, NOW - MINUTE_MS).tokens).toBe(4);
+  });
+});
+
+describe('consumeToken', () => {
+  const config = { capacity: 3, refillPerMinute: 3 };
+
+  it('mengizinkan permintaan beruntun sampai kapasitas lalu menolak', async () => {
+    const store = createMemoryStore(() => NOW);
+    const decisions = [];
+    for (let i = 0; i < 4; i++) decisions.push(await consumeToken(store, 'rate:generate:ip:1', config, 1, NOW));
+
+    expect(decisions.map(decision => decision.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map(decision => decision.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3]).toMatchObject({ limit: 3, retryAfterSeconds: 20 });
+  });
+
+  it('mengizinkan lagi setelah token terisi ulang', async () => {
+    let time = NOW;
+    const store = createMemoryStore(() => time);
+    for (let i = 0; i < 3; i++) await consumeToken(store, 'key', config, 1, time);
+    expect((await consumeToken(store, 'key', config, 1, time)).allowed).toBe(false);
+
+    time += 20 * 1000;
+    const decision = await consumeToken(store, 'key', config, 1, time);
+    expect(decision).toMatchObject({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+  });
+
+  it('memisahkan bucket per key', async () => {
+    const store = createMemoryStore(() => NOW);
+    for (let i = 0; i < 3; i++) await consumeToken(store, 'ip:a', config, 1, NOW);
+
+    expect((await consumeToken(store, 'ip:a', config, 1, NOW)).allowed).toBe(false);
+    expect((await consumeToken(store, 'ip:b', config, 1, NOW)).allowed).toBe(true);
+  });
+
+  it('tidak mengurangi token jika biaya melebihi sisa', async () => {
+    const store = createMemoryStore(() => NOW);
+    const rejected = await consumeToken(store, 'key', config, 5, NOW);
+
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterSeconds).toBe(40);
+    expect((await consumeToken(store, 'key', config, 3, NOW)).allowed).toBe(true);
+  });
+});
+
+describe('kuota harian', () => {
+  it('reset di awal hari berikutnya (UTC)', () => {
+    expect(getNextQuotaReset(NOW)).toBe(Date.UTC(2026, 2, 11));
+    expect(getNextQuotaReset(Date.UTC(2026, 2, 11))).toBe(Date.UTC(2026, 2, 12));
+  });
+
+  it('menolak permintaan yang melebihi sisa kuota tanpa memakainya', async () => {
+    const store = createMemoryStore(() => NOW);
+
+    expect(await consumeDailyQuota(store, 'quota:ip:1', 10, 6, NOW)).toMatchObject({ allowed: true, remaining: 4 });
+    const rejected = await consumeDailyQuota(store, 'quota:ip:1', 10, 5, NOW);
+    expect(rejected).toMatchObject({ allowed: false, remaining: 4, limit: 10 });
+    expect(rejected.retryAfterSeconds).toBe(16 * 60 * 60);
+    expect(await consumeDailyQuota(store, 'quota:ip:1', 10, 4, NOW)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('mengembalikan soal yang gagal dibuat ke kuota', async () => {
+    const store = createMemoryStore(() => NOW);
+    await consumeDailyQuota(store, 'quota:ip:1', 10, 10, NOW);
+
+    await releaseDailyQuota(store, 'quota:ip:1', 3, NOW);
+    expect(await consumeDailyQuota(store, 'quota:ip:1', 10, 3, NOW)).toMatchObject({ allowed: true, remaining: 0 });
+
+    // Pengembalian tidak membuat pemakaian negatif
+    await releaseDailyQuota(store, 'quota:ip:1', 50, NOW);
+    expect(await consumeDailyQuota(store, 'quota:ip:1', 10, 11, NOW)).toMatchObject({ allowed: false, remaining: 10 });
+  });
+
+  it('mulai dari nol di hari berikutnya', async () => {
+    let time = NOW;
+    const store = createMemoryStore(() => time);
+    await consumeDailyQuota(store, 'quota:ip:1', 10, 10, time);
+
+    time += DAY_MS;
+    expect(await consumeDailyQuota(store, 'quota:ip:1', 10, 10, time)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
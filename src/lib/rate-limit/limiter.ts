@@ -0,0 +1,106 @@
+import { BucketConfig, BucketState, RateLimitDecision, RateLimitStore } from './types';
+
+/**
+ * Token bucket dan kuota harian di atas `RateLimitStore`. Setiap permintaan
+ * mengambil token dari bucket; token kembali perlahan sesuai
+ * `refillPerMinute` sampai penuh lagi di `capacity`.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Isi ulang bucket sesuai waktu yang sudah lewat sejak update terakhir
+ */
+export function refillBucket(state: BucketState | undefined, config: BucketConfig, now: number): BucketState {
+  if (!state) return { tokens: config.capacity, updatedAt: now };
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return {
+    tokens: Math.min(config.capacity, state.tokens + (elapsed * config.refillPerMinute) / MINUTE_MS),
+    updatedAt: now
+  };
+}
+
+/**
+ * Ambil `cost` token dari bucket `key`. Jika token tidak cukup, bucket tidak
+ * berubah dan `retryAfterSeconds` berisi waktu tunggu sampai token cukup.
+ */
+export async function consumeToken(
+  store: RateLimitStore,
+  key: string,
+  config: BucketConfig,
+  cost = 1,
+  now = Date.now()
+): Promise<RateLimitDecision> {
+  let allowed = false;
+  // Bucket kosong penuh kembali setelah capacity / refillPerMinute menit; lewat dari itu state tidak perlu disimpan
+  const ttlMs = Math.ceil((config.capacity / config.refillPerMinute) * MINUTE_MS);
+  const state = await store.update<BucketState>(key, ttlMs, current => {
+    const refilled = refillBucket(current, config, now);
+    allowed = refilled.tokens >= cost;
+    return allowed ? { ...refilled, tokens: refilled.tokens - cost } : refilled;
+  });
+
+  const missing = Math.max(0, cost - state.tokens);
+  return {
+    allowed,
+    limit: config.capacity,
+    remaining: Math.floor(state.tokens),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((missing / config.refillPerMinute) * 60))
+  };
+}
+
+/**
+ * Awal hari berikutnya (UTC) sebagai batas reset kuota harian
+ */
+export function getNextQuotaReset(now = Date.now()): number {
+  return Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+}
+
+// Key kuota untuk hari berjalan, disimpan sampai kuota direset
+function getDailyQuotaEntry(key: string, now: number): { dayKey: string; resetAt: number } {
+  const resetAt = getNextQuotaReset(now);
+  return { dayKey: `${key}:${new Date(resetAt - DAY_MS).toISOString().slice(0, 10)}`, resetAt };
+}
+
+/**
+ * Pakai `amount` unit dari kuota harian `key`. Permintaan yang melebihi sisa
+ * kuota ditolak seluruhnya tanpa mengurangi kuota.
+ */
+export async function consumeDailyQuota(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  amount: number,
+  now = Date.now()
+): Promise<RateLimitDecision> {
+  const { dayKey, resetAt } = getDailyQuotaEntry(key, now);
+  let allowed = false;
+  const used = await store.update<number>(dayKey, resetAt - now, current => {
+    const usedSoFar = current ?? 0;
+    allowed = usedSoFar + amount <= limit;
+    return allowed ? usedSoFar + amount : usedSoFar;
+  });
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - used),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - now) / 1000))
+  };
+}
+
+/**
+ * Kembalikan `amount` unit ke kuota harian `key`, mis. untuk soal yang sudah
+ * dipesan tetapi gagal dibuat
+ */
+export async function releaseDailyQuota(
+  store: RateLimitStore,
+  key: string,
+  amount: number,
+  now = Date.now()
+): Promise<void> {
+  if (amount <= 0) return;
+  const { dayKey, resetAt } = getDailyQuotaEntry(key, now);
+  await store.update<number>(dayKey, resetAt - now, current => Math.max(0, (current ?? 0) - amount));
+}
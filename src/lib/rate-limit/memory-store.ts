@@ -0,0 +1,37 @@
+import { RateLimitStore } from './types';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Entri kedaluwarsa dibersihkan setiap sekian kali update supaya Map tidak terus membesar
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Penyimpanan rate limit di memori proses. State hilang saat server
+ * restart dan tidak dibagi antar-instance.
+ */
+export function createMemoryStore(now: () => number = Date.now): RateLimitStore {
+  const entries = new Map<string, Entry>();
+  let updates = 0;
+
+  const sweep = (time: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= time) entries.delete(key);
+    }
+  };
+
+  return {
+    async update<T>(key: string, ttlMs: number, update: (current: T | undefined) => T): Promise<T> {
+      const time = now();
+      if (++updates % SWEEP_INTERVAL === 0) sweep(time);
+
+      const entry = entries.get(key);
+      const current = entry && entry.expiresAt > time ? (entry.value as T) : undefined;
+      const value = update(current);
+      entries.set(key, { value, expiresAt: time + ttlMs });
+      return value;
+    }
+  };
+}
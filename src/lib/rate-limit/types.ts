@@ -0,0 +1,30 @@
+/**
+ * Penyimpanan state rate limit. Implementasi bawaan ada di memori proses;
+ * deployment dengan beberapa instance bisa memakai penyimpanan bersama
+ * (misalnya Redis) dengan interface yang sama.
+ */
+export interface RateLimitStore {
+  /**
+   * Ubah nilai `key` secara atomik. `update` menerima nilai lama (undefined
+   * jika belum ada atau sudah kedaluwarsa) dan mengembalikan nilai baru yang
+   * disimpan selama `ttlMs`.
+   */
+  update<T>(key: string, ttlMs: number, update: (current: T | undefined) => T): Promise<T>;
+}
+
+export interface BucketConfig {
+  capacity: number; // jumlah token maksimum (permintaan beruntun yang diizinkan)
+  refillPerMinute: number; // token yang kembali setiap menit
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // epoch ms
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 jika diizinkan
+}